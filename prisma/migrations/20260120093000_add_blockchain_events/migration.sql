@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "blockchain_events" (
+    "id" TEXT NOT NULL,
+    "transactionHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "blockHash" TEXT,
+    "eventName" TEXT NOT NULL,
+    "contractAddress" TEXT NOT NULL,
+    "args" TEXT NOT NULL,
+    "processedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deleted" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "blockchain_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "blockchain_events_eventName_idx" ON "blockchain_events"("eventName");
+
+-- CreateIndex
+CREATE INDEX "blockchain_events_blockNumber_idx" ON "blockchain_events"("blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "blockchain_events_transactionHash_logIndex_key" ON "blockchain_events"("transactionHash", "logIndex");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "sync_checkpoints" (
+    "id" TEXT NOT NULL,
+    "contractAddress" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "lastSyncedBlock" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deleted" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "sync_checkpoints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sync_checkpoints_contractAddress_eventType_key" ON "sync_checkpoints"("contractAddress", "eventType");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "blockchain_events" ADD COLUMN "finalized" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "sync_checkpoints" ADD COLUMN "lastSyncedBlockHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "blockchain_events_finalized_idx" ON "blockchain_events"("finalized");
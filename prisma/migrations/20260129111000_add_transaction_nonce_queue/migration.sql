@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "TRANSACTION_TYPE" ADD VALUE 'WITHDRAW_PROJECT';
+ALTER TYPE "TRANSACTION_TYPE" ADD VALUE 'FINISH_PROJECT';
+ALTER TYPE "TRANSACTION_TYPE" ADD VALUE 'CONTRACT_CALL';
+
+-- AlterTable
+ALTER TABLE "blockchain_transactions" ADD COLUMN     "nonce" INTEGER,
+ADD COLUMN     "rawTransaction" TEXT;
+
+-- CreateIndex
+CREATE INDEX "blockchain_transactions_fromAddress_nonce_idx" ON "blockchain_transactions"("fromAddress", "nonce");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "blockchain_transactions" ADD COLUMN     "replacementHashes" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,26 @@
+-- AlterTable AppProject: network label and default deployment flag
+ALTER TABLE "AppProject" ADD COLUMN     "networkName" TEXT,
+ADD COLUMN     "isDefault" BOOLEAN NOT NULL DEFAULT false;
+
+-- The deployment previously looked up by name becomes the default
+UPDATE "AppProject" SET "isDefault" = true
+WHERE "id" = (
+    SELECT "id" FROM "AppProject"
+    WHERE "name" = 'StomaTrade' AND "deleted" = false
+    ORDER BY "createdAt" ASC
+    LIMIT 1
+);
+
+-- AlterTable blockchain_transactions: chain the transaction was sent on
+ALTER TABLE "blockchain_transactions" ADD COLUMN     "chainId" TEXT;
+
+-- Existing transactions were all sent on the default deployment's chain
+UPDATE "blockchain_transactions" SET "chainId" = (
+    SELECT "chainId" FROM "AppProject" WHERE "isDefault" = true LIMIT 1
+);
+
+-- DropIndex
+DROP INDEX "blockchain_transactions_fromAddress_nonce_idx";
+
+-- CreateIndex
+CREATE INDEX "blockchain_transactions_chainId_fromAddress_nonce_idx" ON "blockchain_transactions"("chainId", "fromAddress", "nonce");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "AppProject" ADD COLUMN     "rpcUrls" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "investment_intents" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "investmentId" TEXT,
+    "amount" TEXT NOT NULL,
+    "nonce" INTEGER NOT NULL,
+    "deadline" TIMESTAMP(3) NOT NULL,
+    "chainId" TEXT NOT NULL,
+    "signer" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "investment_intents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "investment_intents_investmentId_key" ON "investment_intents"("investmentId");
+
+-- CreateIndex
+CREATE INDEX "investment_intents_projectId_idx" ON "investment_intents"("projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "investment_intents_userId_nonce_key" ON "investment_intents"("userId", "nonce");
+
+-- AddForeignKey
+ALTER TABLE "investment_intents" ADD CONSTRAINT "investment_intents_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "investment_intents" ADD CONSTRAINT "investment_intents_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "investment_intents" ADD CONSTRAINT "investment_intents_investmentId_fkey" FOREIGN KEY ("investmentId") REFERENCES "investments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
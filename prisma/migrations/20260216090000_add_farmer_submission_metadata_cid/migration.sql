@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "farmer_submissions" ADD COLUMN     "metadataCid" TEXT;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "SYNC_JOB_STATUS" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "sync_jobs" (
+    "id" TEXT NOT NULL,
+    "contractAddress" TEXT NOT NULL,
+    "fromBlock" INTEGER NOT NULL,
+    "toBlock" INTEGER NOT NULL,
+    "batchSize" INTEGER NOT NULL,
+    "nextBlock" INTEGER NOT NULL,
+    "eventsProcessed" INTEGER NOT NULL DEFAULT 0,
+    "errors" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "status" "SYNC_JOB_STATUS" NOT NULL DEFAULT 'PENDING',
+    "requestedBy" TEXT,
+    "leaseOwner" TEXT,
+    "leaseExpiresAt" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deleted" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "sync_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sync_jobs_status_idx" ON "sync_jobs"("status");
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "WALLET_BALANCE_LEVEL" AS ENUM ('OK', 'LOW', 'CRITICAL');
+
+-- CreateTable
+CREATE TABLE "wallet_balance_snapshots" (
+    "id" TEXT NOT NULL,
+    "chainId" TEXT NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "balance" TEXT NOT NULL,
+    "gasPrice" TEXT NOT NULL,
+    "mintGas" INTEGER NOT NULL,
+    "refundGas" INTEGER NOT NULL,
+    "mintsRemaining" INTEGER NOT NULL,
+    "refundsRemaining" INTEGER NOT NULL,
+    "level" "WALLET_BALANCE_LEVEL" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wallet_balance_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "wallet_balance_snapshots_walletAddress_createdAt_idx" ON "wallet_balance_snapshots"("walletAddress", "createdAt");
@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "TRANSACTION_TYPE" ADD VALUE 'TOKEN_PERMIT';
+
+-- AlterTable
+ALTER TABLE "AppProject" ADD COLUMN     "settlementTokenAddress" TEXT;
+
+-- AlterTable
+ALTER TABLE "investments" ADD COLUMN     "tokenAddress" TEXT;
+
+-- AlterTable
+ALTER TABLE "profit_claims" ADD COLUMN     "tokenAddress" TEXT;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "contract_abis" (
+    "id" TEXT NOT NULL,
+    "chainId" TEXT NOT NULL,
+    "contractAddress" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "abi" TEXT NOT NULL,
+    "eventNames" TEXT NOT NULL DEFAULT '{}',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "contract_abis_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contract_abis_chainId_contractAddress_version_key" ON "contract_abis"("chainId", "contractAddress", "version");
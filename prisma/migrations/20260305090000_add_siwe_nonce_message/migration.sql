@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "nonces" ADD COLUMN     "message" TEXT;
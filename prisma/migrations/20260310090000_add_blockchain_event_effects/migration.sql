@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "blockchain_events" ADD COLUMN     "effects" TEXT;
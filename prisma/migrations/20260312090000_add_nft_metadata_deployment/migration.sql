@@ -0,0 +1,3 @@
+-- AlterTable nft_metadata: deployment the token was read from
+ALTER TABLE "nft_metadata" ADD COLUMN     "chainId" TEXT,
+ADD COLUMN     "contractAddress" TEXT;
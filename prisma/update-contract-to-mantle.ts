@@ -20,6 +20,7 @@ async function main() {
     abi: newAbi,
     rpcUrl: 'https://rpc.sepolia.mantle.xyz',
     explorerUrl: 'https://sepolia.mantlescan.xyz',
+    networkName: 'mantle-sepolia',
   };
 
   // Check if record exists
@@ -38,13 +39,18 @@ async function main() {
         description: mantleConfig.description,
         rpcUrl: mantleConfig.rpcUrl,
         explorerUrl: mantleConfig.explorerUrl,
+        networkName: mantleConfig.networkName,
       },
     });
     console.log('✅ Updated successfully!');
   } else {
     console.log('✅ No existing record, creating new...');
+    // The backend boots from the default deployment; claim it if unset
+    const defaults = await prisma.appProject.count({
+      where: { isDefault: true, deleted: false },
+    });
     await prisma.appProject.create({
-      data: mantleConfig,
+      data: { ...mantleConfig, isDefault: defaults === 0 },
     });
     console.log('✅ Created successfully!');
   }
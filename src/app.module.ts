@@ -9,6 +9,7 @@ import { BlockchainModule } from './blockchain/blockchain.module';
 import { AuthModule } from './modules/auth/auth.module';
 import { JwtAuthGuard } from './modules/auth/guards/jwt-auth.guard';
 import { RolesGuard } from './modules/auth/guards/roles.guard';
+import { OwnershipGuard } from './modules/auth/guards/ownership.guard';
 import { UsersModule } from './modules/users/users.module';
 import { CollectorsModule } from './modules/collectors/collectors.module';
 import { FarmersModule } from './modules/farmers/farmers.module';
@@ -27,6 +28,8 @@ import { RefundsModule } from './modules/refunds/refunds.module';
 import { UserDashboardModule } from './modules/user-dashboard/user-dashboard.module';
 import { AnalyticsModule } from './modules/analytics/analytics.module';
 import { DomainsModule } from './modules/domains/domains.module';
+import { AppProjectsModule } from './modules/app-projects/app-projects.module';
+import { NftsModule } from './modules/nfts/nfts.module';
 
 @Module({
   imports: [
@@ -56,6 +59,8 @@ import { DomainsModule } from './modules/domains/domains.module';
     UserDashboardModule,
     AnalyticsModule,
     DomainsModule,
+    AppProjectsModule,
+    NftsModule,
   ],
   controllers: [AppController],
   providers: [
@@ -68,6 +73,10 @@ import { DomainsModule } from './modules/domains/domains.module';
       provide: APP_GUARD,
       useClass: RolesGuard,
     },
+    {
+      provide: APP_GUARD,
+      useClass: OwnershipGuard,
+    },
   ],
 })
 export class AppModule {}
@@ -4,29 +4,74 @@ import { EthersProviderService } from './services/ethers-provider.service';
 import { PlatformWalletService } from './services/platform-wallet.service';
 import { StomaTradeContractService } from './services/stomatrade-contract.service';
 import { BlockchainEventService } from './services/blockchain-event.service';
+import { EventSubscriptionService } from './services/event-subscription.service';
 import { TransactionService } from './services/transaction.service';
+import { TransactionExplorerService } from './services/transaction-explorer.service';
+import { GasCostReportService } from './services/gas-cost-report.service';
 import { HistoricalSyncService } from './services/historical-sync.service';
+import { SyncJobService } from './services/sync-job.service';
+import { SyncCheckpointService } from './services/sync-checkpoint.service';
+import { ChainReorgService } from './services/chain-reorg.service';
+import { TransactionWatcherService } from './services/transaction-watcher.service';
+import { ReconciliationService } from './services/reconciliation.service';
+import { WalletMonitorService } from './services/wallet-monitor.service';
+import { InvestIntentService } from './services/invest-intent.service';
+import { SettlementTokenService } from './services/settlement-token.service';
+import { ContractAbiService } from './services/contract-abi.service';
 import { BlockchainSyncController } from './controllers/blockchain-sync.controller';
+import { BlockchainTransactionController } from './controllers/blockchain-transaction.controller';
+import { BlockchainReconciliationController } from './controllers/blockchain-reconciliation.controller';
+import { BlockchainWalletController } from './controllers/blockchain-wallet.controller';
 import { PrismaModule } from 'src/prisma/prisma.module';
+import { NotificationsModule } from '../modules/notifications/notifications.module';
 
 @Module({
-  imports: [ConfigModule, PrismaModule],
-  controllers: [BlockchainSyncController],
+  imports: [ConfigModule, PrismaModule, NotificationsModule],
+  controllers: [
+    BlockchainSyncController,
+    BlockchainTransactionController,
+    BlockchainReconciliationController,
+    BlockchainWalletController,
+  ],
   providers: [
     EthersProviderService,
     PlatformWalletService,
+    ContractAbiService,
     StomaTradeContractService,
     BlockchainEventService,
+    EventSubscriptionService,
     TransactionService,
+    TransactionExplorerService,
+    GasCostReportService,
     HistoricalSyncService,
+    SyncJobService,
+    SyncCheckpointService,
+    ChainReorgService,
+    TransactionWatcherService,
+    ReconciliationService,
+    WalletMonitorService,
+    InvestIntentService,
+    SettlementTokenService,
   ],
   exports: [
     EthersProviderService,
     PlatformWalletService,
     StomaTradeContractService,
     BlockchainEventService,
+    EventSubscriptionService,
     TransactionService,
+    TransactionExplorerService,
+    GasCostReportService,
     HistoricalSyncService,
+    SyncJobService,
+    SyncCheckpointService,
+    ChainReorgService,
+    TransactionWatcherService,
+    ReconciliationService,
+    WalletMonitorService,
+    InvestIntentService,
+    SettlementTokenService,
+    ContractAbiService,
   ],
 })
 export class BlockchainModule {}
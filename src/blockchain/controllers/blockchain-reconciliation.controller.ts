@@ -0,0 +1,119 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Roles } from '../../modules/auth/decorators/roles.decorator';
+import { ROLES } from '@prisma/client';
+import { ReconciliationService } from '../services/reconciliation.service';
+import { RunReconciliationDto } from '../dto/run-reconciliation.dto';
+
+const reconciliationReportSchema = {
+  type: 'object',
+  properties: {
+    startedAt: { type: 'string' },
+    finishedAt: { type: 'string' },
+    autoRepair: { type: 'boolean' },
+    projectsChecked: { type: 'number' },
+    driftCount: { type: 'number' },
+    repairedCount: { type: 'number' },
+    drifts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          entity: {
+            type: 'string',
+            enum: ['Project', 'Investment', 'ProfitPool'],
+          },
+          entityId: {
+            type: 'string',
+            description:
+              'Record id, or the investor wallet when several investments are summed',
+          },
+          projectId: { type: 'string' },
+          projectTokenId: { type: 'number' },
+          field: { type: 'string', example: 'status' },
+          dbValue: { type: 'string', nullable: true },
+          chainValue: { type: 'string' },
+          repairable: { type: 'boolean' },
+          reason: { type: 'string' },
+          repaired: { type: 'boolean' },
+        },
+      },
+    },
+    errors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          projectId: { type: 'string' },
+          error: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+@ApiTags('Blockchain Reconciliation')
+@ApiBearerAuth('JWT-auth')
+@Controller('blockchain/reconciliation')
+export class BlockchainReconciliationController {
+  constructor(private readonly reconciliationService: ReconciliationService) {}
+
+  @Roles(ROLES.ADMIN)
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reconcile database with contract state (Admin only)',
+    description:
+      'Compare Project.status, investment amounts and ProfitPool.remainingProfit of every minted project with ' +
+      'projects(), contribution() and getProjectProfitBreakdown() on chain and report each drifting field. ' +
+      'With autoRepair, drifts that can be copied from chain safely are fixed in the database.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Drift report',
+    schema: reconciliationReportSchema,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Reconciliation already in progress',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  async reconcile(@Body() dto: RunReconciliationDto) {
+    return this.reconciliationService.reconcile(dto);
+  }
+
+  @Roles(ROLES.ADMIN, ROLES.STAFF)
+  @Get('latest')
+  @ApiOperation({
+    summary: 'Get the latest drift report (Admin/Staff only)',
+    description:
+      'Report of the most recent reconciliation, manual or scheduled. Null until one has run since startup.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Latest drift report',
+    schema: { ...reconciliationReportSchema, nullable: true },
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin/Staff access required',
+  })
+  getLatestReport() {
+    return this.reconciliationService.getLastReport();
+  }
+}
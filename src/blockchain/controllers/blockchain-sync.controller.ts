@@ -3,25 +3,58 @@ import {
   Post,
   Get,
   Body,
+  Param,
+  Query,
   HttpStatus,
   HttpCode,
+  ParseUUIDPipe,
 } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
-  ApiBody,
+  ApiParam,
 } from '@nestjs/swagger';
 import { Roles } from '../../modules/auth/decorators/roles.decorator';
+import { CurrentUser } from '../../modules/auth/decorators/current-user.decorator';
 import { ROLES } from '@prisma/client';
 import { HistoricalSyncService } from '../services/historical-sync.service';
+import { ChainReorgService } from '../services/chain-reorg.service';
+import { SyncJobService } from '../services/sync-job.service';
+import { EventSubscriptionService } from '../services/event-subscription.service';
+import { CreateSyncJobDto, SyncJobQueryDto } from '../dto/sync-job.dto';
 
-class SyncHistoricalEventsDto {
-  fromBlock: number;
-  toBlock?: number | 'latest';
-  batchSize?: number;
-}
+const syncJobSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    contractAddress: { type: 'string' },
+    status: {
+      type: 'string',
+      enum: ['PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED'],
+    },
+    batchSize: { type: 'number' },
+    progress: {
+      type: 'object',
+      properties: {
+        startBlock: { type: 'number' },
+        endBlock: { type: 'number' },
+        currentBlock: {
+          type: 'number',
+          description: 'First block of the next batch to process',
+        },
+        eventsProcessed: { type: 'number' },
+        errors: { type: 'array', items: { type: 'string' } },
+        percent: { type: 'number', example: 42 },
+      },
+    },
+    requestedBy: { type: 'string', nullable: true },
+    startedAt: { type: 'string', nullable: true },
+    finishedAt: { type: 'string', nullable: true },
+    createdAt: { type: 'string' },
+  },
+};
 
 @ApiTags('Blockchain Sync')
 @ApiBearerAuth('JWT-auth')
@@ -29,72 +62,104 @@ class SyncHistoricalEventsDto {
 export class BlockchainSyncController {
   constructor(
     private readonly historicalSyncService: HistoricalSyncService,
+    private readonly chainReorgService: ChainReorgService,
+    private readonly syncJobService: SyncJobService,
+    private readonly eventSubscriptionService: EventSubscriptionService,
   ) {}
 
   @Roles(ROLES.ADMIN)
   @Post('historical')
-  @HttpCode(HttpStatus.OK)
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({
-    summary: 'Sync historical blockchain events (Admin only)',
+    summary: 'Start a historical sync job (Admin only)',
     description:
-      'Synchronize historical blockchain events from a specific block range. ' +
+      'Create a persisted job that synchronizes blockchain events of a block range in the background. ' +
       'This is useful for catching up on missed events or rebuilding event history. ' +
-      'Process runs in batches to avoid RPC rate limits.',
+      'The job runs in batches to avoid RPC rate limits, records its progress after every batch ' +
+      'and is resumed from the last completed batch if the process stops.',
   })
-  @ApiBody({
-    description: 'Sync configuration',
-    schema: {
-      type: 'object',
-      properties: {
-        fromBlock: {
-          type: 'number',
-          description: 'Starting block number',
-          example: 33000000,
-        },
-        toBlock: {
-          oneOf: [{ type: 'number' }, { type: 'string' }],
-          description: 'Ending block number or "latest"',
-          example: 'latest',
-        },
-        batchSize: {
-          type: 'number',
-          description: 'Number of blocks to process per batch (default: 1000)',
-          example: 1000,
-        },
-      },
-      required: ['fromBlock'],
-    },
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'Sync job created',
+    schema: syncJobSchema,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Another sync job is active or invalid parameters',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  async syncHistoricalEvents(
+    @Body() dto: CreateSyncJobDto,
+    @CurrentUser('sub') userId: string,
+  ) {
+    return this.syncJobService.createJob(dto, userId);
+  }
+
+  @Roles(ROLES.ADMIN, ROLES.STAFF)
+  @Get('jobs')
+  @ApiOperation({
+    summary: 'List historical sync jobs (Admin/Staff only)',
+    description: 'Job history, newest first',
   })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Sync completed successfully',
+    description: 'Sync jobs retrieved successfully',
     schema: {
       type: 'object',
       properties: {
-        success: { type: 'boolean' },
-        blocksProcessed: { type: 'number' },
-        eventsProcessed: { type: 'number' },
-        errors: { type: 'array', items: { type: 'string' } },
-        startBlock: { type: 'number' },
-        endBlock: { type: 'number' },
-        duration: { type: 'number', description: 'Duration in milliseconds' },
+        items: { type: 'array', items: syncJobSchema },
+        meta: { type: 'object' },
       },
     },
   })
+  async listSyncJobs(@Query() query: SyncJobQueryDto) {
+    return this.syncJobService.listJobs(query);
+  }
+
+  @Roles(ROLES.ADMIN, ROLES.STAFF)
+  @Get('jobs/:id')
+  @ApiOperation({ summary: 'Get a historical sync job (Admin/Staff only)' })
+  @ApiParam({ name: 'id', description: 'Sync job UUID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sync job retrieved successfully',
+    schema: syncJobSchema,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Sync job not found',
+  })
+  async getSyncJob(@Param('id', ParseUUIDPipe) id: string) {
+    return this.syncJobService.getJob(id);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Post('jobs/:id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel a historical sync job (Admin only)',
+    description:
+      'Stop a pending or running job before its next batch. Batches already processed stay synced.',
+  })
+  @ApiParam({ name: 'id', description: 'Sync job UUID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sync job cancelled',
+    schema: syncJobSchema,
+  })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
-    description: 'Sync already in progress or invalid parameters',
+    description: 'Sync job already finished',
   })
   @ApiResponse({
-    status: HttpStatus.FORBIDDEN,
-    description: 'Admin access required',
+    status: HttpStatus.NOT_FOUND,
+    description: 'Sync job not found',
   })
-  async syncHistoricalEvents(@Body() dto: SyncHistoricalEventsDto) {
-    return this.historicalSyncService.syncHistoricalEvents(
-      dto.fromBlock,
-      dto.toBlock || 'latest',
-      dto.batchSize || 1000,
-    );
+  async cancelSyncJob(@Param('id', ParseUUIDPipe) id: string) {
+    return this.syncJobService.cancelJob(id);
   }
 
   @Roles(ROLES.ADMIN)
@@ -103,7 +168,8 @@ export class BlockchainSyncController {
   @ApiOperation({
     summary: 'Sync events since last synced block (Admin only)',
     description:
-      'Automatically sync all events since the last recorded block. ' +
+      'Automatically sync all events since the last persisted checkpoint. ' +
+      'Checkpoints are stored per contract address and event type and are shared with the scheduled sync. ' +
       'Useful for periodic catch-up syncs.',
   })
   @ApiResponse({
@@ -122,11 +188,46 @@ export class BlockchainSyncController {
     return this.historicalSyncService.syncSinceLastBlock();
   }
 
+  @Roles(ROLES.ADMIN)
+  @Post('reorg-check')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Check for chain reorganizations (Admin only)',
+    description:
+      'Compare stored block hashes of unfinalized events and checkpoints with the canonical chain. ' +
+      'Events deeper than BLOCKCHAIN_REORG_CONFIRMATIONS are marked final. ' +
+      'If a reorg is found, affected investments, profit claims and transactions are reset and checkpoints rewound so the next sync replays them.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Reorg check completed',
+    schema: {
+      type: 'object',
+      properties: {
+        reorgDetected: { type: 'boolean' },
+        forkBlock: { type: 'number', nullable: true },
+        currentBlock: { type: 'number' },
+        confirmationDepth: { type: 'number' },
+        eventsFinalized: { type: 'number' },
+        eventsRolledBack: { type: 'number' },
+        transactionsReset: { type: 'number' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  async checkReorg() {
+    return this.chainReorgService.detectAndRollback();
+  }
+
   @Roles(ROLES.ADMIN, ROLES.STAFF)
   @Get('status')
   @ApiOperation({
     summary: 'Get sync status (Admin/Staff only)',
-    description: 'Get current synchronization status including last synced block',
+    description:
+      'Get current synchronization status including last synced block, per-event-type lag behind chain head and RPC endpoint health',
   })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -134,10 +235,56 @@ export class BlockchainSyncController {
     schema: {
       type: 'object',
       properties: {
+        contractAddress: { type: 'string' },
         lastSyncedBlock: { type: 'number' },
         currentBlock: { type: 'number' },
         blocksBehind: { type: 'number' },
         isSyncing: { type: 'boolean' },
+        checkpoints: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              eventType: { type: 'string', example: 'Invested' },
+              lastSyncedBlock: { type: 'number', nullable: true },
+              blocksBehind: { type: 'number', nullable: true },
+              updatedAt: { type: 'string', nullable: true },
+            },
+          },
+        },
+        rpcEndpoints: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              chainId: { type: 'string', example: 'eip155:4202' },
+              url: {
+                type: 'string',
+                example: 'https://rpc.example.com/***',
+                description: 'Endpoint with path and query masked',
+              },
+              active: {
+                type: 'boolean',
+                description: 'Endpoint that served the last request',
+              },
+              healthy: {
+                type: 'boolean',
+                description: 'False while the endpoint is in cooldown',
+              },
+              latencyMs: { type: 'number', nullable: true },
+              errorRate: {
+                type: 'number',
+                description: 'Moving average of failed requests (0-1)',
+              },
+              totalRequests: { type: 'number' },
+              failedRequests: { type: 'number' },
+              consecutiveFailures: { type: 'number' },
+              lastError: { type: 'string', nullable: true },
+              lastErrorAt: { type: 'string', nullable: true },
+              cooldownUntil: { type: 'string', nullable: true },
+            },
+          },
+        },
       },
     },
   })
@@ -148,4 +295,37 @@ export class BlockchainSyncController {
   async getSyncStatus() {
     return this.historicalSyncService.getSyncStatus();
   }
+
+  @Roles(ROLES.ADMIN, ROLES.STAFF)
+  @Get('subscription')
+  @ApiOperation({
+    summary: 'Get live event subscription status (Admin/Staff only)',
+    description:
+      'Get the transport currently used to ingest contract events as they happen and the last block it covered',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Subscription status retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        mode: { type: 'string', enum: ['off', 'auto', 'polling'] },
+        transport: {
+          type: 'string',
+          enum: ['websocket', 'polling'],
+          nullable: true,
+        },
+        lastBlock: { type: 'number', nullable: true },
+        reconnectAttempts: { type: 'number' },
+        lastError: { type: 'string', nullable: true },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin/Staff access required',
+  })
+  getSubscriptionStatus() {
+    return this.eventSubscriptionService.getStatus();
+  }
 }
@@ -0,0 +1,361 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  HttpStatus,
+  HttpCode,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Roles } from '../../modules/auth/decorators/roles.decorator';
+import { ROLES } from '@prisma/client';
+import { TransactionService } from '../services/transaction.service';
+import { TransactionWatcherService } from '../services/transaction-watcher.service';
+import { TransactionExplorerService } from '../services/transaction-explorer.service';
+import { GasCostReportService } from '../services/gas-cost-report.service';
+import { ReplaceTransactionDto } from '../dto/replace-transaction.dto';
+import { TransactionQueryDto } from '../dto/transaction-query.dto';
+import { GasCostReportQueryDto } from '../dto/gas-cost-report-query.dto';
+
+const replacementResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    transactionHash: {
+      type: 'string',
+      description: 'Hash originally recorded for this transaction',
+    },
+    replacementHash: { type: 'string' },
+    replacementHashes: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'All replacement hashes broadcast so far, oldest first',
+    },
+    nonce: { type: 'number' },
+    maxFeePerGas: { type: 'string' },
+    maxPriorityFeePerGas: { type: 'string' },
+  },
+};
+
+const transactionSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    transactionHash: { type: 'string' },
+    replacementHashes: { type: 'array', items: { type: 'string' } },
+    transactionType: { type: 'string', example: 'INVEST' },
+    status: { type: 'string', enum: ['PENDING', 'CONFIRMED', 'FAILED'] },
+    chainId: { type: 'string', nullable: true, example: 'eip155:4202' },
+    fromAddress: { type: 'string' },
+    toAddress: { type: 'string', nullable: true },
+    nonce: { type: 'number', nullable: true },
+    blockNumber: { type: 'number', nullable: true },
+    gasUsed: { type: 'string', nullable: true },
+    gasPrice: { type: 'string', nullable: true, description: 'In wei' },
+    gasCost: {
+      type: 'string',
+      nullable: true,
+      example: '0.000042',
+      description: 'gasUsed * gasPrice in the native unit of the chain',
+    },
+    errorMessage: { type: 'string', nullable: true },
+    farmerIds: { type: 'array', items: { type: 'string' } },
+    projectIds: { type: 'array', items: { type: 'string' } },
+    explorer: {
+      type: 'object',
+      properties: {
+        transaction: { type: 'string', nullable: true },
+        from: { type: 'string', nullable: true },
+        to: { type: 'string', nullable: true },
+        block: { type: 'string', nullable: true },
+      },
+    },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+  },
+};
+
+const gasCostTotalsProperties = {
+  transactions: { type: 'number' },
+  gasUsed: { type: 'string' },
+  gasCostWei: { type: 'string' },
+  gasCost: {
+    type: 'string',
+    example: '0.0421',
+    description: 'In the native unit of the chain',
+  },
+  fiatCost: {
+    type: 'string',
+    nullable: true,
+    example: '103.17',
+    description: 'gasCost * fiatPrice, only when fiatPrice is given',
+  },
+};
+
+@ApiTags('Blockchain Transactions')
+@ApiBearerAuth('JWT-auth')
+@Controller('blockchain/transactions')
+export class BlockchainTransactionController {
+  constructor(
+    private readonly transactionService: TransactionService,
+    private readonly transactionWatcherService: TransactionWatcherService,
+    private readonly transactionExplorerService: TransactionExplorerService,
+    private readonly gasCostReportService: GasCostReportService,
+  ) {}
+
+  @Roles(ROLES.ADMIN)
+  @Get()
+  @ApiOperation({
+    summary: 'List blockchain transactions (Admin only)',
+    description:
+      'Browse recorded transactions filtered by type, status, creation date and related farmer, project or investment',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Transactions retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        items: { type: 'array', items: transactionSchema },
+        meta: {
+          type: 'object',
+          properties: {
+            total: { type: 'number' },
+            page: { type: 'number' },
+            limit: { type: 'number' },
+            totalPages: { type: 'number' },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'entityType given without entityId or the other way around',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  findAll(@Query() query: TransactionQueryDto) {
+    return this.transactionExplorerService.listTransactions(query);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Get('gas-costs')
+  @ApiOperation({
+    summary: 'Report gas spent on transactions (Admin only)',
+    description:
+      'Sums gasUsed * gasPrice of recorded transactions on one chain per transaction type, project and month (UTC). ' +
+      'Pass fiatPrice, the price of one native token, to also get fiat amounts.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Gas cost report generated successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        chainId: { type: 'string', example: 'eip155:4202' },
+        payer: { type: 'string', enum: ['PLATFORM', 'USERS', 'ALL'] },
+        fromDate: { type: 'string', nullable: true },
+        toDate: { type: 'string', nullable: true },
+        fiatCurrency: { type: 'string', nullable: true, example: 'USD' },
+        fiatPrice: { type: 'number', nullable: true, example: 2450.5 },
+        total: { type: 'object', properties: gasCostTotalsProperties },
+        byTransactionType: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              transactionType: { type: 'string', example: 'CREATE_PROJECT' },
+              ...gasCostTotalsProperties,
+            },
+          },
+        },
+        byProject: {
+          type: 'array',
+          description: 'Costs that cannot be tied to a project come last',
+          items: {
+            type: 'object',
+            properties: {
+              projectId: { type: 'string', nullable: true },
+              projectName: { type: 'string', nullable: true },
+              ...gasCostTotalsProperties,
+            },
+          },
+        },
+        byMonth: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              month: { type: 'string', example: '2026-01' },
+              ...gasCostTotalsProperties,
+            },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  getGasCosts(@Query() query: GasCostReportQueryDto) {
+    return this.gasCostReportService.getReport(query);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get a blockchain transaction with decoded events (Admin only)',
+    description:
+      'Receipt logs are decoded with the loaded contract ABI. ' +
+      'If the receipt cannot be fetched, the events indexed by the sync are returned instead.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Transaction retrieved successfully',
+    schema: {
+      allOf: [
+        transactionSchema,
+        {
+          type: 'object',
+          properties: {
+            events: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  logIndex: { type: 'number' },
+                  eventName: { type: 'string', example: 'Invested' },
+                  args: {
+                    type: 'object',
+                    description: 'Named event arguments, integers as strings',
+                  },
+                },
+              },
+            },
+            eventsSource: { type: 'string', enum: ['receipt', 'indexed'] },
+          },
+        },
+      ],
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Transaction not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.transactionExplorerService.getTransaction(id);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Post('check-pending')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Check receipts of pending transactions (Admin only)',
+    description:
+      'Poll receipts for PENDING transactions now instead of waiting for the scheduled watcher. ' +
+      'Mined transactions are marked CONFIRMED or FAILED and their linked submissions and investments updated.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Pending transactions checked',
+    schema: {
+      type: 'object',
+      properties: {
+        checked: { type: 'number' },
+        confirmed: { type: 'number' },
+        failed: { type: 'number' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  checkPending() {
+    return this.transactionWatcherService.checkPendingTransactions();
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Post(':id/speed-up')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Speed up a pending transaction (Admin only)',
+    description:
+      'Re-broadcast a pending platform wallet transaction with the same nonce and call data but higher EIP-1559 fees. ' +
+      'The new hash is appended to the replacement chain of the original record.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Replacement transaction broadcast',
+    schema: replacementResponseSchema,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Transaction is not pending, already mined, or not replaceable',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Transaction not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  speedUp(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ReplaceTransactionDto,
+  ) {
+    return this.transactionService.speedUpTransaction(id, dto.feeBumpPercent);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel a pending transaction (Admin only)',
+    description:
+      'Replace a pending platform wallet transaction with a zero-value transfer to the platform wallet using the same nonce and higher fees. ' +
+      'Once the cancel transaction is mined, the original record is marked FAILED.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Cancel transaction broadcast',
+    schema: replacementResponseSchema,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Transaction is not pending, already mined, or not replaceable',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Transaction not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  cancel(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ReplaceTransactionDto,
+  ) {
+    return this.transactionService.cancelTransaction(id, dto.feeBumpPercent);
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Roles } from '../../modules/auth/decorators/roles.decorator';
+import { ROLES } from '@prisma/client';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { WalletMonitorService } from '../services/wallet-monitor.service';
+
+const walletBalanceSchema = {
+  type: 'object',
+  properties: {
+    chainId: { type: 'string', example: 'eip155:4202' },
+    walletAddress: { type: 'string' },
+    balance: { type: 'string', example: '0.042', description: 'In ETH' },
+    balanceWei: { type: 'string' },
+    gasPrice: {
+      type: 'string',
+      description: 'Max fee per gas in wei at the time of the check',
+    },
+    mintGas: {
+      type: 'number',
+      description: 'Average gas of recent farmer/project mints',
+    },
+    refundGas: { type: 'number', description: 'Average gas of recent refunds' },
+    mintsRemaining: { type: 'number' },
+    refundsRemaining: { type: 'number' },
+    level: { type: 'string', enum: ['OK', 'LOW', 'CRITICAL'] },
+    checkedAt: { type: 'string' },
+  },
+};
+
+@ApiTags('Blockchain Wallet')
+@ApiBearerAuth('JWT-auth')
+@Controller('blockchain/wallet')
+export class BlockchainWalletController {
+  constructor(private readonly walletMonitorService: WalletMonitorService) {}
+
+  @Roles(ROLES.ADMIN)
+  @Post('balance/check')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Check the platform wallet balance now (Admin only)',
+    description:
+      'Read the balance instead of waiting for the scheduled monitor, record it in the history and alert if its level changed',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Balance checked',
+    schema: walletBalanceSchema,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  checkBalance() {
+    return this.walletMonitorService.checkBalance();
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Get('balance/history')
+  @ApiOperation({
+    summary: 'Get platform wallet balance history (Admin only)',
+    description: 'Balances recorded by the monitor, newest first',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Balance history retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        items: { type: 'array', items: walletBalanceSchema },
+        meta: {
+          type: 'object',
+          properties: {
+            total: { type: 'number' },
+            page: { type: 'number' },
+            limit: { type: 'number' },
+            totalPages: { type: 'number' },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  getHistory(@Query() pagination: PaginationDto) {
+    return this.walletMonitorService.getHistory(pagination);
+  }
+}
@@ -0,0 +1,71 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Length,
+  Min,
+} from 'class-validator';
+
+export enum GasPayer {
+  PLATFORM = 'PLATFORM',
+  USERS = 'USERS',
+  ALL = 'ALL',
+}
+
+export class GasCostReportQueryDto {
+  @ApiPropertyOptional({
+    example: '2026-01-01',
+    description: 'Only transactions created at or after this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  fromDate?: string;
+
+  @ApiPropertyOptional({
+    example: '2026-03-31T23:59:59Z',
+    description: 'Only transactions created at or before this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  toDate?: string;
+
+  @ApiPropertyOptional({
+    example: 'eip155:4202',
+    description:
+      'CAIP-2 chain to report on, defaults to the default deployment. Costs of different chains are in different native tokens and are never summed.',
+  })
+  @IsOptional()
+  @IsString()
+  chainId?: string;
+
+  @ApiPropertyOptional({
+    enum: GasPayer,
+    default: GasPayer.PLATFORM,
+    description:
+      'PLATFORM counts transactions sent by the platform wallet, USERS those signed by investors',
+  })
+  @IsOptional()
+  @IsEnum(GasPayer)
+  payer?: GasPayer = GasPayer.PLATFORM;
+
+  @ApiPropertyOptional({
+    example: 2450.5,
+    description:
+      'Reference price of one native token in fiatCurrency. Fiat amounts are only reported when given.',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  fiatPrice?: number;
+
+  @ApiPropertyOptional({ example: 'USD', default: 'USD' })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  fiatCurrency?: string = 'USD';
+}
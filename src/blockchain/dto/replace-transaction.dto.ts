@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class ReplaceTransactionDto {
+  @ApiProperty({
+    example: 15,
+    description:
+      'Percentage to raise maxFeePerGas and maxPriorityFeePerGas by (minimum 10, default 15)',
+    required: false,
+  })
+  @IsInt()
+  @Min(10)
+  @Max(500)
+  @IsOptional()
+  feeBumpPercent?: number;
+}
@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, IsUUID } from 'class-validator';
+
+export class RunReconciliationDto {
+  @ApiProperty({
+    example: false,
+    description:
+      'Overwrite safe drifts (project status, single-investment amounts, remaining profit) with on-chain values (default false)',
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  autoRepair?: boolean;
+
+  @ApiProperty({
+    example: '550e8400-e29b-41d4-a716-446655440000',
+    description: 'Only reconcile this project (default: every minted project)',
+    required: false,
+  })
+  @IsUUID()
+  @IsOptional()
+  projectId?: string;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, Matches } from 'class-validator';
+
+export class SubmitTransactionDto {
+  @ApiProperty({
+    example:
+      '0x8f3c1e6b2a4d5f7e9c0b1a2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f',
+    description: 'Hash of the transaction the investor signed and broadcast',
+  })
+  @Matches(/^0x[0-9a-fA-F]{64}$/, {
+    message: 'transactionHash must be a 32-byte hex string',
+  })
+  @IsNotEmpty()
+  transactionHash: string;
+}
@@ -0,0 +1,50 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SYNC_JOB_STATUS } from '@prisma/client';
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+
+export class CreateSyncJobDto {
+  @ApiProperty({ example: 33000000, description: 'Starting block number' })
+  @IsInt()
+  @Min(0)
+  fromBlock: number;
+
+  @ApiPropertyOptional({
+    oneOf: [{ type: 'number' }, { type: 'string', enum: ['latest'] }],
+    example: 'latest',
+    description:
+      'Ending block number or "latest", resolved to the chain head when the job is created',
+  })
+  @IsOptional()
+  @ValidateIf((dto: CreateSyncJobDto) => dto.toBlock !== 'latest')
+  @IsInt()
+  @Min(0)
+  toBlock?: number | 'latest';
+
+  @ApiPropertyOptional({
+    example: 1000,
+    description: 'Number of blocks to process per batch (default: 1000)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  batchSize?: number;
+}
+
+export class SyncJobQueryDto extends PaginationDto {
+  @ApiPropertyOptional({
+    enum: SYNC_JOB_STATUS,
+    description: 'Only return jobs with this status',
+  })
+  @IsOptional()
+  @IsEnum(SYNC_JOB_STATUS)
+  status?: SYNC_JOB_STATUS;
+}
@@ -0,0 +1,54 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { TRANSACTION_STATUS, TRANSACTION_TYPE } from '@prisma/client';
+import { IsDateString, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+
+export enum TransactionEntityType {
+  FARMER = 'FARMER',
+  PROJECT = 'PROJECT',
+  INVESTMENT = 'INVESTMENT',
+}
+
+export class TransactionQueryDto extends PaginationDto {
+  @ApiPropertyOptional({ enum: TRANSACTION_TYPE })
+  @IsOptional()
+  @IsEnum(TRANSACTION_TYPE)
+  transactionType?: TRANSACTION_TYPE;
+
+  @ApiPropertyOptional({ enum: TRANSACTION_STATUS })
+  @IsOptional()
+  @IsEnum(TRANSACTION_STATUS)
+  status?: TRANSACTION_STATUS;
+
+  @ApiPropertyOptional({
+    example: '2026-01-01',
+    description: 'Only transactions created at or after this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  fromDate?: string;
+
+  @ApiPropertyOptional({
+    example: '2026-01-31T23:59:59Z',
+    description: 'Only transactions created at or before this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  toDate?: string;
+
+  @ApiPropertyOptional({
+    enum: TransactionEntityType,
+    description:
+      'Kind of record entityId refers to. PROJECT includes the project mint, its investments and profit claims.',
+  })
+  @IsOptional()
+  @IsEnum(TransactionEntityType)
+  entityType?: TransactionEntityType;
+
+  @ApiPropertyOptional({
+    description: 'Farmer, project or investment ID, requires entityType',
+  })
+  @IsOptional()
+  @IsUUID()
+  entityId?: string;
+}
@@ -0,0 +1,70 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TRANSACTION_STATUS } from '@prisma/client';
+
+export class UnsignedTransactionDto {
+  @ApiProperty({
+    example: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb',
+    description: 'StomaTrade contract of the project deployment',
+  })
+  to: string;
+
+  @ApiProperty({
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    description: 'Investor wallet that must sign the transaction',
+  })
+  from: string;
+
+  @ApiProperty({ example: '0x8f2a3b1c...' })
+  data: string;
+
+  @ApiProperty({ example: '0' })
+  value: string;
+
+  @ApiProperty({ example: 4202, description: 'EIP-155 chain id' })
+  chainId: number;
+
+  @ApiProperty({ example: 'eip155:4202' })
+  caipChainId: string;
+
+  @ApiProperty({
+    example: '185000',
+    nullable: true,
+    description: 'Estimated gas with safety margin; null if estimation failed',
+  })
+  gasLimit: string | null;
+
+  @ApiProperty({
+    example: null,
+    nullable: true,
+    description: 'Why gas estimation failed, e.g. a missing token allowance',
+  })
+  gasEstimateError: string | null;
+}
+
+export class PreparedTransactionResponseDto {
+  @ApiProperty({ type: UnsignedTransactionDto })
+  transaction: UnsignedTransactionDto;
+}
+
+export class SubmittedTransactionDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: '0x8f3c1e6b...' })
+  hash: string;
+
+  @ApiProperty({
+    enum: TRANSACTION_STATUS,
+    description:
+      'PENDING until mined; the receipt watcher settles it in the background',
+  })
+  status: TRANSACTION_STATUS;
+
+  @ApiProperty({ example: 12345678, nullable: true })
+  blockNumber: number | null;
+}
+
+export class SubmittedTransactionResponseDto {
+  @ApiProperty({ type: SubmittedTransactionDto })
+  transaction: SubmittedTransactionDto;
+}
@@ -0,0 +1,143 @@
+import { ethers } from 'ethers';
+import {
+  FailoverJsonRpcProvider,
+  maskRpcUrl,
+} from './failover-json-rpc.provider';
+
+describe('FailoverJsonRpcProvider', () => {
+  const network = new ethers.Network('lisk-sepolia', 4202);
+  const urls = [
+    'https://primary.example.com/v1/secret-key',
+    'https://backup.example.com',
+  ];
+
+  let provider: FailoverJsonRpcProvider;
+  let sendTo: jest.SpyInstance;
+
+  const payload: ethers.JsonRpcPayload = {
+    method: 'eth_blockNumber',
+    params: [],
+    id: 1,
+    jsonrpc: '2.0',
+  };
+  const result = [{ id: 1, result: '0x10' }];
+
+  beforeEach(() => {
+    provider = new FailoverJsonRpcProvider(urls, network, {
+      timeoutMs: 1000,
+      failureThreshold: 2,
+      cooldownMs: 60000,
+    });
+    sendTo = jest.spyOn(provider as any, 'sendTo');
+  });
+
+  afterEach(() => {
+    provider.destroy();
+  });
+
+  it('should require at least one RPC URL', () => {
+    expect(
+      () =>
+        new FailoverJsonRpcProvider([], network, {
+          timeoutMs: 1000,
+          failureThreshold: 2,
+          cooldownMs: 60000,
+        }),
+    ).toThrow('At least one RPC URL is required');
+  });
+
+  it('should send to the primary endpoint first', async () => {
+    sendTo.mockResolvedValue(result);
+
+    await expect(provider._send(payload)).resolves.toEqual(result);
+
+    expect(sendTo).toHaveBeenCalledTimes(1);
+    expect(sendTo.mock.calls[0][0].url).toBe(urls[0]);
+  });
+
+  it('should fail over to the next endpoint on transport errors', async () => {
+    sendTo
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValueOnce(result);
+
+    await expect(provider._send(payload)).resolves.toEqual(result);
+
+    expect(sendTo.mock.calls.map(([endpoint]) => endpoint.url)).toEqual(urls);
+
+    const [primary, backup] = provider.getEndpointHealth();
+    expect(primary).toMatchObject({
+      active: false,
+      healthy: true,
+      failedRequests: 1,
+      lastError: 'timeout',
+    });
+    expect(backup).toMatchObject({ active: true, failedRequests: 0 });
+  });
+
+  it('should return JSON-RPC errors without failing over', async () => {
+    const rpcError = [
+      { id: 1, error: { code: -32000, message: 'execution reverted' } },
+    ];
+    sendTo.mockResolvedValue(rpcError);
+
+    await expect(provider._send(payload)).resolves.toEqual(rpcError);
+
+    expect(sendTo).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip an endpoint in cooldown after repeated failures', async () => {
+    // Both endpoints down once, then only the primary
+    sendTo
+      .mockRejectedValueOnce(new Error('503 Service Unavailable'))
+      .mockRejectedValueOnce(new Error('503 Service Unavailable'))
+      .mockRejectedValueOnce(new Error('503 Service Unavailable'))
+      .mockResolvedValue(result);
+
+    await expect(provider._send(payload)).rejects.toThrow('503');
+    await provider._send(payload);
+    sendTo.mockClear();
+
+    await provider._send(payload);
+
+    expect(sendTo).toHaveBeenCalledTimes(1);
+    expect(sendTo.mock.calls[0][0].url).toBe(urls[1]);
+
+    const [primary] = provider.getEndpointHealth();
+    expect(primary.healthy).toBe(false);
+    expect(primary.consecutiveFailures).toBe(2);
+    expect(primary.cooldownUntil).toBeInstanceOf(Date);
+  });
+
+  it('should throw the last error when every endpoint fails', async () => {
+    sendTo
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockRejectedValueOnce(new Error('connection refused'));
+
+    await expect(provider._send(payload)).rejects.toThrow('connection refused');
+  });
+
+  it('should prefer the endpoint with the lower latency', async () => {
+    const endpoints = (provider as any).endpoints;
+    endpoints[0].latencyMs = 900;
+    endpoints[1].latencyMs = 100;
+    sendTo.mockResolvedValue(result);
+
+    await provider._send(payload);
+
+    expect(sendTo.mock.calls[0][0].url).toBe(urls[1]);
+  });
+
+  describe('maskRpcUrl', () => {
+    it('should hide API keys in the path or query', () => {
+      expect(maskRpcUrl(urls[0])).toBe('https://primary.example.com/***');
+      expect(maskRpcUrl('https://rpc.example.com?apikey=abc')).toBe(
+        'https://rpc.example.com/***',
+      );
+      expect(maskRpcUrl(urls[1])).toBe('https://backup.example.com');
+    });
+
+    it('should mask unparsable URLs entirely', () => {
+      expect(maskRpcUrl('not a url')).toBe('***');
+    });
+  });
+});
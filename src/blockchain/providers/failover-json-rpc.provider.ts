@@ -0,0 +1,241 @@
+import { Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+
+export interface FailoverOptions {
+  /** Per-request timeout for a single endpoint */
+  timeoutMs: number;
+  /** Consecutive failures before an endpoint is put in cooldown */
+  failureThreshold: number;
+  /** How long an unhealthy endpoint is skipped */
+  cooldownMs: number;
+}
+
+export interface RpcEndpointHealth {
+  url: string;
+  active: boolean;
+  healthy: boolean;
+  latencyMs: number | null;
+  errorRate: number;
+  totalRequests: number;
+  failedRequests: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  cooldownUntil: Date | null;
+}
+
+interface RpcEndpoint {
+  url: string;
+  connection: ethers.FetchRequest;
+  latencyMs: number | null;
+  errorRate: number;
+  totalRequests: number;
+  failedRequests: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  cooldownUntil: number | null;
+}
+
+// Weight of the newest sample in the moving averages
+const EWMA_ALPHA = 0.2;
+
+/**
+ * Hide API keys that providers embed in the RPC path or query
+ */
+export function maskRpcUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const hasSecret = parsed.pathname.length > 1 || parsed.search.length > 0;
+    return `${parsed.protocol}//${parsed.host}${hasSecret ? '/***' : ''}`;
+  } catch {
+    return '***';
+  }
+}
+
+/**
+ * JsonRpcProvider that spreads requests over several endpoints of one chain.
+ *
+ * Each request goes to the healthiest endpoint first and falls through to the
+ * next one on transport errors (timeouts, HTTP 5xx/429, connection refused).
+ * JSON-RPC error responses (reverts, nonce errors) are returned as-is since
+ * the endpoint did answer. Endpoints failing repeatedly are skipped for a
+ * cooldown period and only tried when every other endpoint failed too.
+ */
+export class FailoverJsonRpcProvider extends ethers.JsonRpcProvider {
+  private readonly logger = new Logger(FailoverJsonRpcProvider.name);
+  private readonly endpoints: RpcEndpoint[];
+  private readonly options: FailoverOptions;
+  private activeUrl: string;
+
+  constructor(
+    urls: string[],
+    network: ethers.Network,
+    options: FailoverOptions,
+  ) {
+    if (urls.length === 0) {
+      throw new Error('At least one RPC URL is required');
+    }
+
+    const connection = new ethers.FetchRequest(urls[0]);
+    connection.timeout = options.timeoutMs;
+
+    super(connection, network, { staticNetwork: network });
+
+    this.options = options;
+    this.activeUrl = urls[0];
+    this.endpoints = urls.map((url) => {
+      const endpointConnection = new ethers.FetchRequest(url);
+      endpointConnection.timeout = options.timeoutMs;
+
+      return {
+        url,
+        connection: endpointConnection,
+        latencyMs: null,
+        errorRate: 0,
+        totalRequests: 0,
+        failedRequests: 0,
+        consecutiveFailures: 0,
+        lastError: null,
+        lastErrorAt: null,
+        cooldownUntil: null,
+      };
+    });
+  }
+
+  async _send(
+    payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>,
+  ): Promise<Array<ethers.JsonRpcResult>> {
+    let lastError: unknown = null;
+
+    for (const endpoint of this.rankEndpoints()) {
+      const startedAt = Date.now();
+
+      try {
+        const result = await this.sendTo(endpoint, payload);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        lastError = error;
+        this.recordFailure(endpoint, error);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * POST the payload to one endpoint (mirrors JsonRpcProvider._send)
+   */
+  private async sendTo(
+    endpoint: RpcEndpoint,
+    payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>,
+  ): Promise<Array<ethers.JsonRpcResult>> {
+    const request = endpoint.connection.clone();
+    request.body = JSON.stringify(payload);
+    request.setHeader('content-type', 'application/json');
+
+    const response = await request.send();
+    response.assertOk();
+
+    // Error responses are typed as results too, like in JsonRpcProvider
+    const body = response.bodyJson as
+      | ethers.JsonRpcResult
+      | Array<ethers.JsonRpcResult>;
+
+    return Array.isArray(body) ? body : [body];
+  }
+
+  getEndpointHealth(): RpcEndpointHealth[] {
+    const now = Date.now();
+
+    return this.endpoints.map((endpoint) => ({
+      url: maskRpcUrl(endpoint.url),
+      active: endpoint.url === this.activeUrl,
+      healthy: !this.isCoolingDown(endpoint, now),
+      latencyMs:
+        endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+      errorRate: Math.round(endpoint.errorRate * 1000) / 1000,
+      totalRequests: endpoint.totalRequests,
+      failedRequests: endpoint.failedRequests,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      lastError: endpoint.lastError,
+      lastErrorAt: endpoint.lastErrorAt ? new Date(endpoint.lastErrorAt) : null,
+      cooldownUntil:
+        endpoint.cooldownUntil && endpoint.cooldownUntil > now
+          ? new Date(endpoint.cooldownUntil)
+          : null,
+    }));
+  }
+
+  /**
+   * Healthy endpoints first, by latency weighted with the recent error rate;
+   * endpoints without samples keep their configured order behind measured
+   * ones. Endpoints in cooldown go last, soonest to recover first.
+   */
+  private rankEndpoints(): RpcEndpoint[] {
+    const now = Date.now();
+    const healthy = this.endpoints.filter(
+      (endpoint) => !this.isCoolingDown(endpoint, now),
+    );
+    const cooling = this.endpoints.filter((endpoint) =>
+      this.isCoolingDown(endpoint, now),
+    );
+
+    healthy.sort((a, b) => {
+      if (a.latencyMs === null || b.latencyMs === null) {
+        if (a.latencyMs === b.latencyMs) {
+          return 0;
+        }
+        return a.latencyMs === null ? 1 : -1;
+      }
+      return this.score(a) - this.score(b);
+    });
+    cooling.sort((a, b) => (a.cooldownUntil ?? 0) - (b.cooldownUntil ?? 0));
+
+    return [...healthy, ...cooling];
+  }
+
+  // Lower is better: latency inflated by the recent error rate
+  private score(endpoint: RpcEndpoint): number {
+    return (endpoint.latencyMs ?? 0) * (1 + endpoint.errorRate * 10);
+  }
+
+  private isCoolingDown(endpoint: RpcEndpoint, now: number): boolean {
+    return endpoint.cooldownUntil !== null && endpoint.cooldownUntil > now;
+  }
+
+  private recordSuccess(endpoint: RpcEndpoint, latencyMs: number) {
+    endpoint.totalRequests++;
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = null;
+    endpoint.errorRate *= 1 - EWMA_ALPHA;
+    endpoint.latencyMs =
+      endpoint.latencyMs === null
+        ? latencyMs
+        : endpoint.latencyMs * (1 - EWMA_ALPHA) + latencyMs * EWMA_ALPHA;
+
+    if (endpoint.url !== this.activeUrl) {
+      this.logger.warn(
+        `RPC failover: now using ${maskRpcUrl(endpoint.url)} (was ${maskRpcUrl(this.activeUrl)})`,
+      );
+      this.activeUrl = endpoint.url;
+    }
+  }
+
+  private recordFailure(endpoint: RpcEndpoint, error: unknown) {
+    endpoint.totalRequests++;
+    endpoint.failedRequests++;
+    endpoint.consecutiveFailures++;
+    endpoint.errorRate = endpoint.errorRate * (1 - EWMA_ALPHA) + EWMA_ALPHA;
+    endpoint.lastError = (error as Error)?.message ?? String(error);
+    endpoint.lastErrorAt = Date.now();
+
+    if (endpoint.consecutiveFailures >= this.options.failureThreshold) {
+      endpoint.cooldownUntil = Date.now() + this.options.cooldownMs;
+      this.logger.warn(
+        `RPC endpoint ${maskRpcUrl(endpoint.url)} marked unhealthy after ${endpoint.consecutiveFailures} consecutive failures`,
+      );
+    }
+  }
+}
@@ -0,0 +1,721 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ethers } from 'ethers';
+import { Prisma } from '@prisma/client';
+import {
+  BlockchainEvent,
+  BlockchainEventService,
+} from './blockchain-event.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EthersProviderService } from './ethers-provider.service';
+import { StomaTradeContractService } from './stomatrade-contract.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+import {
+  mockEthersProviderService,
+  mockStomaTradeContractService,
+} from '../../test/mocks/blockchain.mock';
+
+describe('BlockchainEventService', () => {
+  let service: BlockchainEventService;
+  let prisma: typeof mockPrismaService;
+
+  const baseEvent = {
+    blockNumber: 12345678,
+    blockHash: '0xBlockHash',
+    transactionHash: '0xTxHash',
+    logIndex: 2,
+    timestamp: 1767225600,
+  };
+
+  const investedEvent: BlockchainEvent = {
+    ...baseEvent,
+    eventName: 'Invested',
+    args: {
+      idProject: BigInt(3001),
+      investor: '0xInvestorWallet',
+      amount: BigInt('10000000000000000000000'),
+      receiptTokenId: BigInt(4001),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BlockchainEventService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: EthersProviderService,
+          useValue: mockEthersProviderService,
+        },
+        {
+          provide: StomaTradeContractService,
+          useValue: mockStomaTradeContractService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<BlockchainEventService>(BlockchainEventService);
+    prisma = mockPrismaService;
+
+    prisma.blockchainEvent.findUnique.mockResolvedValue(null);
+    prisma.blockchainTransaction.findFirst.mockResolvedValue(null);
+    prisma.blockchainEvent.create.mockResolvedValue({ id: 'event-uuid-1' });
+    prisma.blockchainTransaction.create.mockResolvedValue({ id: 'tx-uuid-1' });
+    prisma.investment.create.mockResolvedValue({ id: 'investment-uuid-1' });
+    prisma.investment.findMany.mockResolvedValue([]);
+    prisma.profitClaim.create.mockResolvedValue({ id: 'claim-uuid-1' });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('processEvent', () => {
+    it('should skip events already recorded for the same tx hash and log index', async () => {
+      prisma.blockchainEvent.findUnique.mockResolvedValue({ id: 'event-1' });
+
+      const result = await service.processEvent(investedEvent);
+
+      expect(result).toBe(false);
+      expect(prisma.blockchainEvent.findUnique).toHaveBeenCalledWith({
+        where: {
+          transactionHash_logIndex: {
+            transactionHash: '0xTxHash',
+            logIndex: 2,
+          },
+        },
+      });
+      expect(prisma.investment.create).not.toHaveBeenCalled();
+      expect(prisma.blockchainEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('should create an investment for a wallet-initiated Invested event', async () => {
+      prisma.investment.findFirst.mockResolvedValue(null);
+      prisma.user.findUnique.mockResolvedValue({ id: 'user-uuid-1' });
+      prisma.project.findFirst.mockResolvedValue({ id: 'project-uuid-1' });
+
+      const result = await service.processEvent(investedEvent);
+
+      expect(result).toBe(true);
+      expect(prisma.user.findUnique).toHaveBeenCalledWith({
+        where: { walletAddress: '0xinvestorwallet' },
+      });
+      expect(prisma.investment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-uuid-1',
+          projectId: 'project-uuid-1',
+          amount: '10000',
+          receiptTokenId: 4001,
+          transactionHash: '0xTxHash',
+          blockNumber: 12345678,
+        }),
+      });
+      expect(prisma.blockchainTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          transactionHash: '0xTxHash',
+          transactionType: 'INVEST',
+          status: 'CONFIRMED',
+          fromAddress: '0xInvestorWallet',
+        }),
+      });
+      expect(prisma.blockchainEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          transactionHash: '0xTxHash',
+          logIndex: 2,
+          eventName: 'Invested',
+        }),
+      });
+    });
+
+    it('should only backfill receipt data when the investment already exists', async () => {
+      prisma.investment.findFirst.mockResolvedValue({
+        id: 'investment-uuid-1',
+        receiptTokenId: null,
+        blockNumber: null,
+      });
+
+      await service.processEvent(investedEvent);
+
+      expect(prisma.investment.create).not.toHaveBeenCalled();
+      expect(prisma.investment.update).toHaveBeenCalledWith({
+        where: { id: 'investment-uuid-1' },
+        data: { receiptTokenId: 4001, blockNumber: 12345678 },
+      });
+    });
+
+    it('should record the event before its handlers run, in one transaction', async () => {
+      prisma.investment.findFirst.mockResolvedValue(null);
+      prisma.user.findUnique.mockResolvedValue({ id: 'user-uuid-1' });
+      prisma.project.findFirst.mockResolvedValue({ id: 'project-uuid-1' });
+
+      await service.processEvent(investedEvent);
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      const [eventCreated] =
+        prisma.blockchainEvent.create.mock.invocationCallOrder;
+      const [investmentCreated] =
+        prisma.investment.create.mock.invocationCallOrder;
+      expect(eventCreated).toBeLessThan(investmentCreated);
+    });
+
+    it('should skip a log another instance recorded concurrently', async () => {
+      prisma.blockchainEvent.create.mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        }),
+      );
+
+      const result = await service.processEvent(investedEvent);
+
+      expect(result).toBe(false);
+      expect(prisma.investment.findFirst).not.toHaveBeenCalled();
+      expect(prisma.blockchainTransaction.create).not.toHaveBeenCalled();
+    });
+
+    it('should roll the event record back with a failing handler', async () => {
+      prisma.investment.findFirst.mockRejectedValueOnce(
+        new Error('connection lost'),
+      );
+
+      await expect(service.processEvent(investedEvent)).rejects.toThrow(
+        'connection lost',
+      );
+      expect(prisma.blockchainTransaction.create).not.toHaveBeenCalled();
+    });
+
+    it('should still record the event when the investor is not registered', async () => {
+      prisma.investment.findFirst.mockResolvedValue(null);
+      prisma.user.findUnique.mockResolvedValue(null);
+
+      const result = await service.processEvent(investedEvent);
+
+      expect(result).toBe(true);
+      expect(prisma.investment.create).not.toHaveBeenCalled();
+      expect(prisma.blockchainEvent.create).toHaveBeenCalled();
+    });
+
+    it('should link ProjectCreated to the submission that sent the tx', async () => {
+      prisma.projectSubmission.findFirst.mockResolvedValue({
+        id: 'submission-uuid-1',
+        projectId: 'project-uuid-1',
+      });
+
+      await service.processEvent({
+        ...baseEvent,
+        eventName: 'ProjectCreated',
+        args: { idProject: BigInt(3001), owner: '0xOwner' },
+      });
+
+      expect(prisma.projectSubmission.update).toHaveBeenCalledWith({
+        where: { id: 'submission-uuid-1' },
+        data: { status: 'MINTED', mintedTokenId: 3001 },
+      });
+      expect(prisma.project.update).toHaveBeenCalledWith({
+        where: { id: 'project-uuid-1' },
+        data: {
+          tokenId: 3001,
+          chainId: 'eip155:4202',
+          contractAddress: '0xContractAddress',
+          explorerUrl: 'https://sepolia-blockscout.lisk.com',
+        },
+      });
+    });
+
+    it('should stamp projects with the deployment that minted them', async () => {
+      prisma.projectSubmission.findFirst.mockResolvedValue({
+        id: 'submission-uuid-1',
+        projectId: 'project-uuid-1',
+      });
+      mockStomaTradeContractService.getDeployment.mockResolvedValueOnce({
+        id: 'app-project-2',
+        chainId: 'eip155:84532',
+        contractAddress: '0xOtherContract',
+        explorerUrl: 'https://sepolia.basescan.org',
+      });
+
+      await service.processEvent({
+        ...baseEvent,
+        eventName: 'ProjectCreated',
+        args: { idProject: BigInt(3001), owner: '0xOwner' },
+        chainId: 'eip155:84532',
+        contractAddress: '0xothercontract',
+      });
+
+      expect(prisma.project.update).toHaveBeenCalledWith({
+        where: { id: 'project-uuid-1' },
+        data: {
+          tokenId: 3001,
+          chainId: 'eip155:84532',
+          contractAddress: '0xOtherContract',
+          explorerUrl: 'https://sepolia.basescan.org',
+        },
+      });
+    });
+
+    it('should set the farmer tokenId from FarmerAdded', async () => {
+      prisma.farmerSubmission.findFirst.mockResolvedValue({
+        id: 'submission-uuid-2',
+        farmerId: 'farmer-uuid-1',
+      });
+
+      await service.processEvent({
+        ...baseEvent,
+        eventName: 'FarmerAdded',
+        args: { idFarmer: BigInt(1001) },
+      });
+
+      expect(prisma.farmer.update).toHaveBeenCalledWith({
+        where: { id: 'farmer-uuid-1' },
+        data: { tokenId: 1001 },
+      });
+    });
+
+    it('should record a profit claim and update the pool', async () => {
+      prisma.profitClaim.findFirst.mockResolvedValue(null);
+      prisma.user.findUnique.mockResolvedValue({ id: 'user-uuid-1' });
+      prisma.project.findFirst.mockResolvedValue({ id: 'project-uuid-1' });
+      prisma.investment.findFirst.mockResolvedValue({
+        id: 'investment-uuid-1',
+      });
+      prisma.profitPool.findUnique.mockResolvedValue({
+        id: 'pool-uuid-1',
+        totalClaimed: '100',
+        remainingProfit: '1000',
+      });
+      prisma.profitPool.update.mockResolvedValue({ id: 'pool-uuid-1' });
+
+      await service.processEvent({
+        ...baseEvent,
+        eventName: 'ProfitClaimed',
+        args: {
+          idProject: BigInt(3001),
+          user: '0xInvestorWallet',
+          amount: BigInt('500000000000000000000'),
+        },
+      });
+
+      expect(prisma.profitPool.update).toHaveBeenCalledWith({
+        where: { projectId: 'project-uuid-1' },
+        data: { totalClaimed: '600', remainingProfit: '500' },
+      });
+      expect(prisma.profitClaim.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          profitPoolId: 'pool-uuid-1',
+          investmentId: 'investment-uuid-1',
+          amount: '500',
+        }),
+      });
+      expect(prisma.blockchainEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-uuid-1' },
+        data: {
+          effects: JSON.stringify({
+            profitPool: {
+              projectId: 'project-uuid-1',
+              deposited: '0',
+              claimed: '500',
+            },
+            profitClaimIds: ['claim-uuid-1'],
+            transactionId: 'tx-uuid-1',
+          }),
+        },
+      });
+    });
+
+    it('should re-confirm a transaction rolled back by a reorg', async () => {
+      prisma.blockchainTransaction.findFirst.mockResolvedValue({
+        id: 'tx-uuid-1',
+        transactionHash: '0xTxHash',
+        blockNumber: null,
+      });
+      prisma.investment.findFirst.mockResolvedValue({
+        id: 'investment-uuid-1',
+        receiptTokenId: 4001,
+        blockNumber: null,
+      });
+
+      await service.processEvent(investedEvent);
+
+      expect(prisma.blockchainTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'tx-uuid-1' },
+        data: {
+          status: 'CONFIRMED',
+          blockNumber: 12345678,
+          errorMessage: null,
+        },
+      });
+      expect(prisma.investment.update).toHaveBeenCalledWith({
+        where: { id: 'investment-uuid-1' },
+        data: { receiptTokenId: 4001, blockNumber: 12345678 },
+      });
+    });
+
+    it('should link a sped-up transaction to the originally recorded hash', async () => {
+      prisma.blockchainTransaction.findFirst.mockResolvedValue({
+        id: 'tx-uuid-1',
+        transactionHash: '0xOriginalHash',
+        blockNumber: 12345678,
+      });
+      prisma.investment.findFirst.mockResolvedValue(null);
+      prisma.user.findUnique.mockResolvedValue(null);
+
+      await service.processEvent(investedEvent);
+
+      expect(prisma.blockchainTransaction.findFirst).toHaveBeenCalledWith({
+        where: {
+          OR: [
+            { transactionHash: '0xTxHash' },
+            { replacementHashes: { has: '0xTxHash' } },
+          ],
+        },
+      });
+      expect(prisma.investment.findFirst).toHaveBeenCalledWith({
+        where: { transactionHash: '0xOriginalHash' },
+      });
+      expect(prisma.blockchainEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ transactionHash: '0xTxHash' }),
+      });
+    });
+
+    it('should not re-apply a refund the platform already recorded', async () => {
+      prisma.blockchainTransaction.findFirst.mockResolvedValue({
+        id: 'tx-uuid-1',
+        transactionHash: '0xTxHash',
+      });
+
+      await service.processEvent({
+        ...baseEvent,
+        eventName: 'Refunded',
+        args: {
+          idProject: BigInt(3001),
+          investor: '0xInvestorWallet',
+          amount: BigInt(1),
+        },
+      });
+
+      expect(prisma.investment.updateMany).not.toHaveBeenCalled();
+      expect(prisma.blockchainTransaction.create).not.toHaveBeenCalled();
+      expect(prisma.blockchainEvent.create).toHaveBeenCalled();
+    });
+
+    it('should apply a refund the investor signed themselves', async () => {
+      prisma.blockchainTransaction.findFirst.mockResolvedValue({
+        id: 'tx-uuid-1',
+        transactionHash: '0xTxHash',
+        fromAddress: '0xinvestorwallet',
+        blockNumber: 12345678,
+      });
+      prisma.user.findUnique.mockResolvedValue({ id: 'user-uuid-1' });
+      prisma.project.findFirst.mockResolvedValue({ id: 'project-uuid-1' });
+      prisma.investment.findMany.mockResolvedValue([
+        { id: 'investment-uuid-1' },
+      ]);
+      prisma.investment.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.processEvent({
+        ...baseEvent,
+        eventName: 'Refunded',
+        args: {
+          idProject: BigInt(3001),
+          investor: '0xInvestorWallet',
+          amount: BigInt(1),
+        },
+      });
+
+      expect(prisma.investment.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-uuid-1',
+          projectId: 'project-uuid-1',
+          deleted: false,
+        },
+        select: { id: true },
+      });
+      expect(prisma.investment.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['investment-uuid-1'] } },
+        data: { deleted: true },
+      });
+      expect(prisma.blockchainTransaction.create).not.toHaveBeenCalled();
+      expect(prisma.blockchainEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-uuid-1' },
+        data: {
+          effects: JSON.stringify({
+            refundedInvestmentIds: ['investment-uuid-1'],
+          }),
+        },
+      });
+    });
+
+    it('should move an indexed NFT to the new owner on Transfer', async () => {
+      prisma.blockchainTransaction.findFirst.mockResolvedValue(null);
+      prisma.nftMetadata.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.processEvent({
+        ...baseEvent,
+        eventName: 'Transfer',
+        args: {
+          from: '0xInvestorWallet',
+          to: '0xNewOwnerWallet',
+          tokenId: BigInt(4001),
+        },
+      });
+
+      expect(prisma.nftMetadata.updateMany).toHaveBeenCalledWith({
+        where: {
+          tokenId: 4001,
+          OR: [
+            {
+              chainId: 'eip155:4202',
+              contractAddress: {
+                equals: '0xContractAddress',
+                mode: 'insensitive',
+              },
+            },
+            { chainId: null },
+            { contractAddress: null },
+          ],
+        },
+        data: { ownerAddress: '0xnewownerwallet' },
+      });
+      expect(prisma.blockchainTransaction.create).not.toHaveBeenCalled();
+    });
+
+    it('should only apply logs to projects of the deployment that emitted them', async () => {
+      mockStomaTradeContractService.getDeployment.mockResolvedValueOnce({
+        id: 'app-project-2',
+        chainId: 'eip155:84532',
+        contractAddress: '0xOtherContract',
+      });
+      prisma.project.findFirst.mockResolvedValue(null);
+
+      await service.processEvent({
+        ...baseEvent,
+        eventName: 'ProfitDeposited',
+        args: { idProject: BigInt(3001), amount: BigInt(1) },
+        chainId: 'eip155:84532',
+        contractAddress: '0xothercontract',
+      });
+
+      expect(mockStomaTradeContractService.getDeployment).toHaveBeenCalledWith({
+        chainId: 'eip155:84532',
+        contractAddress: '0xothercontract',
+      });
+      expect(prisma.project.findFirst).toHaveBeenCalledWith({
+        where: {
+          tokenId: 3001,
+          deleted: false,
+          OR: [
+            {
+              chainId: 'eip155:84532',
+              contractAddress: {
+                equals: '0xOtherContract',
+                mode: 'insensitive',
+              },
+            },
+          ],
+        },
+      });
+      expect(prisma.blockchainEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          contractAddress: '0xothercontract',
+        }) as object,
+      });
+      expect(prisma.blockchainTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          chainId: 'eip155:84532',
+          toAddress: '0xothercontract',
+        }) as object,
+      });
+    });
+
+    it('should apply a log delivered twice at the same time only once', async () => {
+      const transferEvent: BlockchainEvent = {
+        ...baseEvent,
+        eventName: 'Transfer',
+        args: {
+          from: '0xInvestorWallet',
+          to: '0xNewOwnerWallet',
+          tokenId: BigInt(4001),
+        },
+      };
+      prisma.nftMetadata.updateMany.mockResolvedValue({ count: 1 });
+
+      const results = await Promise.all([
+        service.processEvent(transferEvent),
+        service.processEvent({ ...transferEvent }),
+      ]);
+
+      expect(results).toEqual([true, false]);
+      expect(prisma.blockchainEvent.findUnique).toHaveBeenCalledTimes(1);
+      expect(prisma.nftMetadata.updateMany).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('queryPastEvents', () => {
+    // The default moved to another deployment after these projects were minted
+    const previousDeployment = {
+      id: 'app-project-0',
+      chainId: 'eip155:84532',
+      contractAddress: '0xPreviousContract',
+    };
+    const investedLog = {
+      eventName: 'Invested',
+      fragment: {
+        inputs: ['idProject', 'investor', 'amount', 'receiptTokenId'].map(
+          (name) => ({ name }),
+        ),
+      },
+      args: Object.values(investedEvent.args as object),
+      blockNumber: 12345678,
+      blockHash: '0xBlockHash',
+      transactionHash: '0xPreviousTxHash',
+      index: 0,
+      address: '0xPreviousContract',
+      getBlock: jest.fn().mockResolvedValue({ timestamp: 1767225600 }),
+    };
+
+    beforeEach(() => {
+      mockStomaTradeContractService.resolveContract.mockResolvedValue({
+        contract: {
+          interface: { getEvent: jest.fn().mockReturnValue({}) },
+          filters: { Invested: jest.fn().mockReturnValue({}) },
+          queryFilter: jest.fn().mockResolvedValue([investedLog]),
+        },
+        chainId: 'eip155:84532',
+        abiVersion: { version: 1, eventNames: {} },
+      });
+    });
+
+    it('should keep projecting events of projects on a previous default deployment', async () => {
+      const events = await service.queryPastEvents(
+        'Invested',
+        12345000,
+        12345678,
+        previousDeployment,
+      );
+
+      expect(
+        mockStomaTradeContractService.resolveContract,
+      ).toHaveBeenCalledWith(previousDeployment);
+      expect(events).toEqual([
+        expect.objectContaining({
+          eventName: 'Invested',
+          transactionHash: '0xPreviousTxHash',
+          chainId: 'eip155:84532',
+          contractAddress: '0xpreviouscontract',
+        }),
+      ]);
+
+      mockStomaTradeContractService.getDeployment
+        .mockResolvedValueOnce(previousDeployment)
+        .mockResolvedValueOnce(previousDeployment);
+      prisma.investment.findFirst.mockResolvedValue(null);
+      prisma.user.findUnique.mockResolvedValue({ id: 'user-uuid-1' });
+      prisma.project.findFirst.mockResolvedValue({ id: 'project-uuid-1' });
+
+      await expect(service.processEvent(events[0])).resolves.toBe(true);
+
+      expect(prisma.project.findFirst).toHaveBeenCalledWith({
+        where: {
+          tokenId: 3001,
+          deleted: false,
+          OR: [
+            {
+              chainId: 'eip155:84532',
+              contractAddress: {
+                equals: '0xPreviousContract',
+                mode: 'insensitive',
+              },
+            },
+          ],
+        },
+      });
+      expect(prisma.investment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          projectId: 'project-uuid-1',
+          transactionHash: '0xPreviousTxHash',
+        }) as object,
+      });
+    });
+  });
+
+  describe('decodeReceiptEvents', () => {
+    const contractInterface = new ethers.Interface([
+      'event FarmerMinted(uint256 indexed nftId, address farmer, string namaKomoditas)',
+    ]);
+    const { data, topics } = contractInterface.encodeEventLog('FarmerMinted', [
+      BigInt(1001),
+      ethers.ZeroAddress,
+      'Coffee',
+    ]);
+    const receiptFrom = (address: string) =>
+      ({
+        blockNumber: 12345678,
+        logs: [{ ...baseEvent, address, index: 0, data, topics }],
+      }) as unknown as ethers.TransactionReceipt;
+
+    beforeEach(() => {
+      mockStomaTradeContractService.resolveContract.mockResolvedValue({
+        contract: { interface: contractInterface },
+        abiVersion: {
+          version: 2,
+          eventNames: { FarmerAdded: 'FarmerMinted' },
+        },
+      });
+      mockEthersProviderService.getProviderForChain.mockResolvedValue({
+        getBlock: jest.fn().mockResolvedValue({ timestamp: 1767225600 }),
+      });
+    });
+
+    it('should sync events renamed in the ABI version under their synced name', async () => {
+      const events = await service.decodeReceiptEvents(
+        receiptFrom('0xContractAddress'),
+      );
+
+      expect(events).toHaveLength(1);
+      expect(events[0].eventName).toBe('FarmerAdded');
+      expect(events[0].args).toMatchObject({ nftId: BigInt(1001) });
+    });
+
+    it('should decode with the deployment the transaction was sent to', async () => {
+      const deployment = {
+        id: 'app-project-2',
+        chainId: 'eip155:84532',
+        contractAddress: '0xOtherContract',
+      };
+      prisma.appProject.findFirst.mockResolvedValue(deployment);
+
+      const events = await service.decodeReceiptEvents(
+        receiptFrom('0xothercontract'),
+        { chainId: 'eip155:84532', toAddress: '0xOtherContract' },
+      );
+
+      expect(
+        mockStomaTradeContractService.resolveContract,
+      ).toHaveBeenCalledWith(deployment);
+      expect(
+        mockEthersProviderService.getProviderForChain,
+      ).toHaveBeenCalledWith('eip155:84532');
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        eventName: 'FarmerAdded',
+        chainId: 'eip155:84532',
+        contractAddress: '0xothercontract',
+      });
+    });
+
+    it('should skip logs of other contracts', async () => {
+      const events = await service.decodeReceiptEvents(
+        receiptFrom('0xSomeToken'),
+      );
+
+      expect(events).toEqual([]);
+      expect(
+        mockStomaTradeContractService.resolveContract,
+      ).not.toHaveBeenCalled();
+    });
+  });
+});
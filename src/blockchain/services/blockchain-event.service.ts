@@ -1,25 +1,90 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import { ethers, EventLog, Log } from 'ethers';
+import {
+  BaseContract,
+  ContractEventPayload,
+  EventLog,
+  TransactionReceipt,
+} from 'ethers';
+import {
+  AppProject,
+  BlockchainTransaction,
+  Prisma,
+  TRANSACTION_TYPE,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
 import { EthersProviderService } from './ethers-provider.service';
-import { StomaTradeContractService } from './stomatrade-contract.service';
+import {
+  ContractTarget,
+  ResolvedContract,
+  StomaTradeContractService,
+} from './stomatrade-contract.service';
+import { abiEventName, syncedEventName } from './contract-abi.service';
+import { Money, projectDecimals } from '../../common/utils/money.util';
 
 export interface BlockchainEvent {
   eventName: string;
   blockNumber: number;
+  blockHash: string;
   transactionHash: string;
+  logIndex: number;
   args: any;
   timestamp: number;
+  /** Deployment that emitted the log; the default one when missing */
+  chainId?: string;
+  contractAddress?: string;
 }
 
+/**
+ * What a log's handlers changed on top of the rows the platform recorded
+ * in-line, stored with its BlockchainEvent so a reorg rollback can undo it
+ */
+export interface EventEffects {
+  /** BlockchainTransaction recorded for a log the platform did not send */
+  transactionId?: string;
+  investmentIds?: string[];
+  profitClaimIds?: string[];
+  /** Investments soft-deleted as refunded */
+  refundedInvestmentIds?: string[];
+  /** Amounts added to the project's profit pool */
+  profitPool?: { projectId: string; deposited: string; claimed: string };
+}
+
+/**
+ * Event types projected into the database, shared by the live listener,
+ * the cron sync and the historical sync. Names are those of the current
+ * contract; ABI versions that spell an event differently (FarmerMinted for
+ * FarmerAdded) map it in their event names and are read under these names.
+ */
+export const SYNCED_EVENT_TYPES = [
+  'ProjectCreated',
+  'FarmerAdded',
+  'Invested',
+  'ProfitDeposited',
+  'ProfitClaimed',
+  'Refunded',
+  'Transfer',
+];
+
+const EVENT_TRANSACTION_TYPES: Record<string, TRANSACTION_TYPE> = {
+  ProjectCreated: TRANSACTION_TYPE.CREATE_PROJECT,
+  FarmerAdded: TRANSACTION_TYPE.MINT_FARMER_NFT,
+  Invested: TRANSACTION_TYPE.INVEST,
+  ProfitDeposited: TRANSACTION_TYPE.DEPOSIT_PROFIT,
+  ProfitClaimed: TRANSACTION_TYPE.CLAIM_PROFIT,
+  Refunded: TRANSACTION_TYPE.REFUND,
+};
+
 @Injectable()
 export class BlockchainEventService implements OnModuleInit {
   private readonly logger = new Logger(BlockchainEventService.name);
   private isListening = false;
+  private readonly inFlightEvents = new Map<string, Promise<boolean>>();
 
   constructor(
+    private readonly prisma: PrismaService,
     private readonly providerService: EthersProviderService,
     private readonly contractService: StomaTradeContractService,
-  ) { }
+  ) {}
 
   async onModuleInit() {
     // We'll start event listening manually when needed
@@ -27,76 +92,35 @@ export class BlockchainEventService implements OnModuleInit {
   }
 
   /**
-   * Start listening to all contract events
+   * Start listening to all contract events, on the default contract or on
+   * one connected to a subscription-capable (WebSocket) provider
    */
-  startListening() {
+  startListening(contract: BaseContract = this.contractService.getContract()) {
     if (this.isListening) {
       this.logger.warn('Already listening to events');
       return;
     }
 
-    const contract = this.contractService.getContract();
-
-    // Listen to ProjectCreated events
-    contract.on('ProjectCreated', async (idProject, owner, valueProject, maxCrowdFunding, event) => {
-      await this.handleProjectCreatedEvent({
-        idProject,
-        owner,
-        valueProject,
-        maxCrowdFunding,
-        event,
-      });
-    });
-
-    // Listen to FarmerMinted events
-    contract.on('FarmerMinted', async (farmer, nftId, namaKomoditas, event) => {
-      await this.handleFarmerMintedEvent({
-        farmer,
-        nftId,
-        namaKomoditas,
-        event,
-      });
-    });
-
-    // Listen to Invested events
-    contract.on('Invested', async (idProject, investor, amount, receiptTokenId, event) => {
-      await this.handleInvestedEvent({
-        idProject,
-        investor,
-        amount,
-        receiptTokenId,
-        event,
-      });
-    });
-
-    // Listen to ProfitDeposited events
-    contract.on('ProfitDeposited', async (idProject, amount, event) => {
-      await this.handleProfitDepositedEvent({
-        idProject,
-        amount,
-        event,
-      });
-    });
-
-    // Listen to ProfitClaimed events
-    contract.on('ProfitClaimed', async (idProject, user, amount, event) => {
-      await this.handleProfitClaimedEvent({
-        idProject,
-        user,
-        amount,
-        event,
-      });
-    });
+    for (const eventType of SYNCED_EVENT_TYPES) {
+      const abiName = this.contractService.getEventName(eventType);
+      if (!contract.interface.getEvent(abiName)) {
+        continue;
+      }
 
-    // Listen to Refunded events
-    contract.on('Refunded', async (idProject, investor, amount, event) => {
-      await this.handleRefundedEvent({
-        idProject,
-        investor,
-        amount,
-        event,
+      // The last listener argument is always the ContractEventPayload
+      void contract.on(abiName, async (...listenerArgs: unknown[]) => {
+        const payload = listenerArgs[
+          listenerArgs.length - 1
+        ] as ContractEventPayload;
+
+        try {
+          const event = await this.toBlockchainEvent(payload.log, eventType);
+          await this.processEvent(event);
+        } catch (error) {
+          this.logger.error(`Error handling live ${eventType} event`, error);
+        }
       });
-    });
+    }
 
     this.isListening = true;
     this.logger.log('Started listening to blockchain events');
@@ -105,48 +129,81 @@ export class BlockchainEventService implements OnModuleInit {
   /**
    * Stop listening to events
    */
-  stopListening() {
-    const contract = this.contractService.getContract();
-    contract.removeAllListeners();
+  stopListening(contract: BaseContract = this.contractService.getContract()) {
+    void contract.removeAllListeners();
     this.isListening = false;
     this.logger.log('Stopped listening to blockchain events');
   }
 
   /**
-   * Query past events in a block range
+   * Query past events in a block range, from the default deployment unless
+   * given another one
    */
   async queryPastEvents(
     eventName: string,
     fromBlock: number,
     toBlock: number | 'latest' = 'latest',
+    deployment?: ContractTarget,
   ): Promise<BlockchainEvent[]> {
+    const resolved = await this.contractService.resolveContract(deployment);
+    const { contract } = resolved;
+    const abiName = abiEventName(resolved.abiVersion, eventName);
+
+    // Contract versions do not all emit every event
+    if (!contract.interface.getEvent(abiName)) {
+      this.logger.debug(`Event ${abiName} not present in contract ABI`);
+      return [];
+    }
+
     this.logger.log(
       `Querying past ${eventName} events from block ${fromBlock} to ${toBlock}`,
     );
 
-    const contract = this.contractService.getContract();
-    const filter = contract.filters[eventName]();
+    const filter = contract.filters[abiName]();
 
     const events = await contract.queryFilter(filter, fromBlock, toBlock);
 
     const blockchainEvents: BlockchainEvent[] = [];
 
     for (const event of events) {
-      const block = await event.getBlock();
-
-      blockchainEvents.push({
-        eventName: (event as EventLog).eventName || eventName,
-        blockNumber: event.blockNumber,
-        transactionHash: event.transactionHash,
-        args: (event as EventLog).args,
-        timestamp: block.timestamp,
-      });
+      blockchainEvents.push(
+        await this.toBlockchainEvent(event as EventLog, eventName, resolved),
+      );
     }
 
-    this.logger.log(`Found ${blockchainEvents.length} past ${eventName} events`);
+    this.logger.log(
+      `Found ${blockchainEvents.length} past ${eventName} events`,
+    );
     return blockchainEvents;
   }
 
+  /**
+   * Query every synced event type in a block range with a single getLogs
+   * call, in chain order
+   */
+  async querySyncedEvents(
+    fromBlock: number,
+    toBlock: number,
+    deployment?: ContractTarget,
+  ): Promise<BlockchainEvent[]> {
+    const resolved = await this.contractService.resolveContract(deployment);
+    const logs = await resolved.contract.queryFilter('*', fromBlock, toBlock);
+
+    const events: BlockchainEvent[] = [];
+    for (const log of logs) {
+      if (!(log instanceof EventLog)) {
+        continue;
+      }
+
+      const eventName = syncedEventName(resolved.abiVersion, log.eventName);
+      if (SYNCED_EVENT_TYPES.includes(eventName)) {
+        events.push(await this.toBlockchainEvent(log, eventName, resolved));
+      }
+    }
+
+    return events;
+  }
+
   /**
    * Sync events from a specific block to current
    */
@@ -155,17 +212,7 @@ export class BlockchainEventService implements OnModuleInit {
 
     const currentBlock = await this.providerService.getBlockNumber();
 
-    // Query all event types
-    const eventTypes = [
-      'ProjectCreated',
-      'FarmerAdded', // Changed from FarmerMinted in new contract
-      'Invested',
-      'ProfitDeposited',
-      'ProfitClaimed',
-      'Refunded',
-    ];
-
-    for (const eventType of eventTypes) {
+    for (const eventType of SYNCED_EVENT_TYPES) {
       try {
         const events = await this.queryPastEvents(
           eventType,
@@ -173,9 +220,8 @@ export class BlockchainEventService implements OnModuleInit {
           currentBlock,
         );
 
-        // Process events based on type
         for (const event of events) {
-          await this.processHistoricalEvent(event);
+          await this.processEvent(event);
         }
       } catch (error) {
         this.logger.error(`Error syncing ${eventType} events`, error);
@@ -185,62 +231,753 @@ export class BlockchainEventService implements OnModuleInit {
     this.logger.log(`Event sync completed up to block ${currentBlock}`);
   }
 
-  // ============ EVENT HANDLERS ============
+  /**
+   * Project a contract event into the database.
+   * Idempotent: every log is recorded in BlockchainEvent keyed by
+   * (transactionHash, logIndex) and skipped when seen again. The record and
+   * the rows the handlers write commit in one transaction, so a failure
+   * leaves neither behind and a log delivered to several instances at once
+   * (live subscription and sync) is applied once.
+   *
+   * @returns true if the event was processed, false if it was already known
+   */
+  async processEvent(event: BlockchainEvent): Promise<boolean> {
+    const key = `${event.transactionHash}:${event.logIndex}`;
 
-  private async handleProjectCreatedEvent(data: any) {
-    this.logger.log(
-      `ProjectCreated event: Project ${data.idProject} created by ${data.owner}`,
+    const inFlight = this.inFlightEvents.get(key);
+    if (inFlight) {
+      await inFlight;
+      return false;
+    }
+
+    const processing = this.applyEvent(event);
+    this.inFlightEvents.set(key, processing);
+
+    try {
+      return await processing;
+    } finally {
+      this.inFlightEvents.delete(key);
+    }
+  }
+
+  private async applyEvent(event: BlockchainEvent): Promise<boolean> {
+    const alreadyProcessed = await this.prisma.blockchainEvent.findUnique({
+      where: {
+        transactionHash_logIndex: {
+          transactionHash: event.transactionHash,
+          logIndex: event.logIndex,
+        },
+      },
+    });
+
+    if (alreadyProcessed) {
+      this.logSkipped(event);
+      return false;
+    }
+
+    this.logger.debug(
+      `Processing ${event.eventName} event from block ${event.blockNumber}`,
     );
 
-    // TODO: Store event in database
-    // You'll implement this when we create the database module
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        // Recorded before the handlers run: another instance applying the
+        // same log fails on the unique key here and rolls back untouched
+        const record = await tx.blockchainEvent.create({
+          data: {
+            transactionHash: event.transactionHash,
+            logIndex: event.logIndex,
+            blockNumber: event.blockNumber,
+            blockHash: event.blockHash,
+            eventName: event.eventName,
+            contractAddress: (
+              event.contractAddress ??
+              this.contractService.getstomatradeAddress()
+            ).toLowerCase(),
+            args: this.serializeEventArgs(event.args),
+          },
+        });
+
+        const effects = await this.applyHandlers(tx, event);
+        if (Object.keys(effects).length > 0) {
+          await tx.blockchainEvent.update({
+            where: { id: record.id },
+            data: { effects: JSON.stringify(effects) },
+          });
+        }
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        this.logSkipped(event);
+        return false;
+      }
+      throw error;
+    }
+
+    return true;
   }
 
-  private async handleFarmerMintedEvent(data: any) {
+  private async applyHandlers(
+    tx: Prisma.TransactionClient,
+    event: BlockchainEvent,
+  ): Promise<EventEffects> {
+    const effects: EventEffects = {};
+
+    // Platform-initiated transactions are recorded in-line by the services,
+    // so an existing row means the DB state was already updated for this tx.
+    // The mined hash may be a speed-up replacement of the recorded one.
+    const existingTx = await tx.blockchainTransaction.findFirst({
+      where: {
+        OR: [
+          { transactionHash: event.transactionHash },
+          { replacementHashes: { has: event.transactionHash } },
+        ],
+      },
+    });
+
+    // Handlers link rows by the hash the platform originally recorded
+    const linkedEvent = existingTx
+      ? { ...event, transactionHash: existingTx.transactionHash }
+      : event;
+
+    switch (event.eventName) {
+      case 'ProjectCreated':
+        await this.handleProjectCreatedEvent(tx, linkedEvent);
+        break;
+      case 'FarmerAdded':
+        await this.handleFarmerAddedEvent(tx, linkedEvent);
+        break;
+      case 'Invested':
+        await this.handleInvestedEvent(tx, linkedEvent, effects);
+        break;
+      case 'ProfitDeposited':
+        if (!existingTx) {
+          await this.handleProfitDepositedEvent(tx, linkedEvent, effects);
+        }
+        break;
+      case 'ProfitClaimed':
+        await this.handleProfitClaimedEvent(tx, linkedEvent, effects);
+        break;
+      case 'Refunded':
+        // Refunds the investor signed themselves are not applied in-line
+        if (
+          !existingTx ||
+          this.isSentBy(existingTx, event.args.investor as string)
+        ) {
+          await this.handleRefundedEvent(tx, linkedEvent, effects);
+        }
+        break;
+      case 'Transfer':
+        await this.handleTransferEvent(tx, linkedEvent);
+        break;
+      default:
+        this.logger.debug(`No handler for ${event.eventName} event`);
+    }
+
+    const transactionType = EVENT_TRANSACTION_TYPES[event.eventName];
+    if (!existingTx && transactionType) {
+      const created = await tx.blockchainTransaction.create({
+        data: {
+          transactionHash: event.transactionHash,
+          transactionType,
+          status: 'CONFIRMED',
+          fromAddress: this.getEventActor(event),
+          toAddress:
+            event.contractAddress ??
+            this.contractService.getstomatradeAddress(),
+          chainId:
+            event.chainId ?? this.contractService.getAppProject().chainId,
+          blockNumber: event.blockNumber,
+          eventData: this.serializeEventArgs(event.args),
+        },
+      });
+      effects.transactionId = created.id;
+    } else if (existingTx && existingTx.blockNumber === null) {
+      // Queued send not yet receipted, or re-included after a reorg rollback
+      await tx.blockchainTransaction.update({
+        where: { id: existingTx.id },
+        data: {
+          status: 'CONFIRMED',
+          blockNumber: event.blockNumber,
+          errorMessage: null,
+        },
+      });
+    }
+
+    return effects;
+  }
+
+  // ============ EVENT HANDLERS ============
+
+  private async handleProjectCreatedEvent(
+    tx: Prisma.TransactionClient,
+    event: BlockchainEvent,
+  ) {
+    const tokenId = Number(event.args.idProject);
+
     this.logger.log(
-      `FarmerMinted event: Farmer ${data.farmer} minted NFT ${data.nftId}`,
+      `ProjectCreated event: Project ${tokenId} created by ${event.args.owner}`,
     );
 
-    // TODO: Store event in database and update farmer record
+    const submission = await tx.projectSubmission.findFirst({
+      where: {
+        transaction: { transactionHash: event.transactionHash },
+        deleted: false,
+      },
+    });
+
+    if (!submission) {
+      this.logger.warn(
+        `No project submission linked to tx ${event.transactionHash}, project ${tokenId} left unlinked`,
+      );
+      return;
+    }
+
+    await tx.projectSubmission.update({
+      where: { id: submission.id },
+      data: {
+        status: 'MINTED',
+        mintedTokenId: tokenId,
+      },
+    });
+
+    // Minted on the deployment that emitted the log
+    const appProject = await this.contractService.getDeployment({
+      chainId: event.chainId,
+      contractAddress: event.contractAddress,
+    });
+
+    await tx.project.update({
+      where: { id: submission.projectId },
+      data: {
+        tokenId,
+        chainId: appProject.chainId,
+        contractAddress: appProject.contractAddress,
+        explorerUrl: appProject.explorerUrl,
+      },
+    });
   }
 
-  private async handleInvestedEvent(data: any) {
+  private async handleFarmerAddedEvent(
+    tx: Prisma.TransactionClient,
+    event: BlockchainEvent,
+  ) {
+    const tokenId = Number(event.args.idFarmer ?? event.args.nftId);
+
+    this.logger.log(`${event.eventName} event: Farmer NFT ${tokenId} minted`);
+
+    const submission = await tx.farmerSubmission.findFirst({
+      where: {
+        transaction: { transactionHash: event.transactionHash },
+        deleted: false,
+      },
+    });
+
+    if (!submission) {
+      this.logger.warn(
+        `No farmer submission linked to tx ${event.transactionHash}, farmer NFT ${tokenId} left unlinked`,
+      );
+      return;
+    }
+
+    await tx.farmerSubmission.update({
+      where: { id: submission.id },
+      data: {
+        status: 'MINTED',
+        mintedTokenId: tokenId,
+      },
+    });
+
+    await tx.farmer.update({
+      where: { id: submission.farmerId },
+      data: { tokenId },
+    });
+  }
+
+  private async handleInvestedEvent(
+    tx: Prisma.TransactionClient,
+    event: BlockchainEvent,
+    effects: EventEffects,
+  ) {
+    const { idProject, investor, amount, receiptTokenId } = event.args;
+
     this.logger.log(
-      `Invested event: ${data.investor} invested ${data.amount} in project ${data.idProject}`,
+      `Invested event: ${investor} invested ${amount} in project ${idProject}`,
     );
 
-    // TODO: Store investment in database
+    // Investment already created by InvestmentsService for this tx
+    const existing = await tx.investment.findFirst({
+      where: { transactionHash: event.transactionHash },
+    });
+
+    if (existing) {
+      if (existing.receiptTokenId === null || existing.blockNumber === null) {
+        await tx.investment.update({
+          where: { id: existing.id },
+          data: {
+            receiptTokenId: Number(receiptTokenId),
+            blockNumber: event.blockNumber,
+          },
+        });
+      }
+      return;
+    }
+
+    const refs = await this.findInvestorAndProject(
+      tx,
+      event,
+      investor,
+      idProject,
+    );
+    if (!refs) return;
+
+    const investment = await tx.investment.create({
+      data: {
+        userId: refs.userId,
+        projectId: refs.projectId,
+        amount: Money.fromUnits(amount as bigint, refs.decimals).toString(),
+        tokenAddress: refs.tokenAddress,
+        receiptTokenId: Number(receiptTokenId),
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        investedAt: new Date(event.timestamp * 1000),
+      },
+    });
+    effects.investmentIds = [investment.id];
   }
 
-  private async handleProfitDepositedEvent(data: any) {
+  private async handleProfitDepositedEvent(
+    tx: Prisma.TransactionClient,
+    event: BlockchainEvent,
+    effects: EventEffects,
+  ) {
+    const { idProject, amount } = event.args;
+
     this.logger.log(
-      `ProfitDeposited event: ${data.amount} deposited to project ${data.idProject}`,
+      `ProfitDeposited event: ${amount} deposited to project ${idProject}`,
+    );
+
+    const project = await tx.project.findFirst({
+      where: {
+        tokenId: Number(idProject),
+        deleted: false,
+        ...(await this.deploymentFilter(event)),
+      },
+    });
+
+    if (!project) {
+      this.logger.warn(`Project with token ID ${idProject} not found`);
+      return;
+    }
+
+    const depositedAmount = Money.fromUnits(
+      amount as bigint,
+      projectDecimals(project),
     );
+    effects.profitPool = {
+      projectId: project.id,
+      deposited: depositedAmount.toString(),
+      claimed: '0',
+    };
+
+    const profitPool = await tx.profitPool.findUnique({
+      where: { projectId: project.id },
+    });
 
-    // TODO: Update profit pool in database
+    if (!profitPool) {
+      await tx.profitPool.create({
+        data: {
+          projectId: project.id,
+          totalDeposited: depositedAmount.toString(),
+          totalClaimed: '0',
+          remainingProfit: depositedAmount.toString(),
+          lastDepositAt: new Date(event.timestamp * 1000),
+        },
+      });
+      return;
+    }
+
+    await tx.profitPool.update({
+      where: { projectId: project.id },
+      data: {
+        totalDeposited: Money.parse(profitPool.totalDeposited)
+          .plus(depositedAmount)
+          .toString(),
+        remainingProfit: Money.parse(profitPool.remainingProfit)
+          .plus(depositedAmount)
+          .toString(),
+        lastDepositAt: new Date(event.timestamp * 1000),
+      },
+    });
   }
 
-  private async handleProfitClaimedEvent(data: any) {
+  private async handleProfitClaimedEvent(
+    tx: Prisma.TransactionClient,
+    event: BlockchainEvent,
+    effects: EventEffects,
+  ) {
+    const { idProject, user, amount } = event.args;
+
     this.logger.log(
-      `ProfitClaimed event: ${data.user} claimed ${data.amount} from project ${data.idProject}`,
+      `ProfitClaimed event: ${user} claimed ${amount} from project ${idProject}`,
     );
 
-    // TODO: Update profit claim in database
+    // Claim already recorded by ProfitsService for this tx
+    const existing = await tx.profitClaim.findFirst({
+      where: { transactionHash: event.transactionHash },
+    });
+
+    if (existing) {
+      if (existing.blockNumber === null) {
+        await tx.profitClaim.update({
+          where: { id: existing.id },
+          data: { blockNumber: event.blockNumber },
+        });
+      }
+      return;
+    }
+
+    const refs = await this.findInvestorAndProject(tx, event, user, idProject);
+    if (!refs) return;
+
+    const investment = await tx.investment.findFirst({
+      where: {
+        userId: refs.userId,
+        projectId: refs.projectId,
+        deleted: false,
+      },
+    });
+
+    if (!investment) {
+      this.logger.warn(
+        `No investment found for ${user} in project ${idProject}, claim not recorded`,
+      );
+      return;
+    }
+
+    const claimedAmount = Money.fromUnits(amount as bigint, refs.decimals);
+    effects.profitPool = {
+      projectId: refs.projectId,
+      deposited: '0',
+      claimed: claimedAmount.toString(),
+    };
+
+    let profitPool = await tx.profitPool.findUnique({
+      where: { projectId: refs.projectId },
+    });
+
+    if (!profitPool) {
+      profitPool = await tx.profitPool.create({
+        data: {
+          projectId: refs.projectId,
+          totalDeposited: '0',
+          totalClaimed: claimedAmount.toString(),
+          remainingProfit: '0',
+        },
+      });
+    } else {
+      profitPool = await tx.profitPool.update({
+        where: { projectId: refs.projectId },
+        data: {
+          totalClaimed: Money.parse(profitPool.totalClaimed)
+            .plus(claimedAmount)
+            .toString(),
+          remainingProfit: Money.parse(profitPool.remainingProfit)
+            .minus(claimedAmount)
+            .toString(),
+        },
+      });
+    }
+
+    const claim = await tx.profitClaim.create({
+      data: {
+        userId: refs.userId,
+        profitPoolId: profitPool.id,
+        investmentId: investment.id,
+        amount: claimedAmount.toString(),
+        tokenAddress: refs.tokenAddress,
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        claimedAt: new Date(event.timestamp * 1000),
+      },
+    });
+    effects.profitClaimIds = [claim.id];
   }
 
-  private async handleRefundedEvent(data: any) {
+  private async handleRefundedEvent(
+    tx: Prisma.TransactionClient,
+    event: BlockchainEvent,
+    effects: EventEffects,
+  ) {
+    const { idProject, investor, amount } = event.args;
+
     this.logger.log(
-      `Refunded event: ${data.investor} refunded ${data.amount} from project ${data.idProject}`,
+      `Refunded event: ${investor} refunded ${amount} from project ${idProject}`,
     );
 
-    // TODO: Update refund in database
+    const refs = await this.findInvestorAndProject(
+      tx,
+      event,
+      investor,
+      idProject,
+    );
+    if (!refs) return;
+
+    const investments = await tx.investment.findMany({
+      where: {
+        userId: refs.userId,
+        projectId: refs.projectId,
+        deleted: false,
+      },
+      select: { id: true },
+    });
+    const investmentIds = investments.map((investment) => investment.id);
+
+    // Refunded investments are soft-deleted, same as RefundsService.claimRefund
+    const { count } = await tx.investment.updateMany({
+      where: { id: { in: investmentIds } },
+      data: { deleted: true },
+    });
+    effects.refundedInvestmentIds = investmentIds;
+
+    this.logger.log(`Marked ${count} investments as refunded`);
   }
 
-  private async processHistoricalEvent(event: BlockchainEvent) {
+  private async handleTransferEvent(
+    tx: Prisma.TransactionClient,
+    event: BlockchainEvent,
+  ) {
+    const { to, tokenId } = event.args;
+
+    // Mints are indexed by the NFT metadata sync; only owner changes of
+    // already indexed tokens are applied here
+    const { count } = await tx.nftMetadata.updateMany({
+      where: {
+        tokenId: Number(tokenId),
+        ...(await this.deploymentFilter(event)),
+      },
+      data: { ownerAddress: (to as string).toLowerCase() },
+    });
+
+    if (count > 0) {
+      this.logger.log(`Transfer event: token ${tokenId} now owned by ${to}`);
+    }
+  }
+
+  // ============ HELPERS ============
+
+  private logSkipped(event: BlockchainEvent) {
     this.logger.debug(
-      `Processing historical ${event.eventName} event from block ${event.blockNumber}`,
+      `Skipping already processed ${event.eventName} event ${event.transactionHash}:${event.logIndex}`,
     );
+  }
+
+  private isSentBy(tx: BlockchainTransaction, address: string): boolean {
+    return tx.fromAddress?.toLowerCase() === address.toLowerCase();
+  }
 
-    // TODO: Process historical events and update database
+  private async findInvestorAndProject(
+    tx: Prisma.TransactionClient,
+    event: BlockchainEvent,
+    walletAddress: string,
+    projectTokenId: bigint,
+  ): Promise<{
+    userId: string;
+    projectId: string;
+    decimals: number;
+    tokenAddress: string | null;
+  } | null> {
+    const user = await tx.user.findUnique({
+      where: { walletAddress: walletAddress.toLowerCase() },
+    });
+
+    if (!user) {
+      this.logger.warn(`No user registered for wallet ${walletAddress}`);
+      return null;
+    }
+
+    const project = await tx.project.findFirst({
+      where: {
+        tokenId: Number(projectTokenId),
+        deleted: false,
+        ...(await this.deploymentFilter(event)),
+      },
+    });
+
+    if (!project) {
+      this.logger.warn(`Project with token ID ${projectTokenId} not found`);
+      return null;
+    }
+
+    const deployment = await this.contractService.getDeployment(project);
+
+    return {
+      userId: user.id,
+      projectId: project.id,
+      decimals: projectDecimals(project),
+      tokenAddress: deployment.settlementTokenAddress,
+    };
+  }
+
+  /**
+   * Rows of the deployment that emitted a log: token IDs are only unique per
+   * contract. Rows without a deployment were minted on the default one.
+   */
+  private async deploymentFilter(event: BlockchainEvent) {
+    const deployment = await this.contractService.getDeployment({
+      chainId: event.chainId,
+      contractAddress: event.contractAddress,
+    });
+    const isDefault = deployment.id === this.contractService.getAppProject().id;
+
+    return {
+      OR: [
+        {
+          chainId: deployment.chainId,
+          contractAddress: {
+            equals: deployment.contractAddress,
+            mode: Prisma.QueryMode.insensitive,
+          },
+        },
+        ...(isDefault ? [{ chainId: null }, { contractAddress: null }] : []),
+      ],
+    };
+  }
+
+  /**
+   * Event of a log read from the resolved deployment's contract, the default
+   * one (e.g. a live subscription) when not given
+   */
+  private async toBlockchainEvent(
+    log: EventLog,
+    eventName: string,
+    resolved?: Pick<ResolvedContract, 'chainId' | 'abiVersion'>,
+  ): Promise<BlockchainEvent> {
+    const { chainId, abiVersion } = resolved ?? {
+      chainId: this.contractService.getAppProject().chainId,
+      abiVersion: this.contractService.getAbiVersion(),
+    };
+    const block = await log.getBlock();
+    const args = log.fragment
+      ? Object.fromEntries(
+          log.fragment.inputs.map((input, i) => [input.name, log.args[i]]),
+        )
+      : log.args;
+
+    return {
+      eventName: log.eventName
+        ? syncedEventName(abiVersion, log.eventName)
+        : eventName,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      args,
+      timestamp: block.timestamp,
+      chainId,
+      contractAddress: log.address.toLowerCase(),
+    };
+  }
+
+  /**
+   * Decode the contract events emitted by a mined transaction, with the ABI
+   * of the deployment it was sent to and from its chain
+   */
+  async decodeReceiptEvents(
+    receipt: TransactionReceipt,
+    transaction?: Pick<BlockchainTransaction, 'chainId' | 'toAddress'>,
+  ): Promise<BlockchainEvent[]> {
+    const deployment = await this.findTransactionDeployment(transaction);
+    const contractAddress = deployment.contractAddress.toLowerCase();
+    const logs = receipt.logs.filter(
+      (log) => log.address.toLowerCase() === contractAddress,
+    );
+
+    if (logs.length === 0) {
+      return [];
+    }
+
+    const { contract, abiVersion } =
+      await this.contractService.resolveContract(deployment);
+    const provider = await this.providerService.getProviderForChain(
+      deployment.chainId,
+    );
+    const block = await provider.getBlock(receipt.blockNumber);
+    const events: BlockchainEvent[] = [];
+
+    for (const log of logs) {
+      const parsed = contract.interface.parseLog({
+        topics: [...log.topics],
+        data: log.data,
+      });
+
+      if (!parsed) {
+        continue;
+      }
+
+      events.push({
+        eventName: syncedEventName(abiVersion, parsed.name),
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        args: Object.fromEntries(
+          parsed.fragment.inputs.map((input, i) => [
+            input.name,
+            parsed.args[i],
+          ]),
+        ),
+        timestamp: block ? block.timestamp : Math.floor(Date.now() / 1000),
+        chainId: deployment.chainId,
+        contractAddress,
+      });
+    }
+
+    return events;
+  }
+
+  /**
+   * Deployment a transaction was sent to. Rows without a recipient, or whose
+   * recipient is no contract (a refund is recorded to the investor), fall
+   * back to the default deployment.
+   */
+  private async findTransactionDeployment(
+    transaction?: Pick<BlockchainTransaction, 'chainId' | 'toAddress'>,
+  ): Promise<AppProject> {
+    const defaultDeployment = this.contractService.getAppProject();
+
+    if (!transaction?.toAddress) {
+      return defaultDeployment;
+    }
+
+    const deployment = await this.prisma.appProject.findFirst({
+      where: {
+        chainId: transaction.chainId ?? defaultDeployment.chainId,
+        contractAddress: {
+          equals: transaction.toAddress,
+          mode: 'insensitive',
+        },
+        deleted: false,
+      },
+    });
+
+    return deployment ?? defaultDeployment;
+  }
+
+  private getEventActor(event: BlockchainEvent): string {
+    const { owner, investor, user } = event.args;
+    return (owner || investor || user || '').toString();
+  }
+
+  /**
+   * Helper to serialize event args containing BigInt values
+   */
+  serializeEventArgs(args: any): string {
+    return JSON.stringify(args, (key, value) =>
+      typeof value === 'bigint' ? value.toString() : value,
+    );
   }
 }
@@ -0,0 +1,343 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ChainReorgService } from './chain-reorg.service';
+import { SyncCheckpointService } from './sync-checkpoint.service';
+import { EthersProviderService } from './ethers-provider.service';
+import { BlockchainEventService } from './blockchain-event.service';
+import { StomaTradeContractService } from './stomatrade-contract.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+import { mockStomaTradeContractService } from '../../test/mocks/blockchain.mock';
+
+describe('ChainReorgService', () => {
+  let service: ChainReorgService;
+  let eventService: BlockchainEventService;
+  let prisma: typeof mockPrismaService;
+
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue('12'),
+  };
+
+  const mockProvider = {
+    getBlockNumber: jest.fn(),
+    getBlock: jest.fn(),
+  };
+
+  const mockEthersProviderService = {
+    getProviderForChain: jest.fn(),
+  };
+
+  const mockSyncCheckpointService = {
+    getContractAddress: jest.fn().mockReturnValue('0xcontractaddress'),
+    getCheckpoints: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChainReorgService,
+        BlockchainEventService,
+        {
+          provide: StomaTradeContractService,
+          useValue: mockStomaTradeContractService,
+        },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: EthersProviderService, useValue: mockEthersProviderService },
+        { provide: SyncCheckpointService, useValue: mockSyncCheckpointService },
+      ],
+    }).compile();
+
+    service = module.get<ChainReorgService>(ChainReorgService);
+    eventService = module.get<BlockchainEventService>(BlockchainEventService);
+    prisma = mockPrismaService;
+
+    mockEthersProviderService.getProviderForChain.mockResolvedValue(
+      mockProvider,
+    );
+    mockProvider.getBlockNumber.mockResolvedValue(1100);
+    mockSyncCheckpointService.getCheckpoints.mockResolvedValue([]);
+    prisma.blockchainEvent.updateMany.mockResolvedValue({ count: 0 });
+    prisma.blockchainEvent.deleteMany.mockResolvedValue({ count: 0 });
+    prisma.blockchainTransaction.updateMany.mockResolvedValue({ count: 0 });
+    prisma.investment.updateMany.mockResolvedValue({ count: 0 });
+    prisma.profitClaim.updateMany.mockResolvedValue({ count: 0 });
+    prisma.syncCheckpoint.updateMany.mockResolvedValue({ count: 0 });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should read the confirmation depth from config', () => {
+    expect(service.getConfirmationDepth()).toBe(12);
+  });
+
+  describe('detectAndRollback', () => {
+    it('should finalize matching events that are deep enough', async () => {
+      prisma.blockchainEvent.findMany.mockResolvedValue([
+        { blockNumber: 1000, blockHash: '0xA' },
+        { blockNumber: 1095, blockHash: '0xB' },
+      ]);
+      mockProvider.getBlock.mockImplementation((n: number) =>
+        Promise.resolve({ hash: n === 1000 ? '0xA' : '0xB' }),
+      );
+      prisma.blockchainEvent.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await service.detectAndRollback();
+
+      expect(result.reorgDetected).toBe(false);
+      expect(result.eventsFinalized).toBe(1);
+      expect(prisma.blockchainEvent.updateMany).toHaveBeenCalledWith({
+        where: {
+          contractAddress: '0xcontractaddress',
+          blockNumber: { in: [1000] },
+        },
+        data: { finalized: true },
+      });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should roll back from the first block whose hash changed', async () => {
+      prisma.blockchainEvent.findMany
+        .mockResolvedValueOnce([
+          { blockNumber: 1090, blockHash: '0xA' },
+          { blockNumber: 1095, blockHash: '0xOrphaned' },
+        ])
+        .mockResolvedValueOnce([
+          { transactionHash: '0xTx1' },
+          { transactionHash: '0xTx1' },
+        ]);
+      mockProvider.getBlock.mockImplementation((n: number) =>
+        Promise.resolve({ hash: n === 1090 ? '0xA' : '0xCanonical' }),
+      );
+      prisma.blockchainEvent.deleteMany.mockResolvedValue({ count: 2 });
+      prisma.blockchainTransaction.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await service.detectAndRollback();
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          reorgDetected: true,
+          forkBlock: 1095,
+          eventsRolledBack: 2,
+          transactionsReset: 1,
+        }),
+      );
+      expect(prisma.investment.updateMany).toHaveBeenCalledWith({
+        where: { transactionHash: { in: ['0xTx1'] } },
+        data: { blockNumber: null },
+      });
+      expect(prisma.blockchainTransaction.updateMany).toHaveBeenCalledWith({
+        where: { transactionHash: { in: ['0xTx1'] } },
+        data: expect.objectContaining({
+          status: 'PENDING',
+          blockNumber: null,
+        }),
+      });
+      expect(prisma.blockchainEvent.deleteMany).toHaveBeenCalledWith({
+        where: {
+          contractAddress: '0xcontractaddress',
+          blockNumber: { gte: 1095 },
+        },
+      });
+      expect(prisma.syncCheckpoint.updateMany).toHaveBeenCalledWith({
+        where: {
+          contractAddress: '0xcontractaddress',
+          lastSyncedBlock: { gte: 1095 },
+        },
+        data: { lastSyncedBlock: 1094, lastSyncedBlockHash: null },
+      });
+    });
+
+    it('should rewind by the confirmation depth when a checkpoint hash changed', async () => {
+      mockSyncCheckpointService.getCheckpoints.mockResolvedValue([
+        {
+          eventType: 'Invested',
+          lastSyncedBlock: 1098,
+          lastSyncedBlockHash: '0xStale',
+        },
+      ]);
+      mockProvider.getBlock.mockResolvedValue({
+        hash: '0xCanonical',
+      });
+      prisma.blockchainEvent.findMany.mockResolvedValue([]);
+
+      const result = await service.detectAndRollback();
+
+      expect(result.reorgDetected).toBe(true);
+      expect(result.forkBlock).toBe(1086);
+    });
+
+    it('should not re-check checkpoints deeper than the confirmation depth', async () => {
+      mockSyncCheckpointService.getCheckpoints.mockResolvedValue([
+        {
+          eventType: 'Invested',
+          lastSyncedBlock: 900,
+          lastSyncedBlockHash: '0xStale',
+        },
+      ]);
+      prisma.blockchainEvent.findMany.mockResolvedValue([]);
+
+      const result = await service.detectAndRollback();
+
+      expect(result.reorgDetected).toBe(false);
+      expect(mockProvider.getBlock).not.toHaveBeenCalled();
+    });
+
+    it('should check a non-default deployment on its own chain', async () => {
+      const lisk = { chainId: 'eip155:4202', contractAddress: '0xLisk' };
+      mockSyncCheckpointService.getContractAddress.mockReturnValueOnce(
+        '0xlisk',
+      );
+      prisma.blockchainEvent.findMany.mockResolvedValue([]);
+
+      const result = await service.detectAndRollback(lisk);
+
+      expect(result.contractAddress).toBe('0xlisk');
+      expect(mockSyncCheckpointService.getContractAddress).toHaveBeenCalledWith(
+        lisk,
+      );
+      expect(mockSyncCheckpointService.getCheckpoints).toHaveBeenCalledWith(
+        lisk,
+      );
+      expect(
+        mockEthersProviderService.getProviderForChain,
+      ).toHaveBeenCalledWith('eip155:4202');
+      expect(prisma.blockchainEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            contractAddress: '0xlisk',
+            finalized: false,
+            deleted: false,
+          },
+        }),
+      );
+    });
+  });
+
+  describe('rollbackFromBlock', () => {
+    it('should reverse what sync applied from the orphaned logs', async () => {
+      prisma.blockchainEvent.findMany.mockResolvedValue([
+        {
+          transactionHash: '0xRefund',
+          effects: JSON.stringify({
+            refundedInvestmentIds: ['investment-uuid-1'],
+          }),
+        },
+        {
+          transactionHash: '0xClaim',
+          effects: JSON.stringify({
+            profitPool: {
+              projectId: 'project-uuid-1',
+              deposited: '0',
+              claimed: '200',
+            },
+            profitClaimIds: ['claim-uuid-1'],
+            transactionId: 'tx-uuid-1',
+          }),
+        },
+        { transactionHash: '0xPlatformTx', effects: null },
+      ]);
+      prisma.profitPool.findUnique.mockResolvedValue({
+        totalDeposited: '1000',
+        totalClaimed: '300',
+        remainingProfit: '700',
+      });
+
+      await service.rollbackFromBlock(1095);
+
+      expect(prisma.investment.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['investment-uuid-1'] } },
+        data: { deleted: false },
+      });
+      expect(prisma.profitClaim.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['claim-uuid-1'] } },
+        data: { deleted: true, transactionHash: null, blockNumber: null },
+      });
+      expect(prisma.profitPool.update).toHaveBeenCalledWith({
+        where: { projectId: 'project-uuid-1' },
+        data: {
+          totalDeposited: '1000',
+          totalClaimed: '100',
+          remainingProfit: '900',
+        },
+      });
+      expect(prisma.blockchainTransaction.delete).toHaveBeenCalledWith({
+        where: { id: 'tx-uuid-1' },
+      });
+      expect(prisma.blockchainTransaction.updateMany).toHaveBeenCalledWith({
+        where: {
+          transactionHash: { in: ['0xRefund', '0xClaim', '0xPlatformTx'] },
+        },
+        data: {
+          status: 'PENDING',
+          blockNumber: null,
+          errorMessage: 'Block 1095 reorganized, awaiting re-inclusion',
+        },
+      });
+    });
+
+    it('should leave the profit pool unchanged when a log is replayed after a rollback', async () => {
+      let pool = {
+        projectId: 'project-uuid-1',
+        totalDeposited: '1000',
+        totalClaimed: '0',
+        remainingProfit: '1000',
+      };
+      let effects: string | null = null;
+
+      prisma.blockchainEvent.findUnique.mockResolvedValue(null);
+      prisma.blockchainEvent.create.mockResolvedValue({ id: 'event-uuid-1' });
+      prisma.blockchainEvent.update.mockImplementation(
+        (args: { data: { effects: string } }) => {
+          effects = args.data.effects;
+          return Promise.resolve({});
+        },
+      );
+      prisma.blockchainEvent.findMany.mockImplementation(() =>
+        Promise.resolve([{ transactionHash: '0xDeposit', effects }]),
+      );
+      prisma.blockchainTransaction.findFirst.mockResolvedValue(null);
+      prisma.blockchainTransaction.create.mockResolvedValue({
+        id: 'tx-uuid-1',
+      });
+      prisma.project.findFirst.mockResolvedValue({ id: 'project-uuid-1' });
+      prisma.profitPool.findUnique.mockImplementation(() =>
+        Promise.resolve({ ...pool }),
+      );
+      prisma.profitPool.update.mockImplementation(
+        (args: { data: Partial<typeof pool> }) => {
+          pool = { ...pool, ...args.data };
+          return Promise.resolve({ ...pool });
+        },
+      );
+
+      const deposit = {
+        eventName: 'ProfitDeposited',
+        blockNumber: 1095,
+        blockHash: '0xOrphaned',
+        transactionHash: '0xDeposit',
+        logIndex: 0,
+        args: {
+          idProject: BigInt(3001),
+          amount: BigInt('500000000000000000000'),
+        },
+        timestamp: 1767225600,
+      };
+
+      await eventService.processEvent(deposit);
+      const applied = { ...pool };
+
+      await service.rollbackFromBlock(1095);
+      expect(pool.totalDeposited).toBe('1000');
+
+      await eventService.processEvent({ ...deposit, blockHash: '0xCanonical' });
+
+      expect(pool).toEqual(applied);
+      expect(applied.totalDeposited).toBe('1500');
+    });
+  });
+});
@@ -0,0 +1,324 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { Provider } from 'ethers';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EthersProviderService } from './ethers-provider.service';
+import { SyncCheckpointService } from './sync-checkpoint.service';
+import { ContractTarget } from './stomatrade-contract.service';
+import { EventEffects } from './blockchain-event.service';
+import { Money } from '../../common/utils/money.util';
+
+export interface ReorgCheckResult {
+  contractAddress: string;
+  reorgDetected: boolean;
+  forkBlock: number | null;
+  currentBlock: number;
+  confirmationDepth: number;
+  eventsFinalized: number;
+  eventsRolledBack: number;
+  transactionsReset: number;
+}
+
+/**
+ * Detects chain reorganizations affecting synced events.
+ *
+ * Block hashes are stored on every processed event and on every sync
+ * checkpoint. Until an event is `confirmationDepth` blocks deep it is
+ * re-checked against the canonical chain; once deep enough it is marked
+ * finalized and never re-checked.
+ *
+ * When a stored hash no longer matches, everything from the fork block on is
+ * rolled back: what sync applied from the orphaned logs is reversed (see
+ * EventEffects), rows the platform recorded in-line are flagged as
+ * unconfirmed (blockNumber cleared, transactions back to PENDING), the event
+ * log rows are deleted and the checkpoints rewound, so the next sync replays
+ * the canonical events.
+ *
+ * Each synced deployment is checked on its own chain; methods address the
+ * default deployment unless given another one.
+ */
+@Injectable()
+export class ChainReorgService {
+  private readonly logger = new Logger(ChainReorgService.name);
+  private readonly confirmationDepth: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly providerService: EthersProviderService,
+    private readonly syncCheckpointService: SyncCheckpointService,
+  ) {
+    this.confirmationDepth =
+      Number(this.configService.get('BLOCKCHAIN_REORG_CONFIRMATIONS')) || 12;
+  }
+
+  getConfirmationDepth(): number {
+    return this.confirmationDepth;
+  }
+
+  /**
+   * Compare stored block hashes with the canonical chain, finalize events
+   * that are deep enough and roll back from the fork block if one is found
+   */
+  async detectAndRollback(
+    deployment?: ContractTarget,
+  ): Promise<ReorgCheckResult> {
+    const contractAddress =
+      this.syncCheckpointService.getContractAddress(deployment);
+    const provider = await this.providerService.getProviderForChain(
+      deployment?.chainId,
+    );
+    const currentBlock = await provider.getBlockNumber();
+
+    let forkBlock = await this.findCheckpointFork(
+      provider,
+      currentBlock,
+      deployment,
+    );
+
+    const pendingEvents = await this.prisma.blockchainEvent.findMany({
+      where: { contractAddress, finalized: false, deleted: false },
+      orderBy: { blockNumber: 'asc' },
+    });
+
+    const blockHashes = new Map<number, string | null>();
+    for (const event of pendingEvents) {
+      if (!blockHashes.has(event.blockNumber)) {
+        blockHashes.set(event.blockNumber, event.blockHash);
+      }
+    }
+
+    const finalizedBlocks: number[] = [];
+    for (const [blockNumber, storedHash] of blockHashes) {
+      if (forkBlock !== null && blockNumber >= forkBlock) {
+        break;
+      }
+
+      const canonical = await provider.getBlock(blockNumber);
+      if (!canonical || canonical.hash !== storedHash) {
+        this.logger.warn(
+          `Reorg detected at block ${blockNumber}: stored ${storedHash}, canonical ${canonical?.hash ?? 'none'}`,
+        );
+        forkBlock = blockNumber;
+        break;
+      }
+
+      if (currentBlock - blockNumber >= this.confirmationDepth) {
+        finalizedBlocks.push(blockNumber);
+      }
+    }
+
+    let eventsFinalized = 0;
+    if (finalizedBlocks.length > 0) {
+      const { count } = await this.prisma.blockchainEvent.updateMany({
+        where: { contractAddress, blockNumber: { in: finalizedBlocks } },
+        data: { finalized: true },
+      });
+      eventsFinalized = count;
+    }
+
+    const result: ReorgCheckResult = {
+      contractAddress,
+      reorgDetected: forkBlock !== null,
+      forkBlock,
+      currentBlock,
+      confirmationDepth: this.confirmationDepth,
+      eventsFinalized,
+      eventsRolledBack: 0,
+      transactionsReset: 0,
+    };
+
+    if (forkBlock !== null) {
+      const rollback = await this.rollbackFromBlock(forkBlock, deployment);
+      result.eventsRolledBack = rollback.eventsRolledBack;
+      result.transactionsReset = rollback.transactionsReset;
+    }
+
+    return result;
+  }
+
+  /**
+   * Roll back all synced data from forkBlock (inclusive) onwards
+   */
+  async rollbackFromBlock(
+    forkBlock: number,
+    deployment?: ContractTarget,
+  ): Promise<{
+    eventsRolledBack: number;
+    transactionsReset: number;
+  }> {
+    const contractAddress =
+      this.syncCheckpointService.getContractAddress(deployment);
+
+    this.logger.warn(
+      `Rolling back synced events of ${contractAddress} from block ${forkBlock}`,
+    );
+
+    const reorgMessage = `Block ${forkBlock} reorganized, awaiting re-inclusion`;
+
+    const [transactions, deletedEvents] = await this.prisma.$transaction(
+      async (tx) => {
+        const events = await tx.blockchainEvent.findMany({
+          where: { contractAddress, blockNumber: { gte: forkBlock } },
+          select: { transactionHash: true, effects: true },
+          orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }],
+        });
+
+        await this.reverseEffects(
+          tx,
+          events.flatMap((event) =>
+            event.effects ? [JSON.parse(event.effects) as EventEffects] : [],
+          ),
+        );
+
+        const transactionHashes = [
+          ...new Set(events.map((event) => event.transactionHash)),
+        ];
+
+        await tx.investment.updateMany({
+          where: { transactionHash: { in: transactionHashes } },
+          data: { blockNumber: null },
+        });
+        await tx.profitClaim.updateMany({
+          where: { transactionHash: { in: transactionHashes } },
+          data: { blockNumber: null },
+        });
+        const reset = await tx.blockchainTransaction.updateMany({
+          where: { transactionHash: { in: transactionHashes } },
+          data: {
+            status: 'PENDING',
+            blockNumber: null,
+            errorMessage: reorgMessage,
+          },
+        });
+        const deleted = await tx.blockchainEvent.deleteMany({
+          where: { contractAddress, blockNumber: { gte: forkBlock } },
+        });
+        await tx.syncCheckpoint.updateMany({
+          where: { contractAddress, lastSyncedBlock: { gte: forkBlock } },
+          data: {
+            lastSyncedBlock: Math.max(0, forkBlock - 1),
+            lastSyncedBlockHash: null,
+          },
+        });
+
+        return [reset, deleted];
+      },
+    );
+
+    this.logger.warn(
+      `Rolled back ${deletedEvents.count} events and ${transactions.count} transactions from block ${forkBlock}`,
+    );
+
+    return {
+      eventsRolledBack: deletedEvents.count,
+      transactionsReset: transactions.count,
+    };
+  }
+
+  /**
+   * Undo what sync applied from orphaned logs, latest first. Rows created
+   * from them are soft-deleted and detached from their transaction hash, so
+   * a re-included log creates them afresh; transactions recorded from them
+   * are dropped with their event rows.
+   */
+  private async reverseEffects(
+    tx: Prisma.TransactionClient,
+    effects: EventEffects[],
+  ): Promise<void> {
+    for (const effect of effects) {
+      if (effect.refundedInvestmentIds?.length) {
+        await tx.investment.updateMany({
+          where: { id: { in: effect.refundedInvestmentIds } },
+          data: { deleted: false },
+        });
+      }
+
+      if (effect.investmentIds?.length) {
+        await tx.investment.updateMany({
+          where: { id: { in: effect.investmentIds } },
+          data: { deleted: true, transactionHash: null, blockNumber: null },
+        });
+      }
+
+      if (effect.profitClaimIds?.length) {
+        await tx.profitClaim.updateMany({
+          where: { id: { in: effect.profitClaimIds } },
+          data: { deleted: true, transactionHash: null, blockNumber: null },
+        });
+      }
+
+      if (effect.profitPool) {
+        const { projectId } = effect.profitPool;
+        const deposited = Money.parse(effect.profitPool.deposited);
+        const claimed = Money.parse(effect.profitPool.claimed);
+        const pool = await tx.profitPool.findUnique({ where: { projectId } });
+
+        if (pool) {
+          await tx.profitPool.update({
+            where: { projectId },
+            data: {
+              totalDeposited: Money.parse(pool.totalDeposited)
+                .minus(deposited)
+                .toString(),
+              totalClaimed: Money.parse(pool.totalClaimed)
+                .minus(claimed)
+                .toString(),
+              remainingProfit: Money.parse(pool.remainingProfit)
+                .minus(deposited)
+                .plus(claimed)
+                .toString(),
+            },
+          });
+        }
+      }
+
+      if (effect.transactionId) {
+        await tx.blockchainTransaction.delete({
+          where: { id: effect.transactionId },
+        });
+      }
+    }
+  }
+
+  /**
+   * A checkpoint whose block hash changed means the chain reorganized
+   * somewhere at or below it; rewind by the confirmation depth to be safe.
+   */
+  private async findCheckpointFork(
+    provider: Provider,
+    currentBlock: number,
+    deployment?: ContractTarget,
+  ): Promise<number | null> {
+    const checkpoints =
+      await this.syncCheckpointService.getCheckpoints(deployment);
+    let forkBlock: number | null = null;
+
+    for (const checkpoint of checkpoints) {
+      if (
+        checkpoint.lastSyncedBlock === null ||
+        !checkpoint.lastSyncedBlockHash ||
+        currentBlock - checkpoint.lastSyncedBlock >= this.confirmationDepth
+      ) {
+        continue;
+      }
+
+      const canonical = await provider.getBlock(checkpoint.lastSyncedBlock);
+
+      if (!canonical || canonical.hash !== checkpoint.lastSyncedBlockHash) {
+        const candidate = Math.max(
+          0,
+          checkpoint.lastSyncedBlock - this.confirmationDepth,
+        );
+        this.logger.warn(
+          `Checkpoint for ${checkpoint.eventType} at block ${checkpoint.lastSyncedBlock} no longer canonical`,
+        );
+        forkBlock =
+          forkBlock === null ? candidate : Math.min(forkBlock, candidate);
+      }
+    }
+
+    return forkBlock;
+  }
+}
@@ -0,0 +1,228 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  AbiVersion,
+  ContractAbiService,
+  InvalidAbiError,
+  abiEventName,
+  parseAbi,
+  syncedEventName,
+} from './contract-abi.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+describe('ContractAbiService', () => {
+  let service: ContractAbiService;
+  let prisma: typeof mockPrismaService;
+
+  const farmerAdded = {
+    type: 'event',
+    name: 'FarmerAdded',
+    inputs: [{ name: 'idToken', type: 'uint256', indexed: true }],
+  };
+  const farmerMinted = { ...farmerAdded, name: 'FarmerMinted' };
+
+  const deployment = {
+    chainId: 'eip155:4202',
+    contractAddress: '0x1111111111111111111111111111111111111111',
+    abi: JSON.stringify([farmerAdded]),
+  };
+
+  const record = (version: number, abi: object[], eventNames = {}) => ({
+    id: `abi-${version}`,
+    chainId: deployment.chainId,
+    contractAddress: deployment.contractAddress,
+    version,
+    abi: JSON.stringify(abi),
+    eventNames: JSON.stringify(eventNames),
+    createdAt: new Date('2026-03-02T09:00:00Z'),
+  });
+
+  // data of every contractAbi.create() call, oldest first
+  const recordedAbis = () =>
+    (
+      prisma.contractAbi.create.mock.calls as [
+        { data: { version: number; abi: string; eventNames: string } },
+      ][]
+    ).map(([{ data }]) => data);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ContractAbiService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<ContractAbiService>(ContractAbiService);
+    prisma = mockPrismaService;
+
+    prisma.contractAbi.findFirst.mockResolvedValue(null);
+    prisma.contractAbi.create.mockImplementation(({ data }: { data: object }) =>
+      Promise.resolve({ id: 'abi-new', createdAt: new Date(), ...data }),
+    );
+  });
+
+  describe('parseAbi', () => {
+    it('should read ABIs stored with escaped quotes or as a string', () => {
+      const abi = JSON.stringify([farmerAdded]);
+
+      expect(parseAbi(abi.replace(/"/g, '\\"'))).toEqual([farmerAdded]);
+      expect(parseAbi(JSON.stringify(abi))).toEqual([farmerAdded]);
+    });
+
+    it('should reject anything but an ABI array', () => {
+      expect(() => parseAbi('{"not":"an abi"}')).toThrow(
+        'ABI must be a JSON array',
+      );
+      expect(() => parseAbi('[{"type":"function","name":"1bad"}]')).toThrow(
+        InvalidAbiError,
+      );
+    });
+  });
+
+  describe('getCurrentVersion', () => {
+    it('should serve a deployment without versions as version 1', async () => {
+      const version = await service.getCurrentVersion(deployment);
+
+      expect(version).toEqual({
+        chainId: 'eip155:4202',
+        contractAddress: deployment.contractAddress,
+        version: 1,
+        abi: [farmerAdded],
+        eventNames: {},
+        createdAt: null,
+      });
+    });
+
+    it('should infer known event renames', async () => {
+      const version = await service.getCurrentVersion({
+        ...deployment,
+        abi: JSON.stringify([farmerMinted]),
+      });
+
+      expect(version.eventNames).toEqual({ FarmerAdded: 'FarmerMinted' });
+    });
+
+    it('should serve the latest recorded version', async () => {
+      prisma.contractAbi.findFirst.mockResolvedValue(
+        record(3, [farmerMinted], { FarmerAdded: 'FarmerMinted' }),
+      );
+
+      const version = await service.getCurrentVersion(deployment);
+
+      expect(version.version).toBe(3);
+      expect(version.abi).toEqual([farmerMinted]);
+      expect(prisma.contractAbi.findFirst).toHaveBeenCalledWith({
+        where: {
+          chainId: 'eip155:4202',
+          contractAddress: deployment.contractAddress,
+        },
+        orderBy: { version: 'desc' },
+      });
+    });
+  });
+
+  describe('recordVersion', () => {
+    it('should keep the ABI served before versioning as version 1', async () => {
+      const version = await service.recordVersion(
+        deployment,
+        JSON.stringify([farmerMinted]),
+      );
+
+      expect(recordedAbis()).toMatchObject([
+        { version: 1, abi: JSON.stringify([farmerAdded]), eventNames: '{}' },
+        { version: 2, abi: JSON.stringify([farmerMinted]) },
+      ]);
+      expect(version.version).toBe(2);
+      expect(version.eventNames).toEqual({ FarmerAdded: 'FarmerMinted' });
+    });
+
+    it('should record the ABI of a new deployment once', async () => {
+      const version = await service.recordVersion(deployment, deployment.abi);
+
+      expect(prisma.contractAbi.create).toHaveBeenCalledTimes(1);
+      expect(version.version).toBe(1);
+    });
+
+    it('should not keep a previous ABI that cannot be read', async () => {
+      const version = await service.recordVersion(
+        { ...deployment, abi: 'not json' },
+        deployment.abi,
+      );
+
+      expect(prisma.contractAbi.create).toHaveBeenCalledTimes(1);
+      expect(version.version).toBe(1);
+    });
+
+    it('should add no version for the current ABI and event names', async () => {
+      prisma.contractAbi.findFirst.mockResolvedValue(record(2, [farmerAdded]));
+
+      const version = await service.recordVersion(
+        deployment,
+        JSON.stringify([farmerAdded]),
+      );
+
+      expect(prisma.contractAbi.create).not.toHaveBeenCalled();
+      expect(version.version).toBe(2);
+    });
+
+    it('should record a changed event name mapping as the next version', async () => {
+      const renamed = { ...farmerAdded, name: 'FarmerRegistered' };
+      prisma.contractAbi.findFirst.mockResolvedValue(record(2, [renamed]));
+
+      const version = await service.recordVersion(
+        deployment,
+        JSON.stringify([renamed]),
+        { FarmerAdded: 'FarmerRegistered' },
+      );
+
+      expect(version.version).toBe(3);
+      expect(recordedAbis()).toMatchObject([
+        {
+          version: 3,
+          eventNames: JSON.stringify({ FarmerAdded: 'FarmerRegistered' }),
+        },
+      ]);
+    });
+  });
+
+  describe('resolveEventNames', () => {
+    it('should let an explicit mapping override an inferred rename', () => {
+      expect(
+        service.resolveEventNames([farmerAdded, farmerMinted], {
+          FarmerAdded: 'FarmerMinted',
+        }),
+      ).toEqual({ FarmerAdded: 'FarmerMinted' });
+    });
+
+    it('should reject events missing from the ABI', () => {
+      expect(() =>
+        service.resolveEventNames([farmerAdded], {
+          ProjectCreated: 'ProjectMinted',
+        }),
+      ).toThrow(
+        'Event ProjectMinted mapped from ProjectCreated is not in the ABI',
+      );
+    });
+  });
+
+  describe('event names', () => {
+    const version: AbiVersion = {
+      chainId: deployment.chainId,
+      contractAddress: deployment.contractAddress,
+      version: 2,
+      abi: [farmerMinted],
+      eventNames: { FarmerAdded: 'FarmerMinted' },
+      createdAt: null,
+    };
+
+    it('should translate between synced and ABI event names', () => {
+      expect(abiEventName(version, 'FarmerAdded')).toBe('FarmerMinted');
+      expect(abiEventName(version, 'ProjectCreated')).toBe('ProjectCreated');
+      expect(syncedEventName(version, 'FarmerMinted')).toBe('FarmerAdded');
+      expect(syncedEventName(version, 'Invested')).toBe('Invested');
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { AppProject, ContractAbi } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+
+/**
+ * Events renamed between contract versions, by their current name. ABIs
+ * recorded without an explicit mapping still resolve these.
+ */
+const KNOWN_EVENT_RENAMES: Record<string, string[]> = {
+  FarmerAdded: ['FarmerMinted'],
+};
+
+/**
+ * ABI a contract address is called with, and how the event names the
+ * backend syncs (ProjectCreated, FarmerAdded, ...) are spelled in it
+ */
+export interface AbiVersion {
+  chainId: string;
+  contractAddress: string;
+  version: number;
+  abi: ethers.JsonFragment[];
+  /** Synced event name -> event name in this ABI, only where they differ */
+  eventNames: Record<string, string>;
+  /** Null for the ABI of a deployment registered before versioning */
+  createdAt: Date | null;
+}
+
+export class InvalidAbiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidAbiError';
+  }
+}
+
+type Deployment = Pick<AppProject, 'chainId' | 'contractAddress' | 'abi'>;
+
+/**
+ * Parse an ABI stored as a JSON array. Rows saved before versioning may hold
+ * the array with escaped quotes or as a JSON-encoded string.
+ */
+export function parseAbi(abi: string): ethers.JsonFragment[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(abi);
+  } catch {
+    try {
+      parsed = JSON.parse(abi.replace(/\\"/g, '"'));
+    } catch (error) {
+      throw new InvalidAbiError((error as Error).message);
+    }
+  }
+
+  if (typeof parsed === 'string') {
+    return parseAbi(parsed);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new InvalidAbiError('ABI must be a JSON array');
+  }
+
+  // Interface.from() only warns about fragments it cannot read and drops them
+  for (const fragment of parsed as ethers.JsonFragment[]) {
+    try {
+      ethers.Fragment.from(fragment);
+    } catch (error) {
+      throw new InvalidAbiError((error as Error).message);
+    }
+  }
+
+  return parsed as ethers.JsonFragment[];
+}
+
+/**
+ * Name a synced event has in the ABI version
+ */
+export function abiEventName(version: AbiVersion, eventName: string): string {
+  return version.eventNames[eventName] ?? eventName;
+}
+
+/**
+ * Synced event name of an event read with the ABI version
+ */
+export function syncedEventName(version: AbiVersion, abiName: string): string {
+  const entry = Object.entries(version.eventNames).find(
+    ([, name]) => name === abiName,
+  );
+  return entry ? entry[0] : abiName;
+}
+
+/**
+ * Versioned ABIs per contract address.
+ *
+ * Changing a deployment's ABI records a new version instead of overwriting
+ * it, together with the event names of that version. A deployment with no
+ * recorded version is served from AppProject.abi as version 1.
+ */
+@Injectable()
+export class ContractAbiService {
+  private readonly logger = new Logger(ContractAbiService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getCurrentVersion(deployment: Deployment): Promise<AbiVersion> {
+    const latest = await this.findLatest(deployment);
+    return latest ? this.toAbiVersion(latest) : this.legacyVersion(deployment);
+  }
+
+  /**
+   * Every ABI version of the deployment's contract, newest first
+   */
+  async listVersions(deployment: Deployment): Promise<AbiVersion[]> {
+    const records = await this.prisma.contractAbi.findMany({
+      where: {
+        chainId: deployment.chainId,
+        contractAddress: deployment.contractAddress.toLowerCase(),
+      },
+      orderBy: { version: 'desc' },
+    });
+
+    return records.length > 0
+      ? records.map((record) => this.toAbiVersion(record))
+      : [this.legacyVersion(deployment)];
+  }
+
+  /**
+   * Record abi as the next version of the deployment's contract. The ABI
+   * the deployment was served with before versioning is kept as version 1;
+   * recording the current ABI and event names again adds no version.
+   *
+   * @param eventNames synced event name -> event name in abi, for events the
+   * new ABI renames
+   */
+  async recordVersion(
+    deployment: Deployment,
+    abi: string,
+    eventNames: Record<string, string> = {},
+  ): Promise<AbiVersion> {
+    const fragments = parseAbi(abi);
+    const resolvedNames = this.resolveEventNames(fragments, eventNames);
+
+    let current = await this.findLatest(deployment);
+    if (!current) {
+      const legacy = this.findLegacyVersion(deployment);
+      if (legacy && !this.isSameVersion(legacy, fragments, resolvedNames)) {
+        current = await this.create(
+          deployment,
+          1,
+          legacy.abi,
+          legacy.eventNames,
+        );
+      }
+    } else if (
+      this.isSameVersion(this.toAbiVersion(current), fragments, resolvedNames)
+    ) {
+      return this.toAbiVersion(current);
+    }
+
+    const created = await this.create(
+      deployment,
+      (current?.version ?? 0) + 1,
+      fragments,
+      resolvedNames,
+    );
+
+    this.logger.log(
+      `Recorded ABI version ${created.version} of ${deployment.contractAddress} (${deployment.chainId})`,
+    );
+
+    return this.toAbiVersion(created);
+  }
+
+  /**
+   * Event names known to be renamed, overridden by the explicit mapping.
+   * Every mapped name must be an event of the ABI.
+   */
+  resolveEventNames(
+    abi: ethers.JsonFragment[],
+    eventNames: Record<string, string> = {},
+  ): Record<string, string> {
+    const contractInterface = ethers.Interface.from(abi);
+    const resolved: Record<string, string> = {};
+
+    for (const [eventName, previousNames] of Object.entries(
+      KNOWN_EVENT_RENAMES,
+    )) {
+      if (contractInterface.getEvent(eventName)) {
+        continue;
+      }
+      const renamed = previousNames.find((name) =>
+        contractInterface.getEvent(name),
+      );
+      if (renamed) {
+        resolved[eventName] = renamed;
+      }
+    }
+
+    for (const [eventName, abiName] of Object.entries(eventNames)) {
+      if (!contractInterface.getEvent(abiName)) {
+        throw new InvalidAbiError(
+          `Event ${abiName} mapped from ${eventName} is not in the ABI`,
+        );
+      }
+      if (abiName === eventName) {
+        delete resolved[eventName];
+      } else {
+        resolved[eventName] = abiName;
+      }
+    }
+
+    return resolved;
+  }
+
+  private async findLatest(deployment: Deployment) {
+    return this.prisma.contractAbi.findFirst({
+      where: {
+        chainId: deployment.chainId,
+        contractAddress: deployment.contractAddress.toLowerCase(),
+      },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  private async create(
+    deployment: Deployment,
+    version: number,
+    abi: ethers.JsonFragment[],
+    eventNames: Record<string, string>,
+  ) {
+    return this.prisma.contractAbi.create({
+      data: {
+        chainId: deployment.chainId,
+        contractAddress: deployment.contractAddress.toLowerCase(),
+        version,
+        abi: JSON.stringify(abi),
+        eventNames: JSON.stringify(eventNames),
+      },
+    });
+  }
+
+  private legacyVersion(deployment: Deployment): AbiVersion {
+    const abi = parseAbi(deployment.abi);
+
+    return {
+      chainId: deployment.chainId,
+      contractAddress: deployment.contractAddress.toLowerCase(),
+      version: 1,
+      abi,
+      eventNames: this.resolveEventNames(abi),
+      createdAt: null,
+    };
+  }
+
+  /**
+   * ABI served before versioning, if it can still be read
+   */
+  private findLegacyVersion(deployment: Deployment): AbiVersion | null {
+    if (!deployment.abi) {
+      return null;
+    }
+
+    try {
+      return this.legacyVersion(deployment);
+    } catch (error) {
+      this.logger.warn(
+        `Previous ABI of ${deployment.contractAddress} is unreadable and not kept: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  private toAbiVersion(record: ContractAbi): AbiVersion {
+    return {
+      chainId: record.chainId,
+      contractAddress: record.contractAddress,
+      version: record.version,
+      abi: parseAbi(record.abi),
+      eventNames: JSON.parse(record.eventNames) as Record<string, string>,
+      createdAt: record.createdAt,
+    };
+  }
+
+  private isSameVersion(
+    current: AbiVersion,
+    abi: ethers.JsonFragment[],
+    eventNames: Record<string, string>,
+  ): boolean {
+    const sortedNames = (names: Record<string, string>) =>
+      JSON.stringify(Object.entries(names).sort());
+
+    return (
+      ethers.Interface.from(current.abi).format().join('\n') ===
+        ethers.Interface.from(abi).format().join('\n') &&
+      sortedNames(current.eventNames) === sortedNames(eventNames)
+    );
+  }
+}
@@ -1,74 +1,221 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { ethers } from 'ethers';
+import { AppProject } from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  FailoverJsonRpcProvider,
+  FailoverOptions,
+  RpcEndpointHealth,
+  maskRpcUrl,
+} from '../providers/failover-json-rpc.provider';
 
+export interface ChainRpcHealth extends RpcEndpointHealth {
+  chainId: string;
+}
+
+/**
+ * Parse an EIP-155 chain id from CAIP-2 format (e.g. "eip155:5003" -> 5003)
+ */
+export function parseCaip2ChainId(chainId: string): number {
+  const chainIdMatch = chainId.match(/^eip155:(\d+)$/);
+  if (!chainIdMatch) {
+    throw new Error(
+      `Invalid chainId format: ${chainId}. Expected format: eip155:<chainId>`,
+    );
+  }
+  return parseInt(chainIdMatch[1], 10);
+}
+
+/**
+ * JSON-RPC providers for every chain an AppProject is deployed on.
+ *
+ * The default AppProject (isDefault) backs getProvider() and the other
+ * chain-less helpers. Providers for other chains are created on first use
+ * from the AppProject registered for that chain, so projects minted on a
+ * non-default deployment keep talking to their own chain.
+ *
+ * Every provider fails over between the AppProject's rpcUrl and its extra
+ * rpcUrls, preferring the endpoint with the best latency and error rate.
+ */
 @Injectable()
 export class EthersProviderService implements OnModuleInit {
   private readonly logger = new Logger(EthersProviderService.name);
-  private provider: ethers.JsonRpcProvider;
+  private provider: FailoverJsonRpcProvider;
   private chainId: number;
+  private caipChainId: string;
+  private providers = new Map<string, FailoverJsonRpcProvider>();
   private initPromise: Promise<void>;
   private isInitialized = false;
+  private readonly failoverOptions: FailoverOptions;
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.failoverOptions = {
+      timeoutMs:
+        Number(this.configService.get<number>('BLOCKCHAIN_RPC_TIMEOUT_MS')) ||
+        10000,
+      failureThreshold:
+        Number(
+          this.configService.get<number>('BLOCKCHAIN_RPC_FAILURE_THRESHOLD'),
+        ) || 3,
+      cooldownMs:
+        Number(this.configService.get<number>('BLOCKCHAIN_RPC_COOLDOWN_MS')) ||
+        30000,
+    };
+  }
 
   async onModuleInit() {
     this.initPromise = this.initialize();
     await this.initPromise;
   }
 
+  /**
+   * Re-read the default AppProject, e.g. after an admin switched it
+   */
+  async reload(): Promise<void> {
+    this.initPromise = this.initialize();
+    await this.initPromise;
+  }
+
   private async initialize() {
     const appProject = await this.prisma.appProject.findFirst({
       where: {
-        name: 'StomaTrade',
+        isDefault: true,
         deleted: false,
       },
     });
 
     if (!appProject) {
       throw new Error(
-        'Active StomaTrade AppProject configuration not found in database. Please ensure AppProject is configured and not deleted.',
+        'Default AppProject configuration not found in database. Please ensure one AppProject is marked as default and not deleted.',
       );
     }
 
+    const provider = this.createProvider(appProject);
+
+    try {
+      const network = await provider.getNetwork();
+      this.logger.log(
+        `Connected to blockchain network: ${network.name} (Chain ID: ${network.chainId})`,
+      );
+      this.logger.log(
+        `RPC URLs: ${this.getRpcUrls(appProject).map(maskRpcUrl).join(', ')}`,
+      );
+      this.logger.log(`CAIP-2 Chain ID: ${appProject.chainId}`);
+    } catch (error) {
+      this.logger.error('Failed to connect to blockchain provider', error);
+      throw error;
+    }
+
+    // Swap only once the new default is reachable; RPC URLs may have changed
+    this.providers.clear();
+    this.providers.set(appProject.chainId, provider);
+    this.provider = provider;
+    this.chainId = parseCaip2ChainId(appProject.chainId);
+    this.caipChainId = appProject.chainId;
+    this.isInitialized = true;
+  }
+
+  private createProvider(appProject: AppProject): FailoverJsonRpcProvider {
     if (!appProject.rpcUrl) {
-      throw new Error('RPC URL not found in StomaTrade AppProject configuration');
+      throw new Error(
+        `RPC URL not found in AppProject ${appProject.name} configuration`,
+      );
     }
 
     if (!appProject.chainId) {
-      throw new Error('Chain ID not found in StomaTrade AppProject configuration');
+      throw new Error(
+        `Chain ID not found in AppProject ${appProject.name} configuration`,
+      );
     }
 
-    const rpcUrl = appProject.rpcUrl;
+    const customNetwork = new ethers.Network(
+      appProject.networkName || appProject.chainId,
+      parseCaip2ChainId(appProject.chainId),
+    );
 
-    // Parse chainId from CAIP-2 format (e.g., "eip155:5003" -> 5003)
-    const chainIdMatch = appProject.chainId.match(/eip155:(\d+)/);
-    if (!chainIdMatch) {
-      throw new Error(
-        `Invalid chainId format in database: ${appProject.chainId}. Expected format: eip155:<chainId>`,
-      );
+    return new FailoverJsonRpcProvider(
+      this.getRpcUrls(appProject),
+      customNetwork,
+      this.failoverOptions,
+    );
+  }
+
+  // Primary endpoint first, then the fallbacks in configured order
+  private getRpcUrls(appProject: AppProject): string[] {
+    return [...new Set([appProject.rpcUrl, ...appProject.rpcUrls])];
+  }
+
+  /**
+   * Endpoint health of every chain a provider has been created for
+   */
+  getRpcHealth(): ChainRpcHealth[] {
+    return [...this.providers.entries()].flatMap(([chainId, provider]) =>
+      provider
+        .getEndpointHealth()
+        .map((endpoint) => ({ chainId, ...endpoint })),
+    );
+  }
+
+  /**
+   * Provider for a CAIP-2 chain; null/undefined means the default chain
+   */
+  async getProviderForChain(
+    chainId?: string | null,
+  ): Promise<ethers.JsonRpcProvider> {
+    await this.waitForInit();
+
+    if (!chainId || chainId === this.caipChainId) {
+      return this.getProvider();
+    }
+
+    const cached = this.providers.get(chainId);
+    if (cached) {
+      return cached;
+    }
+
+    const appProject = await this.prisma.appProject.findFirst({
+      where: { chainId, deleted: false },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    if (!appProject) {
+      throw new Error(`No AppProject configured for chain ${chainId}`);
     }
 
-    this.chainId = parseInt(chainIdMatch[1], 10);
+    const provider = this.createProvider(appProject);
+    this.providers.set(chainId, provider);
+    this.logger.log(`Created provider for chain ${chainId}`);
 
-    // Create custom network
-    const customNetwork = new ethers.Network('mantle-sepolia', this.chainId);
+    return provider;
+  }
+
+  /**
+   * Check that an RPC endpoint is reachable and serves the given CAIP-2 chain
+   */
+  async verifyRpcUrl(rpcUrl: string, chainId: string): Promise<void> {
+    const expected = parseCaip2ChainId(chainId);
+    const request = new ethers.FetchRequest(rpcUrl);
+    request.timeout = 10000;
 
-    this.provider = new ethers.JsonRpcProvider(rpcUrl, customNetwork, {
-      staticNetwork: customNetwork,
+    // Static network: skip ethers' network detection retry loop
+    const network = new ethers.Network(chainId, expected);
+    const provider = new ethers.JsonRpcProvider(request, network, {
+      staticNetwork: network,
     });
 
     try {
-      const network = await this.provider.getNetwork();
-      this.isInitialized = true;
-      this.logger.log(
-        `Connected to blockchain network: ${network.name} (Chain ID: ${network.chainId})`,
-      );
-      this.logger.log(`RPC URL: ${rpcUrl}`);
-      this.logger.log(`CAIP-2 Chain ID: ${appProject.chainId}`);
-    } catch (error) {
-      this.logger.error('Failed to connect to blockchain provider', error);
-      throw error;
+      const reported = Number(await provider.send('eth_chainId', []));
+      if (reported !== expected) {
+        throw new Error(
+          `RPC ${rpcUrl} serves chain ${reported}, expected ${expected}`,
+        );
+      }
+    } finally {
+      provider.destroy();
     }
   }
 
@@ -89,6 +236,13 @@ export class EthersProviderService implements OnModuleInit {
     return this.chainId;
   }
 
+  /**
+   * Default chain in CAIP-2 format (e.g. "eip155:4202")
+   */
+  getCaipChainId(): string {
+    return this.caipChainId;
+  }
+
   async getBlockNumber(): Promise<number> {
     return await this.provider.getBlockNumber();
   }
@@ -98,17 +252,28 @@ export class EthersProviderService implements OnModuleInit {
     return feeData.gasPrice || BigInt(0);
   }
 
-  async estimateGas(transaction: ethers.TransactionRequest): Promise<bigint> {
-    return await this.provider.estimateGas(transaction);
+  async getFeeData(chainId?: string | null): Promise<ethers.FeeData> {
+    const provider = await this.getProviderForChain(chainId);
+    return await provider.getFeeData();
+  }
+
+  async estimateGas(
+    transaction: ethers.TransactionRequest,
+    chainId?: string | null,
+  ): Promise<bigint> {
+    const provider = await this.getProviderForChain(chainId);
+    return await provider.estimateGas(transaction);
   }
 
   async waitForTransaction(
     txHash: string,
     confirmations = 1,
     timeout = 60000,
+    chainId?: string | null,
   ): Promise<ethers.TransactionReceipt | null> {
     try {
-      const receipt = await this.provider.waitForTransaction(
+      const provider = await this.getProviderForChain(chainId);
+      const receipt = await provider.waitForTransaction(
         txHash,
         confirmations,
         timeout,
@@ -124,10 +289,20 @@ export class EthersProviderService implements OnModuleInit {
     return await this.provider.getTransaction(txHash);
   }
 
+  async broadcastTransaction(
+    signedTransaction: string,
+    chainId?: string | null,
+  ): Promise<ethers.TransactionResponse> {
+    const provider = await this.getProviderForChain(chainId);
+    return await provider.broadcastTransaction(signedTransaction);
+  }
+
   async getTransactionReceipt(
     txHash: string,
+    chainId?: string | null,
   ): Promise<ethers.TransactionReceipt | null> {
-    return await this.provider.getTransactionReceipt(txHash);
+    const provider = await this.getProviderForChain(chainId);
+    return await provider.getTransactionReceipt(txHash);
   }
 
   async getBalance(address: string): Promise<bigint> {
@@ -0,0 +1,245 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { EventSubscriptionService } from './event-subscription.service';
+import { BlockchainEventService } from './blockchain-event.service';
+import { EthersProviderService } from './ethers-provider.service';
+import { StomaTradeContractService } from './stomatrade-contract.service';
+import { mockBlockchainEventService } from '../../test/mocks/blockchain.mock';
+
+describe('EventSubscriptionService', () => {
+  let service: EventSubscriptionService;
+  let config: Record<string, string | undefined>;
+
+  const mockProviderService = {
+    getBlockNumber: jest.fn(),
+    getChainId: jest.fn().mockReturnValue(4202),
+  };
+
+  const wsContract = { target: '0xcontractaddress' };
+  const mockContractService = {
+    getContract: jest.fn().mockReturnValue({
+      connect: jest.fn().mockReturnValue(wsContract),
+    }),
+  };
+
+  const createSocketProvider = () => ({
+    websocket: {} as { onclose?: () => void; onerror?: () => void },
+    getBlockNumber: jest.fn().mockResolvedValue(200),
+    on: jest.fn().mockResolvedValue(undefined),
+    destroy: jest.fn().mockResolvedValue(undefined),
+  });
+
+  const transferEvent = {
+    eventName: 'Transfer',
+    blockNumber: 201,
+    blockHash: '0xBlockHash',
+    transactionHash: '0xTxHash',
+    logIndex: 0,
+    timestamp: 1767225600,
+    args: {},
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EventSubscriptionService,
+        {
+          provide: BlockchainEventService,
+          useValue: mockBlockchainEventService,
+        },
+        { provide: EthersProviderService, useValue: mockProviderService },
+        { provide: StomaTradeContractService, useValue: mockContractService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    return module.get<EventSubscriptionService>(EventSubscriptionService);
+  };
+
+  const mockSocket = (
+    ...providers: ReturnType<typeof createSocketProvider>[]
+  ) => {
+    const spy = jest.spyOn(
+      service as unknown as {
+        createWebSocketProvider: (url: string) => ethers.WebSocketProvider;
+      },
+      'createWebSocketProvider',
+    );
+    for (const provider of providers) {
+      spy.mockReturnValueOnce(provider as unknown as ethers.WebSocketProvider);
+    }
+    return spy;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+
+    config = { BLOCKCHAIN_EVENT_MODE: 'auto' };
+    mockProviderService.getBlockNumber.mockResolvedValue(200);
+    mockBlockchainEventService.querySyncedEvents.mockResolvedValue([]);
+    mockBlockchainEventService.processEvent.mockResolvedValue(true);
+
+    service = await createService();
+  });
+
+  afterEach(async () => {
+    await service.stop();
+    jest.useRealTimers();
+  });
+
+  it('should not subscribe when the mode is off', async () => {
+    config = {};
+    service = await createService();
+
+    await service.onApplicationBootstrap();
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(service.getStatus()).toEqual(
+      expect.objectContaining({ mode: 'off', transport: null }),
+    );
+    expect(mockProviderService.getBlockNumber).not.toHaveBeenCalled();
+  });
+
+  describe('pollOnce', () => {
+    it('should start from the chain head and process new blocks after it', async () => {
+      await service.pollOnce();
+      expect(
+        mockBlockchainEventService.querySyncedEvents,
+      ).not.toHaveBeenCalled();
+
+      mockProviderService.getBlockNumber.mockResolvedValue(205);
+      mockBlockchainEventService.querySyncedEvents.mockResolvedValue([
+        transferEvent,
+        { ...transferEvent, logIndex: 1 },
+      ]);
+      mockBlockchainEventService.processEvent
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+
+      const processed = await service.pollOnce();
+
+      expect(mockBlockchainEventService.querySyncedEvents).toHaveBeenCalledWith(
+        201,
+        205,
+      );
+      expect(processed).toBe(1);
+      expect(service.getStatus().lastBlock).toBe(205);
+    });
+
+    it('should cap the polled range', async () => {
+      config.BLOCKCHAIN_EVENT_POLL_MAX_BLOCKS = '50';
+      service = await createService();
+
+      await service.pollOnce();
+      mockProviderService.getBlockNumber.mockResolvedValue(1000);
+      await service.pollOnce();
+
+      expect(mockBlockchainEventService.querySyncedEvents).toHaveBeenCalledWith(
+        201,
+        250,
+      );
+      expect(service.getStatus().lastBlock).toBe(250);
+    });
+  });
+
+  it('should poll when no WebSocket URL is configured', async () => {
+    await service.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(service.getStatus().transport).toBe('polling');
+    expect(mockProviderService.getBlockNumber).toHaveBeenCalled();
+    expect(mockBlockchainEventService.startListening).not.toHaveBeenCalled();
+  });
+
+  it('should subscribe through the WebSocket provider', async () => {
+    config.BLOCKCHAIN_WS_URL = 'wss://ws.example.com/key';
+    service = await createService();
+    const socketProvider = createSocketProvider();
+    mockSocket(socketProvider);
+
+    await service.start();
+
+    expect(mockBlockchainEventService.startListening).toHaveBeenCalledWith(
+      wsContract,
+    );
+    expect(service.getStatus()).toEqual(
+      expect.objectContaining({ transport: 'websocket', lastBlock: 200 }),
+    );
+  });
+
+  it('should fall back to polling on disconnect and reconnect with backoff', async () => {
+    config.BLOCKCHAIN_WS_URL = 'wss://ws.example.com/key';
+    service = await createService();
+    const firstSocket = createSocketProvider();
+    const secondSocket = createSocketProvider();
+    const createProvider = mockSocket(firstSocket, secondSocket);
+
+    await service.start();
+    firstSocket.websocket.onclose!();
+    firstSocket.websocket.onerror!();
+
+    expect(mockBlockchainEventService.stopListening).toHaveBeenCalledWith(
+      wsContract,
+    );
+    expect(firstSocket.destroy).toHaveBeenCalledTimes(1);
+    expect(service.getStatus()).toEqual(
+      expect.objectContaining({
+        transport: 'polling',
+        lastBlock: 188,
+        reconnectAttempts: 1,
+        lastError: 'socket closed',
+      }),
+    );
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(mockBlockchainEventService.querySyncedEvents).toHaveBeenCalledWith(
+      189,
+      200,
+    );
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(createProvider).toHaveBeenCalledTimes(2);
+    expect(mockBlockchainEventService.startListening).toHaveBeenCalledTimes(2);
+    expect(service.getStatus()).toEqual(
+      expect.objectContaining({ transport: 'websocket', reconnectAttempts: 0 }),
+    );
+  });
+
+  it('should back off exponentially while the socket cannot connect', async () => {
+    config.BLOCKCHAIN_WS_URL = 'wss://ws.example.com/key';
+    service = await createService();
+    const failingSocket = () => {
+      const provider = createSocketProvider();
+      provider.getBlockNumber.mockRejectedValue(new Error('ECONNREFUSED'));
+      return provider;
+    };
+    const createProvider = mockSocket(
+      failingSocket(),
+      failingSocket(),
+      failingSocket(),
+    );
+
+    await service.start();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(createProvider).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(createProvider).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(createProvider).toHaveBeenCalledTimes(3);
+    expect(service.getStatus()).toEqual(
+      expect.objectContaining({
+        transport: 'polling',
+        reconnectAttempts: 3,
+        lastError: 'ECONNREFUSED',
+      }),
+    );
+  });
+});
@@ -0,0 +1,335 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BaseContract, WebSocketLike, ethers } from 'ethers';
+import { BlockchainEventService } from './blockchain-event.service';
+import { EthersProviderService } from './ethers-provider.service';
+import { StomaTradeContractService } from './stomatrade-contract.service';
+import { maskRpcUrl } from '../providers/failover-json-rpc.provider';
+
+export type EventSubscriptionMode = 'off' | 'auto' | 'polling';
+
+export interface EventSubscriptionStatus {
+  mode: EventSubscriptionMode;
+  transport: 'websocket' | 'polling' | null;
+  lastBlock: number | null;
+  reconnectAttempts: number;
+  lastError: string | null;
+}
+
+// Blocks re-read when falling back from the socket, in case its last
+// notifications were lost; already processed logs are skipped
+const FALLBACK_OVERLAP_BLOCKS = 12;
+
+/**
+ * Ingests contract events as they happen, between the cron syncs.
+ *
+ * In "auto" mode events are subscribed over BLOCKCHAIN_WS_URL. While the
+ * socket is down, logs are polled over the HTTP provider and the socket is
+ * reconnected with exponential backoff. In "polling" mode, or without a
+ * WebSocket URL, only polling is used. Events go through
+ * BlockchainEventService.processEvent, which skips logs the cron or the
+ * historical sync already applied.
+ */
+@Injectable()
+export class EventSubscriptionService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(EventSubscriptionService.name);
+  private readonly mode: EventSubscriptionMode;
+  private readonly wsUrl?: string;
+  private readonly pollIntervalMs: number;
+  private readonly pollMaxBlocks: number;
+  private readonly reconnectBaseMs: number;
+  private readonly reconnectMaxMs: number;
+
+  private transport: 'websocket' | 'polling' | null = null;
+  private wsProvider: ethers.WebSocketProvider | null = null;
+  private wsContract: BaseContract | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private stopped = true;
+  private lastBlock: number | null = null;
+  private reconnectAttempts = 0;
+  private lastError: string | null = null;
+
+  constructor(
+    private readonly eventService: BlockchainEventService,
+    private readonly providerService: EthersProviderService,
+    private readonly contractService: StomaTradeContractService,
+    private readonly configService: ConfigService,
+  ) {
+    const mode = this.configService.get<string>('BLOCKCHAIN_EVENT_MODE');
+    this.mode = mode === 'auto' || mode === 'polling' ? mode : 'off';
+    this.wsUrl = this.configService.get<string>('BLOCKCHAIN_WS_URL');
+    this.pollIntervalMs =
+      Number(
+        this.configService.get<number>('BLOCKCHAIN_EVENT_POLL_INTERVAL_MS'),
+      ) || 15000;
+    this.pollMaxBlocks =
+      Number(
+        this.configService.get<number>('BLOCKCHAIN_EVENT_POLL_MAX_BLOCKS'),
+      ) || 1000;
+    this.reconnectBaseMs =
+      Number(this.configService.get<number>('BLOCKCHAIN_WS_RECONNECT_MS')) ||
+      1000;
+    this.reconnectMaxMs =
+      Number(
+        this.configService.get<number>('BLOCKCHAIN_WS_RECONNECT_MAX_MS'),
+      ) || 60000;
+  }
+
+  async onApplicationBootstrap() {
+    if (this.mode === 'off') {
+      this.logger.log(
+        'Live event subscription disabled, events are ingested by the cron sync',
+      );
+      return;
+    }
+
+    await this.start();
+  }
+
+  async onModuleDestroy() {
+    await this.stop();
+  }
+
+  async start(): Promise<void> {
+    this.stopped = false;
+
+    if (this.mode === 'auto' && this.wsUrl) {
+      await this.connectWebSocket();
+    } else {
+      this.startPolling();
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.clearTimers();
+    await this.closeWebSocket();
+    this.transport = null;
+  }
+
+  getStatus(): EventSubscriptionStatus {
+    return {
+      mode: this.mode,
+      transport: this.transport,
+      lastBlock: this.lastBlock,
+      reconnectAttempts: this.reconnectAttempts,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Process logs from the last seen block up to the chain head, at most
+   * BLOCKCHAIN_EVENT_POLL_MAX_BLOCKS per call
+   */
+  async pollOnce(): Promise<number> {
+    if (this.isPolling) {
+      return 0;
+    }
+
+    this.isPolling = true;
+
+    try {
+      const head = await this.providerService.getBlockNumber();
+
+      // Backlog before the subscription started is left to the cron sync
+      if (this.lastBlock === null) {
+        this.lastBlock = head;
+        return 0;
+      }
+
+      if (head <= this.lastBlock) {
+        return 0;
+      }
+
+      const fromBlock = this.lastBlock + 1;
+      const toBlock = Math.min(head, this.lastBlock + this.pollMaxBlocks);
+      const events = await this.eventService.querySyncedEvents(
+        fromBlock,
+        toBlock,
+      );
+
+      let processed = 0;
+      for (const event of events) {
+        if (await this.eventService.processEvent(event)) {
+          processed++;
+        }
+      }
+
+      this.lastBlock = toBlock;
+
+      if (processed > 0) {
+        this.logger.log(
+          `Polled ${processed} new events in blocks ${fromBlock}-${toBlock}`,
+        );
+      }
+
+      return processed;
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Separate so tests can substitute the socket
+   */
+  protected createWebSocketProvider(url: string): ethers.WebSocketProvider {
+    return new ethers.WebSocketProvider(url, this.providerService.getChainId());
+  }
+
+  private async connectWebSocket(): Promise<void> {
+    const url = this.wsUrl!;
+
+    try {
+      const provider = this.createWebSocketProvider(url);
+      this.wsProvider = provider;
+
+      // ethers leaves these handlers unset and does not reconnect itself
+      const socket = provider.websocket as WebSocketLike & {
+        onclose?: (...args: Array<any>) => any;
+      };
+      socket.onerror = () => this.handleDisconnect(provider, 'socket error');
+      socket.onclose = () => this.handleDisconnect(provider, 'socket closed');
+
+      const head = await provider.getBlockNumber();
+      if (this.stopped || this.wsProvider !== provider) {
+        return;
+      }
+
+      // Catch up on what happened while disconnected before switching over
+      if (this.transport === 'polling') {
+        await this.pollOnce();
+      }
+      this.stopPolling();
+      this.lastBlock = Math.max(this.lastBlock ?? head, head);
+
+      void provider.on('block', (blockNumber: number) => {
+        this.lastBlock = Math.max(this.lastBlock ?? blockNumber, blockNumber);
+      });
+
+      this.wsContract = this.contractService.getContract().connect(provider);
+      this.eventService.startListening(this.wsContract);
+
+      this.transport = 'websocket';
+      this.reconnectAttempts = 0;
+      this.logger.log(`Subscribed to contract events over ${maskRpcUrl(url)}`);
+    } catch (error) {
+      this.handleDisconnect(this.wsProvider, (error as Error).message);
+    }
+  }
+
+  private handleDisconnect(
+    provider: ethers.WebSocketProvider | null,
+    reason: string,
+  ): void {
+    // Close and error both fire for one failure; only handle the first
+    if (this.stopped || provider !== this.wsProvider) {
+      return;
+    }
+
+    this.lastError = reason;
+    this.logger.warn(
+      `Event WebSocket disconnected (${reason}), falling back to polling`,
+    );
+
+    void this.closeWebSocket();
+
+    if (this.lastBlock !== null) {
+      this.lastBlock = Math.max(0, this.lastBlock - FALLBACK_OVERLAP_BLOCKS);
+    }
+    this.startPolling();
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) {
+      return;
+    }
+
+    const delay = Math.min(
+      this.reconnectBaseMs * 2 ** this.reconnectAttempts,
+      this.reconnectMaxMs,
+    );
+    this.reconnectAttempts++;
+
+    this.logger.log(
+      `Reconnecting event WebSocket in ${delay}ms (attempt ${this.reconnectAttempts})`,
+    );
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) {
+        void this.connectWebSocket();
+      }
+    }, delay);
+  }
+
+  private async closeWebSocket(): Promise<void> {
+    const provider = this.wsProvider;
+    const contract = this.wsContract;
+    this.wsProvider = null;
+    this.wsContract = null;
+
+    if (contract) {
+      this.eventService.stopListening(contract);
+    }
+
+    if (provider) {
+      try {
+        await provider.destroy();
+      } catch (error) {
+        this.logger.debug(
+          `Error closing event WebSocket: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  private startPolling(): void {
+    if (this.transport === 'polling' && this.pollTimer) {
+      return;
+    }
+
+    this.transport = 'polling';
+    this.logger.log(`Polling contract events every ${this.pollIntervalMs}ms`);
+
+    const tick = async () => {
+      try {
+        await this.pollOnce();
+      } catch (error) {
+        this.lastError = (error as Error).message;
+        this.logger.error('Error polling contract events', error);
+      }
+
+      if (!this.stopped && this.transport === 'polling') {
+        this.pollTimer = setTimeout(() => void tick(), this.pollIntervalMs);
+      }
+    };
+
+    this.pollTimer = setTimeout(() => void tick(), 0);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private clearTimers(): void {
+    this.stopPolling();
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+}
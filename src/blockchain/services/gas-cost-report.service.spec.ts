@@ -0,0 +1,204 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { GasCostReportService } from './gas-cost-report.service';
+import { StomaTradeContractService } from './stomatrade-contract.service';
+import { PlatformWalletService } from './platform-wallet.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { GasPayer } from '../dto/gas-cost-report-query.dto';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+import { mockStomaTradeContractService } from '../../test/mocks/blockchain.mock';
+
+describe('GasCostReportService', () => {
+  let service: GasCostReportService;
+  let prisma: typeof mockPrismaService;
+
+  const mockWalletService = {
+    getAddress: jest.fn().mockReturnValue('0xPlatformWalletAddress'),
+  };
+
+  // 1 gwei
+  const gasPrice = '1000000000';
+
+  const transactions = [
+    {
+      transactionType: 'CREATE_PROJECT',
+      gasUsed: '300000',
+      gasPrice,
+      eventData: null,
+      createdAt: new Date('2026-01-10T00:00:00Z'),
+      projectSubmissions: [{ projectId: 'project-uuid-1' }],
+    },
+    {
+      transactionType: 'REFUND',
+      gasUsed: '100000',
+      gasPrice,
+      eventData: JSON.stringify({
+        action: 'markRefundable',
+        projectId: 'project-uuid-1',
+      }),
+      createdAt: new Date('2026-01-20T00:00:00Z'),
+      projectSubmissions: [],
+    },
+    {
+      transactionType: 'INVEST',
+      gasUsed: '150000',
+      gasPrice,
+      eventData: JSON.stringify({
+        action: 'invest',
+        investmentId: 'investment-uuid-1',
+      }),
+      createdAt: new Date('2026-02-03T00:00:00Z'),
+      projectSubmissions: [],
+    },
+    {
+      transactionType: 'MINT_FARMER_NFT',
+      gasUsed: '200000',
+      gasPrice,
+      eventData: null,
+      createdAt: new Date('2026-02-05T00:00:00Z'),
+      projectSubmissions: [],
+    },
+  ];
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GasCostReportService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: StomaTradeContractService,
+          useValue: mockStomaTradeContractService,
+        },
+        { provide: PlatformWalletService, useValue: mockWalletService },
+      ],
+    }).compile();
+
+    service = module.get<GasCostReportService>(GasCostReportService);
+    prisma = mockPrismaService;
+
+    prisma.blockchainTransaction.findMany.mockResolvedValue(transactions);
+    prisma.investment.findMany.mockResolvedValue([
+      { id: 'investment-uuid-1', projectId: 'project-uuid-2' },
+    ]);
+    prisma.project.findMany.mockResolvedValue([
+      { id: 'project-uuid-1', name: 'Coffee Harvest' },
+      { id: 'project-uuid-2', name: 'Cocoa Harvest' },
+    ]);
+  });
+
+  describe('getReport', () => {
+    it('should only count platform transactions on the default chain', async () => {
+      prisma.blockchainTransaction.findMany.mockResolvedValue([]);
+
+      await service.getReport({ fromDate: '2026-01-01' });
+
+      expect(prisma.blockchainTransaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            deleted: false,
+            gasUsed: { not: null },
+            gasPrice: { not: null },
+            OR: [{ chainId: 'eip155:4202' }, { chainId: null }],
+            fromAddress: {
+              equals: '0xPlatformWalletAddress',
+              mode: 'insensitive',
+            },
+            createdAt: { gte: new Date('2026-01-01') },
+          },
+        }),
+      );
+    });
+
+    it('should exclude the platform wallet when reporting user-paid gas', async () => {
+      prisma.blockchainTransaction.findMany.mockResolvedValue([]);
+
+      await service.getReport({
+        chainId: 'eip155:1135',
+        payer: GasPayer.USERS,
+      });
+
+      expect(prisma.blockchainTransaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            deleted: false,
+            gasUsed: { not: null },
+            gasPrice: { not: null },
+            chainId: 'eip155:1135',
+            NOT: {
+              fromAddress: {
+                equals: '0xPlatformWalletAddress',
+                mode: 'insensitive',
+              },
+            },
+          },
+        }),
+      );
+    });
+
+    it('should aggregate gas per transaction type, project and month', async () => {
+      const result = await service.getReport({});
+
+      expect(result.total).toEqual({
+        transactions: 4,
+        gasUsed: '750000',
+        gasCostWei: '750000000000000',
+        gasCost: '0.00075',
+        fiatCost: null,
+      });
+      expect(
+        result.byTransactionType.map((row) => [
+          row.transactionType,
+          row.gasCost,
+        ]),
+      ).toEqual([
+        ['CREATE_PROJECT', '0.0003'],
+        ['MINT_FARMER_NFT', '0.0002'],
+        ['INVEST', '0.00015'],
+        ['REFUND', '0.0001'],
+      ]);
+      expect(
+        result.byProject.map((row) => [
+          row.projectId,
+          row.projectName,
+          row.gasCost,
+        ]),
+      ).toEqual([
+        ['project-uuid-1', 'Coffee Harvest', '0.0004'],
+        ['project-uuid-2', 'Cocoa Harvest', '0.00015'],
+        [null, null, '0.0002'],
+      ]);
+      expect(
+        result.byMonth.map((row) => [row.month, row.transactions, row.gasCost]),
+      ).toEqual([
+        ['2026-01', 2, '0.0004'],
+        ['2026-02', 2, '0.00035'],
+      ]);
+      expect(prisma.investment.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ['investment-uuid-1'] } },
+        select: { id: true, projectId: true },
+      });
+    });
+
+    it('should convert costs to fiat at the reference price', async () => {
+      const result = await service.getReport({
+        fiatPrice: 2000,
+        fiatCurrency: 'EUR',
+      });
+
+      expect(result.fiatCurrency).toBe('EUR');
+      expect(result.total.fiatCost).toBe('1.50');
+      expect(result.byProject[0].fiatCost).toBe('0.80');
+    });
+
+    it('should return an empty report when nothing was spent', async () => {
+      prisma.blockchainTransaction.findMany.mockResolvedValue([]);
+
+      const result = await service.getReport({});
+
+      expect(result.total.gasCost).toBe('0.0');
+      expect(result.byProject).toEqual([]);
+      expect(prisma.project.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,305 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, TRANSACTION_TYPE } from '@prisma/client';
+import { ethers } from 'ethers';
+import { PrismaService } from '../../prisma/prisma.service';
+import { StomaTradeContractService } from './stomatrade-contract.service';
+import { PlatformWalletService } from './platform-wallet.service';
+import {
+  GasCostReportQueryDto,
+  GasPayer,
+} from '../dto/gas-cost-report-query.dto';
+
+export interface GasCostTotals {
+  transactions: number;
+  gasUsed: string;
+  gasCostWei: string;
+  gasCost: string;
+  fiatCost: string | null;
+}
+
+export interface GasCostByType extends GasCostTotals {
+  transactionType: TRANSACTION_TYPE;
+}
+
+export interface GasCostByProject extends GasCostTotals {
+  projectId: string | null;
+  projectName: string | null;
+}
+
+export interface GasCostByMonth extends GasCostTotals {
+  month: string;
+}
+
+export interface GasCostReport {
+  chainId: string;
+  payer: GasPayer;
+  fromDate: string | null;
+  toDate: string | null;
+  fiatCurrency: string | null;
+  fiatPrice: number | null;
+  total: GasCostTotals;
+  byTransactionType: GasCostByType[];
+  byProject: GasCostByProject[];
+  byMonth: GasCostByMonth[];
+}
+
+interface Accumulator {
+  transactions: number;
+  gasUsed: bigint;
+  gasCostWei: bigint;
+}
+
+const reportSelect = {
+  transactionType: true,
+  gasUsed: true,
+  gasPrice: true,
+  eventData: true,
+  createdAt: true,
+  projectSubmissions: { select: { projectId: true } },
+} satisfies Prisma.BlockchainTransactionSelect;
+
+type ReportTransaction = Prisma.BlockchainTransactionGetPayload<{
+  select: typeof reportSelect;
+}>;
+
+const UNATTRIBUTED = 'unattributed';
+
+/**
+ * Aggregates the gas paid for recorded transactions (gasUsed * gasPrice) per
+ * transaction type, per project and per calendar month (UTC), in wei, in the
+ * native token and optionally in fiat at a reference price.
+ *
+ * Project mints are attributed through their submission, other platform
+ * transactions through the projectId or investmentId in their eventData.
+ */
+@Injectable()
+export class GasCostReportService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly contractService: StomaTradeContractService,
+    private readonly walletService: PlatformWalletService,
+  ) {}
+
+  async getReport(query: GasCostReportQueryDto): Promise<GasCostReport> {
+    const payer = query.payer ?? GasPayer.PLATFORM;
+    const defaultChainId = this.contractService.getAppProject().chainId;
+    const chainId = query.chainId ?? defaultChainId;
+    const fiatPrice = query.fiatPrice ?? null;
+
+    const transactions = await this.prisma.blockchainTransaction.findMany({
+      where: {
+        deleted: false,
+        gasUsed: { not: null },
+        gasPrice: { not: null },
+        // Rows recorded before multi-chain support have no chainId
+        ...(chainId === defaultChainId
+          ? { OR: [{ chainId }, { chainId: null }] }
+          : { chainId }),
+        ...this.payerWhere(payer),
+        ...((query.fromDate || query.toDate) && {
+          createdAt: {
+            ...(query.fromDate && { gte: new Date(query.fromDate) }),
+            ...(query.toDate && { lte: new Date(query.toDate) }),
+          },
+        }),
+      },
+      select: reportSelect,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const projectIds = await this.resolveProjects(transactions);
+    const projectNames = await this.getProjectNames(projectIds);
+
+    const total = this.emptyAccumulator();
+    const byType = new Map<string, Accumulator>();
+    const byProject = new Map<string, Accumulator>();
+    const byMonth = new Map<string, Accumulator>();
+
+    transactions.forEach((transaction, index) => {
+      const gasUsed = BigInt(transaction.gasUsed!);
+      const gasCostWei = gasUsed * BigInt(transaction.gasPrice!);
+
+      for (const [buckets, key] of [
+        [byType, transaction.transactionType],
+        [byProject, projectIds[index] ?? UNATTRIBUTED],
+        [byMonth, transaction.createdAt.toISOString().slice(0, 7)],
+      ] as const) {
+        if (!buckets.has(key)) {
+          buckets.set(key, this.emptyAccumulator());
+        }
+        this.add(buckets.get(key)!, gasUsed, gasCostWei);
+      }
+
+      this.add(total, gasUsed, gasCostWei);
+    });
+
+    const byCostDesc = (a: GasCostTotals, b: GasCostTotals) => {
+      const difference = BigInt(b.gasCostWei) - BigInt(a.gasCostWei);
+      return difference === BigInt(0) ? 0 : difference > BigInt(0) ? 1 : -1;
+    };
+
+    return {
+      chainId,
+      payer,
+      fromDate: query.fromDate ?? null,
+      toDate: query.toDate ?? null,
+      fiatCurrency: fiatPrice !== null ? (query.fiatCurrency ?? 'USD') : null,
+      fiatPrice,
+      total: this.toTotals(total, fiatPrice),
+      byTransactionType: [...byType.entries()]
+        .map(([transactionType, totals]) => ({
+          transactionType: transactionType as TRANSACTION_TYPE,
+          ...this.toTotals(totals, fiatPrice),
+        }))
+        .sort(byCostDesc),
+      byProject: [...byProject.entries()]
+        .map(([projectId, totals]) => ({
+          projectId: projectId === UNATTRIBUTED ? null : projectId,
+          projectName: projectNames.get(projectId) ?? null,
+          ...this.toTotals(totals, fiatPrice),
+        }))
+        // Unattributed costs last
+        .sort((a, b) =>
+          a.projectId === null
+            ? 1
+            : b.projectId === null
+              ? -1
+              : byCostDesc(a, b),
+        ),
+      byMonth: [...byMonth.entries()]
+        .map(([month, totals]) => ({
+          month,
+          ...this.toTotals(totals, fiatPrice),
+        }))
+        .sort((a, b) => a.month.localeCompare(b.month)),
+    };
+  }
+
+  private payerWhere(payer: GasPayer): Prisma.BlockchainTransactionWhereInput {
+    const platformAddress: Prisma.StringFilter = {
+      equals: this.walletService.getAddress(),
+      mode: 'insensitive',
+    };
+
+    switch (payer) {
+      case GasPayer.PLATFORM:
+        return { fromAddress: platformAddress };
+      case GasPayer.USERS:
+        return { NOT: { fromAddress: platformAddress } };
+      case GasPayer.ALL:
+        return {};
+    }
+  }
+
+  /**
+   * Project ID of each transaction, in order, or null when it cannot be told
+   */
+  private async resolveProjects(
+    transactions: ReportTransaction[],
+  ): Promise<(string | null)[]> {
+    const references = transactions.map((transaction) => {
+      const submission = transaction.projectSubmissions[0];
+      if (submission) {
+        return { projectId: submission.projectId };
+      }
+
+      return this.parseEventData(transaction.eventData);
+    });
+
+    const investmentIds = [
+      ...new Set(
+        references
+          .filter((reference) => !reference.projectId)
+          .map((reference) => reference.investmentId)
+          .filter((id): id is string => !!id),
+      ),
+    ];
+
+    const investments = investmentIds.length
+      ? await this.prisma.investment.findMany({
+          where: { id: { in: investmentIds } },
+          select: { id: true, projectId: true },
+        })
+      : [];
+    const investmentProjects = new Map(
+      investments.map((investment) => [investment.id, investment.projectId]),
+    );
+
+    return references.map(
+      (reference) =>
+        reference.projectId ??
+        (reference.investmentId
+          ? (investmentProjects.get(reference.investmentId) ?? null)
+          : null),
+    );
+  }
+
+  private parseEventData(eventData: string | null): {
+    projectId?: string;
+    investmentId?: string;
+  } {
+    if (!eventData) {
+      return {};
+    }
+
+    try {
+      const parsed = JSON.parse(eventData) as Record<string, unknown>;
+
+      return {
+        projectId:
+          typeof parsed.projectId === 'string' ? parsed.projectId : undefined,
+        investmentId:
+          typeof parsed.investmentId === 'string'
+            ? parsed.investmentId
+            : undefined,
+      };
+    } catch {
+      return {};
+    }
+  }
+
+  private async getProjectNames(
+    projectIds: (string | null)[],
+  ): Promise<Map<string, string>> {
+    const ids = [
+      ...new Set(projectIds.filter((id): id is string => id !== null)),
+    ];
+
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const projects = await this.prisma.project.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, name: true },
+    });
+
+    return new Map(projects.map((project) => [project.id, project.name]));
+  }
+
+  private emptyAccumulator(): Accumulator {
+    return { transactions: 0, gasUsed: BigInt(0), gasCostWei: BigInt(0) };
+  }
+
+  private add(accumulator: Accumulator, gasUsed: bigint, gasCostWei: bigint) {
+    accumulator.transactions += 1;
+    accumulator.gasUsed += gasUsed;
+    accumulator.gasCostWei += gasCostWei;
+  }
+
+  private toTotals(
+    accumulator: Accumulator,
+    fiatPrice: number | null,
+  ): GasCostTotals {
+    const gasCost = ethers.formatEther(accumulator.gasCostWei);
+
+    return {
+      transactions: accumulator.transactions,
+      gasUsed: accumulator.gasUsed.toString(),
+      gasCostWei: accumulator.gasCostWei.toString(),
+      gasCost,
+      fiatCost:
+        fiatPrice !== null ? (Number(gasCost) * fiatPrice).toFixed(2) : null,
+    };
+  }
+}
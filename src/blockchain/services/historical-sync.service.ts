@@ -1,7 +1,19 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
-import { BlockchainEventService } from './blockchain-event.service';
-import { EthersProviderService } from './ethers-provider.service';
+import {
+  BlockchainEvent,
+  BlockchainEventService,
+  SYNCED_EVENT_TYPES,
+} from './blockchain-event.service';
+import {
+  ChainRpcHealth,
+  EthersProviderService,
+} from './ethers-provider.service';
+import { ChainReorgService } from './chain-reorg.service';
+import {
+  EventCheckpoint,
+  SyncCheckpointService,
+} from './sync-checkpoint.service';
 
 export interface SyncProgress {
   startBlock: number;
@@ -21,6 +33,16 @@ export interface SyncResult {
   duration: number;
 }
 
+export interface SyncStatus {
+  contractAddress: string;
+  lastSyncedBlock: number;
+  currentBlock: number;
+  blocksBehind: number;
+  isSyncing: boolean;
+  checkpoints: Array<EventCheckpoint & { blocksBehind: number | null }>;
+  rpcEndpoints: ChainRpcHealth[];
+}
+
 @Injectable()
 export class HistoricalSyncService {
   private readonly logger = new Logger(HistoricalSyncService.name);
@@ -32,6 +54,8 @@ export class HistoricalSyncService {
     private readonly prisma: PrismaService,
     private readonly blockchainEventService: BlockchainEventService,
     private readonly providerService: EthersProviderService,
+    private readonly syncCheckpointService: SyncCheckpointService,
+    private readonly chainReorgService: ChainReorgService,
   ) {}
 
   /**
@@ -45,11 +69,10 @@ export class HistoricalSyncService {
     toBlock: number | 'latest' = 'latest',
     batchSize: number = this.BATCH_SIZE,
   ): Promise<SyncResult> {
-    if (this.isSyncing) {
+    if (!this.tryStartSync()) {
       throw new Error('Sync already in progress');
     }
 
-    this.isSyncing = true;
     const startTime = Date.now();
     const errors: string[] = [];
     let eventsProcessed = 0;
@@ -102,14 +125,36 @@ export class HistoricalSyncService {
         duration,
       };
     } finally {
-      this.isSyncing = false;
+      this.finishSync();
+    }
+  }
+
+  /**
+   * Claim the in-process sync lock shared by range syncs and sync jobs.
+   * Returns false if a sync is already running.
+   */
+  tryStartSync(): boolean {
+    if (this.isSyncing) {
+      return false;
     }
+
+    this.isSyncing = true;
+    return true;
+  }
+
+  finishSync(): void {
+    this.isSyncing = false;
   }
 
   /**
-   * Sync events since last recorded block
+   * Sync events since last recorded block.
+   * Starts from the lowest per-event checkpoint; event types that are already
+   * further ahead are deduplicated by BlockchainEventService.
    */
   async syncSinceLastBlock(): Promise<SyncResult> {
+    // Rewinds the checkpoints first if synced blocks were reorganized
+    await this.chainReorgService.detectAndRollback();
+
     const lastSyncedBlock = await this.getLastSyncedBlock();
     const currentBlock = await this.providerService.getBlockNumber();
 
@@ -130,41 +175,18 @@ export class HistoricalSyncService {
       };
     }
 
-    const result = await this.syncHistoricalEvents(
-      lastSyncedBlock + 1,
-      currentBlock,
-    );
-
-    // Update last synced block
-    if (result.success) {
-      await this.updateLastSyncedBlock(currentBlock);
-    }
-
-    return result;
+    // Checkpoints are advanced per batch inside syncHistoricalEvents
+    return await this.syncHistoricalEvents(lastSyncedBlock + 1, currentBlock);
   }
 
   /**
-   * Process a batch of blocks for all event types
+   * Process a batch of blocks for all event types and advance their
+   * checkpoints. Returns the number of events processed.
    */
-  private async processBatch(
-    fromBlock: number,
-    toBlock: number,
-  ): Promise<number> {
+  async processBatch(fromBlock: number, toBlock: number): Promise<number> {
     let eventsProcessed = 0;
 
-    const eventTypes = [
-      'ProjectCreated',
-      'FarmerAdded',
-      'Invested',
-      'ProfitDeposited',
-      'ProfitClaimed',
-      'Refunded',
-      'ProjectClosed',
-      'ProjectFinished',
-      'ProjectRefunded',
-    ];
-
-    for (const eventType of eventTypes) {
+    for (const eventType of SYNCED_EVENT_TYPES) {
       try {
         const events = await this.blockchainEventService.queryPastEvents(
           eventType,
@@ -181,6 +203,12 @@ export class HistoricalSyncService {
           await this.processEvent(event);
           eventsProcessed++;
         }
+
+        await this.syncCheckpointService.advanceCheckpoint(
+          eventType,
+          fromBlock,
+          toBlock,
+        );
       } catch (error) {
         this.logger.error(
           `Error querying ${eventType} events in batch ${fromBlock}-${toBlock}`,
@@ -195,62 +223,57 @@ export class HistoricalSyncService {
 
   /**
    * Process a single blockchain event
-   * Note: Currently logs events. Future versions will store in dedicated BlockchainEvent table.
    */
-  private async processEvent(event: any): Promise<void> {
+  private async processEvent(event: BlockchainEvent): Promise<void> {
     this.logger.debug(
       `Processing ${event.eventName} event from block ${event.blockNumber}, tx: ${event.transactionHash}`,
     );
 
-    // Log event details for now
-    // TODO: Store in dedicated BlockchainEvent table when schema is updated
-    this.logger.log(
-      `Event: ${event.eventName} | Block: ${event.blockNumber} | Args: ${JSON.stringify(event.args)}`,
-    );
+    await this.blockchainEventService.processEvent(event);
   }
 
   /**
-   * Get the last synced block number
-   * Note: Uses environment variable or returns 0. Future versions will use database.
+   * Get the last synced block number from the persisted checkpoints.
+   * Falls back to LAST_SYNCED_BLOCK (or genesis) before the first sync.
    */
   private async getLastSyncedBlock(): Promise<number> {
-    // Check if there's a stored last synced block in environment
+    const lastSyncedBlock =
+      await this.syncCheckpointService.getLastSyncedBlock();
+    if (lastSyncedBlock !== null) {
+      return lastSyncedBlock;
+    }
+
     const lastBlock = process.env.LAST_SYNCED_BLOCK;
     if (lastBlock) {
       return parseInt(lastBlock, 10);
     }
 
-    // If no stored block, return 0 (start from genesis)
-    // TODO: Store in SystemMetadata table when schema is updated
     return 0;
   }
 
   /**
-   * Update last synced block
-   * Note: Currently logs only. Future versions will store in database.
-   */
-  private async updateLastSyncedBlock(blockNumber: number): Promise<void> {
-    this.logger.log(`Last synced block updated to: ${blockNumber}`);
-    // TODO: Store in SystemMetadata table when schema is updated
-  }
-
-  /**
-   * Get sync status
+   * Get sync status, including lag behind chain head per event type and the
+   * health of each RPC endpoint
    */
-  async getSyncStatus(): Promise<{
-    lastSyncedBlock: number;
-    currentBlock: number;
-    blocksBehind: number;
-    isSyncing: boolean;
-  }> {
+  async getSyncStatus(): Promise<SyncStatus> {
     const lastSyncedBlock = await this.getLastSyncedBlock();
     const currentBlock = await this.providerService.getBlockNumber();
+    const checkpoints = await this.syncCheckpointService.getCheckpoints();
 
     return {
+      contractAddress: this.syncCheckpointService.getContractAddress(),
       lastSyncedBlock,
       currentBlock,
       blocksBehind: currentBlock - lastSyncedBlock,
       isSyncing: this.isSyncing,
+      checkpoints: checkpoints.map((checkpoint) => ({
+        ...checkpoint,
+        blocksBehind:
+          checkpoint.lastSyncedBlock === null
+            ? null
+            : currentBlock - checkpoint.lastSyncedBlock,
+      })),
+      rpcEndpoints: this.providerService.getRpcHealth(),
     };
   }
 
@@ -0,0 +1,102 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ethers } from 'ethers';
+import {
+  INVEST_INTENT_TYPES,
+  InvestIntent,
+  InvestIntentService,
+} from './invest-intent.service';
+import { StomaTradeContractService } from './stomatrade-contract.service';
+
+describe('InvestIntentService', () => {
+  let service: InvestIntentService;
+
+  const investor = ethers.Wallet.createRandom();
+  const defaultContract = '0x00000000000000000000000000000000000000aa';
+  const otherContract = '0x00000000000000000000000000000000000000bb';
+
+  const mockContractService = {
+    getAppProject: jest.fn().mockReturnValue({ chainId: 'eip155:4202' }),
+    getstomatradeAddress: jest.fn().mockReturnValue(defaultContract),
+  };
+
+  const intent: InvestIntent = {
+    investor: investor.address,
+    projectId: BigInt(3001),
+    amount: ethers.parseEther('100'),
+    nonce: 0,
+    deadline: 1767225600,
+  };
+
+  const sign = (
+    domain: ethers.TypedDataDomain,
+    message: InvestIntent = intent,
+  ) => investor.signTypedData(domain, INVEST_INTENT_TYPES, message);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvestIntentService,
+        { provide: StomaTradeContractService, useValue: mockContractService },
+      ],
+    }).compile();
+
+    service = module.get<InvestIntentService>(InvestIntentService);
+  });
+
+  it('should build typed data bound to the default deployment', () => {
+    const typedData = service.buildTypedData(intent);
+
+    expect(typedData).toEqual({
+      domain: {
+        name: 'StomaTrade',
+        version: '1',
+        chainId: 4202,
+        verifyingContract: ethers.getAddress(defaultContract),
+      },
+      types: INVEST_INTENT_TYPES,
+      primaryType: 'InvestIntent',
+      message: {
+        investor: investor.address,
+        projectId: '3001',
+        amount: '100000000000000000000',
+        nonce: '0',
+        deadline: '1767225600',
+      },
+    });
+  });
+
+  it('should recover the wallet that signed the typed data', async () => {
+    const { domain } = service.buildTypedData(intent);
+    const signature = await sign(domain);
+
+    expect(service.recoverSigner(intent, signature)).toBe(investor.address);
+  });
+
+  it('should not recover the investor for a different amount', async () => {
+    const { domain } = service.buildTypedData(intent);
+    const signature = await sign(domain);
+
+    expect(
+      service.recoverSigner(
+        { ...intent, amount: ethers.parseEther('1000') },
+        signature,
+      ),
+    ).not.toBe(investor.address);
+  });
+
+  it('should bind the domain to the project deployment', async () => {
+    const target = { chainId: 'eip155:1135', contractAddress: otherContract };
+    const { domain } = service.buildTypedData(intent, target);
+    const signature = await sign(domain);
+
+    expect(domain.chainId).toBe(1135);
+    expect(service.recoverSigner(intent, signature, target)).toBe(
+      investor.address,
+    );
+    expect(service.recoverSigner(intent, signature)).not.toBe(investor.address);
+  });
+
+  it('should throw on malformed signatures', () => {
+    expect(() => service.recoverSigner(intent, '0x1234')).toThrow();
+  });
+});
@@ -0,0 +1,114 @@
+import { Injectable } from '@nestjs/common';
+import { ethers } from 'ethers';
+import {
+  ContractTarget,
+  StomaTradeContractService,
+} from './stomatrade-contract.service';
+import { parseCaip2ChainId } from './ethers-provider.service';
+
+export const INVEST_INTENT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  InvestIntent: [
+    { name: 'investor', type: 'address' },
+    { name: 'projectId', type: 'uint256' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export interface InvestIntent {
+  investor: string;
+  /** Project tokenId on chain */
+  projectId: bigint;
+  /** Amount in wei */
+  amount: bigint;
+  nonce: number;
+  /** Unix timestamp in seconds */
+  deadline: number;
+}
+
+/**
+ * EIP-712 payload as handed to wallets (eth_signTypedData_v4), with integers
+ * as decimal strings so it survives JSON
+ */
+export interface InvestIntentTypedData {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: string;
+  };
+  types: Record<string, ethers.TypedDataField[]>;
+  primaryType: 'InvestIntent';
+  message: {
+    investor: string;
+    projectId: string;
+    amount: string;
+    nonce: string;
+    deadline: string;
+  };
+}
+
+/**
+ * EIP-712 InvestIntent an investor signs to authorize the platform wallet to
+ * invest on their behalf.
+ *
+ * The domain is bound to the chain and contract the project lives on, so an
+ * intent cannot be replayed against another deployment.
+ */
+@Injectable()
+export class InvestIntentService {
+  constructor(private readonly contractService: StomaTradeContractService) {}
+
+  buildTypedData(
+    intent: InvestIntent,
+    target?: ContractTarget,
+  ): InvestIntentTypedData {
+    return {
+      domain: this.getDomain(target),
+      types: INVEST_INTENT_TYPES,
+      primaryType: 'InvestIntent',
+      message: {
+        investor: intent.investor,
+        projectId: intent.projectId.toString(),
+        amount: intent.amount.toString(),
+        nonce: intent.nonce.toString(),
+        deadline: intent.deadline.toString(),
+      },
+    };
+  }
+
+  /**
+   * Address that signed the intent. Throws on malformed signatures.
+   */
+  recoverSigner(
+    intent: InvestIntent,
+    signature: string,
+    target?: ContractTarget,
+  ): string {
+    return ethers.verifyTypedData(
+      this.getDomain(target),
+      INVEST_INTENT_TYPES,
+      intent,
+      signature,
+    );
+  }
+
+  /**
+   * CAIP-2 chain the intent domain is bound to
+   */
+  getChainId(target?: ContractTarget): string {
+    return target?.chainId || this.contractService.getAppProject().chainId;
+  }
+
+  private getDomain(target?: ContractTarget): InvestIntentTypedData['domain'] {
+    return {
+      name: 'StomaTrade',
+      version: '1',
+      chainId: parseCaip2ChainId(this.getChainId(target)),
+      verifyingContract: ethers.getAddress(
+        target?.contractAddress || this.contractService.getstomatradeAddress(),
+      ),
+    };
+  }
+}
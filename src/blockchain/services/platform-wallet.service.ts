@@ -8,6 +8,7 @@ export class PlatformWalletService implements OnModuleInit {
   private readonly logger = new Logger(PlatformWalletService.name);
   private wallet: ethers.Wallet;
   private walletAddress: string;
+  private chainWallets = new Map<string, ethers.Wallet>();
   private initPromise: Promise<void>;
 
   constructor(
@@ -20,6 +21,14 @@ export class PlatformWalletService implements OnModuleInit {
     await this.initPromise;
   }
 
+  /**
+   * Reconnect to the default provider after EthersProviderService.reload()
+   */
+  async reload(): Promise<void> {
+    this.initPromise = this.initialize();
+    await this.initPromise;
+  }
+
   private async initialize() {
     const privateKey = this.configService.get<string>(
       'PLATFORM_WALLET_PRIVATE_KEY',
@@ -37,6 +46,7 @@ export class PlatformWalletService implements OnModuleInit {
       const provider = this.providerService.getProvider();
       this.wallet = new ethers.Wallet(privateKey, provider);
       this.walletAddress = this.wallet.address;
+      this.chainWallets.clear();
 
 
       if (!this.wallet.provider){
@@ -75,6 +85,27 @@ export class PlatformWalletService implements OnModuleInit {
     return this.wallet;
   }
 
+  /**
+   * The platform wallet connected to a CAIP-2 chain; null/undefined means
+   * the default chain. The address is the same on every EVM chain.
+   */
+  async getWalletForChain(chainId?: string | null): Promise<ethers.Wallet> {
+    const wallet = this.getWallet();
+
+    if (!chainId || chainId === this.providerService.getCaipChainId()) {
+      return wallet;
+    }
+
+    let chainWallet = this.chainWallets.get(chainId);
+    if (!chainWallet) {
+      const provider = await this.providerService.getProviderForChain(chainId);
+      chainWallet = wallet.connect(provider);
+      this.chainWallets.set(chainId, chainWallet);
+    }
+
+    return chainWallet;
+  }
+
   getAddress(): string {
     if (!this.walletAddress) {
       throw new Error('Wallet not initialized');
@@ -82,19 +113,30 @@ export class PlatformWalletService implements OnModuleInit {
     return this.walletAddress;
   }
 
-  async getBalance(): Promise<bigint> {
-    if (!this.wallet || !this.wallet.provider) {
+  async getBalance(chainId?: string | null): Promise<bigint> {
+    const wallet = await this.getWalletForChain(chainId);
+
+    if (!wallet.provider) {
       throw new Error('Wallet not initialized');
     }
 
-    return await this.wallet.provider.getBalance(this.walletAddress);
+    return await wallet.provider.getBalance(this.walletAddress);
   }
 
-  async getNonce(): Promise<number> {
-    if (!this.wallet) {
-      throw new Error('Wallet not initialized');
-    }
-    return await this.wallet.getNonce();
+  async getNonce(
+    blockTag: ethers.BlockTag = 'latest',
+    chainId?: string | null,
+  ): Promise<number> {
+    const wallet = await this.getWalletForChain(chainId);
+    return await wallet.getNonce(blockTag);
+  }
+
+  async populateTransaction(
+    transaction: ethers.TransactionRequest,
+    chainId?: string | null,
+  ): Promise<ethers.TransactionLike<string>> {
+    const wallet = await this.getWalletForChain(chainId);
+    return await wallet.populateTransaction(transaction);
   }
 
   async signMessage(message: string): Promise<string> {
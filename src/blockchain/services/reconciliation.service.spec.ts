@@ -0,0 +1,210 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReconciliationService } from './reconciliation.service';
+import { StomaTradeContractService } from './stomatrade-contract.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+import { mockStomaTradeContractService } from '../../test/mocks/blockchain.mock';
+import { Money } from '../../common/utils/money.util';
+
+describe('ReconciliationService', () => {
+  let service: ReconciliationService;
+  let prisma: typeof mockPrismaService;
+  const contract = mockStomaTradeContractService;
+
+  const project = {
+    id: 'project-uuid-1',
+    tokenId: 3001,
+    status: 'ACTIVE',
+    chainId: 'eip155:4202',
+    contractAddress: '0xContract',
+    deleted: false,
+  };
+
+  const investor = { id: 'user-uuid-1', walletAddress: '0xInvestor' };
+
+  const investment = {
+    id: 'investment-uuid-1',
+    userId: investor.id,
+    projectId: project.id,
+    amount: '500',
+    blockNumber: 100,
+    user: investor,
+  };
+
+  const profitPool = {
+    id: 'pool-uuid-1',
+    projectId: project.id,
+    totalDeposited: '200',
+    totalClaimed: '50',
+    remainingProfit: '150',
+    deleted: false,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReconciliationService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: StomaTradeContractService,
+          useValue: mockStomaTradeContractService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReconciliationService>(ReconciliationService);
+    prisma = mockPrismaService;
+
+    prisma.project.findMany.mockResolvedValue([project]);
+    prisma.investment.findMany.mockResolvedValue([investment]);
+    prisma.profitPool.findUnique.mockResolvedValue(profitPool);
+    contract.getProject.mockResolvedValue({ status: 0 });
+    contract.getContribution.mockResolvedValue({
+      amount: Money.parse('500').toUnits(),
+    });
+    contract.getProjectProfitBreakdown.mockResolvedValue({
+      investorProfitPool: Money.parse('200').toUnits(),
+    });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should report no drift when DB matches chain', async () => {
+    const report = await service.reconcile();
+
+    expect(report).toMatchObject({
+      projectsChecked: 1,
+      driftCount: 0,
+      repairedCount: 0,
+      errors: [],
+    });
+    expect(contract.getContribution).toHaveBeenCalledWith(
+      BigInt(3001),
+      '0xInvestor',
+      project,
+    );
+    expect(service.getLastReport()).toBe(report);
+  });
+
+  it('should report drifting fields without repairing by default', async () => {
+    contract.getProject.mockResolvedValue({ status: 1 });
+    contract.getContribution.mockResolvedValue({
+      amount: Money.parse('450').toUnits(),
+    });
+    contract.getProjectProfitBreakdown.mockResolvedValue({
+      investorProfitPool: Money.parse('180').toUnits(),
+    });
+
+    const report = await service.reconcile();
+
+    expect(report.drifts).toEqual([
+      expect.objectContaining({
+        entity: 'Project',
+        entityId: 'project-uuid-1',
+        field: 'status',
+        dbValue: 'ACTIVE',
+        chainValue: 'SUCCESS',
+        repairable: true,
+        repaired: false,
+      }),
+      expect.objectContaining({
+        entity: 'Investment',
+        entityId: 'investment-uuid-1',
+        field: 'amount',
+        dbValue: '500',
+        chainValue: '450',
+        repairable: true,
+      }),
+      expect.objectContaining({
+        entity: 'ProfitPool',
+        entityId: 'pool-uuid-1',
+        field: 'remainingProfit',
+        dbValue: '150',
+        chainValue: '130',
+        repairable: true,
+      }),
+    ]);
+    expect(prisma.project.update).not.toHaveBeenCalled();
+    expect(prisma.investment.update).not.toHaveBeenCalled();
+    expect(prisma.profitPool.update).not.toHaveBeenCalled();
+  });
+
+  it('should repair safe drifts with autoRepair', async () => {
+    contract.getProject.mockResolvedValue({ status: 2 });
+    contract.getContribution.mockResolvedValue({
+      amount: Money.parse('450').toUnits(),
+    });
+
+    const report = await service.reconcile({ autoRepair: true });
+
+    expect(report.repairedCount).toBe(2);
+    expect(prisma.project.update).toHaveBeenCalledWith({
+      where: { id: 'project-uuid-1' },
+      data: { status: 'REFUNDING' },
+    });
+    expect(prisma.investment.update).toHaveBeenCalledWith({
+      where: { id: 'investment-uuid-1' },
+      data: { amount: '450' },
+    });
+  });
+
+  it('should not repair summed amounts of several investments', async () => {
+    prisma.investment.findMany.mockResolvedValue([
+      investment,
+      { ...investment, id: 'investment-uuid-2', amount: '100' },
+    ]);
+
+    const report = await service.reconcile({ autoRepair: true });
+
+    expect(report.drifts).toEqual([
+      expect.objectContaining({
+        entity: 'Investment',
+        entityId: '0xinvestor',
+        dbValue: '600',
+        chainValue: '500',
+        repairable: false,
+        repaired: false,
+      }),
+    ]);
+    expect(prisma.investment.update).not.toHaveBeenCalled();
+  });
+
+  it('should skip investors with unconfirmed investments', async () => {
+    prisma.investment.findMany.mockResolvedValue([
+      { ...investment, blockNumber: null },
+    ]);
+
+    await service.reconcile();
+
+    expect(contract.getContribution).not.toHaveBeenCalled();
+  });
+
+  it('should record per-project errors and continue', async () => {
+    prisma.project.findMany.mockResolvedValue([
+      project,
+      { ...project, id: 'project-uuid-2', tokenId: 3002 },
+    ]);
+    contract.getProject
+      .mockRejectedValueOnce(new Error('call revert exception'))
+      .mockResolvedValueOnce({ status: 0 });
+
+    const report = await service.reconcile();
+
+    expect(report.projectsChecked).toBe(2);
+    expect(report.errors).toEqual([
+      { projectId: 'project-uuid-1', error: 'call revert exception' },
+    ]);
+  });
+
+  it('should reject a run while another is in progress', async () => {
+    (service as any).isRunning = true;
+
+    await expect(service.reconcile()).rejects.toThrow(
+      'Reconciliation already in progress',
+    );
+  });
+});
@@ -0,0 +1,308 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PROJECT_STATUS, Project } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { StomaTradeContractService } from './stomatrade-contract.service';
+import { Money, projectDecimals } from '../../common/utils/money.util';
+
+// On-chain ProjectStatus enum, in declaration order
+export const CHAIN_PROJECT_STATUS: PROJECT_STATUS[] = [
+  PROJECT_STATUS.ACTIVE,
+  PROJECT_STATUS.SUCCESS,
+  PROJECT_STATUS.REFUNDING,
+  PROJECT_STATUS.CLOSED,
+];
+
+export type DriftEntity = 'Project' | 'Investment' | 'ProfitPool';
+
+export interface Drift {
+  entity: DriftEntity;
+  entityId: string;
+  projectId: string;
+  projectTokenId: number;
+  field: string;
+  dbValue: string | null;
+  chainValue: string;
+  /** Whether the DB value can be overwritten with the chain value as-is */
+  repairable: boolean;
+  reason?: string;
+  repaired: boolean;
+}
+
+export interface ReconciliationOptions {
+  autoRepair?: boolean;
+  projectId?: string;
+}
+
+export interface ReconciliationReport {
+  startedAt: Date;
+  finishedAt: Date;
+  autoRepair: boolean;
+  projectsChecked: number;
+  driftCount: number;
+  repairedCount: number;
+  drifts: Drift[];
+  errors: Array<{ projectId: string; error: string }>;
+}
+
+/**
+ * Compares the database projection of minted projects with contract state.
+ *
+ * For every minted project the on-chain status, each investor's contribution
+ * and the investor profit pool are read and compared field by field with
+ * Project.status, the investor's Investment rows and ProfitPool. Differences
+ * are reported as drifts; with autoRepair the safe ones are overwritten with
+ * the chain value:
+ * - Project.status, which only changes through contract calls
+ * - Investment.amount when the investor has a single confirmed investment
+ * - ProfitPool.remainingProfit, derived from the chain pool minus claims
+ *
+ * Investors with investments still waiting for confirmation are skipped.
+ */
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+  private isRunning = false;
+  private lastReport: ReconciliationReport | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly contractService: StomaTradeContractService,
+  ) {}
+
+  async reconcile(
+    options: ReconciliationOptions = {},
+  ): Promise<ReconciliationReport> {
+    if (this.isRunning) {
+      throw new Error('Reconciliation already in progress');
+    }
+
+    this.isRunning = true;
+
+    try {
+      const report = await this.run(options);
+      this.lastReport = report;
+      return report;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  getLastReport(): ReconciliationReport | null {
+    return this.lastReport;
+  }
+
+  isReconciling(): boolean {
+    return this.isRunning;
+  }
+
+  private async run(
+    options: ReconciliationOptions,
+  ): Promise<ReconciliationReport> {
+    const autoRepair = options.autoRepair ?? false;
+    const startedAt = new Date();
+
+    const projects = await this.prisma.project.findMany({
+      where: {
+        tokenId: { not: null },
+        deleted: false,
+        ...(options.projectId && { id: options.projectId }),
+      },
+      orderBy: { tokenId: 'asc' },
+    });
+
+    const drifts: Drift[] = [];
+    const errors: ReconciliationReport['errors'] = [];
+
+    for (const project of projects) {
+      try {
+        const projectDrifts = await this.reconcileProject(project);
+
+        if (autoRepair) {
+          for (const drift of projectDrifts) {
+            if (drift.repairable) {
+              await this.repair(drift);
+              drift.repaired = true;
+            }
+          }
+        }
+
+        drifts.push(...projectDrifts);
+      } catch (error) {
+        this.logger.error(`Failed to reconcile project ${project.id}`, error);
+        errors.push({
+          projectId: project.id,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    const report: ReconciliationReport = {
+      startedAt,
+      finishedAt: new Date(),
+      autoRepair,
+      projectsChecked: projects.length,
+      driftCount: drifts.length,
+      repairedCount: drifts.filter((drift) => drift.repaired).length,
+      drifts,
+      errors,
+    };
+
+    this.logger.log(
+      `Reconciled ${report.projectsChecked} projects: ${report.driftCount} drifts, ${report.repairedCount} repaired, ${errors.length} errors`,
+    );
+
+    return report;
+  }
+
+  private async reconcileProject(project: Project): Promise<Drift[]> {
+    const tokenId = BigInt(project.tokenId!);
+    const drift = (
+      fields: Omit<Drift, 'projectId' | 'projectTokenId' | 'repaired'>,
+    ): Drift => ({
+      ...fields,
+      projectId: project.id,
+      projectTokenId: project.tokenId!,
+      repaired: false,
+    });
+
+    const drifts: Drift[] = [];
+    const chainProject = await this.contractService.getProject(
+      tokenId,
+      project,
+    );
+
+    const chainStatus = CHAIN_PROJECT_STATUS[Number(chainProject.status)];
+    if (chainStatus !== project.status) {
+      drifts.push(
+        drift({
+          entity: 'Project',
+          entityId: project.id,
+          field: 'status',
+          dbValue: project.status,
+          chainValue: chainStatus ?? String(chainProject.status),
+          repairable: chainStatus !== undefined,
+          ...(chainStatus === undefined && {
+            reason: 'Unknown on-chain project status',
+          }),
+        }),
+      );
+    }
+
+    const investments = await this.prisma.investment.findMany({
+      where: { projectId: project.id, deleted: false },
+      include: { user: true },
+      orderBy: { investedAt: 'asc' },
+    });
+
+    const byInvestor = new Map<string, typeof investments>();
+    for (const investment of investments) {
+      const wallet = investment.user.walletAddress.toLowerCase();
+      byInvestor.set(wallet, [...(byInvestor.get(wallet) ?? []), investment]);
+    }
+
+    for (const [wallet, investorInvestments] of byInvestor) {
+      // Pending invest() transactions are settled by the transaction watcher
+      if (investorInvestments.some((investment) => !investment.blockNumber)) {
+        continue;
+      }
+
+      const contribution = await this.contractService.getContribution(
+        tokenId,
+        investorInvestments[0].user.walletAddress,
+        project,
+      );
+
+      const dbAmount = Money.sum(
+        investorInvestments.map((investment) => Money.parse(investment.amount)),
+      );
+      const chainAmount = Money.fromUnits(
+        contribution.amount,
+        projectDecimals(project),
+      );
+
+      if (dbAmount.eq(chainAmount)) {
+        continue;
+      }
+
+      const single = investorInvestments.length === 1;
+      drifts.push(
+        drift({
+          entity: 'Investment',
+          entityId: single ? investorInvestments[0].id : wallet,
+          field: 'amount',
+          dbValue: dbAmount.toString(),
+          chainValue: chainAmount.toString(),
+          repairable: single && chainAmount.isPositive(),
+          ...(!single && {
+            reason: `Investor has ${investorInvestments.length} investments in this project`,
+          }),
+          ...(single &&
+            chainAmount.isZero() && {
+              reason: 'No contribution on chain',
+            }),
+        }),
+      );
+    }
+
+    const profitPool = await this.prisma.profitPool.findUnique({
+      where: { projectId: project.id },
+    });
+
+    if (profitPool && !profitPool.deleted) {
+      const breakdown = await this.contractService.getProjectProfitBreakdown(
+        tokenId,
+        project,
+      );
+      const expectedRemaining = Money.fromUnits(
+        breakdown.investorProfitPool,
+        projectDecimals(project),
+      ).minus(Money.parse(profitPool.totalClaimed));
+
+      if (!Money.parse(profitPool.remainingProfit).eq(expectedRemaining)) {
+        drifts.push(
+          drift({
+            entity: 'ProfitPool',
+            entityId: profitPool.id,
+            field: 'remainingProfit',
+            dbValue: profitPool.remainingProfit,
+            chainValue: expectedRemaining.toString(),
+            repairable: !expectedRemaining.isNegative(),
+            ...(expectedRemaining.isNegative() && {
+              reason:
+                'Recorded claims exceed the on-chain investor profit pool',
+            }),
+          }),
+        );
+      }
+    }
+
+    return drifts;
+  }
+
+  private async repair(drift: Drift) {
+    this.logger.warn(
+      `Repairing ${drift.entity}.${drift.field} of ${drift.entityId}: ${drift.dbValue} -> ${drift.chainValue}`,
+    );
+
+    switch (drift.entity) {
+      case 'Project':
+        await this.prisma.project.update({
+          where: { id: drift.entityId },
+          data: { status: drift.chainValue as PROJECT_STATUS },
+        });
+        break;
+      case 'Investment':
+        await this.prisma.investment.update({
+          where: { id: drift.entityId },
+          data: { amount: drift.chainValue },
+        });
+        break;
+      case 'ProfitPool':
+        await this.prisma.profitPool.update({
+          where: { id: drift.entityId },
+          data: { remainingProfit: drift.chainValue },
+        });
+        break;
+    }
+  }
+}
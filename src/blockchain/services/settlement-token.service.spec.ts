@@ -0,0 +1,316 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ethers } from 'ethers';
+import {
+  ERC20_PERMIT_ABI,
+  InvalidPermitError,
+  PERMIT_TYPES,
+  SettlementToken,
+  SettlementTokenService,
+} from './settlement-token.service';
+import { StomaTradeContractService } from './stomatrade-contract.service';
+import { PlatformWalletService } from './platform-wallet.service';
+import { TransactionService } from './transaction.service';
+import {
+  mockTransactionResult,
+  mockUnsignedTransaction,
+} from '../../test/mocks/blockchain.mock';
+
+describe('SettlementTokenService', () => {
+  let service: SettlementTokenService;
+
+  const investor = ethers.Wallet.createRandom();
+  const tokenAddress = '0x00000000000000000000000000000000000000cc';
+  const stomaTrade = '0x00000000000000000000000000000000000000aa';
+  const erc20 = new ethers.Interface(ERC20_PERMIT_ABI);
+
+  // On-chain state of the fake token, answered by the runner below
+  let tokenState: {
+    balance: bigint;
+    allowance: bigint;
+    nonce: bigint | null;
+    version: string | null;
+  };
+
+  const runner = {
+    provider: null,
+    call: jest.fn((tx: ethers.TransactionRequest) => {
+      const call = erc20.parseTransaction({ data: tx.data as string })!;
+      const results: Record<string, unknown> = {
+        name: 'Rupiah Token',
+        symbol: 'IDRT',
+        decimals: 18,
+        version: tokenState.version,
+        balanceOf: tokenState.balance,
+        allowance: tokenState.allowance,
+        nonces: tokenState.nonce,
+      };
+      const result = results[call.name];
+
+      if (result === null || result === undefined) {
+        return Promise.reject(new Error('execution reverted'));
+      }
+      return Promise.resolve(erc20.encodeFunctionResult(call.name, [result]));
+    }),
+  };
+
+  const deployment = {
+    id: 'app-project-1',
+    chainId: 'eip155:4202',
+    contractAddress: stomaTrade,
+    settlementTokenAddress: tokenAddress,
+  };
+
+  const mockContractService = {
+    getDeployment: jest.fn(),
+  };
+
+  const mockWalletService = {
+    getWalletForChain: jest.fn().mockResolvedValue(runner),
+  };
+
+  const mockTransactionService = {
+    callContractMethod: jest.fn(
+      (contract: ethers.Contract, methodName: string, args: unknown[]) =>
+        contract[methodName](...args) as Promise<unknown>,
+    ),
+    buildUnsignedTransaction: jest
+      .fn()
+      .mockResolvedValue(mockUnsignedTransaction),
+    executeContractMethod: jest.fn().mockResolvedValue(mockTransactionResult),
+  };
+
+  const token: SettlementToken = {
+    address: ethers.getAddress(tokenAddress),
+    name: 'Rupiah Token',
+    symbol: 'IDRT',
+    decimals: 18,
+    chainId: 'eip155:4202',
+    spender: ethers.getAddress(stomaTrade),
+  };
+
+  const amount = ethers.parseEther('100');
+  const deadline = 1767225600;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tokenState = {
+      balance: ethers.parseEther('250'),
+      allowance: BigInt(0),
+      nonce: BigInt(3),
+      version: null,
+    };
+    mockContractService.getDeployment.mockResolvedValue(deployment);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SettlementTokenService,
+        { provide: StomaTradeContractService, useValue: mockContractService },
+        { provide: PlatformWalletService, useValue: mockWalletService },
+        { provide: TransactionService, useValue: mockTransactionService },
+      ],
+    }).compile();
+
+    service = module.get<SettlementTokenService>(SettlementTokenService);
+  });
+
+  describe('getToken', () => {
+    it('should read the token of the deployment once', async () => {
+      const target = { chainId: 'eip155:4202', contractAddress: stomaTrade };
+
+      expect(await service.getToken(target)).toEqual(token);
+      expect(await service.getToken(target)).toEqual(token);
+
+      expect(mockContractService.getDeployment).toHaveBeenCalledWith(target);
+      expect(mockTransactionService.callContractMethod).toHaveBeenCalledTimes(
+        3,
+      );
+    });
+
+    it('should return null when the deployment takes no token', async () => {
+      mockContractService.getDeployment.mockResolvedValue({
+        ...deployment,
+        settlementTokenAddress: null,
+      });
+
+      expect(await service.getToken()).toBeNull();
+      expect(await service.getTokenAddress()).toBeNull();
+      expect(mockTransactionService.callContractMethod).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkFunding', () => {
+    it('should compare balance and allowance with the amount', async () => {
+      const funding = await service.checkFunding(
+        token,
+        investor.address,
+        amount,
+      );
+
+      expect(funding).toEqual({
+        owner: investor.address,
+        required: amount,
+        balance: ethers.parseEther('250'),
+        allowance: BigInt(0),
+        hasBalance: true,
+        hasAllowance: false,
+      });
+      expect(mockTransactionService.callContractMethod).toHaveBeenCalledWith(
+        expect.anything(),
+        'allowance',
+        [investor.address, token.spender],
+      );
+    });
+  });
+
+  describe('buildApproveTransaction', () => {
+    it('should approve the StomaTrade contract from the owner wallet', async () => {
+      await service.buildApproveTransaction(token, investor.address, amount);
+
+      expect(
+        mockTransactionService.buildUnsignedTransaction,
+      ).toHaveBeenCalledWith(
+        expect.anything(),
+        'approve',
+        [token.spender, amount],
+        investor.address,
+        'eip155:4202',
+      );
+    });
+  });
+
+  describe('buildPermitTypedData', () => {
+    it('should build the permit with the owner nonce on the token', async () => {
+      const typedData = await service.buildPermitTypedData(
+        token,
+        investor.address,
+        amount,
+        deadline,
+      );
+
+      expect(typedData).toEqual({
+        domain: {
+          name: 'Rupiah Token',
+          version: '1',
+          chainId: 4202,
+          verifyingContract: token.address,
+        },
+        types: PERMIT_TYPES,
+        primaryType: 'Permit',
+        message: {
+          owner: investor.address,
+          spender: token.spender,
+          value: amount.toString(),
+          nonce: '3',
+          deadline: deadline.toString(),
+        },
+      });
+    });
+
+    it('should use the version the token declares', async () => {
+      tokenState.version = '2';
+
+      const typedData = await service.buildPermitTypedData(
+        token,
+        investor.address,
+        amount,
+        deadline,
+      );
+
+      expect(typedData?.domain.version).toBe('2');
+    });
+
+    it('should return null for tokens without permit', async () => {
+      tokenState.nonce = null;
+
+      expect(
+        await service.buildPermitTypedData(
+          token,
+          investor.address,
+          amount,
+          deadline,
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('relayPermit', () => {
+    const signPermit = async (signer: ethers.HDNodeWallet = investor) => {
+      const typedData = await service.buildPermitTypedData(
+        token,
+        investor.address,
+        amount,
+        deadline,
+      );
+      return signer.signTypedData(
+        typedData!.domain,
+        PERMIT_TYPES,
+        typedData!.message,
+      );
+    };
+
+    it('should send permit() with the split signature', async () => {
+      const signature = await signPermit();
+      const { v, r, s } = ethers.Signature.from(signature);
+
+      await service.relayPermit(
+        token,
+        investor.address,
+        amount,
+        deadline,
+        signature,
+      );
+
+      expect(mockTransactionService.executeContractMethod).toHaveBeenCalledWith(
+        expect.anything(),
+        'permit',
+        [investor.address, token.spender, amount, deadline, v, r, s],
+        { transactionType: 'TOKEN_PERMIT', chainId: 'eip155:4202' },
+      );
+    });
+
+    it('should refuse a permit signed by another wallet', async () => {
+      const signature = await signPermit(ethers.Wallet.createRandom());
+
+      await expect(
+        service.relayPermit(
+          token,
+          investor.address,
+          amount,
+          deadline,
+          signature,
+        ),
+      ).rejects.toThrow(InvalidPermitError);
+      expect(
+        mockTransactionService.executeContractMethod,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a permit for another amount', async () => {
+      const signature = await signPermit();
+
+      await expect(
+        service.relayPermit(
+          token,
+          investor.address,
+          amount + BigInt(1),
+          deadline,
+          signature,
+        ),
+      ).rejects.toThrow('Permit was not signed by the token owner');
+    });
+
+    it('should refuse tokens without permit', async () => {
+      tokenState.nonce = null;
+
+      await expect(
+        service.relayPermit(
+          token,
+          investor.address,
+          amount,
+          deadline,
+          `0x${'ab'.repeat(65)}`,
+        ),
+      ).rejects.toThrow('IDRT does not support EIP-2612 permit');
+    });
+  });
+});
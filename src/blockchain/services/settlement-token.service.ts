@@ -0,0 +1,345 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import {
+  ContractTarget,
+  StomaTradeContractService,
+} from './stomatrade-contract.service';
+import { PlatformWalletService } from './platform-wallet.service';
+import {
+  TransactionResult,
+  TransactionService,
+  UnsignedTransaction,
+} from './transaction.service';
+import { parseCaip2ChainId } from './ethers-provider.service';
+
+// ERC-20 with the optional EIP-2612 permit extension
+export const ERC20_PERMIT_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function version() view returns (string)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 value) returns (bool)',
+  'function nonces(address owner) view returns (uint256)',
+  'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+];
+
+export const PERMIT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+/**
+ * ERC-20 a deployment's investments are paid in
+ */
+export interface SettlementToken {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  /** CAIP-2 chain the token lives on */
+  chainId: string;
+  /** StomaTrade contract that pulls the tokens and needs the allowance */
+  spender: string;
+}
+
+/**
+ * Balance and allowance of a wallet against an amount, all in token units
+ */
+export interface TokenFunding {
+  owner: string;
+  required: bigint;
+  balance: bigint;
+  allowance: bigint;
+  hasBalance: boolean;
+  hasAllowance: boolean;
+}
+
+/**
+ * EIP-2612 Permit as handed to wallets (eth_signTypedData_v4), with integers
+ * as decimal strings so it survives JSON
+ */
+export interface PermitTypedData {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: string;
+  };
+  types: Record<string, ethers.TypedDataField[]>;
+  primaryType: 'Permit';
+  message: {
+    owner: string;
+    spender: string;
+    value: string;
+    nonce: string;
+    deadline: string;
+  };
+}
+
+/**
+ * Thrown when a permit signature does not come from the token owner
+ */
+export class InvalidPermitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPermitError';
+  }
+}
+
+type TokenMetadata = Pick<SettlementToken, 'name' | 'symbol' | 'decimals'>;
+
+/**
+ * ERC-20 settlement tokens configured per AppProject.
+ *
+ * Investors either approve the StomaTrade contract with a transaction from
+ * their own wallet, or sign an EIP-2612 permit that the platform wallet
+ * relays so the approval costs them no gas.
+ */
+@Injectable()
+export class SettlementTokenService {
+  private readonly logger = new Logger(SettlementTokenService.name);
+  // Keyed by "<chainId>:<token address>"
+  private contracts = new Map<string, ethers.Contract>();
+  private metadata = new Map<string, TokenMetadata>();
+
+  constructor(
+    private readonly contractService: StomaTradeContractService,
+    private readonly walletService: PlatformWalletService,
+    private readonly transactionService: TransactionService,
+  ) {}
+
+  /**
+   * Address of the token configured for the deployment, without any RPC
+   * call; null when investments on it are not paid in a token
+   */
+  async getTokenAddress(target?: ContractTarget): Promise<string | null> {
+    const deployment = await this.contractService.getDeployment(target);
+    return deployment.settlementTokenAddress;
+  }
+
+  /**
+   * Settlement token of the deployment with its on-chain metadata, or null
+   * when none is configured
+   */
+  async getToken(target?: ContractTarget): Promise<SettlementToken | null> {
+    const deployment = await this.contractService.getDeployment(target);
+
+    if (!deployment.settlementTokenAddress) {
+      return null;
+    }
+
+    const address = ethers.getAddress(deployment.settlementTokenAddress);
+    const key = `${deployment.chainId}:${address.toLowerCase()}`;
+
+    let metadata = this.metadata.get(key);
+    if (!metadata) {
+      const contract = await this.getTokenContract(address, deployment.chainId);
+      const [name, symbol, decimals] = await Promise.all([
+        this.call<string>(contract, 'name'),
+        this.call<string>(contract, 'symbol'),
+        this.call<bigint>(contract, 'decimals'),
+      ]);
+      metadata = { name, symbol, decimals: Number(decimals) };
+      this.metadata.set(key, metadata);
+    }
+
+    return {
+      address,
+      ...metadata,
+      chainId: deployment.chainId,
+      spender: ethers.getAddress(deployment.contractAddress),
+    };
+  }
+
+  async checkFunding(
+    token: SettlementToken,
+    owner: string,
+    required: bigint,
+  ): Promise<TokenFunding> {
+    const contract = await this.getTokenContract(token.address, token.chainId);
+
+    const [balance, allowance] = await Promise.all([
+      this.call<bigint>(contract, 'balanceOf', [owner]),
+      this.call<bigint>(contract, 'allowance', [owner, token.spender]),
+    ]);
+
+    return {
+      owner,
+      required,
+      balance,
+      allowance,
+      hasBalance: balance >= required,
+      hasAllowance: allowance >= required,
+    };
+  }
+
+  /**
+   * Unsigned approve() of the StomaTrade contract for the owner's wallet
+   */
+  async buildApproveTransaction(
+    token: SettlementToken,
+    owner: string,
+    value: bigint,
+  ): Promise<UnsignedTransaction> {
+    const contract = await this.getTokenContract(token.address, token.chainId);
+
+    return await this.transactionService.buildUnsignedTransaction(
+      contract,
+      'approve',
+      [token.spender, value],
+      owner,
+      token.chainId,
+    );
+  }
+
+  /**
+   * EIP-2612 Permit granting the StomaTrade contract an allowance, or null
+   * when the token does not implement permit
+   */
+  async buildPermitTypedData(
+    token: SettlementToken,
+    owner: string,
+    value: bigint,
+    deadline: number,
+  ): Promise<PermitTypedData | null> {
+    const contract = await this.getTokenContract(token.address, token.chainId);
+
+    // Probed directly: a missing nonces() is expected, not a failed call
+    let nonce: bigint;
+    try {
+      nonce = (await contract.nonces(owner)) as bigint;
+    } catch {
+      this.logger.debug(`${token.symbol} (${token.address}) has no permit`);
+      return null;
+    }
+
+    return {
+      domain: await this.getPermitDomain(token, contract),
+      types: PERMIT_TYPES,
+      primaryType: 'Permit',
+      message: {
+        owner: ethers.getAddress(owner),
+        spender: token.spender,
+        value: value.toString(),
+        nonce: nonce.toString(),
+        deadline: deadline.toString(),
+      },
+    };
+  }
+
+  /**
+   * Submit the owner's permit signature with the platform wallet. The
+   * signature is checked against the owner first so a bad one costs no gas.
+   */
+  async relayPermit(
+    token: SettlementToken,
+    owner: string,
+    value: bigint,
+    deadline: number,
+    signature: string,
+  ): Promise<TransactionResult> {
+    const typedData = await this.buildPermitTypedData(
+      token,
+      owner,
+      value,
+      deadline,
+    );
+
+    if (!typedData) {
+      throw new InvalidPermitError(
+        `${token.symbol} does not support EIP-2612 permit`,
+      );
+    }
+
+    let signer: string;
+    try {
+      signer = ethers.verifyTypedData(
+        typedData.domain,
+        PERMIT_TYPES,
+        typedData.message,
+        signature,
+      );
+    } catch (error) {
+      throw new InvalidPermitError(
+        `Invalid permit signature: ${(error as Error).message}`,
+      );
+    }
+
+    if (signer.toLowerCase() !== owner.toLowerCase()) {
+      throw new InvalidPermitError('Permit was not signed by the token owner');
+    }
+
+    const { v, r, s } = ethers.Signature.from(signature);
+    const contract = await this.getTokenContract(token.address, token.chainId);
+
+    this.logger.log(
+      `Relaying ${token.symbol} permit of ${owner} for ${token.spender}`,
+    );
+
+    return await this.transactionService.executeContractMethod(
+      contract,
+      'permit',
+      [owner, token.spender, value, deadline, v, r, s],
+      { transactionType: 'TOKEN_PERMIT', chainId: token.chainId },
+    );
+  }
+
+  /**
+   * Tokens without version() (OpenZeppelin before ERC20Permit exposed it)
+   * sign with version "1"
+   */
+  private async getPermitDomain(
+    token: SettlementToken,
+    contract: ethers.Contract,
+  ): Promise<PermitTypedData['domain']> {
+    let version = '1';
+    try {
+      version = (await contract.version()) as string;
+    } catch {
+      // Default version
+    }
+
+    return {
+      name: token.name,
+      version,
+      chainId: parseCaip2ChainId(token.chainId),
+      verifyingContract: token.address,
+    };
+  }
+
+  private async getTokenContract(
+    address: string,
+    chainId: string,
+  ): Promise<ethers.Contract> {
+    const key = `${chainId}:${address.toLowerCase()}`;
+    const cached = this.contracts.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const wallet = await this.walletService.getWalletForChain(chainId);
+    const contract = new ethers.Contract(address, ERC20_PERMIT_ABI, wallet);
+    this.contracts.set(key, contract);
+
+    return contract;
+  }
+
+  private async call<T>(
+    contract: ethers.Contract,
+    methodName: string,
+    args: unknown[] = [],
+  ): Promise<T> {
+    return (await this.transactionService.callContractMethod(
+      contract,
+      methodName,
+      args,
+    )) as T;
+  }
+}
@@ -3,8 +3,34 @@ import { ConfigService } from '@nestjs/config';
 import { ethers } from 'ethers';
 import { EthersProviderService } from './ethers-provider.service';
 import { PlatformWalletService } from './platform-wallet.service';
-import { TransactionService, TransactionResult } from './transaction.service';
+import {
+  TransactionService,
+  TransactionResult,
+  UnsignedTransaction,
+  ExpectedContractCall,
+} from './transaction.service';
+import {
+  AbiVersion,
+  ContractAbiService,
+  abiEventName,
+} from './contract-abi.service';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { AppProject, BlockchainTransaction } from '@prisma/client';
+
+/**
+ * Deployment a project lives on, as copied onto Project at mint time.
+ * Missing fields fall back to the default AppProject.
+ */
+export interface ContractTarget {
+  chainId?: string | null;
+  contractAddress?: string | null;
+}
+
+export interface ResolvedContract {
+  contract: ethers.Contract;
+  chainId: string;
+  abiVersion: AbiVersion;
+}
 
 // Based on smart contract `projects` mapping
 export interface ProjectData {
@@ -55,54 +81,145 @@ export class StomaTradeContractService implements OnModuleInit {
   private readonly logger = new Logger(StomaTradeContractService.name);
   private contract: ethers.Contract;
   private stomatradeAddress: string;
-  private stomatradeAbi: any;
+  private abiVersion: AbiVersion;
+  private appProject: AppProject;
+  // Contracts of non-default deployments, keyed by "<chainId>:<address>"
+  private deployments = new Map<string, ResolvedContract>();
 
   constructor(
     private readonly configService: ConfigService,
     private readonly providerService: EthersProviderService,
     private readonly walletService: PlatformWalletService,
     private readonly transactionService: TransactionService,
-    private readonly prisma: PrismaService
+    private readonly prisma: PrismaService,
+    private readonly contractAbiService: ContractAbiService,
   ) {}
 
   async onModuleInit() {
+    await this.initialize();
+  }
+
+  /**
+   * Switch provider, wallet and contract to the current default AppProject
+   * without restarting the process
+   */
+  async reload(): Promise<void> {
+    await this.providerService.reload();
+    await this.walletService.reload();
+    await this.initialize();
+  }
+
+  private async initialize() {
     const project = await this.prisma.appProject.findFirst({
       where: {
-        name: 'StomaTrade',
+        isDefault: true,
         deleted: false,
       },
     });
 
     if (!project) {
       throw new Error(
-        'Active StomaTrade AppProject configuration not found in database. Please ensure AppProject is configured and not deleted.',
+        'Default AppProject configuration not found in database. Please ensure one AppProject is marked as default and not deleted.',
       );
     }
 
     if (!project.contractAddress) {
       throw new Error(
-        'Contract address not found in StomaTrade AppProject configuration',
+        `Contract address not found in AppProject ${project.name} configuration`,
       );
     }
-    this.stomatradeAddress = project.contractAddress;
 
     if (!project.abi) {
-      throw new Error('ABI not found in StomaTrade AppProject configuration');
+      throw new Error(`ABI not found in AppProject ${project.name} configuration`);
     }
-    this.stomatradeAbi = JSON.parse(project.abi.replace(/\\"/g, '"'));
 
     // Wait for wallet service to initialize first
     await this.walletService.waitForInit();
 
     const wallet = this.walletService.getWallet();
+    this.abiVersion = await this.contractAbiService.getCurrentVersion(project);
+    this.stomatradeAddress = project.contractAddress;
+    this.appProject = project;
+    this.deployments.clear();
     this.contract = new ethers.Contract(
       this.stomatradeAddress,
-      this.stomatradeAbi,
+      this.abiVersion.abi,
+      wallet,
+    );
+
+    this.logger.log(
+      `StomaTrade contract initialized at: ${this.stomatradeAddress} (${project.chainId}, ABI v${this.abiVersion.version})`,
+    );
+  }
+
+  /**
+   * Contract of the deployment a project lives on, connected to the platform
+   * wallet on that chain
+   */
+  async resolveContract(target?: ContractTarget): Promise<ResolvedContract> {
+    const defaultChainId = this.getAppProject().chainId;
+    const chainId = target?.chainId || defaultChainId;
+    const address = target?.contractAddress || this.stomatradeAddress;
+
+    if (
+      chainId === defaultChainId &&
+      address.toLowerCase() === this.stomatradeAddress.toLowerCase()
+    ) {
+      return {
+        contract: this.getContract(),
+        chainId,
+        abiVersion: this.getAbiVersion(),
+      };
+    }
+
+    const key = `${chainId}:${address.toLowerCase()}`;
+    const cached = this.deployments.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const deployment = await this.prisma.appProject.findFirst({
+      where: {
+        chainId,
+        contractAddress: { equals: address, mode: 'insensitive' },
+        deleted: false,
+      },
+    });
+
+    if (!deployment) {
+      throw new Error(
+        `No AppProject configured for contract ${address} on chain ${chainId}`,
+      );
+    }
+
+    const wallet = await this.walletService.getWalletForChain(chainId);
+    const abiVersion =
+      await this.contractAbiService.getCurrentVersion(deployment);
+    const contract = new ethers.Contract(
+      deployment.contractAddress,
+      abiVersion.abi,
       wallet,
     );
+    const resolved = { contract, chainId, abiVersion };
+    this.deployments.set(key, resolved);
 
     this.logger.log(
-      `StomaTrade contract initialized at: ${this.stomatradeAddress}`,
+      `StomaTrade contract resolved at: ${deployment.contractAddress} (${chainId}, ABI v${abiVersion.version})`,
+    );
+
+    return resolved;
+  }
+
+  /**
+   * Drop the cached contract of a non-default deployment so its next use
+   * picks up a changed address or ABI version
+   */
+  forgetDeployment(target: ContractTarget): void {
+    if (!target.chainId || !target.contractAddress) {
+      return;
+    }
+    this.deployments.delete(
+      `${target.chainId}:${target.contractAddress.toLowerCase()}`,
     );
   }
 
@@ -113,10 +230,112 @@ export class StomaTradeContractService implements OnModuleInit {
     return this.contract;
   }
 
+  /**
+   * ABI version the default contract is called with
+   */
+  getAbiVersion(): AbiVersion {
+    if (!this.abiVersion) {
+      throw new Error('Contract not initialized');
+    }
+    return this.abiVersion;
+  }
+
+  /**
+   * Name a synced event (e.g. FarmerAdded) has in the default contract's ABI
+   */
+  getEventName(eventName: string): string {
+    return abiEventName(this.getAbiVersion(), eventName);
+  }
+
   getstomatradeAddress(): string {
     return this.stomatradeAddress;
   }
 
+  /**
+   * Default deployment; new projects and farmers are minted here
+   */
+  getAppProject(): AppProject {
+    if (!this.appProject) {
+      throw new Error('Contract not initialized');
+    }
+    return this.appProject;
+  }
+
+  /**
+   * AppProject a project lives on; the default deployment when the target
+   * names no other one
+   */
+  async getDeployment(target?: ContractTarget): Promise<AppProject> {
+    const defaultProject = this.getAppProject();
+    const chainId = target?.chainId || defaultProject.chainId;
+    const address = target?.contractAddress || defaultProject.contractAddress;
+
+    if (
+      chainId === defaultProject.chainId &&
+      address.toLowerCase() === defaultProject.contractAddress.toLowerCase()
+    ) {
+      return defaultProject;
+    }
+
+    const deployment = await this.prisma.appProject.findFirst({
+      where: {
+        chainId,
+        contractAddress: { equals: address, mode: 'insensitive' },
+        deleted: false,
+      },
+    });
+
+    if (!deployment) {
+      throw new Error(
+        `No AppProject configured for contract ${address} on chain ${chainId}`,
+      );
+    }
+
+    return deployment;
+  }
+
+  /**
+   * Deployments whose events are synced: the default one and every other
+   * deployment minted projects still live on
+   */
+  async getSyncedDeployments(): Promise<AppProject[]> {
+    const defaultProject = this.getAppProject();
+    const deployments = await this.prisma.appProject.findMany({
+      where: { deleted: false, NOT: { id: defaultProject.id } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (deployments.length === 0) {
+      return [defaultProject];
+    }
+
+    const targets = await this.prisma.project.findMany({
+      where: {
+        tokenId: { not: null },
+        deleted: false,
+        chainId: { not: null },
+        contractAddress: { not: null },
+      },
+      select: { chainId: true, contractAddress: true },
+      distinct: ['chainId', 'contractAddress'],
+    });
+    const targetKeys = new Set(
+      targets.map(
+        (target) =>
+          `${target.chainId}:${target.contractAddress?.toLowerCase()}`,
+      ),
+    );
+
+    return [
+      defaultProject,
+      ...deployments.filter((deployment) =>
+        targetKeys.has(
+          `${deployment.chainId}:${deployment.contractAddress.toLowerCase()}`,
+        ),
+      ),
+    ];
+  }
+
   /**
    * Encode raw calldata for a contract function using the loaded ABI.
    * Useful for frontends that need hex data without sending a transaction.
@@ -193,6 +412,66 @@ export class StomaTradeContractService implements OnModuleInit {
     return '';
   }
 
+  // ============ DRY RUNS ============
+  // Every write below is also dry-run by TransactionService before it is
+  // signed; these let callers check a call before writing any database rows.
+  // A revert is thrown as ContractRevertError with its decoded reason.
+
+  async simulateCreateProject(
+    cid: string,
+    valueProject: bigint,
+    maxInvested: bigint,
+    totalKilos: bigint,
+    profitPerKillos: bigint,
+    sharedProfit: bigint,
+  ): Promise<void> {
+    const { contract } = await this.resolveContract();
+
+    await this.transactionService.simulateContractMethod(
+      contract,
+      'createProject',
+      [
+        cid,
+        valueProject,
+        maxInvested,
+        totalKilos,
+        profitPerKillos,
+        sharedProfit,
+      ],
+    );
+  }
+
+  async simulateAddFarmer(
+    cid: string,
+    idCollector: string,
+    name: string,
+    age: bigint,
+    domicile: string,
+  ): Promise<void> {
+    const { contract } = await this.resolveContract();
+
+    await this.transactionService.simulateContractMethod(
+      contract,
+      'addFarmer',
+      [cid, idCollector, name, age, domicile],
+    );
+  }
+
+  async simulateInvest(
+    cid: string,
+    projectId: bigint,
+    amount: bigint,
+    target?: ContractTarget,
+  ): Promise<void> {
+    const { contract } = await this.resolveContract(target);
+
+    await this.transactionService.simulateContractMethod(contract, 'invest', [
+      cid,
+      projectId,
+      amount,
+    ]);
+  }
+
   // ============ WRITE FUNCTIONS ============
 
   /**
@@ -208,10 +487,13 @@ export class StomaTradeContractService implements OnModuleInit {
   ): Promise<TransactionResult> {
     this.logger.log('Creating project on blockchain');
 
+    const { contract, chainId } = await this.resolveContract();
+
     return await this.transactionService.executeContractMethod(
-      this.contract,
+      contract,
       'createProject',
       [cid, valueProject, maxInvested, totalKilos, profitPerKillos, sharedProfit],
+      { transactionType: 'CREATE_PROJECT', chainId },
     );
   }
 
@@ -227,10 +509,13 @@ export class StomaTradeContractService implements OnModuleInit {
   ): Promise<TransactionResult> {
     this.logger.log(`Adding Farmer NFT: ${name}`);
 
+    const { contract, chainId } = await this.resolveContract();
+
     return await this.transactionService.executeContractMethod(
-      this.contract,
+      contract,
       'addFarmer',
       [cid, idCollector, name, age, domicile],
+      { transactionType: 'MINT_FARMER_NFT', chainId },
     );
   }
 
@@ -242,13 +527,17 @@ export class StomaTradeContractService implements OnModuleInit {
     cid: string,
     projectId: bigint,
     amount: bigint,
+    target?: ContractTarget,
   ): Promise<TransactionResult> {
     this.logger.log(`Investing ${amount} in project ${projectId}`);
 
+    const { contract, chainId } = await this.resolveContract(target);
+
     return await this.transactionService.executeContractMethod(
-      this.contract,
+      contract,
       'invest',
       [cid, projectId, amount],
+      { transactionType: 'INVEST', chainId },
     );
   }
 
@@ -257,13 +546,19 @@ export class StomaTradeContractService implements OnModuleInit {
    * This was previously called "depositProfit" but actual contract function is "withdrawProject"
    * The owner calls this after project is finished to withdraw the raised funds
    */
-  async withdrawProject(projectId: bigint): Promise<TransactionResult> {
+  async withdrawProject(
+    projectId: bigint,
+    target?: ContractTarget,
+  ): Promise<TransactionResult> {
     this.logger.log(`Withdrawing project ${projectId} funds`);
 
+    const { contract, chainId } = await this.resolveContract(target);
+
     return await this.transactionService.executeContractMethod(
-      this.contract,
+      contract,
       'withdrawProject',
       [projectId],
+      { transactionType: 'WITHDRAW_PROJECT', chainId },
     );
   }
 
@@ -272,13 +567,19 @@ export class StomaTradeContractService implements OnModuleInit {
    * Contract function is "claimWithdraw", not "claimProfit"
    * Note: This should be called by the investor's wallet, not the platform wallet
    */
-  async claimWithdraw(projectId: bigint): Promise<TransactionResult> {
+  async claimWithdraw(
+    projectId: bigint,
+    target?: ContractTarget,
+  ): Promise<TransactionResult> {
     this.logger.log(`Claiming withdraw for project ${projectId}`);
 
+    const { contract, chainId } = await this.resolveContract(target);
+
     return await this.transactionService.executeContractMethod(
-      this.contract,
+      contract,
       'claimWithdraw',
       [projectId],
+      { transactionType: 'CLAIM_PROFIT', chainId },
     );
   }
 
@@ -286,13 +587,19 @@ export class StomaTradeContractService implements OnModuleInit {
    * UPDATED: Admin marks project as refundable
    * Contract function is "refundProject", not "refundable"
    */
-  async refundProject(projectId: bigint): Promise<TransactionResult> {
+  async refundProject(
+    projectId: bigint,
+    target?: ContractTarget,
+  ): Promise<TransactionResult> {
     this.logger.log(`Marking project ${projectId} for refund`);
 
+    const { contract, chainId } = await this.resolveContract(target);
+
     return await this.transactionService.executeContractMethod(
-      this.contract,
+      contract,
       'refundProject',
       [projectId],
+      { transactionType: 'REFUND', chainId },
     );
   }
 
@@ -300,13 +607,19 @@ export class StomaTradeContractService implements OnModuleInit {
    * Investor claims refund from a project
    * Note: This should be called by the investor's wallet, not the platform wallet
    */
-  async claimRefund(projectId: bigint): Promise<TransactionResult> {
+  async claimRefund(
+    projectId: bigint,
+    target?: ContractTarget,
+  ): Promise<TransactionResult> {
     this.logger.log(`Claiming refund for project ${projectId}`);
 
+    const { contract, chainId } = await this.resolveContract(target);
+
     return await this.transactionService.executeContractMethod(
-      this.contract,
+      contract,
       'claimRefund',
       [projectId],
+      { transactionType: 'REFUND', chainId },
     );
   }
 
@@ -314,13 +627,19 @@ export class StomaTradeContractService implements OnModuleInit {
    * UPDATED: Close/finish project
    * Contract function is "closeProject", not "closeCrowdFunding"
    */
-  async closeProject(projectId: bigint): Promise<TransactionResult> {
+  async closeProject(
+    projectId: bigint,
+    target?: ContractTarget,
+  ): Promise<TransactionResult> {
     this.logger.log(`Closing project ${projectId}`);
 
+    const { contract, chainId } = await this.resolveContract(target);
+
     return await this.transactionService.executeContractMethod(
-      this.contract,
+      contract,
       'closeProject',
       [projectId],
+      { transactionType: 'CLOSE_CROWDFUNDING', chainId },
     );
   }
 
@@ -328,13 +647,19 @@ export class StomaTradeContractService implements OnModuleInit {
    * NEW: Finish project (marks project as completed)
    * This is a separate action from closing crowdfunding
    */
-  async finishProject(projectId: bigint): Promise<TransactionResult> {
+  async finishProject(
+    projectId: bigint,
+    target?: ContractTarget,
+  ): Promise<TransactionResult> {
     this.logger.log(`Finishing project ${projectId}`);
 
+    const { contract, chainId } = await this.resolveContract(target);
+
     return await this.transactionService.executeContractMethod(
-      this.contract,
+      contract,
       'finishProject',
       [projectId],
+      { transactionType: 'FINISH_PROJECT', chainId },
     );
   }
 
@@ -344,11 +669,16 @@ export class StomaTradeContractService implements OnModuleInit {
    * UPDATED: Get project data using projects mapping
    * Contract uses mapping, not a getter function
    */
-  async getProject(projectId: bigint): Promise<ProjectData> {
+  async getProject(
+    projectId: bigint,
+    target?: ContractTarget,
+  ): Promise<ProjectData> {
     this.logger.log(`Getting project ${projectId} data`);
 
+    const { contract } = await this.resolveContract(target);
+
     const result = await this.transactionService.callContractMethod(
-      this.contract,
+      contract,
       'projects',
       [projectId],
     );
@@ -373,11 +703,14 @@ export class StomaTradeContractService implements OnModuleInit {
   async getContribution(
     projectId: bigint,
     investor: string,
+    target?: ContractTarget,
   ): Promise<ContributionData> {
     this.logger.log(`Getting contribution for project ${projectId} from ${investor}`);
 
+    const { contract } = await this.resolveContract(target);
+
     const result = await this.transactionService.callContractMethod(
-      this.contract,
+      contract,
       'contribution',
       [projectId, investor],
     );
@@ -396,11 +729,16 @@ export class StomaTradeContractService implements OnModuleInit {
    * NEW: Get admin required deposit for project completion
    * Returns total principal, investor profit, and total required
    */
-  async getAdminRequiredDeposit(projectId: bigint): Promise<AdminRequiredDeposit> {
+  async getAdminRequiredDeposit(
+    projectId: bigint,
+    target?: ContractTarget,
+  ): Promise<AdminRequiredDeposit> {
     this.logger.log(`Getting admin required deposit for project ${projectId}`);
 
+    const { contract } = await this.resolveContract(target);
+
     const result = await this.transactionService.callContractMethod(
-      this.contract,
+      contract,
       'getAdminRequiredDeposit',
       [projectId],
     );
@@ -419,11 +757,14 @@ export class StomaTradeContractService implements OnModuleInit {
   async getInvestorReturn(
     projectId: bigint,
     investor: string,
+    target?: ContractTarget,
   ): Promise<InvestorReturn> {
     this.logger.log(`Getting investor return for project ${projectId} investor ${investor}`);
 
+    const { contract } = await this.resolveContract(target);
+
     const result = await this.transactionService.callContractMethod(
-      this.contract,
+      contract,
       'getInvestorReturn',
       [projectId, investor],
     );
@@ -439,11 +780,16 @@ export class StomaTradeContractService implements OnModuleInit {
    * NEW: Get project profit breakdown
    * Returns gross profit, investor profit pool, and platform profit
    */
-  async getProjectProfitBreakdown(projectId: bigint): Promise<ProjectProfitBreakdown> {
+  async getProjectProfitBreakdown(
+    projectId: bigint,
+    target?: ContractTarget,
+  ): Promise<ProjectProfitBreakdown> {
     this.logger.log(`Getting profit breakdown for project ${projectId}`);
 
+    const { contract } = await this.resolveContract(target);
+
     const result = await this.transactionService.callContractMethod(
-      this.contract,
+      contract,
       'getProjectProfitBreakdown',
       [projectId],
     );
@@ -458,16 +804,116 @@ export class StomaTradeContractService implements OnModuleInit {
   /**
    * Get token URI for an NFT
    */
-  async getTokenURI(tokenId: bigint): Promise<string> {
+  async getTokenURI(
+    tokenId: bigint,
+    target?: ContractTarget,
+  ): Promise<string> {
     this.logger.log(`Getting token URI for token ${tokenId}`);
 
+    const { contract } = await this.resolveContract(target);
+
     return await this.transactionService.callContractMethod(
-      this.contract,
+      contract,
       'tokenURI',
       [tokenId],
     );
   }
 
+  async getTokenOwner(
+    tokenId: bigint,
+    target?: ContractTarget,
+  ): Promise<string> {
+    const { contract } = await this.resolveContract(target);
+
+    return await this.transactionService.callContractMethod(
+      contract,
+      'ownerOf',
+      [tokenId],
+    );
+  }
+
+  // ============ INVESTOR-SIGNED TRANSACTIONS ============
+  // Payloads for the investor's own wallet to sign, instead of the platform signer
+
+  /**
+   * Unsigned invest() call from the investor's wallet
+   */
+  async buildInvestTransaction(
+    cid: string,
+    projectId: bigint,
+    amount: bigint,
+    from: string,
+    target?: ContractTarget,
+  ): Promise<UnsignedTransaction> {
+    const { contract, chainId } = await this.resolveContract(target);
+
+    return await this.transactionService.buildUnsignedTransaction(
+      contract,
+      'invest',
+      [cid, projectId, amount],
+      from,
+      chainId,
+    );
+  }
+
+  /**
+   * Unsigned claimWithdraw() call from the investor's wallet
+   */
+  async buildClaimWithdrawTransaction(
+    projectId: bigint,
+    from: string,
+    target?: ContractTarget,
+  ): Promise<UnsignedTransaction> {
+    const { contract, chainId } = await this.resolveContract(target);
+
+    return await this.transactionService.buildUnsignedTransaction(
+      contract,
+      'claimWithdraw',
+      [projectId],
+      from,
+      chainId,
+    );
+  }
+
+  /**
+   * Unsigned claimRefund() call from the investor's wallet
+   */
+  async buildClaimRefundTransaction(
+    projectId: bigint,
+    from: string,
+    target?: ContractTarget,
+  ): Promise<UnsignedTransaction> {
+    const { contract, chainId } = await this.resolveContract(target);
+
+    return await this.transactionService.buildUnsignedTransaction(
+      contract,
+      'claimRefund',
+      [projectId],
+      from,
+      chainId,
+    );
+  }
+
+  /**
+   * Verify and record a transaction the investor broadcast from their wallet
+   */
+  async registerSignedTransaction(
+    transactionHash: string,
+    from: string,
+    expected: ExpectedContractCall,
+    target?: ContractTarget,
+  ): Promise<BlockchainTransaction> {
+    const { contract, chainId } = await this.resolveContract(target);
+
+    return await this.transactionService.registerSignedTransaction(
+      contract,
+      transactionHash,
+      from,
+      chainId,
+      expected,
+    );
+  }
+
   // ============ BACKWARD COMPATIBILITY METHODS ============
   // These methods maintain backward compatibility with existing services
 
@@ -559,6 +1005,7 @@ export class StomaTradeContractService implements OnModuleInit {
     eventName: string,
   ): ethers.EventLog | null {
     const parsedLogs = this.parseEventLogs(receipt);
+    const abiName = this.getEventName(eventName);
 
     for (const log of parsedLogs) {
       const parsed = this.contract.interface.parseLog({
@@ -566,11 +1013,47 @@ export class StomaTradeContractService implements OnModuleInit {
         data: log.data,
       });
 
-      if (parsed && parsed.name === eventName) {
+      if (parsed && parsed.name === abiName) {
         return log;
       }
     }
 
     return null;
   }
+
+  /**
+   * Decode a synced event (e.g. Invested) emitted by the project's contract
+   * in a receipt, with the ABI version of that contract so projects left on
+   * a previous deployment keep working after an upgrade
+   */
+  async parseEventFromReceipt(
+    receipt: ethers.TransactionReceipt,
+    eventName: string,
+    target?: ContractTarget,
+  ): Promise<ethers.LogDescription | null> {
+    const { contract, abiVersion } = await this.resolveContract(target);
+    const address = (await contract.getAddress()).toLowerCase();
+    const abiName = abiEventName(abiVersion, eventName);
+
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== address) {
+        continue;
+      }
+
+      try {
+        const parsed = contract.interface.parseLog({
+          topics: [...log.topics],
+          data: log.data,
+        });
+
+        if (parsed && parsed.name === abiName) {
+          return parsed;
+        }
+      } catch {
+        // Not an event of this ABI version
+      }
+    }
+
+    return null;
+  }
 }
@@ -0,0 +1,175 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SyncCheckpointService } from './sync-checkpoint.service';
+import { StomaTradeContractService } from './stomatrade-contract.service';
+import { EthersProviderService } from './ethers-provider.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+import {
+  mockEthersProviderService,
+  mockStomaTradeContractService,
+} from '../../test/mocks/blockchain.mock';
+
+describe('SyncCheckpointService', () => {
+  let service: SyncCheckpointService;
+  let prisma: typeof mockPrismaService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SyncCheckpointService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: StomaTradeContractService,
+          useValue: mockStomaTradeContractService,
+        },
+        {
+          provide: EthersProviderService,
+          useValue: mockEthersProviderService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SyncCheckpointService>(SyncCheckpointService);
+    prisma = mockPrismaService;
+
+    mockEthersProviderService.getProviderForChain.mockResolvedValue({
+      getBlock: mockEthersProviderService.getBlock,
+    });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getLastSyncedBlock', () => {
+    it('should return the lowest checkpoint across event types', async () => {
+      prisma.syncCheckpoint.findMany.mockResolvedValue(
+        [
+          'ProjectCreated',
+          'FarmerAdded',
+          'FarmerMinted',
+          'Invested',
+          'ProfitDeposited',
+          'ProfitClaimed',
+          'Refunded',
+          'Transfer',
+        ].map((eventType, i) => ({
+          eventType,
+          lastSyncedBlock: 1000 + i,
+          updatedAt: new Date(),
+        })),
+      );
+
+      const result = await service.getLastSyncedBlock();
+
+      expect(result).toBe(1000);
+      expect(prisma.syncCheckpoint.findMany).toHaveBeenCalledWith({
+        where: { contractAddress: '0xcontractaddress', deleted: false },
+      });
+    });
+
+    it('should return null while any event type was never synced', async () => {
+      prisma.syncCheckpoint.findMany.mockResolvedValue([
+        { eventType: 'Invested', lastSyncedBlock: 1000, updatedAt: new Date() },
+      ]);
+
+      const result = await service.getLastSyncedBlock();
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('advanceCheckpoint', () => {
+    it('should advance when the synced range is contiguous', async () => {
+      prisma.syncCheckpoint.findUnique.mockResolvedValue({
+        lastSyncedBlock: 999,
+      });
+      mockEthersProviderService.getBlock.mockResolvedValue({
+        hash: '0xBlock1999',
+      });
+
+      await service.advanceCheckpoint('Invested', 1000, 1999);
+
+      expect(prisma.syncCheckpoint.upsert).toHaveBeenCalledWith({
+        where: {
+          contractAddress_eventType: {
+            contractAddress: '0xcontractaddress',
+            eventType: 'Invested',
+          },
+        },
+        update: { lastSyncedBlock: 1999, lastSyncedBlockHash: '0xBlock1999' },
+        create: {
+          contractAddress: '0xcontractaddress',
+          eventType: 'Invested',
+          lastSyncedBlock: 1999,
+          lastSyncedBlockHash: '0xBlock1999',
+        },
+      });
+    });
+
+    it('should not advance across a gap', async () => {
+      prisma.syncCheckpoint.findUnique.mockResolvedValue({
+        lastSyncedBlock: 500,
+      });
+
+      await service.advanceCheckpoint('Invested', 1000, 1999);
+
+      expect(prisma.syncCheckpoint.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should never move the checkpoint backwards', async () => {
+      prisma.syncCheckpoint.findUnique.mockResolvedValue({
+        lastSyncedBlock: 5000,
+      });
+
+      await service.advanceCheckpoint('Invested', 1000, 1999);
+
+      expect(prisma.syncCheckpoint.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should create the first checkpoint', async () => {
+      prisma.syncCheckpoint.findUnique.mockResolvedValue(null);
+
+      await service.advanceCheckpoint('Invested', 1000, 1999);
+
+      expect(prisma.syncCheckpoint.upsert).toHaveBeenCalled();
+    });
+
+    it('should keep the checkpoints of another deployment on its own chain', async () => {
+      const lisk = { chainId: 'eip155:4202', contractAddress: '0xLisk' };
+      prisma.syncCheckpoint.findUnique.mockResolvedValue(null);
+      mockEthersProviderService.getBlock.mockResolvedValue({
+        hash: '0xLiskBlock1999',
+      });
+
+      await service.advanceCheckpoint('Invested', 1000, 1999, lisk);
+
+      expect(prisma.syncCheckpoint.findUnique).toHaveBeenCalledWith({
+        where: {
+          contractAddress_eventType: {
+            contractAddress: '0xlisk',
+            eventType: 'Invested',
+          },
+        },
+      });
+      expect(
+        mockEthersProviderService.getProviderForChain,
+      ).toHaveBeenCalledWith('eip155:4202');
+      expect(prisma.syncCheckpoint.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: {
+            contractAddress: '0xlisk',
+            eventType: 'Invested',
+            lastSyncedBlock: 1999,
+            lastSyncedBlockHash: '0xLiskBlock1999',
+          },
+        }),
+      );
+    });
+  });
+});
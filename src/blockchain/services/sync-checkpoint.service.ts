@@ -0,0 +1,153 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  ContractTarget,
+  StomaTradeContractService,
+} from './stomatrade-contract.service';
+import { EthersProviderService } from './ethers-provider.service';
+import { SYNCED_EVENT_TYPES } from './blockchain-event.service';
+
+export interface EventCheckpoint {
+  eventType: string;
+  lastSyncedBlock: number | null;
+  lastSyncedBlockHash: string | null;
+  updatedAt: Date | null;
+}
+
+/**
+ * Persists the last fully synced block per contract address and event type,
+ * so the cron job, historical sync and manual catch-up share one cursor that
+ * survives restarts and serverless cold starts.
+ *
+ * Every synced deployment has its own checkpoints; methods address the
+ * default deployment unless given another one.
+ */
+@Injectable()
+export class SyncCheckpointService {
+  private readonly logger = new Logger(SyncCheckpointService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly contractService: StomaTradeContractService,
+    private readonly providerService: EthersProviderService,
+  ) {}
+
+  getContractAddress(deployment?: ContractTarget): string {
+    return (
+      deployment?.contractAddress || this.contractService.getstomatradeAddress()
+    ).toLowerCase();
+  }
+
+  /**
+   * Get the last synced block for an event type, or null if never synced
+   */
+  async getCheckpoint(
+    eventType: string,
+    deployment?: ContractTarget,
+  ): Promise<number | null> {
+    const checkpoint = await this.prisma.syncCheckpoint.findUnique({
+      where: {
+        contractAddress_eventType: {
+          contractAddress: this.getContractAddress(deployment),
+          eventType,
+        },
+      },
+    });
+
+    return checkpoint ? checkpoint.lastSyncedBlock : null;
+  }
+
+  /**
+   * Get checkpoints for every synced event type
+   */
+  async getCheckpoints(
+    deployment?: ContractTarget,
+  ): Promise<EventCheckpoint[]> {
+    const checkpoints = await this.prisma.syncCheckpoint.findMany({
+      where: {
+        contractAddress: this.getContractAddress(deployment),
+        deleted: false,
+      },
+    });
+
+    return SYNCED_EVENT_TYPES.map((eventType) => {
+      const checkpoint = checkpoints.find((c) => c.eventType === eventType);
+      return {
+        eventType,
+        lastSyncedBlock: checkpoint ? checkpoint.lastSyncedBlock : null,
+        lastSyncedBlockHash: checkpoint ? checkpoint.lastSyncedBlockHash : null,
+        updatedAt: checkpoint ? checkpoint.updatedAt : null,
+      };
+    });
+  }
+
+  /**
+   * Lowest checkpoint across all event types, i.e. the block up to which
+   * every event type is known to be synced. Null if any type was never synced.
+   */
+  async getLastSyncedBlock(
+    deployment?: ContractTarget,
+  ): Promise<number | null> {
+    const checkpoints = await this.getCheckpoints(deployment);
+
+    if (checkpoints.some((c) => c.lastSyncedBlock === null)) {
+      return null;
+    }
+
+    return Math.min(...checkpoints.map((c) => c.lastSyncedBlock as number));
+  }
+
+  /**
+   * Store the checkpoint together with the block hash on the deployment's
+   * chain, which ChainReorgService compares against the canonical chain
+   */
+  async setCheckpoint(
+    eventType: string,
+    blockNumber: number,
+    deployment?: ContractTarget,
+  ): Promise<void> {
+    const contractAddress = this.getContractAddress(deployment);
+    const provider = await this.providerService.getProviderForChain(
+      deployment?.chainId,
+    );
+    const block = await provider.getBlock(blockNumber);
+    const lastSyncedBlockHash = block?.hash ?? null;
+
+    await this.prisma.syncCheckpoint.upsert({
+      where: {
+        contractAddress_eventType: { contractAddress, eventType },
+      },
+      update: { lastSyncedBlock: blockNumber, lastSyncedBlockHash },
+      create: {
+        contractAddress,
+        eventType,
+        lastSyncedBlock: blockNumber,
+        lastSyncedBlockHash,
+      },
+    });
+
+    this.logger.debug(
+      `Checkpoint for ${eventType} updated to block ${blockNumber}`,
+    );
+  }
+
+  /**
+   * Move the checkpoint forward after syncing [fromBlock, toBlock].
+   * The checkpoint only advances when the range is contiguous with it,
+   * so syncing an arbitrary historical range never leaves a gap behind.
+   */
+  async advanceCheckpoint(
+    eventType: string,
+    fromBlock: number,
+    toBlock: number,
+    deployment?: ContractTarget,
+  ): Promise<void> {
+    const current = await this.getCheckpoint(eventType, deployment);
+
+    if (current !== null && (current < fromBlock - 1 || current >= toBlock)) {
+      return;
+    }
+
+    await this.setCheckpoint(eventType, toBlock, deployment);
+  }
+}
@@ -0,0 +1,288 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { SYNC_JOB_STATUS } from '@prisma/client';
+import { SyncJobService } from './sync-job.service';
+import { HistoricalSyncService } from './historical-sync.service';
+import { EthersProviderService } from './ethers-provider.service';
+import { SyncCheckpointService } from './sync-checkpoint.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+describe('SyncJobService', () => {
+  let service: SyncJobService;
+  let prisma: typeof mockPrismaService;
+
+  const mockHistoricalSyncService = {
+    tryStartSync: jest.fn().mockReturnValue(true),
+    finishSync: jest.fn(),
+    processBatch: jest.fn().mockResolvedValue(2),
+  };
+
+  const mockProviderService = {
+    getBlockNumber: jest.fn().mockResolvedValue(12345678),
+  };
+
+  const mockSyncCheckpointService = {
+    getContractAddress: jest.fn().mockReturnValue('0xcontractaddress'),
+  };
+
+  const mockJob = {
+    id: 'job-uuid-1',
+    contractAddress: '0xcontractaddress',
+    fromBlock: 100,
+    toBlock: 349,
+    batchSize: 100,
+    nextBlock: 100,
+    eventsProcessed: 0,
+    errors: [] as string[],
+    status: SYNC_JOB_STATUS.PENDING,
+    requestedBy: 'admin-uuid-1',
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    startedAt: null,
+    finishedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    deleted: false,
+  };
+
+  const finalStatus = () =>
+    prisma.syncJob.updateMany.mock.calls
+      .map(([args]) => (args as { data: { status?: string } }).data.status)
+      .filter(Boolean)
+      .pop();
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SyncJobService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: HistoricalSyncService, useValue: mockHistoricalSyncService },
+        { provide: EthersProviderService, useValue: mockProviderService },
+        { provide: SyncCheckpointService, useValue: mockSyncCheckpointService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<SyncJobService>(SyncJobService);
+    prisma = mockPrismaService;
+
+    prisma.syncJob.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('createJob', () => {
+    it('should persist a job up to the chain head and start it', async () => {
+      const runJob = jest.spyOn(service, 'runJob').mockResolvedValue(true);
+      prisma.syncJob.findFirst.mockResolvedValue(null);
+      prisma.syncJob.create.mockResolvedValue({
+        ...mockJob,
+        toBlock: 12345678,
+      });
+
+      const result = await service.createJob(
+        { fromBlock: 100, toBlock: 'latest', batchSize: 100 },
+        'admin-uuid-1',
+      );
+
+      expect(prisma.syncJob.create).toHaveBeenCalledWith({
+        data: {
+          contractAddress: '0xcontractaddress',
+          fromBlock: 100,
+          toBlock: 12345678,
+          batchSize: 100,
+          nextBlock: 100,
+          requestedBy: 'admin-uuid-1',
+        },
+      });
+      expect(runJob).toHaveBeenCalledWith('job-uuid-1');
+      expect(result.progress).toEqual({
+        startBlock: 100,
+        endBlock: 12345678,
+        currentBlock: 100,
+        eventsProcessed: 0,
+        errors: [],
+        percent: 0,
+      });
+    });
+
+    it('should reject a job while another one is active', async () => {
+      prisma.syncJob.findFirst.mockResolvedValue({
+        ...mockJob,
+        status: SYNC_JOB_STATUS.RUNNING,
+      });
+
+      await expect(service.createJob({ fromBlock: 100 })).rejects.toThrow(
+        'Sync job job-uuid-1 is already running',
+      );
+      expect(prisma.syncJob.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a range ending before it starts', async () => {
+      prisma.syncJob.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.createJob({ fromBlock: 500, toBlock: 100 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('runJob', () => {
+    it('should resume from the last completed batch and complete', async () => {
+      prisma.syncJob.findFirst.mockResolvedValue({
+        ...mockJob,
+        status: SYNC_JOB_STATUS.RUNNING,
+        nextBlock: 200,
+        startedAt: new Date(),
+      });
+
+      const result = await service.runJob('job-uuid-1');
+
+      expect(result).toBe(true);
+      expect(mockHistoricalSyncService.processBatch.mock.calls).toEqual([
+        [200, 299],
+        [300, 349],
+      ]);
+      expect(prisma.syncJob.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          id: 'job-uuid-1',
+          status: SYNC_JOB_STATUS.RUNNING,
+        }),
+        data: expect.objectContaining({
+          nextBlock: 350,
+          eventsProcessed: { increment: 2 },
+        }),
+      });
+      expect(finalStatus()).toBe(SYNC_JOB_STATUS.COMPLETED);
+      expect(mockHistoricalSyncService.finishSync).toHaveBeenCalled();
+    });
+
+    it('should stop before the next batch once cancelled', async () => {
+      prisma.syncJob.findFirst.mockResolvedValue(mockJob);
+      prisma.syncJob.updateMany
+        .mockResolvedValueOnce({ count: 1 }) // claim
+        .mockResolvedValueOnce({ count: 1 }) // startedAt
+        .mockResolvedValueOnce({ count: 0 }); // progress after cancel
+
+      await service.runJob('job-uuid-1');
+
+      expect(mockHistoricalSyncService.processBatch).toHaveBeenCalledTimes(1);
+      expect(finalStatus()).toBe(SYNC_JOB_STATUS.RUNNING);
+    });
+
+    it('should record failed batches and mark the job failed', async () => {
+      prisma.syncJob.findFirst.mockResolvedValue({
+        ...mockJob,
+        nextBlock: 300,
+      });
+      mockHistoricalSyncService.processBatch.mockRejectedValueOnce(
+        new Error('RPC timeout'),
+      );
+
+      await service.runJob('job-uuid-1');
+
+      expect(prisma.syncJob.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            errors: { push: 'Error processing batch 300-349: RPC timeout' },
+          }),
+        }),
+      );
+      expect(finalStatus()).toBe(SYNC_JOB_STATUS.FAILED);
+    });
+
+    it('should only log when the job cannot be marked failed', async () => {
+      prisma.syncJob.findFirst.mockRejectedValueOnce(
+        new Error('connection lost'),
+      );
+      prisma.syncJob.updateMany
+        .mockResolvedValueOnce({ count: 1 }) // claim
+        .mockRejectedValueOnce(new Error('connection lost')); // failed status
+
+      await expect(service.runJob('job-uuid-1')).resolves.toBe(true);
+      expect(mockHistoricalSyncService.finishSync).toHaveBeenCalled();
+    });
+
+    it('should not run a job leased by another instance', async () => {
+      prisma.syncJob.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const result = await service.runJob('job-uuid-1');
+
+      expect(result).toBe(false);
+      expect(mockHistoricalSyncService.processBatch).not.toHaveBeenCalled();
+      expect(mockHistoricalSyncService.finishSync).toHaveBeenCalled();
+    });
+
+    it('should defer the job while another sync runs in this process', async () => {
+      mockHistoricalSyncService.tryStartSync.mockReturnValueOnce(false);
+
+      const result = await service.runJob('job-uuid-1');
+
+      expect(result).toBe(false);
+      expect(prisma.syncJob.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resumeJobs', () => {
+    it('should run every job without a live lease', async () => {
+      const runJob = jest.spyOn(service, 'runJob').mockResolvedValue(true);
+      prisma.syncJob.findMany.mockResolvedValue([
+        { ...mockJob, status: SYNC_JOB_STATUS.RUNNING },
+        { ...mockJob, id: 'job-uuid-2' },
+      ]);
+
+      const resumed = await service.resumeJobs();
+
+      expect(resumed).toBe(2);
+      expect(runJob).toHaveBeenCalledWith('job-uuid-1');
+      expect(runJob).toHaveBeenCalledWith('job-uuid-2');
+    });
+  });
+
+  describe('cancelJob', () => {
+    it('should cancel a running job', async () => {
+      prisma.syncJob.findFirst.mockResolvedValue({
+        ...mockJob,
+        status: SYNC_JOB_STATUS.RUNNING,
+      });
+      prisma.syncJob.update.mockResolvedValue({
+        ...mockJob,
+        status: SYNC_JOB_STATUS.CANCELLED,
+        nextBlock: 200,
+      });
+
+      const result = await service.cancelJob('job-uuid-1');
+
+      expect(prisma.syncJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-uuid-1' },
+        data: expect.objectContaining({
+          status: SYNC_JOB_STATUS.CANCELLED,
+          leaseOwner: null,
+        }),
+      });
+      expect(result.status).toBe(SYNC_JOB_STATUS.CANCELLED);
+      expect(result.progress.percent).toBe(40);
+    });
+
+    it('should not cancel a finished job', async () => {
+      prisma.syncJob.findFirst.mockResolvedValue({
+        ...mockJob,
+        status: SYNC_JOB_STATUS.COMPLETED,
+      });
+
+      await expect(service.cancelJob('job-uuid-1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should throw NotFoundException for an unknown job', async () => {
+      prisma.syncJob.findFirst.mockResolvedValue(null);
+
+      await expect(service.cancelJob('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
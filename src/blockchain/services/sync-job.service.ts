@@ -0,0 +1,374 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, SYNC_JOB_STATUS, SyncJob } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PaginatedResponseDto } from '../../common/dto/pagination.dto';
+import { EthersProviderService } from './ethers-provider.service';
+import { HistoricalSyncService, SyncProgress } from './historical-sync.service';
+import { SyncCheckpointService } from './sync-checkpoint.service';
+import { CreateSyncJobDto, SyncJobQueryDto } from '../dto/sync-job.dto';
+
+export interface SyncJobResponse {
+  id: string;
+  contractAddress: string;
+  status: SYNC_JOB_STATUS;
+  batchSize: number;
+  progress: SyncProgress & { percent: number };
+  requestedBy: string | null;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  createdAt: Date;
+}
+
+const ACTIVE_STATUSES: SYNC_JOB_STATUS[] = [
+  SYNC_JOB_STATUS.PENDING,
+  SYNC_JOB_STATUS.RUNNING,
+];
+
+/**
+ * Runs historical syncs as persisted jobs in the background.
+ *
+ * A job stores the next block to process, so whichever instance holds its
+ * lease continues batch by batch. Leases are renewed after every batch; if the
+ * process dies, the lease expires and resumeJobs() (run by the cron) picks
+ * the job up from its last completed batch. Cancelling only flips the status,
+ * the runner stops before its next batch.
+ */
+@Injectable()
+export class SyncJobService {
+  private readonly logger = new Logger(SyncJobService.name);
+  private readonly instanceId = randomUUID();
+  private readonly leaseMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly historicalSyncService: HistoricalSyncService,
+    private readonly providerService: EthersProviderService,
+    private readonly syncCheckpointService: SyncCheckpointService,
+    private readonly configService: ConfigService,
+  ) {
+    this.leaseMs =
+      Number(this.configService.get<number>('SYNC_JOB_LEASE_MS')) || 300000;
+  }
+
+  /**
+   * Persist a sync job for the block range and start it in the background
+   */
+  async createJob(
+    dto: CreateSyncJobDto,
+    requestedBy?: string,
+  ): Promise<SyncJobResponse> {
+    const contractAddress = this.syncCheckpointService.getContractAddress();
+
+    const activeJob = await this.prisma.syncJob.findFirst({
+      where: {
+        contractAddress,
+        status: { in: ACTIVE_STATUSES },
+        deleted: false,
+      },
+    });
+
+    if (activeJob) {
+      throw new BadRequestException(
+        `Sync job ${activeJob.id} is already ${activeJob.status.toLowerCase()}`,
+      );
+    }
+
+    const toBlock =
+      dto.toBlock === undefined || dto.toBlock === 'latest'
+        ? await this.providerService.getBlockNumber()
+        : Number(dto.toBlock);
+
+    if (!Number.isInteger(toBlock) || toBlock < dto.fromBlock) {
+      throw new BadRequestException(
+        'toBlock must be "latest" or a block number not before fromBlock',
+      );
+    }
+
+    const job = await this.prisma.syncJob.create({
+      data: {
+        contractAddress,
+        fromBlock: dto.fromBlock,
+        toBlock,
+        batchSize: dto.batchSize ?? 1000,
+        nextBlock: dto.fromBlock,
+        requestedBy: requestedBy ?? null,
+      },
+    });
+
+    this.logger.log(
+      `Created sync job ${job.id} for blocks ${job.fromBlock}-${job.toBlock}`,
+    );
+
+    void this.runJob(job.id);
+
+    return this.toResponse(job);
+  }
+
+  async listJobs(
+    query: SyncJobQueryDto,
+  ): Promise<PaginatedResponseDto<SyncJobResponse>> {
+    const { page = 1, limit = 10, status } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.SyncJobWhereInput = {
+      deleted: false,
+      ...(status && { status }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.syncJob.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.syncJob.count({ where }),
+    ]);
+
+    return new PaginatedResponseDto(
+      data.map((job) => this.toResponse(job)),
+      total,
+      page,
+      limit,
+    );
+  }
+
+  async getJob(id: string): Promise<SyncJobResponse> {
+    return this.toResponse(await this.findJob(id));
+  }
+
+  async cancelJob(id: string): Promise<SyncJobResponse> {
+    const job = await this.findJob(id);
+
+    if (!ACTIVE_STATUSES.includes(job.status)) {
+      throw new BadRequestException(
+        `Cannot cancel sync job with status: ${job.status}`,
+      );
+    }
+
+    const cancelled = await this.prisma.syncJob.update({
+      where: { id },
+      data: {
+        status: SYNC_JOB_STATUS.CANCELLED,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        finishedAt: new Date(),
+      },
+    });
+
+    this.logger.log(
+      `Cancelled sync job ${id} at block ${cancelled.nextBlock} of ${cancelled.toBlock}`,
+    );
+
+    return this.toResponse(cancelled);
+  }
+
+  /**
+   * Run pending jobs and jobs whose runner stopped renewing its lease,
+   * oldest first
+   */
+  async resumeJobs(): Promise<number> {
+    const jobs = await this.prisma.syncJob.findMany({
+      where: {
+        status: { in: ACTIVE_STATUSES },
+        deleted: false,
+        OR: [{ leaseExpiresAt: null }, { leaseExpiresAt: { lt: new Date() } }],
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    let resumed = 0;
+    for (const job of jobs) {
+      if (job.status === SYNC_JOB_STATUS.RUNNING) {
+        this.logger.warn(
+          `Resuming sync job ${job.id} from block ${job.nextBlock}`,
+        );
+      }
+
+      if (await this.runJob(job.id)) {
+        resumed++;
+      }
+    }
+
+    return resumed;
+  }
+
+  /**
+   * Claim the job's lease and process its remaining batches.
+   * Returns false if the job could not be claimed.
+   */
+  async runJob(id: string): Promise<boolean> {
+    if (!this.historicalSyncService.tryStartSync()) {
+      this.logger.warn(`Sync already in progress, sync job ${id} deferred`);
+      return false;
+    }
+
+    try {
+      const claimed = await this.prisma.syncJob.updateMany({
+        where: {
+          id,
+          status: { in: ACTIVE_STATUSES },
+          OR: [
+            { leaseExpiresAt: null },
+            { leaseExpiresAt: { lt: new Date() } },
+          ],
+        },
+        data: {
+          status: SYNC_JOB_STATUS.RUNNING,
+          leaseOwner: this.instanceId,
+          leaseExpiresAt: this.leaseExpiry(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      await this.processJob(await this.findJob(id));
+      return true;
+    } catch (error) {
+      this.logger.error(`Sync job ${id} failed`, error);
+
+      // Callers do not await runJob; a job left RUNNING is resumed once its
+      // lease expires
+      try {
+        await this.updateOwnedJob(id, {
+          status: SYNC_JOB_STATUS.FAILED,
+          errors: { push: (error as Error).message },
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          finishedAt: new Date(),
+        });
+      } catch (updateError) {
+        this.logger.error(
+          `Failed to mark sync job ${id} as failed`,
+          updateError,
+        );
+      }
+
+      return true;
+    } finally {
+      this.historicalSyncService.finishSync();
+    }
+  }
+
+  private async processJob(job: SyncJob): Promise<void> {
+    if (!job.startedAt) {
+      await this.updateOwnedJob(job.id, { startedAt: new Date() });
+    }
+
+    let errorCount = job.errors.length;
+
+    for (
+      let batchStart = job.nextBlock;
+      batchStart <= job.toBlock;
+      batchStart += job.batchSize
+    ) {
+      const batchEnd = Math.min(batchStart + job.batchSize - 1, job.toBlock);
+      const progress: Prisma.SyncJobUpdateManyMutationInput = {
+        nextBlock: batchEnd + 1,
+        leaseExpiresAt: this.leaseExpiry(),
+      };
+
+      try {
+        const events = await this.historicalSyncService.processBatch(
+          batchStart,
+          batchEnd,
+        );
+        progress.eventsProcessed = { increment: events };
+      } catch (error) {
+        // Same as syncHistoricalEvents, continue with the next batch
+        const errorMsg = `Error processing batch ${batchStart}-${batchEnd}: ${(error as Error).message}`;
+        this.logger.error(errorMsg);
+        progress.errors = { push: errorMsg };
+        errorCount++;
+      }
+
+      // Stops once cancelled or taken over by another instance
+      if (!(await this.updateOwnedJob(job.id, progress))) {
+        this.logger.warn(
+          `Sync job ${job.id} stopped after blocks ${batchStart}-${batchEnd}`,
+        );
+        return;
+      }
+    }
+
+    await this.updateOwnedJob(job.id, {
+      status:
+        errorCount === 0 ? SYNC_JOB_STATUS.COMPLETED : SYNC_JOB_STATUS.FAILED,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      finishedAt: new Date(),
+    });
+
+    this.logger.log(
+      `Sync job ${job.id} finished blocks ${job.fromBlock}-${job.toBlock} with ${errorCount} failed batches`,
+    );
+  }
+
+  /**
+   * Update the job only while it is running under this instance's lease
+   */
+  private async updateOwnedJob(
+    id: string,
+    data: Prisma.SyncJobUpdateManyMutationInput,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.syncJob.updateMany({
+      where: {
+        id,
+        status: SYNC_JOB_STATUS.RUNNING,
+        leaseOwner: this.instanceId,
+      },
+      data,
+    });
+
+    return count > 0;
+  }
+
+  private async findJob(id: string): Promise<SyncJob> {
+    const job = await this.prisma.syncJob.findFirst({
+      where: { id, deleted: false },
+    });
+
+    if (!job) {
+      throw new NotFoundException(`Sync job with ID ${id} not found`);
+    }
+
+    return job;
+  }
+
+  private leaseExpiry(): Date {
+    return new Date(Date.now() + this.leaseMs);
+  }
+
+  private toResponse(job: SyncJob): SyncJobResponse {
+    const totalBlocks = job.toBlock - job.fromBlock + 1;
+    const blocksDone = Math.min(job.nextBlock - job.fromBlock, totalBlocks);
+
+    return {
+      id: job.id,
+      contractAddress: job.contractAddress,
+      status: job.status,
+      batchSize: job.batchSize,
+      progress: {
+        startBlock: job.fromBlock,
+        endBlock: job.toBlock,
+        currentBlock: job.nextBlock,
+        eventsProcessed: job.eventsProcessed,
+        errors: job.errors,
+        percent: Math.floor((blocksDone / totalBlocks) * 100),
+      },
+      requestedBy: job.requestedBy,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      createdAt: job.createdAt,
+    };
+  }
+}
@@ -0,0 +1,261 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { TransactionExplorerService } from './transaction-explorer.service';
+import { EthersProviderService } from './ethers-provider.service';
+import { StomaTradeContractService } from './stomatrade-contract.service';
+import { BlockchainEventService } from './blockchain-event.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TransactionEntityType } from '../dto/transaction-query.dto';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+import { mockStomaTradeContractService } from '../../test/mocks/blockchain.mock';
+
+describe('TransactionExplorerService', () => {
+  let service: TransactionExplorerService;
+  let prisma: typeof mockPrismaService;
+
+  const mockProviderService = {
+    getTransactionReceipt: jest.fn(),
+  };
+
+  const mockEventService = {
+    decodeReceiptEvents: jest.fn(),
+    serializeEventArgs: jest.fn((args: unknown) =>
+      JSON.stringify(args, (key, value: unknown) =>
+        typeof value === 'bigint' ? value.toString() : value,
+      ),
+    ),
+  };
+
+  const mockTransaction = {
+    id: 'blockchain-tx-1',
+    transactionHash: '0xTxHash',
+    replacementHashes: [] as string[],
+    transactionType: 'INVEST',
+    status: 'CONFIRMED',
+    chainId: 'eip155:4202',
+    fromAddress: '0xPlatformWalletAddress',
+    toAddress: '0xContractAddress',
+    nonce: 7,
+    blockNumber: 12345678,
+    gasUsed: '21000',
+    gasPrice: '2000000000',
+    errorMessage: null,
+    eventData: null,
+    rawTransaction: null,
+    createdAt: new Date('2026-01-15T00:00:00Z'),
+    updatedAt: new Date('2026-01-15T00:00:00Z'),
+    deleted: false,
+    farmerSubmissions: [],
+    projectSubmissions: [{ projectId: 'project-uuid-1' }],
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TransactionExplorerService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: EthersProviderService, useValue: mockProviderService },
+        {
+          provide: StomaTradeContractService,
+          useValue: mockStomaTradeContractService,
+        },
+        { provide: BlockchainEventService, useValue: mockEventService },
+      ],
+    }).compile();
+
+    service = module.get<TransactionExplorerService>(
+      TransactionExplorerService,
+    );
+    prisma = mockPrismaService;
+
+    prisma.appProject.findMany.mockResolvedValue([
+      {
+        chainId: 'eip155:4202',
+        explorerUrl: 'https://sepolia-blockscout.lisk.com/',
+      },
+    ]);
+  });
+
+  describe('listTransactions', () => {
+    it('should filter by type, status and date range', async () => {
+      prisma.blockchainTransaction.findMany.mockResolvedValue([
+        mockTransaction,
+      ]);
+      prisma.blockchainTransaction.count.mockResolvedValue(1);
+
+      const result = await service.listTransactions({
+        page: 1,
+        limit: 10,
+        transactionType: 'INVEST',
+        status: 'CONFIRMED',
+        fromDate: '2026-01-01',
+        toDate: '2026-01-31',
+      });
+
+      expect(prisma.blockchainTransaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            deleted: false,
+            transactionType: 'INVEST',
+            status: 'CONFIRMED',
+            createdAt: {
+              gte: new Date('2026-01-01'),
+              lte: new Date('2026-01-31'),
+            },
+          },
+        }),
+      );
+      expect(result.meta.total).toBe(1);
+      expect(result.items[0]).toEqual(
+        expect.objectContaining({
+          gasCost: '0.000042',
+          projectIds: ['project-uuid-1'],
+          explorer: {
+            transaction: 'https://sepolia-blockscout.lisk.com/tx/0xTxHash',
+            from: 'https://sepolia-blockscout.lisk.com/address/0xPlatformWalletAddress',
+            to: 'https://sepolia-blockscout.lisk.com/address/0xContractAddress',
+            block: 'https://sepolia-blockscout.lisk.com/block/12345678',
+          },
+        }),
+      );
+    });
+
+    it('should find transactions of a project through submissions, investments and claims', async () => {
+      prisma.investment.findMany.mockResolvedValue([
+        { transactionHash: '0xInvestHash' },
+        { transactionHash: null },
+      ]);
+      prisma.profitClaim.findMany.mockResolvedValue([
+        { transactionHash: '0xClaimHash' },
+      ]);
+      prisma.blockchainTransaction.findMany.mockResolvedValue([]);
+      prisma.blockchainTransaction.count.mockResolvedValue(0);
+
+      await service.listTransactions({
+        entityType: TransactionEntityType.PROJECT,
+        entityId: 'project-uuid-1',
+      });
+
+      expect(prisma.blockchainTransaction.count).toHaveBeenCalledWith({
+        where: {
+          deleted: false,
+          AND: [
+            {
+              OR: [
+                {
+                  projectSubmissions: { some: { projectId: 'project-uuid-1' } },
+                },
+                {
+                  OR: [
+                    {
+                      transactionHash: { in: ['0xInvestHash', '0xClaimHash'] },
+                    },
+                    {
+                      replacementHashes: {
+                        hasSome: ['0xInvestHash', '0xClaimHash'],
+                      },
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      });
+    });
+
+    it('should require entityType and entityId together', async () => {
+      await expect(
+        service.listTransactions({ entityId: 'project-uuid-1' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException for an unknown investment', async () => {
+      prisma.investment.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.listTransactions({
+          entityType: TransactionEntityType.INVESTMENT,
+          entityId: 'missing',
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getTransaction', () => {
+    it('should decode the receipt of the mined replacement', async () => {
+      prisma.blockchainTransaction.findFirst.mockResolvedValue({
+        ...mockTransaction,
+        replacementHashes: ['0xReplacementHash'],
+        gasUsed: null,
+        gasPrice: null,
+      });
+      const receipt = {
+        hash: '0xReplacementHash',
+        blockNumber: 12345679,
+        gasUsed: BigInt(50000),
+        gasPrice: BigInt(1000000000),
+        logs: [],
+      };
+      mockProviderService.getTransactionReceipt.mockResolvedValue(receipt);
+      mockEventService.decodeReceiptEvents.mockResolvedValue([
+        {
+          eventName: 'Invested',
+          logIndex: 3,
+          args: { idProject: BigInt(3001), investor: '0xInvestorWallet' },
+        },
+      ]);
+
+      const result = await service.getTransaction('blockchain-tx-1');
+
+      expect(mockProviderService.getTransactionReceipt).toHaveBeenCalledWith(
+        '0xReplacementHash',
+        'eip155:4202',
+      );
+      expect(result.eventsSource).toBe('receipt');
+      expect(result.events).toEqual([
+        {
+          logIndex: 3,
+          eventName: 'Invested',
+          args: { idProject: '3001', investor: '0xInvestorWallet' },
+        },
+      ]);
+      expect(result.gasCost).toBe('0.00005');
+      expect(result.explorer.transaction).toBe(
+        'https://sepolia-blockscout.lisk.com/tx/0xReplacementHash',
+      );
+    });
+
+    it('should fall back to indexed events when the receipt is unavailable', async () => {
+      prisma.blockchainTransaction.findFirst.mockResolvedValue(mockTransaction);
+      mockProviderService.getTransactionReceipt.mockRejectedValue(
+        new Error('RPC unavailable'),
+      );
+      prisma.blockchainEvent.findMany.mockResolvedValue([
+        {
+          logIndex: 1,
+          eventName: 'Invested',
+          args: '{"idProject":"3001"}',
+        },
+      ]);
+
+      const result = await service.getTransaction('blockchain-tx-1');
+
+      expect(result.eventsSource).toBe('indexed');
+      expect(result.events).toEqual([
+        { logIndex: 1, eventName: 'Invested', args: { idProject: '3001' } },
+      ]);
+      expect(result.gasCost).toBe('0.000042');
+    });
+
+    it('should throw NotFoundException for an unknown transaction', async () => {
+      prisma.blockchainTransaction.findFirst.mockResolvedValue(null);
+
+      await expect(service.getTransaction('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,404 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  BlockchainTransaction,
+  Prisma,
+  TRANSACTION_STATUS,
+  TRANSACTION_TYPE,
+} from '@prisma/client';
+import { ethers } from 'ethers';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PaginatedResponseDto } from '../../common/dto/pagination.dto';
+import { EthersProviderService } from './ethers-provider.service';
+import { StomaTradeContractService } from './stomatrade-contract.service';
+import { BlockchainEventService } from './blockchain-event.service';
+import {
+  TransactionEntityType,
+  TransactionQueryDto,
+} from '../dto/transaction-query.dto';
+
+export interface ExplorerLinks {
+  transaction: string | null;
+  from: string | null;
+  to: string | null;
+  block: string | null;
+}
+
+export interface DecodedTransactionEvent {
+  logIndex: number;
+  eventName: string;
+  args: Record<string, unknown>;
+}
+
+export interface TransactionExplorerItem {
+  id: string;
+  transactionHash: string;
+  replacementHashes: string[];
+  transactionType: TRANSACTION_TYPE;
+  status: TRANSACTION_STATUS;
+  chainId: string | null;
+  fromAddress: string;
+  toAddress: string | null;
+  nonce: number | null;
+  blockNumber: number | null;
+  gasUsed: string | null;
+  gasPrice: string | null;
+  gasCost: string | null;
+  errorMessage: string | null;
+  farmerIds: string[];
+  projectIds: string[];
+  explorer: ExplorerLinks;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TransactionExplorerDetail extends TransactionExplorerItem {
+  events: DecodedTransactionEvent[];
+  eventsSource: 'receipt' | 'indexed';
+}
+
+const transactionInclude = {
+  farmerSubmissions: { select: { farmerId: true } },
+  projectSubmissions: { select: { projectId: true } },
+} satisfies Prisma.BlockchainTransactionInclude;
+
+type TransactionWithRelations = Prisma.BlockchainTransactionGetPayload<{
+  include: typeof transactionInclude;
+}>;
+
+/**
+ * Read-only view over BlockchainTransaction for admins: filtered listing,
+ * receipt logs decoded with the loaded ABI, gas cost in native units and
+ * block explorer links of the chain the transaction was sent on.
+ */
+@Injectable()
+export class TransactionExplorerService {
+  private readonly logger = new Logger(TransactionExplorerService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly providerService: EthersProviderService,
+    private readonly contractService: StomaTradeContractService,
+    private readonly eventService: BlockchainEventService,
+  ) {}
+
+  async listTransactions(
+    query: TransactionQueryDto,
+  ): Promise<PaginatedResponseDto<TransactionExplorerItem>> {
+    const { page = 1, limit = 10 } = query;
+    const skip = (page - 1) * limit;
+    const where = await this.buildWhere(query);
+
+    const [data, total, explorerUrls] = await Promise.all([
+      this.prisma.blockchainTransaction.findMany({
+        where,
+        include: transactionInclude,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.blockchainTransaction.count({ where }),
+      this.getExplorerUrls(),
+    ]);
+
+    return new PaginatedResponseDto(
+      data.map((transaction) => this.toItem(transaction, explorerUrls)),
+      total,
+      page,
+      limit,
+    );
+  }
+
+  async getTransaction(id: string): Promise<TransactionExplorerDetail> {
+    const transaction = await this.prisma.blockchainTransaction.findFirst({
+      where: { id, deleted: false },
+      include: transactionInclude,
+    });
+
+    if (!transaction) {
+      throw new NotFoundException(`Transaction with ID ${id} not found`);
+    }
+
+    const explorerUrls = await this.getExplorerUrls();
+    const item = this.toItem(transaction, explorerUrls);
+    const receipt = await this.findReceipt(transaction);
+
+    if (!receipt) {
+      return {
+        ...item,
+        events: await this.findIndexedEvents(transaction.transactionHash),
+        eventsSource: 'indexed',
+      };
+    }
+
+    const decoded = await this.eventService.decodeReceiptEvents(
+      receipt,
+      transaction,
+    );
+    const gasUsed = item.gasUsed ?? receipt.gasUsed.toString();
+    const gasPrice = item.gasPrice ?? receipt.gasPrice.toString();
+
+    return {
+      ...item,
+      blockNumber: item.blockNumber ?? receipt.blockNumber,
+      gasUsed,
+      gasPrice,
+      gasCost: this.gasCost(gasUsed, gasPrice),
+      explorer: {
+        ...item.explorer,
+        // A replacement may be the hash that was mined
+        transaction: this.explorerLink(
+          explorerUrls,
+          transaction.chainId,
+          'tx',
+          receipt.hash,
+        ),
+      },
+      events: decoded.map((event) => ({
+        logIndex: event.logIndex,
+        eventName: event.eventName,
+        args: JSON.parse(
+          this.eventService.serializeEventArgs(event.args),
+        ) as Record<string, unknown>,
+      })),
+      eventsSource: 'receipt',
+    };
+  }
+
+  private async buildWhere(
+    query: TransactionQueryDto,
+  ): Promise<Prisma.BlockchainTransactionWhereInput> {
+    const { transactionType, status, fromDate, toDate } = query;
+
+    const where: Prisma.BlockchainTransactionWhereInput = {
+      deleted: false,
+      ...(transactionType && { transactionType }),
+      ...(status && { status }),
+      ...((fromDate || toDate) && {
+        createdAt: {
+          ...(fromDate && { gte: new Date(fromDate) }),
+          ...(toDate && { lte: new Date(toDate) }),
+        },
+      }),
+    };
+
+    if (query.entityId || query.entityType) {
+      if (!query.entityId || !query.entityType) {
+        throw new BadRequestException(
+          'entityType and entityId must be provided together',
+        );
+      }
+
+      where.AND = [
+        await this.buildEntityWhere(query.entityType, query.entityId),
+      ];
+    }
+
+    return where;
+  }
+
+  /**
+   * Investments and profit claims only record the transaction hash, mints
+   * are linked through their submission
+   */
+  private async buildEntityWhere(
+    entityType: TransactionEntityType,
+    entityId: string,
+  ): Promise<Prisma.BlockchainTransactionWhereInput> {
+    switch (entityType) {
+      case TransactionEntityType.FARMER:
+        return { farmerSubmissions: { some: { farmerId: entityId } } };
+
+      case TransactionEntityType.INVESTMENT: {
+        const investment = await this.prisma.investment.findFirst({
+          where: { id: entityId, deleted: false },
+        });
+
+        if (!investment) {
+          throw new NotFoundException(
+            `Investment with ID ${entityId} not found`,
+          );
+        }
+
+        return this.hashWhere([investment.transactionHash]);
+      }
+
+      case TransactionEntityType.PROJECT: {
+        const [investments, profitClaims] = await Promise.all([
+          this.prisma.investment.findMany({
+            where: { projectId: entityId, deleted: false },
+            select: { transactionHash: true },
+          }),
+          this.prisma.profitClaim.findMany({
+            where: { profitPool: { projectId: entityId }, deleted: false },
+            select: { transactionHash: true },
+          }),
+        ]);
+
+        return {
+          OR: [
+            { projectSubmissions: { some: { projectId: entityId } } },
+            this.hashWhere(
+              [...investments, ...profitClaims].map(
+                (record) => record.transactionHash,
+              ),
+            ),
+          ],
+        };
+      }
+    }
+  }
+
+  private hashWhere(
+    hashes: (string | null)[],
+  ): Prisma.BlockchainTransactionWhereInput {
+    const known = hashes.filter((hash): hash is string => !!hash);
+
+    return {
+      OR: [
+        { transactionHash: { in: known } },
+        { replacementHashes: { hasSome: known } },
+      ],
+    };
+  }
+
+  /**
+   * Receipt of whichever hash of the replacement chain was mined
+   */
+  private async findReceipt(
+    transaction: BlockchainTransaction,
+  ): Promise<ethers.TransactionReceipt | null> {
+    if (transaction.status === TRANSACTION_STATUS.PENDING) {
+      return null;
+    }
+
+    // Newest replacement first
+    const hashes = [
+      transaction.transactionHash,
+      ...transaction.replacementHashes,
+    ].reverse();
+
+    try {
+      for (const hash of hashes) {
+        const receipt = await this.providerService.getTransactionReceipt(
+          hash,
+          transaction.chainId,
+        );
+        if (receipt) {
+          return receipt;
+        }
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Could not fetch receipt of ${transaction.transactionHash}, using indexed events: ${(error as Error).message}`,
+      );
+    }
+
+    return null;
+  }
+
+  private async findIndexedEvents(
+    transactionHash: string,
+  ): Promise<DecodedTransactionEvent[]> {
+    const events = await this.prisma.blockchainEvent.findMany({
+      where: { transactionHash },
+      orderBy: { logIndex: 'asc' },
+    });
+
+    return events.map((event) => ({
+      logIndex: event.logIndex,
+      eventName: event.eventName,
+      args: JSON.parse(event.args) as Record<string, unknown>,
+    }));
+  }
+
+  /**
+   * Explorer base URL per CAIP-2 chain id, the default deployment's first
+   */
+  private async getExplorerUrls(): Promise<Map<string, string>> {
+    const appProjects = await this.prisma.appProject.findMany({
+      where: { deleted: false },
+      orderBy: { isDefault: 'desc' },
+    });
+
+    const explorerUrls = new Map<string, string>();
+    for (const appProject of appProjects) {
+      if (appProject.explorerUrl && !explorerUrls.has(appProject.chainId)) {
+        explorerUrls.set(
+          appProject.chainId,
+          appProject.explorerUrl.replace(/\/+$/, ''),
+        );
+      }
+    }
+
+    return explorerUrls;
+  }
+
+  private toItem(
+    transaction: TransactionWithRelations,
+    explorerUrls: Map<string, string>,
+  ): TransactionExplorerItem {
+    const link = (path: string, value: string | number | null) =>
+      this.explorerLink(explorerUrls, transaction.chainId, path, value);
+
+    return {
+      id: transaction.id,
+      transactionHash: transaction.transactionHash,
+      replacementHashes: transaction.replacementHashes,
+      transactionType: transaction.transactionType,
+      status: transaction.status,
+      chainId: transaction.chainId,
+      fromAddress: transaction.fromAddress,
+      toAddress: transaction.toAddress,
+      nonce: transaction.nonce,
+      blockNumber: transaction.blockNumber,
+      gasUsed: transaction.gasUsed,
+      gasPrice: transaction.gasPrice,
+      gasCost: this.gasCost(transaction.gasUsed, transaction.gasPrice),
+      errorMessage: transaction.errorMessage,
+      farmerIds: transaction.farmerSubmissions.map((s) => s.farmerId),
+      projectIds: transaction.projectSubmissions.map((s) => s.projectId),
+      explorer: {
+        transaction: link('tx', transaction.transactionHash),
+        from: link('address', transaction.fromAddress),
+        to: link('address', transaction.toAddress),
+        block: link('block', transaction.blockNumber),
+      },
+      createdAt: transaction.createdAt,
+      updatedAt: transaction.updatedAt,
+    };
+  }
+
+  private explorerLink(
+    explorerUrls: Map<string, string>,
+    chainId: string | null,
+    path: string,
+    value: string | number | null,
+  ): string | null {
+    const explorerUrl = explorerUrls.get(
+      chainId ?? this.contractService.getAppProject().chainId,
+    );
+
+    return explorerUrl && value !== null
+      ? `${explorerUrl}/${path}/${value}`
+      : null;
+  }
+
+  /**
+   * gasUsed * gasPrice, formatted in the chain's native unit
+   */
+  private gasCost(
+    gasUsed: string | null,
+    gasPrice: string | null,
+  ): string | null {
+    if (!gasUsed || !gasPrice) {
+      return null;
+    }
+
+    return ethers.formatEther(BigInt(gasUsed) * BigInt(gasPrice));
+  }
+}
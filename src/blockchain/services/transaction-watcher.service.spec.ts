@@ -0,0 +1,171 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TransactionWatcherService } from './transaction-watcher.service';
+import { TransactionService } from './transaction.service';
+import { BlockchainEventService } from './blockchain-event.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+import { mockBlockchainEventService } from '../../test/mocks/blockchain.mock';
+
+describe('TransactionWatcherService', () => {
+  let service: TransactionWatcherService;
+  let prisma: typeof mockPrismaService;
+
+  const mockTransactionService = {
+    findReceipt: jest.fn(),
+    recordReceipt: jest.fn(),
+  };
+
+  const pendingTx = {
+    id: 'tx-uuid-1',
+    transactionHash: '0xTxHash',
+    status: 'PENDING',
+    eventData: null,
+    replacementHashes: [],
+  };
+
+  const receipt = { hash: '0xTxHash', blockNumber: 500, status: 1 };
+
+  const farmerAddedEvent = {
+    eventName: 'FarmerAdded',
+    blockNumber: 500,
+    blockHash: '0xBlockHash',
+    transactionHash: '0xTxHash',
+    logIndex: 0,
+    args: { idFarmer: BigInt(1001) },
+    timestamp: 1767225600,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TransactionWatcherService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: TransactionService, useValue: mockTransactionService },
+        {
+          provide: BlockchainEventService,
+          useValue: {
+            ...mockBlockchainEventService,
+            decodeReceiptEvents: jest
+              .fn()
+              .mockResolvedValue([farmerAddedEvent]),
+            serializeEventArgs: jest.fn((args) =>
+              JSON.stringify(args, (key, value) =>
+                typeof value === 'bigint' ? value.toString() : value,
+              ),
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TransactionWatcherService>(TransactionWatcherService);
+    prisma = mockPrismaService;
+
+    prisma.blockchainTransaction.findMany.mockResolvedValue([pendingTx]);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('checkPendingTransactions', () => {
+    it('should leave transactions without a receipt pending', async () => {
+      mockTransactionService.findReceipt.mockResolvedValue(null);
+
+      const result = await service.checkPendingTransactions();
+
+      expect(result).toEqual({ checked: 1, confirmed: 0, failed: 0 });
+      expect(mockTransactionService.recordReceipt).not.toHaveBeenCalled();
+    });
+
+    it('should confirm mined transactions and project their events', async () => {
+      mockTransactionService.findReceipt.mockResolvedValue(receipt);
+      mockTransactionService.recordReceipt.mockResolvedValue({
+        ...pendingTx,
+        status: 'CONFIRMED',
+      });
+
+      const result = await service.checkPendingTransactions();
+
+      expect(result.confirmed).toBe(1);
+      expect(prisma.blockchainTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'tx-uuid-1' },
+        data: {
+          eventData:
+            '[{"eventName":"FarmerAdded","logIndex":0,"args":{"idFarmer":"1001"}}]',
+        },
+      });
+      expect(mockBlockchainEventService.processEvent).toHaveBeenCalledWith(
+        farmerAddedEvent,
+      );
+      expect(prisma.farmerSubmission.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should keep eventData written by the initiating service', async () => {
+      prisma.blockchainTransaction.findMany.mockResolvedValue([
+        { ...pendingTx, eventData: '{"action":"claimRefund"}' },
+      ]);
+      mockTransactionService.findReceipt.mockResolvedValue(receipt);
+      mockTransactionService.recordReceipt.mockResolvedValue({
+        ...pendingTx,
+        status: 'CONFIRMED',
+      });
+
+      await service.checkPendingTransactions();
+
+      expect(prisma.blockchainTransaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should roll back linked records when the transaction reverted', async () => {
+      mockTransactionService.findReceipt.mockResolvedValue({
+        ...receipt,
+        status: 0,
+      });
+      mockTransactionService.recordReceipt.mockResolvedValue({
+        ...pendingTx,
+        status: 'FAILED',
+      });
+
+      const result = await service.checkPendingTransactions();
+
+      expect(result.failed).toBe(1);
+      expect(mockBlockchainEventService.processEvent).not.toHaveBeenCalled();
+      expect(prisma.farmerSubmission.updateMany).toHaveBeenCalledWith({
+        where: { blockchainTxId: 'tx-uuid-1', status: 'APPROVED' },
+        data: { status: 'SUBMITTED', approvedBy: null },
+      });
+      expect(prisma.projectSubmission.updateMany).toHaveBeenCalledWith({
+        where: { blockchainTxId: 'tx-uuid-1', status: 'APPROVED' },
+        data: { status: 'SUBMITTED', approvedBy: null },
+      });
+      expect(prisma.investment.updateMany).toHaveBeenCalledWith({
+        where: {
+          transactionHash: '0xTxHash',
+          blockNumber: null,
+          deleted: false,
+        },
+        data: { deleted: true },
+      });
+    });
+
+    it('should continue with the next transaction when one fails', async () => {
+      prisma.blockchainTransaction.findMany.mockResolvedValue([
+        pendingTx,
+        { ...pendingTx, id: 'tx-uuid-2', transactionHash: '0xOther' },
+      ]);
+      mockTransactionService.findReceipt
+        .mockRejectedValueOnce(new Error('RPC unavailable'))
+        .mockResolvedValueOnce(receipt);
+      mockTransactionService.recordReceipt.mockResolvedValue({
+        ...pendingTx,
+        status: 'CONFIRMED',
+      });
+
+      const result = await service.checkPendingTransactions();
+
+      expect(result).toEqual({ checked: 2, confirmed: 1, failed: 0 });
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BlockchainTransaction, SUBMISSION_STATUS } from '@prisma/client';
+import { ethers } from 'ethers';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TransactionService } from './transaction.service';
+import { BlockchainEventService } from './blockchain-event.service';
+
+export interface WatchResult {
+  checked: number;
+  confirmed: number;
+  failed: number;
+}
+
+/**
+ * Settles PENDING blockchain transactions from their on-chain receipts.
+ *
+ * Transactions that outlive the inline wait in TransactionService (timeouts,
+ * speed-ups, restarts) stay PENDING until a receipt shows up here. Mined
+ * transactions get their receipt data and decoded events stored, and the
+ * events are projected through BlockchainEventService so linked submissions
+ * and investments are completed. Reverted ones roll the linked records back
+ * the same way the inline failure path does.
+ */
+@Injectable()
+export class TransactionWatcherService {
+  private readonly logger = new Logger(TransactionWatcherService.name);
+  private readonly BATCH_SIZE = 50;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly transactionService: TransactionService,
+    private readonly blockchainEventService: BlockchainEventService,
+  ) {}
+
+  /**
+   * Poll receipts for the oldest pending transactions
+   */
+  async checkPendingTransactions(): Promise<WatchResult> {
+    const pending = await this.prisma.blockchainTransaction.findMany({
+      where: { status: 'PENDING', deleted: false },
+      orderBy: { createdAt: 'asc' },
+      take: this.BATCH_SIZE,
+    });
+
+    const result: WatchResult = {
+      checked: pending.length,
+      confirmed: 0,
+      failed: 0,
+    };
+
+    for (const tx of pending) {
+      try {
+        const checked = await this.checkTransaction(tx);
+
+        if (checked.status === 'CONFIRMED') {
+          result.confirmed++;
+        } else if (checked.status === 'FAILED') {
+          result.failed++;
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to check receipt for ${tx.transactionHash}`,
+          error,
+        );
+      }
+    }
+
+    if (result.confirmed > 0 || result.failed > 0) {
+      this.logger.log(
+        `Settled pending transactions: ${result.confirmed} confirmed, ${result.failed} failed`,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Settle one pending transaction if it has been mined
+   *
+   * @returns the settled record, or the given one while still pending
+   */
+  async checkTransaction(
+    tx: BlockchainTransaction,
+  ): Promise<BlockchainTransaction> {
+    const receipt = await this.transactionService.findReceipt(tx);
+
+    if (!receipt) {
+      return tx;
+    }
+
+    return (await this.settle(tx, receipt)) ?? tx;
+  }
+
+  private async settle(
+    tx: BlockchainTransaction,
+    receipt: ethers.TransactionReceipt,
+  ): Promise<BlockchainTransaction | null> {
+    const settled = await this.transactionService.recordReceipt(receipt);
+
+    if (!settled) {
+      return null;
+    }
+
+    const events = await this.blockchainEventService.decodeReceiptEvents(
+      receipt,
+      tx,
+    );
+
+    // Keep eventData written by the initiating service
+    if (!tx.eventData && events.length > 0) {
+      await this.prisma.blockchainTransaction.update({
+        where: { id: tx.id },
+        data: {
+          eventData: this.blockchainEventService.serializeEventArgs(
+            events.map((event) => ({
+              eventName: event.eventName,
+              logIndex: event.logIndex,
+              args: event.args,
+            })),
+          ),
+        },
+      });
+    }
+
+    if (settled.status === 'CONFIRMED') {
+      // Links minted token ids and receipt data to submissions/investments
+      for (const event of events) {
+        await this.blockchainEventService.processEvent(event);
+      }
+    } else {
+      await this.rollbackLinkedRecords(settled);
+    }
+
+    this.logger.log(
+      `Transaction ${tx.transactionHash} settled as ${settled.status} (block ${receipt.blockNumber})`,
+    );
+
+    return settled;
+  }
+
+  /**
+   * Undo what approval/investment did before sending the transaction
+   */
+  private async rollbackLinkedRecords(tx: BlockchainTransaction) {
+    await this.prisma.farmerSubmission.updateMany({
+      where: { blockchainTxId: tx.id, status: SUBMISSION_STATUS.APPROVED },
+      data: { status: SUBMISSION_STATUS.SUBMITTED, approvedBy: null },
+    });
+
+    await this.prisma.projectSubmission.updateMany({
+      where: { blockchainTxId: tx.id, status: SUBMISSION_STATUS.APPROVED },
+      data: { status: SUBMISSION_STATUS.SUBMITTED, approvedBy: null },
+    });
+
+    await this.prisma.investment.updateMany({
+      where: {
+        transactionHash: tx.transactionHash,
+        blockNumber: null,
+        deleted: false,
+      },
+      data: { deleted: true },
+    });
+  }
+}
@@ -0,0 +1,758 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import {
+  ContractRevertError,
+  InsufficientGasError,
+  TransactionService,
+} from './transaction.service';
+import { EthersProviderService } from './ethers-provider.service';
+import { PlatformWalletService } from './platform-wallet.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+describe('TransactionService', () => {
+  let service: TransactionService;
+  let prisma: typeof mockPrismaService;
+
+  // Real signer so hashes and raw payloads are valid
+  const wallet = ethers.Wallet.createRandom();
+
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue(undefined),
+  };
+
+  const mockEthersProviderService = {
+    getCaipChainId: jest.fn().mockReturnValue('eip155:4202'),
+    getFeeData: jest.fn().mockResolvedValue({
+      maxFeePerGas: BigInt(2000000000),
+      maxPriorityFeePerGas: BigInt(1000000000),
+    }),
+    estimateGas: jest.fn().mockResolvedValue(BigInt(100000)),
+    broadcastTransaction: jest.fn(),
+    waitForTransaction: jest.fn(),
+    getTransactionReceipt: jest.fn(),
+    getProviderForChain: jest.fn(),
+  };
+
+  const mockPlatformWalletService = {
+    waitForInit: jest.fn(),
+    getAddress: jest.fn().mockReturnValue(wallet.address),
+    getBalance: jest.fn(),
+    getNonce: jest.fn(),
+    populateTransaction: jest.fn((tx: ethers.TransactionRequest) =>
+      Promise.resolve({ ...tx, chainId: BigInt(4202), type: 2 }),
+    ),
+    signTransaction: jest.fn((tx: ethers.TransactionRequest) =>
+      wallet.signTransaction({ ...tx, from: undefined }),
+    ),
+  };
+
+  const request: ethers.TransactionRequest = {
+    to: '0x0000000000000000000000000000000000000001',
+    data: '0x',
+  };
+
+  const receiptFor = (hash: string, status = 1, to = request.to) => ({
+    hash,
+    status,
+    to,
+    from: wallet.address,
+    blockNumber: 100,
+    gasUsed: BigInt(21000),
+    gasPrice: BigInt(1000000000),
+  });
+
+  const pendingRecord = (overrides: Record<string, unknown> = {}) => ({
+    id: 'tx-1',
+    transactionHash: '0xOriginal',
+    status: 'PENDING',
+    chainId: 'eip155:4202',
+    toAddress: request.to,
+    nonce: 4,
+    rawTransaction: '0xRaw1',
+    replacementHashes: [],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TransactionService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: EthersProviderService, useValue: mockEthersProviderService },
+        { provide: PlatformWalletService, useValue: mockPlatformWalletService },
+      ],
+    }).compile();
+
+    service = module.get<TransactionService>(TransactionService);
+    prisma = mockPrismaService;
+
+    mockPlatformWalletService.getNonce.mockResolvedValue(7);
+    mockPlatformWalletService.getBalance.mockResolvedValue(
+      ethers.parseEther('1'),
+    );
+    // Receipt lookups (OR on hash/replacements) find the record, nonce
+    // lookups find no pending transaction
+    prisma.blockchainTransaction.findFirst.mockImplementation(
+      ({ where }: { where: { OR?: [{ transactionHash: string }] } }) =>
+        Promise.resolve(
+          where.OR
+            ? pendingRecord({
+                id: 'tx-record',
+                transactionHash: where.OR[0].transactionHash,
+              })
+            : null,
+        ),
+    );
+    prisma.blockchainTransaction.create.mockImplementation(
+      ({ data }: { data: { transactionHash: string } }) =>
+        Promise.resolve({ id: `tx-${data.transactionHash}`, ...data }),
+    );
+    mockEthersProviderService.broadcastTransaction.mockResolvedValue({});
+    mockEthersProviderService.waitForTransaction.mockImplementation(
+      (hash: string) => Promise.resolve(receiptFor(hash)),
+    );
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('sendTransaction', () => {
+    it('should persist the signed transaction before broadcasting it', async () => {
+      const result = await service.sendTransaction(request, {
+        transactionType: 'MINT_FARMER_NFT',
+      });
+
+      expect(result.success).toBe(true);
+      expect(prisma.blockchainTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          transactionHash: result.hash,
+          transactionType: 'MINT_FARMER_NFT',
+          status: 'PENDING',
+          fromAddress: wallet.address,
+          nonce: 7,
+          rawTransaction: expect.stringMatching(/^0x/),
+        }),
+      });
+      expect(
+        prisma.blockchainTransaction.create.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        mockEthersProviderService.broadcastTransaction.mock
+          .invocationCallOrder[0],
+      );
+      expect(prisma.blockchainTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'tx-record' },
+        data: expect.objectContaining({
+          status: 'CONFIRMED',
+          blockNumber: 100,
+        }),
+      });
+    });
+
+    it('should allocate sequential nonces to concurrent transactions', async () => {
+      await Promise.all([
+        service.sendTransaction(request),
+        service.sendTransaction(request),
+        service.sendTransaction(request),
+      ]);
+
+      const nonces = prisma.blockchainTransaction.create.mock.calls.map(
+        ([args]: [{ data: { nonce: number } }]) => args.data.nonce,
+      );
+      expect(nonces).toEqual([7, 8, 9]);
+      expect(mockPlatformWalletService.getNonce).toHaveBeenCalledTimes(1);
+    });
+
+    it('should track nonces separately per chain', async () => {
+      mockPlatformWalletService.getNonce.mockImplementation(
+        (_blockTag: string, chainId: string) =>
+          Promise.resolve(chainId === 'eip155:5003' ? 40 : 7),
+      );
+
+      await service.sendTransaction(request);
+      await service.sendTransaction(request, { chainId: 'eip155:5003' });
+      await service.sendTransaction(request);
+
+      const sent = prisma.blockchainTransaction.create.mock.calls.map(
+        ([args]: [{ data: { chainId: string; nonce: number } }]) => [
+          args.data.chainId,
+          args.data.nonce,
+        ],
+      );
+      expect(sent).toEqual([
+        ['eip155:4202', 7],
+        ['eip155:5003', 40],
+        ['eip155:4202', 8],
+      ]);
+      expect(
+        mockEthersProviderService.broadcastTransaction,
+      ).toHaveBeenCalledWith(expect.any(String), 'eip155:5003');
+      expect(prisma.blockchainTransaction.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ chainId: 'eip155:5003' }),
+        }),
+      );
+    });
+
+    it('should continue after the highest nonce still pending in the database', async () => {
+      prisma.blockchainTransaction.findFirst.mockResolvedValueOnce({
+        nonce: 11,
+      });
+
+      await service.sendTransaction(request);
+
+      expect(prisma.blockchainTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ nonce: 12 }),
+      });
+    });
+
+    it('should mark the row failed and resync the nonce when broadcast fails', async () => {
+      jest.spyOn(service as any, 'sleep').mockResolvedValue(undefined as never);
+      mockEthersProviderService.broadcastTransaction
+        .mockRejectedValueOnce(new Error('insufficient funds'))
+        .mockResolvedValue({});
+
+      const result = await service.sendTransaction(request);
+
+      expect(result.success).toBe(true);
+      expect(prisma.blockchainTransaction.update).toHaveBeenCalledWith({
+        where: { id: expect.any(String) },
+        data: { status: 'FAILED', errorMessage: 'insufficient funds' },
+      });
+      expect(mockPlatformWalletService.getNonce).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not resend a broadcast transaction that has no receipt yet', async () => {
+      mockEthersProviderService.waitForTransaction.mockRejectedValue(
+        new Error('timeout'),
+      );
+
+      await expect(service.sendTransaction(request)).rejects.toThrow(
+        'is still pending',
+      );
+      expect(
+        mockEthersProviderService.broadcastTransaction,
+      ).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse to send when the wallet cannot cover gas', async () => {
+      // gasLimit 120000 (100000 * 1.2) at 2 gwei needs 0.00024
+      mockPlatformWalletService.getBalance.mockResolvedValue(
+        ethers.parseEther('0.0002'),
+      );
+
+      const sending = service.sendTransaction(request);
+
+      await expect(sending).rejects.toThrow(InsufficientGasError);
+      await expect(sending).rejects.toThrow(
+        'balance 0.0002 ETH, needs 0.00024 ETH',
+      );
+      expect(mockPlatformWalletService.getBalance).toHaveBeenCalledWith(
+        'eip155:4202',
+      );
+      expect(mockPlatformWalletService.getBalance).toHaveBeenCalledTimes(1);
+      expect(
+        mockEthersProviderService.broadcastTransaction,
+      ).not.toHaveBeenCalled();
+      expect(prisma.blockchainTransaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recoverPendingTransactions', () => {
+    it('should record mined transactions and re-broadcast the rest', async () => {
+      prisma.blockchainTransaction.findMany.mockResolvedValue([
+        pendingRecord({ transactionHash: '0xMined', nonce: 3 }),
+        pendingRecord({
+          id: 'tx-2',
+          transactionHash: '0xStuck',
+          rawTransaction: '0xRaw2',
+        }),
+      ]);
+      mockEthersProviderService.getTransactionReceipt.mockImplementation(
+        (hash: string) =>
+          Promise.resolve(hash === '0xMined' ? receiptFor(hash) : null),
+      );
+
+      await service.recoverPendingTransactions();
+
+      expect(prisma.blockchainTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'tx-record' },
+        data: expect.objectContaining({ status: 'CONFIRMED' }),
+      });
+      expect(
+        mockEthersProviderService.broadcastTransaction,
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        mockEthersProviderService.broadcastTransaction,
+      ).toHaveBeenCalledWith('0xRaw2', 'eip155:4202');
+    });
+
+    it('should fail transactions whose nonce was already used', async () => {
+      prisma.blockchainTransaction.findMany.mockResolvedValue([
+        pendingRecord({
+          id: 'tx-2',
+          transactionHash: '0xStuck',
+          rawTransaction: '0xRaw2',
+        }),
+      ]);
+      mockEthersProviderService.getTransactionReceipt.mockResolvedValue(null);
+      mockEthersProviderService.broadcastTransaction.mockRejectedValue(
+        ethers.makeError('nonce has already been used', 'NONCE_EXPIRED'),
+      );
+
+      await service.recoverPendingTransactions();
+
+      expect(prisma.blockchainTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'tx-2' },
+        data: {
+          status: 'FAILED',
+          errorMessage: 'Nonce 4 was used by another transaction',
+        },
+      });
+    });
+
+    it('should find receipts mined under a replacement hash', async () => {
+      prisma.blockchainTransaction.findMany.mockResolvedValue([
+        pendingRecord({ replacementHashes: ['0xFaster'] }),
+      ]);
+      mockEthersProviderService.getTransactionReceipt.mockImplementation(
+        (hash: string) =>
+          Promise.resolve(hash === '0xFaster' ? receiptFor(hash) : null),
+      );
+
+      await service.recoverPendingTransactions();
+
+      expect(
+        mockEthersProviderService.getTransactionReceipt,
+      ).toHaveBeenCalledWith('0xFaster', 'eip155:4202');
+      expect(
+        mockEthersProviderService.broadcastTransaction,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('speedUpTransaction / cancelTransaction', () => {
+    let signedOriginal: string;
+
+    beforeEach(async () => {
+      signedOriginal = await wallet.signTransaction({
+        to: request.to,
+        data: '0x1234',
+        nonce: 4,
+        gasLimit: BigInt(100000),
+        chainId: BigInt(4202),
+        type: 2,
+        maxFeePerGas: BigInt(2000000000),
+        maxPriorityFeePerGas: BigInt(1000000000),
+      });
+      prisma.blockchainTransaction.findUnique.mockResolvedValue(
+        pendingRecord({ rawTransaction: signedOriginal }),
+      );
+      prisma.blockchainTransaction.update.mockResolvedValue({
+        replacementHashes: ['0xReplacement'],
+      });
+      mockEthersProviderService.getTransactionReceipt.mockResolvedValue(null);
+    });
+
+    it('should re-sign the same call and nonce with bumped fees', async () => {
+      const result = await service.speedUpTransaction('tx-1', 20);
+
+      const rawReplacement =
+        mockEthersProviderService.broadcastTransaction.mock.calls[0][0];
+      const replacement = ethers.Transaction.from(rawReplacement);
+
+      expect(replacement.nonce).toBe(4);
+      expect(replacement.data).toBe('0x1234');
+      expect(replacement.maxFeePerGas).toBe(BigInt(2400000000));
+      expect(replacement.maxPriorityFeePerGas).toBe(BigInt(1200000000));
+      expect(result.replacementHash).toBe(replacement.hash);
+      expect(prisma.blockchainTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'tx-1' },
+        data: {
+          rawTransaction: rawReplacement,
+          replacementHashes: { push: replacement.hash },
+          errorMessage: null,
+        },
+      });
+    });
+
+    it('should cancel with a zero-value transfer to the platform wallet', async () => {
+      await service.cancelTransaction('tx-1');
+
+      const replacement = ethers.Transaction.from(
+        mockEthersProviderService.broadcastTransaction.mock.calls[0][0],
+      );
+
+      expect(replacement.nonce).toBe(4);
+      expect(replacement.to).toBe(wallet.address);
+      expect(replacement.value).toBe(BigInt(0));
+      expect(replacement.data).toBe('0x');
+    });
+
+    it('should mark the original failed once the cancel is mined', async () => {
+      prisma.blockchainTransaction.findMany.mockResolvedValue([
+        pendingRecord({ replacementHashes: ['0xCancel'] }),
+      ]);
+      prisma.blockchainTransaction.findFirst.mockResolvedValue(
+        pendingRecord({ replacementHashes: ['0xCancel'] }),
+      );
+      mockEthersProviderService.getTransactionReceipt.mockImplementation(
+        (hash: string) =>
+          Promise.resolve(
+            hash === '0xCancel' ? receiptFor(hash, 1, wallet.address) : null,
+          ),
+      );
+
+      await service.recoverPendingTransactions();
+
+      expect(prisma.blockchainTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'tx-1' },
+        data: expect.objectContaining({
+          status: 'FAILED',
+          errorMessage: 'Cancelled by replacement transaction 0xCancel',
+        }),
+      });
+    });
+
+    it('should reject transactions that are no longer pending', async () => {
+      prisma.blockchainTransaction.findUnique.mockResolvedValue(
+        pendingRecord({ status: 'CONFIRMED' }),
+      );
+
+      await expect(service.speedUpTransaction('tx-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(
+        mockEthersProviderService.broadcastTransaction,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the transaction does not exist', async () => {
+      prisma.blockchainTransaction.findUnique.mockResolvedValue(null);
+
+      await expect(service.cancelTransaction('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('simulateContractMethod', () => {
+    const abi = [
+      'function invest(string cid, uint256 _idProject, uint256 _amount)',
+      'error ExceedsMaxInvested(uint256 idProject, uint256 remaining)',
+    ];
+    const contractInterface = new ethers.Interface(abi);
+    const call = jest.fn();
+    const contract = new ethers.Contract(
+      '0x0000000000000000000000000000000000000002',
+      abi,
+      { provider: null, call } as unknown as ethers.ContractRunner,
+    );
+    const args = ['', BigInt(7), ethers.parseEther('100')];
+
+    const revertWith = (data: string) =>
+      call.mockRejectedValue(
+        ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+          action: 'call',
+          data,
+          reason: null,
+          transaction: { to: null, data: '0x' },
+          invocation: null,
+          revert: null,
+        }),
+      );
+
+    const simulate = () =>
+      service.simulateContractMethod(contract, 'invest', args);
+
+    it('should decode custom errors with their arguments', async () => {
+      revertWith(
+        contractInterface.encodeErrorResult('ExceedsMaxInvested', [7, 250]),
+      );
+
+      const error = (await simulate().catch(
+        (e: unknown) => e,
+      )) as ContractRevertError;
+
+      expect(error).toBeInstanceOf(ContractRevertError);
+      expect(error.message).toBe(
+        'invest would revert: ExceedsMaxInvested(7, 250)',
+      );
+      expect(error.errorName).toBe('ExceedsMaxInvested');
+      expect(error.errorArgs).toEqual([BigInt(7), BigInt(250)]);
+    });
+
+    it('should use the require message of Error(string)', async () => {
+      revertWith(
+        new ethers.Interface(['error Error(string)']).encodeErrorResult(
+          'Error',
+          ['Project is not open'],
+        ),
+      );
+
+      await expect(simulate()).rejects.toThrow(
+        'invest would revert: Project is not open',
+      );
+    });
+
+    it('should describe panics', async () => {
+      revertWith(
+        new ethers.Interface(['error Panic(uint256)']).encodeErrorResult(
+          'Panic',
+          [0x11],
+        ),
+      );
+
+      await expect(simulate()).rejects.toThrow(
+        'invest would revert: Panic due to OVERFLOW(17)',
+      );
+    });
+
+    it('should name the selector of errors missing from the ABI', async () => {
+      revertWith(
+        new ethers.Interface(['error Paused()']).encodeErrorResult('Paused'),
+      );
+
+      await expect(simulate()).rejects.toThrow(
+        `invest would revert: unknown custom error ${ethers.id('Paused()').slice(0, 10)}`,
+      );
+    });
+
+    it('should rethrow errors that are not reverts', async () => {
+      call.mockRejectedValue(new Error('connection refused'));
+
+      await expect(simulate()).rejects.toThrow('connection refused');
+    });
+
+    it('should not send a write that would revert', async () => {
+      revertWith(
+        contractInterface.encodeErrorResult('ExceedsMaxInvested', [7, 250]),
+      );
+
+      await expect(
+        service.executeContractMethod(contract, 'invest', args),
+      ).rejects.toThrow(ContractRevertError);
+      expect(mockEthersProviderService.estimateGas).not.toHaveBeenCalled();
+      expect(
+        mockEthersProviderService.broadcastTransaction,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('investor-signed transactions', () => {
+    const contractAddress = '0x0000000000000000000000000000000000000002';
+    const contract = new ethers.Contract(contractAddress, [
+      'function claimRefund(uint256 _idProject)',
+      'function claimWithdraw(uint256 _idProject)',
+    ]);
+    const investor = ethers.Wallet.createRandom().address;
+    const txHash = `0x${'ab'.repeat(32)}`;
+    const expected = {
+      methodName: 'claimRefund',
+      args: [BigInt(7)],
+      transactionType: 'REFUND' as const,
+    };
+
+    const sentTransaction = (overrides: Record<string, unknown> = {}) => ({
+      hash: txHash,
+      from: investor,
+      to: contractAddress,
+      nonce: 3,
+      value: BigInt(0),
+      data: contract.interface.encodeFunctionData('claimRefund', [7]),
+      ...overrides,
+    });
+
+    const getTransaction = jest.fn();
+
+    beforeEach(() => {
+      prisma.blockchainTransaction.findUnique.mockResolvedValue(null);
+      mockEthersProviderService.getProviderForChain.mockResolvedValue({
+        getTransaction,
+      });
+      getTransaction.mockResolvedValue(sentTransaction());
+    });
+
+    it('should build an unsigned call with a padded gas limit', async () => {
+      const unsigned = await service.buildUnsignedTransaction(
+        contract,
+        'claimRefund',
+        [BigInt(7)],
+        investor,
+        'eip155:4202',
+      );
+
+      expect(unsigned).toEqual({
+        to: contractAddress,
+        from: investor,
+        data: contract.interface.encodeFunctionData('claimRefund', [7]),
+        value: '0',
+        chainId: 4202,
+        caipChainId: 'eip155:4202',
+        gasLimit: '120000',
+        gasEstimateError: null,
+      });
+    });
+
+    it('should still build the call when gas estimation reverts', async () => {
+      mockEthersProviderService.estimateGas.mockRejectedValueOnce(
+        new Error('execution reverted'),
+      );
+
+      const unsigned = await service.buildUnsignedTransaction(
+        contract,
+        'claimRefund',
+        [BigInt(7)],
+        investor,
+        'eip155:4202',
+      );
+
+      expect(unsigned.gasLimit).toBeNull();
+      expect(unsigned.gasEstimateError).toBe('execution reverted');
+    });
+
+    it('should record a matching transaction as pending', async () => {
+      const record = await service.registerSignedTransaction(
+        contract,
+        txHash,
+        investor,
+        'eip155:4202',
+        expected,
+      );
+
+      expect(prisma.blockchainTransaction.create).toHaveBeenCalledWith({
+        data: {
+          transactionHash: txHash,
+          transactionType: 'REFUND',
+          status: 'PENDING',
+          chainId: 'eip155:4202',
+          fromAddress: investor,
+          toAddress: contractAddress,
+          nonce: 3,
+          eventData: undefined,
+        },
+      });
+      expect(record.status).toBe('PENDING');
+    });
+
+    it('should reject a transaction sent by another wallet', async () => {
+      getTransaction.mockResolvedValue(
+        sentTransaction({ from: wallet.address }),
+      );
+
+      await expect(
+        service.registerSignedTransaction(
+          contract,
+          txHash,
+          investor,
+          'eip155:4202',
+          expected,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.blockchainTransaction.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a call to another method or project', async () => {
+      getTransaction.mockResolvedValueOnce(
+        sentTransaction({
+          data: contract.interface.encodeFunctionData('claimWithdraw', [7]),
+        }),
+      );
+      getTransaction.mockResolvedValueOnce(
+        sentTransaction({
+          data: contract.interface.encodeFunctionData('claimRefund', [8]),
+        }),
+      );
+
+      for (let i = 0; i < 2; i++) {
+        await expect(
+          service.registerSignedTransaction(
+            contract,
+            txHash,
+            investor,
+            'eip155:4202',
+            expected,
+          ),
+        ).rejects.toThrow(BadRequestException);
+      }
+    });
+
+    it('should throw when the transaction is not on chain', async () => {
+      getTransaction.mockResolvedValue(null);
+
+      await expect(
+        service.registerSignedTransaction(
+          contract,
+          txHash,
+          investor,
+          'eip155:4202',
+          expected,
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should return the existing record when the hash is submitted again', async () => {
+      const existing = pendingRecord({
+        transactionHash: txHash,
+        transactionType: 'REFUND',
+        fromAddress: investor.toLowerCase(),
+      });
+      prisma.blockchainTransaction.findUnique.mockResolvedValue(existing);
+
+      await expect(
+        service.registerSignedTransaction(
+          contract,
+          txHash,
+          investor,
+          'eip155:4202',
+          expected,
+        ),
+      ).resolves.toBe(existing);
+      expect(getTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordInitiatedTransaction', () => {
+    it('should enrich the queued row with the receipt data', async () => {
+      prisma.blockchainTransaction.upsert.mockResolvedValue({ id: 'tx-1' });
+
+      await service.recordInitiatedTransaction(
+        {
+          hash: '0xTxHash',
+          receipt: null,
+          success: true,
+          blockNumber: 100,
+          gasUsed: BigInt(21000),
+          effectiveGasPrice: BigInt(1000000000),
+        },
+        {
+          transactionType: 'REFUND',
+          fromAddress: wallet.address,
+          eventData: '{"action":"markRefundable"}',
+        },
+      );
+
+      const data = {
+        transactionType: 'REFUND',
+        fromAddress: wallet.address,
+        eventData: '{"action":"markRefundable"}',
+        transactionHash: '0xTxHash',
+        status: 'CONFIRMED',
+        blockNumber: 100,
+        gasUsed: '21000',
+        gasPrice: '1000000000',
+      };
+      expect(prisma.blockchainTransaction.upsert).toHaveBeenCalledWith({
+        where: { transactionHash: '0xTxHash' },
+        update: data,
+        create: data,
+      });
+    });
+  });
+});
@@ -1,13 +1,31 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { ethers } from 'ethers';
-import { EthersProviderService } from './ethers-provider.service';
+import {
+  BlockchainTransaction,
+  Prisma,
+  TRANSACTION_TYPE,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  EthersProviderService,
+  parseCaip2ChainId,
+} from './ethers-provider.service';
 import { PlatformWalletService } from './platform-wallet.service';
 
 export interface TransactionOptions {
   gasLimit?: bigint;
   maxRetries?: number;
   confirmationBlocks?: number;
+  transactionType?: TRANSACTION_TYPE;
+  /** CAIP-2 chain to send on; defaults to the default AppProject's chain */
+  chainId?: string | null;
 }
 
 export interface TransactionResult {
@@ -19,15 +37,133 @@ export interface TransactionResult {
   effectiveGasPrice?: bigint;
 }
 
+/**
+ * What a service records about a contract call it sent, next to the receipt
+ * data; see TransactionService.recordInitiatedTransaction
+ */
+export interface InitiatedTransactionMeta {
+  transactionType: TRANSACTION_TYPE;
+  fromAddress: string;
+  toAddress?: string | null;
+  eventData?: string;
+}
+
+export interface ReplacementResult {
+  id: string;
+  transactionHash: string;
+  replacementHash: string;
+  replacementHashes: string[];
+  nonce: number;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+}
+
+/**
+ * Contract call for an external wallet (e.g. an investor) to sign and send
+ */
+export interface UnsignedTransaction {
+  to: string;
+  from: string;
+  data: string;
+  value: string;
+  /** EIP-155 chain id the wallet signs for */
+  chainId: number;
+  /** CAIP-2 form of chainId, e.g. "eip155:4202" */
+  caipChainId: string;
+  /** Gas estimate with the configured margin; null when estimation failed */
+  gasLimit: string | null;
+  gasEstimateError: string | null;
+}
+
+/**
+ * What a transaction signed by an external wallet must call
+ */
+export interface ExpectedContractCall {
+  methodName: string;
+  /** Expected arguments in order; undefined entries are not checked */
+  args: Array<string | bigint | undefined>;
+  transactionType: TRANSACTION_TYPE;
+  eventData?: string;
+}
+
+/**
+ * Thrown when a transaction was broadcast but no receipt arrived in time.
+ * It may still be mined; the receipt watcher settles it later.
+ */
+export class TransactionPendingError extends Error {
+  constructor(
+    public readonly transactionHash: string,
+    reason: string,
+  ) {
+    super(`Transaction ${transactionHash} is still pending: ${reason}`);
+    this.name = 'TransactionPendingError';
+  }
+}
+
+/**
+ * Thrown before signing when the platform wallet cannot pay for a
+ * transaction's gas, so nothing is queued or broadcast
+ */
+export class InsufficientGasError extends Error {
+  constructor(
+    public readonly walletAddress: string,
+    public readonly chainId: string,
+    public readonly balance: bigint,
+    public readonly required: bigint,
+  ) {
+    super(
+      `Platform wallet ${walletAddress} cannot cover gas on ${chainId}: ` +
+        `balance ${ethers.formatEther(balance)} ETH, needs ${ethers.formatEther(required)} ETH. ` +
+        'Top up the wallet before sending new transactions.',
+    );
+    this.name = 'InsufficientGasError';
+  }
+}
+
+/**
+ * Thrown when a contract call reverts in its staticCall dry run, so nothing
+ * was signed or broadcast. reason is the decoded revert: the require message,
+ * the custom error with its arguments, or the panic description.
+ */
+export class ContractRevertError extends Error {
+  constructor(
+    public readonly methodName: string,
+    public readonly reason: string,
+    public readonly errorName: string | null = null,
+    public readonly errorArgs: unknown[] = [],
+  ) {
+    super(`${methodName} would revert: ${reason}`);
+    this.name = 'ContractRevertError';
+  }
+}
+
+// Nodes reject same-nonce replacements that bump fees by less than 10%
+const MIN_FEE_BUMP_PERCENT = 10;
+const DEFAULT_FEE_BUMP_PERCENT = 15;
+
+/**
+ * Sends platform wallet transactions through a serialized outbound queue.
+ *
+ * Nonces are allocated locally, per chain, instead of letting the wallet pick
+ * them, so concurrent approvals never reuse a nonce. Every signed transaction is
+ * persisted as a PENDING BlockchainTransaction (with nonce and raw payload)
+ * before it is broadcast, which lets a restarted process re-broadcast what it
+ * had in flight and continue from the right nonce.
+ */
 @Injectable()
-export class TransactionService {
+export class TransactionService implements OnModuleInit {
   private readonly logger = new Logger(TransactionService.name);
   private readonly defaultMaxRetries: number;
   private readonly defaultConfirmationBlocks: number;
   private readonly gasLimitMultiplier: number;
 
+  private queue: Promise<unknown> = Promise.resolve();
+  // Keyed by CAIP-2 chain id; a missing entry is resynced on the next send
+  private nextNonces = new Map<string, number>();
+
   constructor(
     private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
     private readonly providerService: EthersProviderService,
     private readonly walletService: PlatformWalletService,
   ) {
@@ -39,6 +175,15 @@ export class TransactionService {
       this.configService.get<number>('BLOCKCHAIN_GAS_LIMIT_MULTIPLIER') || 1.2;
   }
 
+  async onModuleInit() {
+    try {
+      await this.walletService.waitForInit();
+      await this.enqueue(() => this.recoverPendingTransactions());
+    } catch (error) {
+      this.logger.error('Failed to recover pending transactions', error);
+    }
+  }
+
   async sendTransaction(
     transaction: ethers.TransactionRequest,
     options: TransactionOptions = {},
@@ -46,17 +191,20 @@ export class TransactionService {
     const maxRetries = options.maxRetries || this.defaultMaxRetries;
     const confirmationBlocks =
       options.confirmationBlocks || this.defaultConfirmationBlocks;
+    const chainId = options.chainId || this.providerService.getCaipChainId();
 
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
+      let sentHash: string | null = null;
+
       try {
         this.logger.log(
           `Sending transaction (attempt ${attempt + 1}/${maxRetries})`,
         );
 
         // Get current gas price with EIP-1559 support
-        const feeData = await this.providerService.getProvider().getFeeData();
+        const feeData = await this.providerService.getFeeData(chainId);
 
         // Get wallet address for 'from' field
         const walletAddress = this.walletService.getAddress();
@@ -71,8 +219,10 @@ export class TransactionService {
 
         // Estimate gas if not provided
         if (!options.gasLimit) {
-          const estimatedGas =
-            await this.providerService.estimateGas(txRequest);
+          const estimatedGas = await this.providerService.estimateGas(
+            txRequest,
+            chainId,
+          );
           txRequest.gasLimit = BigInt(
             Math.ceil(Number(estimatedGas) * this.gasLimitMultiplier),
           );
@@ -84,38 +234,42 @@ export class TransactionService {
           `Transaction config: gasLimit=${txRequest.gasLimit}, maxFeePerGas=${txRequest.maxFeePerGas}`,
         );
 
-        // Send transaction
-        const txResponse =
-          await this.walletService.sendTransaction(txRequest);
+        await this.assertCanCoverGas(txRequest, chainId);
 
-        this.logger.log(`Transaction sent: ${txResponse.hash}`);
+        // Allocate nonce, persist and broadcast through the queue
+        sentHash = await this.enqueue(() =>
+          this.signAndBroadcast(txRequest, chainId, options.transactionType),
+        );
+
+        this.logger.log(`Transaction sent: ${sentHash}`);
 
         // Wait for confirmation
         const receipt = await this.providerService.waitForTransaction(
-          txResponse.hash,
+          sentHash,
           confirmationBlocks,
+          undefined,
+          chainId,
         );
 
         if (!receipt) {
           throw new Error('Transaction receipt is null');
         }
 
+        await this.recordReceipt(receipt);
+
         const success = receipt.status === 1;
 
         if (!success) {
-          this.logger.error(
-            `Transaction failed: ${txResponse.hash}`,
-            receipt,
-          );
-          throw new Error(`Transaction reverted: ${txResponse.hash}`);
+          this.logger.error(`Transaction failed: ${sentHash}`, receipt);
+          throw new Error(`Transaction reverted: ${sentHash}`);
         }
 
         this.logger.log(
-          `Transaction confirmed: ${txResponse.hash} (Block: ${receipt.blockNumber})`,
+          `Transaction confirmed: ${sentHash} (Block: ${receipt.blockNumber})`,
         );
 
         return {
-          hash: txResponse.hash,
+          hash: sentHash,
           receipt,
           success: true,
           blockNumber: receipt.blockNumber,
@@ -124,10 +278,18 @@ export class TransactionService {
         };
       } catch (error) {
         lastError = error as Error;
-        this.logger.error(
-          `Transaction attempt ${attempt + 1} failed:`,
-          error,
-        );
+        this.logger.error(`Transaction attempt ${attempt + 1} failed:`, error);
+
+        // Retrying cannot help until the wallet is topped up
+        if (lastError instanceof InsufficientGasError) {
+          throw lastError;
+        }
+
+        // A broadcast tx without a receipt may still be mined; resending it
+        // with a new nonce would execute the call twice
+        if (sentHash && !lastError.message.startsWith('Transaction reverted')) {
+          throw new TransactionPendingError(sentHash, lastError.message);
+        }
 
         if (attempt < maxRetries - 1) {
           const delay = Math.pow(2, attempt) * 1000; // Exponential backoff
@@ -142,6 +304,36 @@ export class TransactionService {
     );
   }
 
+  /**
+   * Worst case cost of the transaction (gas limit at the max fee plus value)
+   * must be covered by the platform wallet balance
+   */
+  private async assertCanCoverGas(
+    txRequest: ethers.TransactionRequest,
+    chainId: string,
+  ): Promise<void> {
+    const maxFeePerGas = BigInt(
+      txRequest.maxFeePerGas ?? txRequest.gasPrice ?? 0,
+    );
+    const required =
+      BigInt(txRequest.gasLimit ?? 0) * maxFeePerGas +
+      BigInt(txRequest.value ?? 0);
+    const balance = await this.walletService.getBalance(chainId);
+
+    if (balance < required) {
+      throw new InsufficientGasError(
+        this.walletService.getAddress(),
+        chainId,
+        balance,
+        required,
+      );
+    }
+  }
+
+  /**
+   * Send a contract call. The contract's provider must belong to
+   * options.chainId (the default chain when omitted).
+   */
   async executeContractMethod(
     contract: ethers.Contract,
     methodName: string,
@@ -150,14 +342,90 @@ export class TransactionService {
   ): Promise<TransactionResult> {
     this.logger.log(`Executing contract method: ${methodName}`);
 
+    await this.simulateContractMethod(contract, methodName, args);
+
     // Populate transaction
-    const populatedTx = await contract[methodName].populateTransaction(
-      ...args,
-    );
+    const populatedTx = await contract[methodName].populateTransaction(...args);
 
     return await this.sendTransaction(populatedTx, options);
   }
 
+  /**
+   * Dry-run a contract write with staticCall from the contract's signer.
+   * A revert is thrown as ContractRevertError with its reason decoded
+   * against the contract ABI; other failures (RPC errors) are rethrown.
+   */
+  async simulateContractMethod(
+    contract: ethers.Contract,
+    methodName: string,
+    args: unknown[],
+  ): Promise<unknown> {
+    this.logger.debug(`Simulating contract method: ${methodName}`);
+
+    try {
+      return await contract[methodName].staticCall(...args);
+    } catch (error) {
+      if (ethers.isError(error, 'CALL_EXCEPTION')) {
+        const revert = this.decodeRevert(contract, methodName, error);
+        this.logger.warn(revert.message);
+        throw revert;
+      }
+      throw error;
+    }
+  }
+
+  private decodeRevert(
+    contract: ethers.Contract,
+    methodName: string,
+    error: ethers.CallExceptionError,
+  ): ContractRevertError {
+    const data = error.data ? ethers.hexlify(error.data) : '0x';
+    let revert = error.revert;
+
+    // Custom errors ethers could not match while building the exception
+    if (!revert && data !== '0x') {
+      try {
+        const parsed = contract.interface.parseError(data);
+        if (parsed) {
+          revert = {
+            name: parsed.name,
+            signature: parsed.signature,
+            args: Array.from(parsed.args),
+          };
+        }
+      } catch {
+        // Selector not in the ABI
+      }
+    }
+
+    if (!revert) {
+      const reason =
+        data !== '0x'
+          ? `unknown custom error ${data.slice(0, 10)}`
+          : error.reason || 'execution reverted without a reason';
+      return new ContractRevertError(methodName, reason);
+    }
+
+    const args = Array.from(revert.args as unknown[]);
+
+    // Error(string) and Panic(uint256) already carry a readable reason
+    if (revert.name === 'Error' || revert.name === 'Panic') {
+      return new ContractRevertError(
+        methodName,
+        error.reason || String(args[0]),
+        revert.name,
+        args,
+      );
+    }
+
+    return new ContractRevertError(
+      methodName,
+      `${revert.name}(${args.map((arg) => String(arg)).join(', ')})`,
+      revert.name,
+      args,
+    );
+  }
+
   async callContractMethod(
     contract: ethers.Contract,
     methodName: string,
@@ -174,6 +442,543 @@ export class TransactionService {
     }
   }
 
+  /**
+   * Encode a contract call for an external wallet to sign. The gas estimate
+   * is best effort: a call that would revert (e.g. missing token allowance)
+   * still returns its payload with gasEstimateError set.
+   */
+  async buildUnsignedTransaction(
+    contract: ethers.Contract,
+    methodName: string,
+    args: unknown[],
+    from: string,
+    chainId: string,
+  ): Promise<UnsignedTransaction> {
+    const to = await contract.getAddress();
+    const data = contract.interface.encodeFunctionData(methodName, args);
+
+    let gasLimit: string | null = null;
+    let gasEstimateError: string | null = null;
+
+    try {
+      const estimatedGas = await this.providerService.estimateGas(
+        { to, from, data },
+        chainId,
+      );
+      gasLimit = BigInt(
+        Math.ceil(Number(estimatedGas) * this.gasLimitMultiplier),
+      ).toString();
+    } catch (error) {
+      gasEstimateError = (error as Error).message;
+      this.logger.warn(
+        `Gas estimation for ${methodName} from ${from} failed: ${gasEstimateError}`,
+      );
+    }
+
+    return {
+      to,
+      from,
+      data,
+      value: '0',
+      chainId: parseCaip2ChainId(chainId),
+      caipChainId: chainId,
+      gasLimit,
+      gasEstimateError,
+    };
+  }
+
+  /**
+   * Record a transaction an external wallet signed and broadcast itself.
+   *
+   * The transaction is fetched from the chain and must be the expected call,
+   * sent by `from` to the contract. It is stored as a PENDING
+   * BlockchainTransaction for the receipt watcher to settle. Submitting the
+   * same hash again returns the existing record.
+   */
+  async registerSignedTransaction(
+    contract: ethers.Contract,
+    transactionHash: string,
+    from: string,
+    chainId: string,
+    expected: ExpectedContractCall,
+  ): Promise<BlockchainTransaction> {
+    const existing = await this.prisma.blockchainTransaction.findUnique({
+      where: { transactionHash },
+    });
+
+    if (existing) {
+      if (
+        existing.fromAddress.toLowerCase() !== from.toLowerCase() ||
+        existing.transactionType !== expected.transactionType
+      ) {
+        throw new BadRequestException(
+          `Transaction ${transactionHash} is already linked to another action`,
+        );
+      }
+      return existing;
+    }
+
+    const provider = await this.providerService.getProviderForChain(chainId);
+    const tx = await provider.getTransaction(transactionHash);
+
+    if (!tx) {
+      throw new NotFoundException(
+        `Transaction ${transactionHash} not found on ${chainId}`,
+      );
+    }
+
+    const contractAddress = await contract.getAddress();
+
+    if (tx.from.toLowerCase() !== from.toLowerCase()) {
+      throw new BadRequestException(
+        `Transaction was sent by ${tx.from}, expected ${from}`,
+      );
+    }
+
+    if (tx.to?.toLowerCase() !== contractAddress.toLowerCase()) {
+      throw new BadRequestException(
+        `Transaction was sent to ${tx.to}, expected contract ${contractAddress}`,
+      );
+    }
+
+    const parsed = contract.interface.parseTransaction({
+      data: tx.data,
+      value: tx.value,
+    });
+
+    if (!parsed || parsed.name !== expected.methodName) {
+      throw new BadRequestException(
+        `Transaction calls ${parsed?.name ?? 'an unknown function'}, expected ${expected.methodName}`,
+      );
+    }
+
+    expected.args.forEach((arg, index) => {
+      if (arg !== undefined && String(parsed.args[index]) !== String(arg)) {
+        throw new BadRequestException(
+          `Argument ${index} of ${expected.methodName} is ${parsed.args[index]}, expected ${String(arg)}`,
+        );
+      }
+    });
+
+    const record = await this.prisma.blockchainTransaction.create({
+      data: {
+        transactionHash,
+        transactionType: expected.transactionType,
+        status: 'PENDING',
+        chainId,
+        fromAddress: tx.from,
+        toAddress: contractAddress,
+        nonce: tx.nonce,
+        eventData: expected.eventData,
+      },
+    });
+
+    this.logger.log(
+      `Registered ${expected.methodName} transaction ${transactionHash} signed by ${tx.from}`,
+    );
+
+    return record;
+  }
+
+  /**
+   * Re-check transactions left PENDING by a previous process on any chain:
+   * record the receipt of those already mined and re-broadcast the rest
+   */
+  async recoverPendingTransactions(): Promise<void> {
+    const fromAddress = this.walletService.getAddress();
+
+    const pending = await this.prisma.blockchainTransaction.findMany({
+      where: {
+        fromAddress,
+        status: 'PENDING',
+        nonce: { not: null },
+        deleted: false,
+      },
+      orderBy: { nonce: 'asc' },
+    });
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    this.logger.log(`Recovering ${pending.length} pending transactions`);
+
+    for (const tx of pending) {
+      try {
+        const receipt = await this.findReceipt(tx);
+
+        if (receipt) {
+          await this.recordReceipt(receipt);
+          continue;
+        }
+
+        if (!tx.rawTransaction) {
+          continue;
+        }
+
+        await this.providerService.broadcastTransaction(
+          tx.rawTransaction,
+          tx.chainId,
+        );
+        this.logger.log(
+          `Re-broadcast transaction ${tx.transactionHash} (nonce ${tx.nonce})`,
+        );
+      } catch (error) {
+        if (this.isAlreadyKnown(error)) {
+          continue;
+        }
+
+        if (ethers.isError(error, 'NONCE_EXPIRED')) {
+          await this.prisma.blockchainTransaction.update({
+            where: { id: tx.id },
+            data: {
+              status: 'FAILED',
+              errorMessage: `Nonce ${tx.nonce} was used by another transaction`,
+            },
+          });
+          continue;
+        }
+
+        this.logger.error(
+          `Failed to recover transaction ${tx.transactionHash}`,
+          error,
+        );
+      }
+    }
+
+    // Re-derive nonces from chain and database on the next send
+    this.nextNonces.clear();
+  }
+
+  /**
+   * Re-broadcast a pending transaction with the same nonce and call data
+   * but higher EIP-1559 fees
+   */
+  async speedUpTransaction(
+    id: string,
+    feeBumpPercent = DEFAULT_FEE_BUMP_PERCENT,
+  ): Promise<ReplacementResult> {
+    return await this.enqueue(() =>
+      this.replaceTransaction(id, 'speed-up', feeBumpPercent),
+    );
+  }
+
+  /**
+   * Replace a pending transaction with a zero-value transfer to the platform
+   * wallet using the same nonce, so the original call can never be mined
+   */
+  async cancelTransaction(
+    id: string,
+    feeBumpPercent = DEFAULT_FEE_BUMP_PERCENT,
+  ): Promise<ReplacementResult> {
+    return await this.enqueue(() =>
+      this.replaceTransaction(id, 'cancel', feeBumpPercent),
+    );
+  }
+
+  private async replaceTransaction(
+    id: string,
+    mode: 'speed-up' | 'cancel',
+    feeBumpPercent: number,
+  ): Promise<ReplacementResult> {
+    const record = await this.prisma.blockchainTransaction.findUnique({
+      where: { id },
+    });
+
+    if (!record) {
+      throw new NotFoundException(`Blockchain transaction ${id} not found`);
+    }
+
+    if (
+      record.status !== 'PENDING' ||
+      record.nonce === null ||
+      !record.rawTransaction
+    ) {
+      throw new BadRequestException(
+        'Only pending transactions sent by the transaction queue can be replaced',
+      );
+    }
+
+    const receipt = await this.findReceipt(record);
+    if (receipt) {
+      await this.recordReceipt(receipt);
+      throw new BadRequestException(
+        `Transaction already mined in block ${receipt.blockNumber}`,
+      );
+    }
+
+    const bump = BigInt(Math.max(feeBumpPercent, MIN_FEE_BUMP_PERCENT));
+    const previous = ethers.Transaction.from(record.rawTransaction);
+    const feeData = await this.providerService.getFeeData(record.chainId);
+
+    const bumpFee = (old: bigint | null, network: bigint | null) => {
+      const bumped = ((old ?? BigInt(0)) * (BigInt(100) + bump)) / BigInt(100);
+      return network !== null && network > bumped ? network : bumped;
+    };
+
+    const maxPriorityFeePerGas = bumpFee(
+      previous.maxPriorityFeePerGas,
+      feeData.maxPriorityFeePerGas,
+    );
+    const bumpedMaxFee = bumpFee(previous.maxFeePerGas, feeData.maxFeePerGas);
+    const maxFeePerGas =
+      bumpedMaxFee > maxPriorityFeePerGas ? bumpedMaxFee : maxPriorityFeePerGas;
+    const walletAddress = this.walletService.getAddress();
+
+    const replacement: ethers.TransactionRequest =
+      mode === 'cancel'
+        ? { to: walletAddress, value: BigInt(0), data: '0x', gasLimit: 21000 }
+        : {
+            to: previous.to,
+            value: previous.value,
+            data: previous.data,
+            gasLimit: previous.gasLimit,
+          };
+
+    const rawTransaction = await this.walletService.signTransaction({
+      ...replacement,
+      type: 2,
+      chainId: previous.chainId,
+      nonce: record.nonce,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+    });
+    const replacementHash = ethers.Transaction.from(rawTransaction).hash;
+
+    if (!replacementHash) {
+      throw new Error('Failed to compute transaction hash');
+    }
+
+    await this.providerService.broadcastTransaction(
+      rawTransaction,
+      record.chainId,
+    );
+
+    this.logger.log(
+      `Broadcast ${mode} ${replacementHash} for ${record.transactionHash} (nonce ${record.nonce})`,
+    );
+
+    const updated = await this.prisma.blockchainTransaction.update({
+      where: { id },
+      data: {
+        rawTransaction,
+        replacementHashes: { push: replacementHash },
+        errorMessage:
+          mode === 'cancel'
+            ? `Cancellation requested via ${replacementHash}`
+            : null,
+      },
+    });
+
+    return {
+      id,
+      transactionHash: record.transactionHash,
+      replacementHash,
+      replacementHashes: updated.replacementHashes,
+      nonce: record.nonce,
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+    };
+  }
+
+  /**
+   * Run tasks one at a time; a failing task does not block the next one
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Allocate the next nonce, sign, persist as PENDING and broadcast.
+   * Must only run inside the queue.
+   */
+  private async signAndBroadcast(
+    txRequest: ethers.TransactionRequest,
+    chainId: string,
+    transactionType: TRANSACTION_TYPE = 'CONTRACT_CALL',
+  ): Promise<string> {
+    const nonce = await this.allocateNonce(chainId);
+
+    const populated = await this.walletService.populateTransaction(
+      {
+        ...txRequest,
+        nonce,
+      },
+      chainId,
+    );
+    const rawTransaction = await this.walletService.signTransaction(populated);
+    const transactionHash = ethers.Transaction.from(rawTransaction).hash;
+
+    if (!transactionHash) {
+      throw new Error('Failed to compute transaction hash');
+    }
+
+    const record = await this.prisma.blockchainTransaction.create({
+      data: {
+        transactionHash,
+        transactionType,
+        status: 'PENDING',
+        chainId,
+        fromAddress: this.walletService.getAddress(),
+        toAddress: populated.to ?? null,
+        nonce,
+        rawTransaction,
+      },
+    });
+
+    try {
+      await this.providerService.broadcastTransaction(rawTransaction, chainId);
+    } catch (error) {
+      // The nonce was not consumed (or was taken elsewhere); resync next time
+      this.nextNonces.delete(chainId);
+
+      await this.prisma.blockchainTransaction.update({
+        where: { id: record.id },
+        data: {
+          status: 'FAILED',
+          errorMessage: (error as Error).message,
+        },
+      });
+
+      throw error;
+    }
+
+    this.nextNonces.set(chainId, nonce + 1);
+    return transactionHash;
+  }
+
+  /**
+   * Next nonce: the locally tracked one, or after a restart/failure the
+   * higher of the chain's pending count and the highest nonce still PENDING
+   * in the database
+   */
+  private async allocateNonce(chainId: string): Promise<number> {
+    const tracked = this.nextNonces.get(chainId);
+    if (tracked !== undefined) {
+      return tracked;
+    }
+
+    const chainNonce = await this.walletService.getNonce('pending', chainId);
+
+    const lastPending = await this.prisma.blockchainTransaction.findFirst({
+      where: {
+        chainId,
+        fromAddress: this.walletService.getAddress(),
+        status: 'PENDING',
+        nonce: { not: null },
+        deleted: false,
+      },
+      orderBy: { nonce: 'desc' },
+    });
+
+    const persistedNonce =
+      lastPending?.nonce !== null && lastPending?.nonce !== undefined
+        ? lastPending.nonce + 1
+        : 0;
+
+    const nextNonce = Math.max(chainNonce, persistedNonce);
+    this.nextNonces.set(chainId, nextNonce);
+    this.logger.log(`Nonce on ${chainId} synchronized at ${nextNonce}`);
+
+    return nextNonce;
+  }
+
+  /**
+   * Receipt of the original transaction or any of its replacements
+   */
+  async findReceipt(
+    record: BlockchainTransaction,
+  ): Promise<ethers.TransactionReceipt | null> {
+    for (const hash of [record.transactionHash, ...record.replacementHashes]) {
+      const receipt = await this.providerService.getTransactionReceipt(
+        hash,
+        record.chainId,
+      );
+      if (receipt) {
+        return receipt;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Store the receipt on the record it belongs to; the mined hash may be a
+   * speed-up or cancel replacement of the original transaction
+   */
+  async recordReceipt(
+    receipt: ethers.TransactionReceipt,
+  ): Promise<BlockchainTransaction | null> {
+    const record = await this.prisma.blockchainTransaction.findFirst({
+      where: {
+        OR: [
+          { transactionHash: receipt.hash },
+          { replacementHashes: { has: receipt.hash } },
+        ],
+      },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    // A cancel replacement is a transfer from the wallet to itself
+    const cancelled =
+      receipt.hash !== record.transactionHash &&
+      receipt.to?.toLowerCase() === receipt.from.toLowerCase() &&
+      record.toAddress?.toLowerCase() !== receipt.to?.toLowerCase();
+
+    let errorMessage: string | null = null;
+    if (cancelled) {
+      errorMessage = `Cancelled by replacement transaction ${receipt.hash}`;
+    } else if (receipt.status !== 1) {
+      errorMessage = 'Transaction reverted';
+    }
+
+    return await this.prisma.blockchainTransaction.update({
+      where: { id: record.id },
+      data: {
+        status: receipt.status === 1 && !cancelled ? 'CONFIRMED' : 'FAILED',
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        gasPrice: receipt.gasPrice.toString(),
+        errorMessage,
+      },
+    });
+  }
+
+  /**
+   * Store the outcome of a contract call sent through the queue. The queue
+   * already created the row when it broadcast, so it is enriched; it is
+   * created if missing.
+   */
+  async recordInitiatedTransaction(
+    result: TransactionResult,
+    meta: InitiatedTransactionMeta,
+  ): Promise<BlockchainTransaction> {
+    const data: Prisma.BlockchainTransactionCreateInput = {
+      ...meta,
+      transactionHash: result.hash,
+      status: result.success ? 'CONFIRMED' : 'FAILED',
+      blockNumber: result.blockNumber || null,
+      gasUsed: result.gasUsed?.toString(),
+      gasPrice: result.effectiveGasPrice?.toString(),
+    };
+
+    return await this.prisma.blockchainTransaction.upsert({
+      where: { transactionHash: result.hash },
+      update: data,
+      create: data,
+    });
+  }
+
+  private isAlreadyKnown(error: unknown): boolean {
+    const message = (error as Error)?.message?.toLowerCase() ?? '';
+    return message.includes('already known');
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
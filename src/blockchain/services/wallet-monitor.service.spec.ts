@@ -0,0 +1,147 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import {
+  WALLET_ALERT_CHANNEL,
+  WalletMonitorService,
+} from './wallet-monitor.service';
+import { EthersProviderService } from './ethers-provider.service';
+import { PlatformWalletService } from './platform-wallet.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationsService } from '../../modules/notifications/notifications.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+describe('WalletMonitorService', () => {
+  let service: WalletMonitorService;
+  let prisma: typeof mockPrismaService;
+
+  const mockProviderService = {
+    getCaipChainId: jest.fn().mockReturnValue('eip155:4202'),
+    getFeeData: jest.fn(),
+  };
+
+  const mockWalletService = {
+    getAddress: jest.fn().mockReturnValue('0xPlatformWalletAddress'),
+    getBalance: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    publishToChannel: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WalletMonitorService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: EthersProviderService, useValue: mockProviderService },
+        { provide: PlatformWalletService, useValue: mockWalletService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<WalletMonitorService>(WalletMonitorService);
+    prisma = mockPrismaService;
+
+    // 1 gwei max fee
+    mockProviderService.getFeeData.mockResolvedValue({
+      maxFeePerGas: BigInt(1000000000),
+      gasPrice: BigInt(500000000),
+    });
+    mockWalletService.getBalance.mockResolvedValue(ethers.parseEther('0.1'));
+    prisma.blockchainTransaction.findMany.mockResolvedValue([]);
+    prisma.walletBalanceSnapshot.findFirst.mockResolvedValue({ level: 'OK' });
+    prisma.walletBalanceSnapshot.create.mockImplementation(
+      ({ data }: { data: Record<string, unknown> }) =>
+        Promise.resolve({ id: 'snapshot-1', createdAt: new Date(), ...data }),
+    );
+  });
+
+  describe('checkBalance', () => {
+    it('should record the balance and the operations it still pays for', async () => {
+      prisma.blockchainTransaction.findMany
+        .mockResolvedValueOnce([{ gasUsed: '400000' }, { gasUsed: '200000' }])
+        .mockResolvedValueOnce([]);
+
+      const result = await service.checkBalance();
+
+      expect(prisma.walletBalanceSnapshot.create).toHaveBeenCalledWith({
+        data: {
+          chainId: 'eip155:4202',
+          walletAddress: '0xPlatformWalletAddress',
+          balance: '100000000000000000',
+          gasPrice: '1000000000',
+          mintGas: 300000,
+          refundGas: 150000,
+          mintsRemaining: 333,
+          refundsRemaining: 666,
+          level: 'OK',
+        },
+      });
+      expect(result.balance).toBe('0.1');
+      expect(mockNotificationsService.publishToChannel).not.toHaveBeenCalled();
+    });
+
+    it('should alert when the balance drops below the low threshold', async () => {
+      mockWalletService.getBalance.mockResolvedValue(ethers.parseEther('0.02'));
+
+      const result = await service.checkBalance();
+
+      expect(result.level).toBe('LOW');
+      expect(mockNotificationsService.publishToChannel).toHaveBeenCalledWith(
+        WALLET_ALERT_CHANNEL,
+        'Platform wallet balance alerts',
+        'Platform wallet balance low',
+        expect.stringContaining('enough for about 57 mints or 133 refunds'),
+      );
+    });
+
+    it('should not repeat the alert while the level is unchanged', async () => {
+      mockWalletService.getBalance.mockResolvedValue(ethers.parseEther('0.02'));
+      prisma.walletBalanceSnapshot.findFirst.mockResolvedValue({
+        level: 'LOW',
+      });
+
+      await service.checkBalance();
+
+      expect(mockNotificationsService.publishToChannel).not.toHaveBeenCalled();
+    });
+
+    it('should be critical when a single mint is no longer covered', async () => {
+      mockWalletService.getBalance.mockResolvedValue(ethers.parseEther('0.02'));
+      mockProviderService.getFeeData.mockResolvedValue({
+        maxFeePerGas: BigInt(100000000000),
+        gasPrice: null,
+      });
+
+      const result = await service.checkBalance();
+
+      expect(result.mintsRemaining).toBe(0);
+      expect(result.level).toBe('CRITICAL');
+      expect(mockNotificationsService.publishToChannel).toHaveBeenCalledWith(
+        WALLET_ALERT_CHANNEL,
+        expect.any(String),
+        'Platform wallet balance critical',
+        expect.any(String),
+      );
+    });
+
+    it('should announce when the balance is restored', async () => {
+      prisma.walletBalanceSnapshot.findFirst.mockResolvedValue({
+        level: 'CRITICAL',
+      });
+
+      await service.checkBalance();
+
+      expect(mockNotificationsService.publishToChannel).toHaveBeenCalledWith(
+        WALLET_ALERT_CHANNEL,
+        expect.any(String),
+        'Platform wallet balance restored',
+        expect.any(String),
+      );
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  TRANSACTION_STATUS,
+  TRANSACTION_TYPE,
+  WALLET_BALANCE_LEVEL,
+  WalletBalanceSnapshot,
+} from '@prisma/client';
+import { ethers } from 'ethers';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  PaginatedResponseDto,
+  PaginationDto,
+} from '../../common/dto/pagination.dto';
+import { NotificationsService } from '../../modules/notifications/notifications.service';
+import { EthersProviderService } from './ethers-provider.service';
+import { PlatformWalletService } from './platform-wallet.service';
+
+export interface WalletBalanceStatus {
+  chainId: string;
+  walletAddress: string;
+  balance: string;
+  balanceWei: string;
+  gasPrice: string;
+  mintGas: number;
+  refundGas: number;
+  mintsRemaining: number;
+  refundsRemaining: number;
+  level: WALLET_BALANCE_LEVEL;
+  checkedAt: Date;
+}
+
+export const WALLET_ALERT_CHANNEL = 'platform_wallet_balance';
+
+const MINT_TYPES: TRANSACTION_TYPE[] = [
+  TRANSACTION_TYPE.MINT_FARMER_NFT,
+  TRANSACTION_TYPE.CREATE_PROJECT,
+];
+
+// Confirmed transactions averaged for the gas used per operation
+const GAS_SAMPLE_SIZE = 20;
+
+/**
+ * Tracks the platform wallet balance on the default chain.
+ *
+ * Every check is recorded as a WalletBalanceSnapshot together with how many
+ * mints and refunds the balance still pays for at the current max fee, using
+ * the average gas of recent confirmed transactions. When the level changes
+ * (OK, LOW, CRITICAL) an alert is published to the platform_wallet_balance
+ * notification channel.
+ */
+@Injectable()
+export class WalletMonitorService {
+  private readonly logger = new Logger(WalletMonitorService.name);
+  private readonly lowBalance: bigint;
+  private readonly criticalBalance: bigint;
+  private readonly defaultMintGas: number;
+  private readonly defaultRefundGas: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly providerService: EthersProviderService,
+    private readonly walletService: PlatformWalletService,
+    private readonly notificationsService: NotificationsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.lowBalance = ethers.parseEther(
+      this.configService.get<string>('WALLET_LOW_BALANCE_ETH') || '0.05',
+    );
+    this.criticalBalance = ethers.parseEther(
+      this.configService.get<string>('WALLET_CRITICAL_BALANCE_ETH') || '0.01',
+    );
+    this.defaultMintGas =
+      Number(this.configService.get<number>('WALLET_MINT_GAS_ESTIMATE')) ||
+      350000;
+    this.defaultRefundGas =
+      Number(this.configService.get<number>('WALLET_REFUND_GAS_ESTIMATE')) ||
+      150000;
+  }
+
+  /**
+   * Read the balance, record a snapshot and alert if the level changed
+   */
+  async checkBalance(): Promise<WalletBalanceStatus> {
+    const chainId = this.providerService.getCaipChainId();
+    const walletAddress = this.walletService.getAddress();
+
+    const [balance, feeData, mintGas, refundGas, previous] = await Promise.all([
+      this.walletService.getBalance(),
+      this.providerService.getFeeData(),
+      this.averageGasUsed(MINT_TYPES, this.defaultMintGas),
+      this.averageGasUsed([TRANSACTION_TYPE.REFUND], this.defaultRefundGas),
+      this.prisma.walletBalanceSnapshot.findFirst({
+        where: { walletAddress },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    // Transactions reserve gas at the max fee, not the base fee
+    const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? BigInt(0);
+    const mintsRemaining = this.operationsRemaining(balance, mintGas, gasPrice);
+    const refundsRemaining = this.operationsRemaining(
+      balance,
+      refundGas,
+      gasPrice,
+    );
+    const level = this.levelOf(balance, mintsRemaining);
+
+    const snapshot = await this.prisma.walletBalanceSnapshot.create({
+      data: {
+        chainId,
+        walletAddress,
+        balance: balance.toString(),
+        gasPrice: gasPrice.toString(),
+        mintGas,
+        refundGas,
+        mintsRemaining,
+        refundsRemaining,
+        level,
+      },
+    });
+
+    const status = this.toStatus(snapshot);
+
+    if (level !== (previous?.level ?? WALLET_BALANCE_LEVEL.OK)) {
+      await this.alert(status);
+    }
+
+    return status;
+  }
+
+  async getHistory(
+    pagination: PaginationDto,
+  ): Promise<PaginatedResponseDto<WalletBalanceStatus>> {
+    const { page = 1, limit = 10 } = pagination;
+    const skip = (page - 1) * limit;
+    const where = { walletAddress: this.walletService.getAddress() };
+
+    const [data, total] = await Promise.all([
+      this.prisma.walletBalanceSnapshot.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.walletBalanceSnapshot.count({ where }),
+    ]);
+
+    return new PaginatedResponseDto(
+      data.map((snapshot) => this.toStatus(snapshot)),
+      total,
+      page,
+      limit,
+    );
+  }
+
+  private async averageGasUsed(
+    transactionTypes: TRANSACTION_TYPE[],
+    fallback: number,
+  ): Promise<number> {
+    const transactions = await this.prisma.blockchainTransaction.findMany({
+      where: {
+        transactionType: { in: transactionTypes },
+        status: TRANSACTION_STATUS.CONFIRMED,
+        gasUsed: { not: null },
+        deleted: false,
+      },
+      select: { gasUsed: true },
+      orderBy: { createdAt: 'desc' },
+      take: GAS_SAMPLE_SIZE,
+    });
+
+    if (transactions.length === 0) {
+      return fallback;
+    }
+
+    const total = transactions.reduce(
+      (sum, transaction) => sum + Number(transaction.gasUsed),
+      0,
+    );
+
+    return Math.ceil(total / transactions.length);
+  }
+
+  private operationsRemaining(
+    balance: bigint,
+    gas: number,
+    gasPrice: bigint,
+  ): number {
+    const cost = BigInt(gas) * gasPrice;
+    return cost > BigInt(0) ? Number(balance / cost) : 0;
+  }
+
+  private levelOf(
+    balance: bigint,
+    mintsRemaining: number,
+  ): WALLET_BALANCE_LEVEL {
+    if (balance < this.criticalBalance || mintsRemaining < 1) {
+      return WALLET_BALANCE_LEVEL.CRITICAL;
+    }
+
+    if (balance < this.lowBalance) {
+      return WALLET_BALANCE_LEVEL.LOW;
+    }
+
+    return WALLET_BALANCE_LEVEL.OK;
+  }
+
+  private async alert(status: WalletBalanceStatus): Promise<void> {
+    const title =
+      status.level === WALLET_BALANCE_LEVEL.OK
+        ? 'Platform wallet balance restored'
+        : `Platform wallet balance ${status.level.toLowerCase()}`;
+    const body =
+      `Wallet ${status.walletAddress} on ${status.chainId} holds ${status.balance} ETH, ` +
+      `enough for about ${status.mintsRemaining} mints or ${status.refundsRemaining} refunds at current gas prices.`;
+
+    if (status.level === WALLET_BALANCE_LEVEL.OK) {
+      this.logger.log(`${title}: ${body}`);
+    } else {
+      this.logger.warn(`${title}: ${body}`);
+    }
+
+    try {
+      await this.notificationsService.publishToChannel(
+        WALLET_ALERT_CHANNEL,
+        'Platform wallet balance alerts',
+        title,
+        body,
+      );
+    } catch (error) {
+      this.logger.error('Failed to publish wallet balance alert', error);
+    }
+  }
+
+  private toStatus(snapshot: WalletBalanceSnapshot): WalletBalanceStatus {
+    return {
+      chainId: snapshot.chainId,
+      walletAddress: snapshot.walletAddress,
+      balance: ethers.formatEther(snapshot.balance),
+      balanceWei: snapshot.balance,
+      gasPrice: snapshot.gasPrice,
+      mintGas: snapshot.mintGas,
+      refundGas: snapshot.refundGas,
+      mintsRemaining: snapshot.mintsRemaining,
+      refundsRemaining: snapshot.refundsRemaining,
+      level: snapshot.level,
+      checkedAt: snapshot.createdAt,
+    };
+  }
+}
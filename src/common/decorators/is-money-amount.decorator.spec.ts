@@ -0,0 +1,46 @@
+import { validate } from 'class-validator';
+import { IsMoneyAmount } from './is-money-amount.decorator';
+
+class AmountDto {
+  @IsMoneyAmount()
+  amount: unknown;
+
+  @IsMoneyAmount({ decimals: 2, allowZero: true })
+  fee: unknown = '0';
+}
+
+async function errorsFor(values: Partial<AmountDto>) {
+  const dto = Object.assign(new AmountDto(), values);
+  const errors = await validate(dto);
+  return errors.map((error) => error.property);
+}
+
+describe('IsMoneyAmount', () => {
+  it('should accept clean decimal strings', async () => {
+    expect(await errorsFor({ amount: '10000' })).toEqual([]);
+    expect(await errorsFor({ amount: '0.000000000000000001' })).toEqual([]);
+    expect(await errorsFor({ amount: '1', fee: '12.34' })).toEqual([]);
+  });
+
+  it.each([0, 10000, '0', '-5', '1e3', '1,000', '0.0000000000000000001', ''])(
+    'should reject amount %p',
+    async (amount) => {
+      expect(await errorsFor({ amount })).toEqual(['amount']);
+    },
+  );
+
+  it('should honour decimals and allowZero', async () => {
+    expect(await errorsFor({ amount: '1', fee: '0.001' })).toEqual(['fee']);
+  });
+
+  it('should explain the expected format', async () => {
+    const [error] = await validate(
+      Object.assign(new AmountDto(), { amount: '-1' }),
+    );
+
+    expect(error.constraints).toEqual({
+      isMoneyAmount:
+        'amount must be a positive decimal string with at most 18 decimal places',
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { registerDecorator, ValidationOptions } from 'class-validator';
+import {
+  DEFAULT_DECIMALS,
+  InvalidMoneyError,
+  Money,
+} from '../utils/money.util';
+
+export interface MoneyAmountOptions {
+  /** Most fraction digits accepted, defaults to DEFAULT_DECIMALS */
+  decimals?: number;
+  allowZero?: boolean;
+}
+
+// Plain notation only: no sign, exponent or separators
+const PLAIN_DECIMAL = /^\d+(\.\d+)?$/;
+
+/**
+ * Amount given as a clean decimal string such as "10000" or "2500.75".
+ *
+ * Services still parse it with the project's own token decimals, which may
+ * be fewer than the default accepted here.
+ */
+export function IsMoneyAmount(
+  options: MoneyAmountOptions = {},
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  const decimals = options.decimals ?? DEFAULT_DECIMALS;
+
+  return (object: object, propertyName: string | symbol) => {
+    registerDecorator({
+      name: 'isMoneyAmount',
+      target: object.constructor,
+      propertyName: propertyName as string,
+      constraints: [decimals, options.allowZero ?? false],
+      options: validationOptions,
+      validator: {
+        validate(value: unknown) {
+          if (typeof value !== 'string' || !PLAIN_DECIMAL.test(value)) {
+            return false;
+          }
+
+          try {
+            const amount = Money.parse(value, decimals);
+            return options.allowZero || !amount.isZero();
+          } catch (error) {
+            if (error instanceof InvalidMoneyError) {
+              return false;
+            }
+            throw error;
+          }
+        },
+        defaultMessage() {
+          return `${String(propertyName)} must be a ${options.allowZero ? 'non-negative' : 'positive'} decimal string with at most ${decimals} decimal places`;
+        },
+      },
+    });
+  };
+}
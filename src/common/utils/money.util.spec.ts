@@ -0,0 +1,226 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  InvalidMoneyError,
+  Money,
+  Rounding,
+  parseAmount,
+  projectDecimals,
+} from './money.util';
+
+describe('Money', () => {
+  describe('parse', () => {
+    it('should parse decimal strings exactly', () => {
+      expect(Money.parse('10000').toUnits()).toBe(
+        BigInt('10000000000000000000000'),
+      );
+      expect(Money.parse('0.000000000000000001').toUnits()).toBe(BigInt(1));
+      expect(Money.parse('123456789012345678901234.5', 1).toUnits()).toBe(
+        BigInt('1234567890123456789012345'),
+      );
+    });
+
+    it('should keep IDR amounts beyond float precision', () => {
+      // 2^53 + 1 cannot be represented as a double
+      expect(Money.parse('9007199254740993', 2).toString()).toBe(
+        '9007199254740993',
+      );
+      expect(
+        Money.parse('9007199254740993').plus(Money.parse('0.01')).toString(),
+      ).toBe('9007199254740993.01');
+    });
+
+    it('should honour token decimals', () => {
+      expect(Money.parse('1.5', 6).toUnits()).toBe(BigInt(1500000));
+      expect(Money.parse('42', 0).toUnits()).toBe(BigInt(42));
+    });
+
+    it('should reject more fraction digits than the token has', () => {
+      expect(() => Money.parse('1.0000001', 6)).toThrow(InvalidMoneyError);
+      expect(() => Money.parse('0.5', 0)).toThrow(
+        'Invalid amount 0.5: more than 0 decimal places',
+      );
+    });
+
+    it('should accept trailing zeros beyond the token decimals', () => {
+      expect(Money.parse('1.500000000', 6).toUnits()).toBe(BigInt(1500000));
+    });
+
+    it('should round extra digits when asked to', () => {
+      expect(Money.parse('1.2345675', 6, Rounding.HALF_UP).toString()).toBe(
+        '1.234568',
+      );
+      expect(Money.parse('1.2345674', 6, Rounding.HALF_UP).toString()).toBe(
+        '1.234567',
+      );
+      expect(Money.parse('1.2345679', 6, Rounding.DOWN).toString()).toBe(
+        '1.234567',
+      );
+      expect(Money.parse('1.2345671', 6, Rounding.UP).toString()).toBe(
+        '1.234568',
+      );
+      expect(Money.parse('-0.5', 0, Rounding.HALF_UP).toString()).toBe('-1');
+    });
+
+    it('should read numbers of legacy Float columns', () => {
+      expect(Money.parse(5000.25).toString()).toBe('5000.25');
+      expect(Money.parse(1e21).toString()).toBe('1000000000000000000000');
+      expect(Money.parse(1e-7).toString()).toBe('0.0000001');
+      expect(Money.parse(0.1 + 0.2, 2, Rounding.HALF_UP).toString()).toBe(
+        '0.3',
+      );
+    });
+
+    it.each(['', 'abc', '1,000', '.5', '1.', '0x10', ' - 1'])(
+      'should reject %p',
+      (value) => {
+        expect(() => Money.parse(value)).toThrow(InvalidMoneyError);
+      },
+    );
+
+    it('should reject NaN and infinity', () => {
+      expect(() => Money.parse(NaN)).toThrow(InvalidMoneyError);
+      expect(() => Money.parse(Infinity)).toThrow(InvalidMoneyError);
+    });
+
+    it('should bound exponents instead of expanding them', () => {
+      expect(() => Money.parse('1e900000000')).toThrow(
+        new InvalidMoneyError('1e900000000', 'exponent out of range'),
+      );
+      expect(() => Money.parse('1e-900000000')).toThrow(
+        'more than 18 decimal places',
+      );
+      expect(Money.parse('15e-900000000', 18, Rounding.UP).toUnits()).toBe(
+        BigInt(1),
+      );
+      expect(Money.parse('0.5e-18', 18, Rounding.HALF_UP).toUnits()).toBe(
+        BigInt(1),
+      );
+    });
+  });
+
+  describe('fromUnits', () => {
+    it('should format contract amounts as clean values', () => {
+      expect(Money.fromUnits(BigInt('100000000000000000000')).toString()).toBe(
+        '100',
+      );
+      expect(Money.fromUnits('1500000', 6).toString()).toBe('1.5');
+      expect(Money.fromUnits(BigInt(1)).toString()).toBe(
+        '0.000000000000000001',
+      );
+    });
+
+    it('should reject non-integer unit strings', () => {
+      expect(() => Money.fromUnits('1.5')).toThrow(InvalidMoneyError);
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should sum without float drift', () => {
+      const total = Money.sum(
+        Array.from({ length: 10 }, () => Money.parse('0.1')),
+      );
+
+      expect(total.toString()).toBe('1');
+      expect(Money.sum([]).toString()).toBe('0');
+    });
+
+    it('should align different decimals', () => {
+      const total = Money.parse('1.5', 2).plus(Money.parse('0.000001', 6));
+
+      expect(total.decimals).toBe(6);
+      expect(total.toString()).toBe('1.500001');
+      expect(Money.parse('1', 0).minus(Money.parse('1.25', 2)).toString()).toBe(
+        '-0.25',
+      );
+    });
+
+    it('should refuse to send negative amounts', () => {
+      const negative = Money.parse('1').minus(Money.parse('2'));
+
+      expect(negative.isNegative()).toBe(true);
+      expect(() => negative.toUnits()).toThrow('amount cannot be negative');
+    });
+
+    it('should round mulDiv results', () => {
+      const amount = Money.parse('0.000000000000000005');
+
+      expect(amount.mulDiv(1, 2).units).toBe(BigInt(3));
+      expect(amount.mulDiv(1, 2, Rounding.DOWN).units).toBe(BigInt(2));
+      expect(Money.parse('100000', 0).mulDiv(825, 10000).toString()).toBe(
+        '8250',
+      );
+    });
+
+    it('should divide into a quantity of the requested decimals', () => {
+      expect(
+        Money.parse('100000').dividedBy(Money.parse('4500')).toFixed(0),
+      ).toBe('22');
+      expect(
+        Money.parse('1', 0).dividedBy(Money.parse('3', 0), 4).toString(),
+      ).toBe('0.3333');
+      expect(() => Money.parse('1').dividedBy(Money.zero())).toThrow(
+        RangeError,
+      );
+    });
+
+    it('should compute percentages to two decimals', () => {
+      const invested = Money.parse('300');
+
+      expect(Money.parse('100').percentageOf(invested)).toBe(33.33);
+      expect(Money.parse('200').percentageOf(invested)).toBe(66.67);
+      expect(Money.parse('200').percentageOf(invested, Rounding.DOWN)).toBe(
+        66.66,
+      );
+      expect(Money.parse('5').percentageOf(Money.zero())).toBe(0);
+    });
+
+    it('should compare across decimals', () => {
+      expect(Money.parse('1.10', 2).eq(Money.parse('1.1', 18))).toBe(true);
+      expect(Money.parse('2').gt(Money.parse('1.999999'))).toBe(true);
+      expect(Money.parse('0').isZero()).toBe(true);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should trim trailing zeros in toString', () => {
+      expect(Money.parse('10.500').toString()).toBe('10.5');
+      expect(Money.parse('10.000').toString()).toBe('10');
+      expect(Money.parse('100').toString()).toBe('100');
+      expect(JSON.stringify({ amount: Money.parse('2.50') })).toBe(
+        '{"amount":"2.5"}',
+      );
+    });
+
+    it('should round half away from zero in toFixed', () => {
+      expect(Money.parse('2.345').toFixed(2)).toBe('2.35');
+      expect(Money.parse('-2.345').toFixed(2)).toBe('-2.35');
+      expect(Money.parse('2.345').toFixed(2, Rounding.DOWN)).toBe('2.34');
+      expect(Money.parse('0.5').toFixed(0)).toBe('1');
+      expect(Money.parse('0.05').toFixed(4)).toBe('0.0500');
+    });
+  });
+});
+
+describe('parseAmount', () => {
+  it('should turn invalid input into a BadRequestException', () => {
+    expect(() => parseAmount('1.5', 0, 'valueProject')).toThrow(
+      new BadRequestException(
+        'valueProject: Invalid amount 1.5: more than 0 decimal places',
+      ),
+    );
+  });
+
+  it('should reject negative amounts', () => {
+    expect(() => parseAmount('-5', 18, 'totalKilos')).toThrow(
+      new BadRequestException('totalKilos: amount cannot be negative'),
+    );
+  });
+});
+
+describe('projectDecimals', () => {
+  it('should default to 18 decimals', () => {
+    expect(projectDecimals({ volumeDecimal: 6 })).toBe(6);
+    expect(projectDecimals({ volumeDecimal: null })).toBe(18);
+    expect(projectDecimals(null)).toBe(18);
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * Exact decimal money values
+ *
+ * The database stores amounts as clean decimal strings (e.g. "10000.5") and the
+ * contract expects integers in the token's smallest unit (wei for 18 decimals).
+ * Money keeps a value as an integer count of smallest units together with its
+ * decimals, so parsing, sums and conversions never go through floating point.
+ */
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Token decimals used when a project does not define its own
+ */
+export const DEFAULT_DECIMALS = 18;
+
+export enum Rounding {
+  /** Toward zero */
+  DOWN = 'DOWN',
+  /** Away from zero */
+  UP = 'UP',
+  /** To the nearest unit, ties away from zero */
+  HALF_UP = 'HALF_UP',
+}
+
+export class InvalidMoneyError extends Error {
+  constructor(
+    readonly value: unknown,
+    reason: string,
+  ) {
+    super(`Invalid amount ${String(value)}: ${reason}`);
+    this.name = 'InvalidMoneyError';
+  }
+}
+
+// Sign, integer digits, fraction digits, exponent (numbers may stringify as 1e+21)
+const DECIMAL_PATTERN = /^([+-]?)(\d+)(?:\.(\d+))?(?:[eE]([+-]?\d+))?$/;
+
+// Highest decimals an ERC-20 uint8 can declare that still fits a uint256
+const MAX_DECIMALS = 77;
+
+// Digits of the largest uint256, bounds exponents before they reach pow10
+const MAX_UNIT_DIGITS = 78;
+
+const TEN = BigInt(10);
+const ZERO = BigInt(0);
+
+function pow10(exponent: number): bigint {
+  return TEN ** BigInt(exponent);
+}
+
+/**
+ * numerator / denominator rounded to an integer, denominator must be positive
+ */
+function divide(
+  numerator: bigint,
+  denominator: bigint,
+  rounding: Rounding,
+): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+
+  if (remainder === ZERO) {
+    return quotient;
+  }
+
+  const awayFromZero =
+    numerator < ZERO ? quotient - BigInt(1) : quotient + BigInt(1);
+  const absRemainder = remainder < ZERO ? -remainder : remainder;
+
+  switch (rounding) {
+    case Rounding.DOWN:
+      return quotient;
+    case Rounding.UP:
+      return awayFromZero;
+    case Rounding.HALF_UP:
+      return absRemainder * BigInt(2) >= denominator ? awayFromZero : quotient;
+  }
+}
+
+function assertDecimals(decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+    throw new InvalidMoneyError(
+      decimals,
+      `decimals must be an integer between 0 and ${MAX_DECIMALS}`,
+    );
+  }
+}
+
+export class Money {
+  private constructor(
+    readonly units: bigint,
+    readonly decimals: number,
+  ) {}
+
+  /**
+   * Parse a decimal string such as "10000" or "0.25".
+   *
+   * More fraction digits than decimals are rejected unless a rounding mode is
+   * given. Numbers are accepted for legacy Float columns only, they are read
+   * through their shortest string form.
+   */
+  static parse(
+    value: string | number,
+    decimals: number = DEFAULT_DECIMALS,
+    rounding?: Rounding,
+  ): Money {
+    assertDecimals(decimals);
+
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new InvalidMoneyError(value, 'not a finite number');
+    }
+
+    const match = DECIMAL_PATTERN.exec(String(value).trim());
+    if (!match) {
+      throw new InvalidMoneyError(value, 'not a decimal number');
+    }
+
+    const [, sign, integerPart, fractionPart = '', exponent = '0'] = match;
+    const digits = BigInt(integerPart + fractionPart);
+    // value = digits * 10^-scale
+    const scale = fractionPart.length - Number(exponent);
+
+    let units: bigint;
+    if (scale <= decimals) {
+      if (decimals - scale > MAX_UNIT_DIGITS) {
+        throw new InvalidMoneyError(value, 'exponent out of range');
+      }
+      units = digits * pow10(decimals - scale);
+    } else {
+      // Digits shifted past their own length are below a tenth of a unit,
+      // any larger divisor rounds them the same way
+      const shift = Math.min(
+        scale - decimals,
+        integerPart.length + fractionPart.length + 1,
+      );
+      const divisor = pow10(shift);
+      if (rounding === undefined && digits % divisor !== ZERO) {
+        throw new InvalidMoneyError(
+          value,
+          `more than ${decimals} decimal places`,
+        );
+      }
+      units = divide(digits, divisor, rounding ?? Rounding.DOWN);
+    }
+
+    return new Money(sign === '-' ? -units : units, decimals);
+  }
+
+  /**
+   * Wrap an integer amount of smallest units, e.g. a uint256 from the contract
+   */
+  static fromUnits(
+    units: bigint | string,
+    decimals: number = DEFAULT_DECIMALS,
+  ): Money {
+    assertDecimals(decimals);
+
+    if (typeof units === 'string' && !/^-?\d+$/.test(units.trim())) {
+      throw new InvalidMoneyError(units, 'not an integer amount of units');
+    }
+
+    return new Money(BigInt(units), decimals);
+  }
+
+  static zero(decimals: number = DEFAULT_DECIMALS): Money {
+    assertDecimals(decimals);
+    return new Money(ZERO, decimals);
+  }
+
+  /**
+   * Sum at the highest decimals of the values, exact
+   */
+  static sum(values: Money[]): Money {
+    return values.reduce((total, value) => total.plus(value), Money.zero(0));
+  }
+
+  plus(other: Money): Money {
+    const decimals = Math.max(this.decimals, other.decimals);
+    return new Money(
+      this.scaledUnits(decimals) + other.scaledUnits(decimals),
+      decimals,
+    );
+  }
+
+  minus(other: Money): Money {
+    const decimals = Math.max(this.decimals, other.decimals);
+    return new Money(
+      this.scaledUnits(decimals) - other.scaledUnits(decimals),
+      decimals,
+    );
+  }
+
+  /**
+   * this * numerator / denominator, e.g. mulDiv(825, 10000) for 8.25%
+   */
+  mulDiv(
+    numerator: bigint | number,
+    denominator: bigint | number,
+    rounding: Rounding = Rounding.HALF_UP,
+  ): Money {
+    let num = BigInt(numerator);
+    let den = BigInt(denominator);
+
+    if (den === ZERO) {
+      throw new RangeError('Division by zero');
+    }
+    if (den < ZERO) {
+      num = -num;
+      den = -den;
+    }
+
+    return new Money(divide(this.units * num, den, rounding), this.decimals);
+  }
+
+  /**
+   * this / divisor as a plain quantity with the given decimals, e.g. a price
+   * per kilo from a total and a weight
+   */
+  dividedBy(
+    divisor: Money,
+    decimals: number = this.decimals,
+    rounding: Rounding = Rounding.HALF_UP,
+  ): Money {
+    assertDecimals(decimals);
+
+    if (divisor.isZero()) {
+      throw new RangeError('Division by zero');
+    }
+
+    // (a / 10^da) / (b / 10^db) * 10^d = a * 10^(db + d) / (b * 10^da)
+    let numerator = this.units * pow10(divisor.decimals + decimals);
+    let denominator = divisor.units * pow10(this.decimals);
+    if (denominator < ZERO) {
+      numerator = -numerator;
+      denominator = -denominator;
+    }
+
+    return new Money(divide(numerator, denominator, rounding), decimals);
+  }
+
+  /**
+   * this as a percentage of total with two decimal places, 0 when total is
+   * zero (nothing invested yet, no funding target, ...)
+   */
+  percentageOf(total: Money, rounding: Rounding = Rounding.HALF_UP): number {
+    if (total.isZero()) {
+      return 0;
+    }
+
+    const decimals = Math.max(this.decimals, total.decimals);
+    let numerator = this.scaledUnits(decimals) * BigInt(10000);
+    let denominator = total.scaledUnits(decimals);
+    if (denominator < ZERO) {
+      numerator = -numerator;
+      denominator = -denominator;
+    }
+
+    return Number(divide(numerator, denominator, rounding)) / 100;
+  }
+
+  /**
+   * Same value with other decimals, rounded when decimals shrink
+   */
+  rescale(decimals: number, rounding: Rounding = Rounding.HALF_UP): Money {
+    assertDecimals(decimals);
+
+    if (decimals >= this.decimals) {
+      return new Money(this.scaledUnits(decimals), decimals);
+    }
+
+    return new Money(
+      divide(this.units, pow10(this.decimals - decimals), rounding),
+      decimals,
+    );
+  }
+
+  compare(other: Money): -1 | 0 | 1 {
+    const decimals = Math.max(this.decimals, other.decimals);
+    const a = this.scaledUnits(decimals);
+    const b = other.scaledUnits(decimals);
+
+    return a === b ? 0 : a > b ? 1 : -1;
+  }
+
+  eq(other: Money): boolean {
+    return this.compare(other) === 0;
+  }
+
+  gt(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  lt(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  isZero(): boolean {
+    return this.units === ZERO;
+  }
+
+  isNegative(): boolean {
+    return this.units < ZERO;
+  }
+
+  isPositive(): boolean {
+    return this.units > ZERO;
+  }
+
+  /**
+   * Integer amount of smallest units for the contract. Negative amounts
+   * cannot be sent and throw.
+   */
+  toUnits(): bigint {
+    if (this.isNegative()) {
+      throw new InvalidMoneyError(this.toString(), 'amount cannot be negative');
+    }
+
+    return this.units;
+  }
+
+  /**
+   * Clean decimal string without trailing zeros, as stored in the database
+   */
+  toString(): string {
+    const fixed = this.toFixed(this.decimals);
+    return fixed.includes('.') ? fixed.replace(/\.?0+$/, '') : fixed;
+  }
+
+  /**
+   * Decimal string with exactly fractionDigits digits after the point
+   */
+  toFixed(
+    fractionDigits: number,
+    rounding: Rounding = Rounding.HALF_UP,
+  ): string {
+    const { units, decimals } = this.rescale(fractionDigits, rounding);
+    const negative = units < ZERO;
+    const digits = (negative ? -units : units)
+      .toString()
+      .padStart(decimals + 1, '0');
+
+    const integerPart = digits.slice(0, digits.length - decimals);
+    const fractionPart = digits.slice(digits.length - decimals);
+
+    return (
+      (negative ? '-' : '') +
+      integerPart +
+      (decimals > 0 ? `.${fractionPart}` : '')
+    );
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private scaledUnits(decimals: number): bigint {
+    return this.units * pow10(decimals - this.decimals);
+  }
+}
+
+/**
+ * Token decimals of a project's amounts
+ */
+export function projectDecimals(
+  project?: { volumeDecimal?: number | null } | null,
+): number {
+  return project?.volumeDecimal ?? DEFAULT_DECIMALS;
+}
+
+/**
+ * Money.parse for request input: an invalid or negative amount is a 400
+ * naming the field
+ */
+export function parseAmount(
+  value: string,
+  decimals: number = DEFAULT_DECIMALS,
+  field = 'amount',
+  rounding?: Rounding,
+): Money {
+  let amount: Money;
+  try {
+    amount = Money.parse(value, decimals, rounding);
+  } catch (error) {
+    if (error instanceof InvalidMoneyError) {
+      throw new BadRequestException(`${field}: ${error.message}`);
+    }
+    throw error;
+  }
+
+  if (amount.isNegative()) {
+    throw new BadRequestException(`${field}: amount cannot be negative`);
+  }
+
+  return amount;
+}
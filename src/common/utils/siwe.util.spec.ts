@@ -0,0 +1,82 @@
+import {
+  InvalidSiweMessageError,
+  SiweMessage,
+  formatSiweMessage,
+  parseSiweMessage,
+} from './siwe.util';
+
+describe('SIWE messages', () => {
+  const message: SiweMessage = {
+    domain: 'app.stomatrade.xyz',
+    address: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+    statement: 'Sign in to StoMaTrade.',
+    uri: 'https://app.stomatrade.xyz',
+    version: '1',
+    chainId: 4202,
+    nonce: '9f86d081884c7d65',
+    issuedAt: '2026-03-05T09:00:00.000Z',
+    expirationTime: '2026-03-05T09:05:00.000Z',
+  };
+
+  const text = [
+    'app.stomatrade.xyz wants you to sign in with your Ethereum account:',
+    '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+    '',
+    'Sign in to StoMaTrade.',
+    '',
+    'URI: https://app.stomatrade.xyz',
+    'Version: 1',
+    'Chain ID: 4202',
+    'Nonce: 9f86d081884c7d65',
+    'Issued At: 2026-03-05T09:00:00.000Z',
+    'Expiration Time: 2026-03-05T09:05:00.000Z',
+  ].join('\n');
+
+  describe('formatSiweMessage', () => {
+    it('should write the fields in EIP-4361 order', () => {
+      expect(formatSiweMessage(message)).toBe(text);
+    });
+
+    it('should keep two empty lines without a statement', () => {
+      const formatted = formatSiweMessage({ ...message, statement: undefined });
+
+      expect(formatted).toContain(`${message.address}\n\n\nURI: `);
+    });
+  });
+
+  describe('parseSiweMessage', () => {
+    it('should read back a formatted message', () => {
+      expect(parseSiweMessage(text)).toEqual(message);
+    });
+
+    it('should read optional fields and resources', () => {
+      const full: SiweMessage = {
+        ...message,
+        scheme: 'https',
+        statement: undefined,
+        notBefore: '2026-03-05T09:00:00+07:00',
+        requestId: 'login-1',
+        resources: [
+          'ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq/',
+        ],
+      };
+
+      expect(parseSiweMessage(formatSiweMessage(full))).toEqual(full);
+    });
+
+    it.each([
+      ['another header', text.replace('wants you to', 'asks you to')],
+      [
+        'a lowercase address',
+        text.replace(message.address, message.address.toLowerCase()),
+      ],
+      ['version 2', text.replace('Version: 1', 'Version: 2')],
+      ['a short nonce', text.replace(message.nonce, 'abc123')],
+      ['a missing URI', text.replace('URI: https://app.stomatrade.xyz\n', '')],
+      ['an invalid date', text.replace(message.issuedAt, '5 March 2026')],
+      ['trailing lines', `${text}\nInjected: field`],
+    ])('should reject %s', (_case, invalid) => {
+      expect(() => parseSiweMessage(invalid)).toThrow(InvalidSiweMessageError);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) messages
+ *
+ * Wallets recognise this format and show the domain, chain and expiry of a
+ * login request, so a signature obtained by another site is both visible to
+ * the user and rejected here because its domain does not match.
+ */
+import { ethers } from 'ethers';
+
+export interface SiweMessage {
+  /** RFC 3986 scheme of the requesting origin, usually omitted */
+  scheme?: string;
+  /** Host (and port) requesting the signature */
+  domain: string;
+  /** EIP-55 checksummed address signing in */
+  address: string;
+  /** Human readable assertion, a single line */
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  /** At least 8 alphanumeric characters */
+  nonce: string;
+  /** RFC 3339 date-times */
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+export class InvalidSiweMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSiweMessageError';
+  }
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+const HEADER_PATTERN = /^(?:([a-zA-Z][a-zA-Z0-9+.-]*):\/\/)?(\S+)$/;
+const NONCE_PATTERN = /^[a-zA-Z0-9]{8,}$/;
+const DATE_TIME_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * The message text a wallet signs, in the field order EIP-4361 mandates
+ */
+export function formatSiweMessage(message: SiweMessage): string {
+  const origin = message.scheme
+    ? `${message.scheme}://${message.domain}`
+    : message.domain;
+
+  const lines = [`${origin}${HEADER_SUFFIX}`, message.address, ''];
+  if (message.statement) {
+    lines.push(message.statement);
+  }
+  lines.push(
+    '',
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`,
+  );
+
+  if (message.expirationTime) {
+    lines.push(`Expiration Time: ${message.expirationTime}`);
+  }
+  if (message.notBefore) {
+    lines.push(`Not Before: ${message.notBefore}`);
+  }
+  if (message.requestId !== undefined) {
+    lines.push(`Request ID: ${message.requestId}`);
+  }
+  if (message.resources?.length) {
+    lines.push('Resources:', ...message.resources.map((uri) => `- ${uri}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Parse a signed EIP-4361 message. Only the syntax is checked; whether the
+ * domain, nonce and dates are acceptable is up to the caller.
+ */
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = text.split('\n');
+  let index = 0;
+
+  const next = (): string | undefined => lines[index++];
+  const field = (name: string, optional = false): string | undefined => {
+    const prefix = `${name}: `;
+    if (lines[index]?.startsWith(prefix)) {
+      return next()!.slice(prefix.length);
+    }
+    if (!optional) {
+      throw new InvalidSiweMessageError(`${name} is missing`);
+    }
+    return undefined;
+  };
+
+  const header = next() ?? '';
+  if (!header.endsWith(HEADER_SUFFIX)) {
+    throw new InvalidSiweMessageError('not a Sign-In with Ethereum message');
+  }
+  const origin = HEADER_PATTERN.exec(header.slice(0, -HEADER_SUFFIX.length));
+  if (!origin) {
+    throw new InvalidSiweMessageError('invalid domain');
+  }
+
+  const address = next() ?? '';
+  if (!ethers.isAddress(address) || ethers.getAddress(address) !== address) {
+    throw new InvalidSiweMessageError(
+      `address ${address} is not an EIP-55 checksummed address`,
+    );
+  }
+
+  if (next() !== '') {
+    throw new InvalidSiweMessageError('expected an empty line after address');
+  }
+
+  let statement: string | undefined;
+  if (lines[index] !== '') {
+    statement = next();
+  }
+  if (next() !== '') {
+    throw new InvalidSiweMessageError('expected an empty line before URI');
+  }
+
+  const uri = field('URI')!;
+  const version = field('Version');
+  if (version !== '1') {
+    throw new InvalidSiweMessageError(`unsupported version ${version}`);
+  }
+
+  const chainId = field('Chain ID')!;
+  if (!/^[1-9]\d*$/.test(chainId)) {
+    throw new InvalidSiweMessageError(`invalid chain ID ${chainId}`);
+  }
+
+  const nonce = field('Nonce')!;
+  if (!NONCE_PATTERN.test(nonce)) {
+    throw new InvalidSiweMessageError(
+      'nonce must be at least 8 alphanumeric characters',
+    );
+  }
+
+  const issuedAt = dateTime('Issued At', field('Issued At'))!;
+  const expirationTime = dateTime(
+    'Expiration Time',
+    field('Expiration Time', true),
+  );
+  const notBefore = dateTime('Not Before', field('Not Before', true));
+  const requestId = field('Request ID', true);
+
+  let resources: string[] | undefined;
+  if (lines[index] === 'Resources:') {
+    next();
+    resources = [];
+    while (lines[index]?.startsWith('- ')) {
+      resources.push(next()!.slice(2));
+    }
+  }
+
+  if (index < lines.length) {
+    throw new InvalidSiweMessageError(`unexpected line "${lines[index]}"`);
+  }
+
+  return {
+    ...(origin[1] && { scheme: origin[1] }),
+    domain: origin[2],
+    address,
+    ...(statement && { statement }),
+    uri,
+    version,
+    chainId: Number(chainId),
+    nonce,
+    issuedAt,
+    ...(expirationTime && { expirationTime }),
+    ...(notBefore && { notBefore }),
+    ...(requestId !== undefined && { requestId }),
+    ...(resources && { resources }),
+  };
+}
+
+function dateTime(name: string, value?: string): string | undefined {
+  if (
+    value !== undefined &&
+    (!DATE_TIME_PATTERN.test(value) || isNaN(Date.parse(value)))
+  ) {
+    throw new InvalidSiweMessageError(
+      `${name} ${value} is not an RFC 3339 date`,
+    );
+  }
+  return value;
+}
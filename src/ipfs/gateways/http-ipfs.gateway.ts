@@ -0,0 +1,27 @@
+import { ethers } from 'ethers';
+import { IpfsGateway } from '../interfaces/ipfs-gateway.interface';
+
+/**
+ * Fetches IPFS content through an HTTP gateway such as
+ * https://ipfs.io/ipfs/ or a dedicated Pinata gateway
+ */
+export class HttpIpfsGateway implements IpfsGateway {
+  private readonly baseUrl: string;
+
+  constructor(
+    baseUrl: string,
+    private readonly timeoutMs: number,
+  ) {
+    this.baseUrl = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  }
+
+  async fetchJson(path: string): Promise<unknown> {
+    const request = new ethers.FetchRequest(`${this.baseUrl}${path}`);
+    request.timeout = this.timeoutMs;
+
+    const response = await request.send();
+    response.assertOk();
+
+    return response.bodyJson as unknown;
+  }
+}
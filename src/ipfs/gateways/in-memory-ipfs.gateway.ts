@@ -0,0 +1,36 @@
+import { ethers } from 'ethers';
+import { IpfsGateway } from '../interfaces/ipfs-gateway.interface';
+import { IpfsPinner } from '../interfaces/ipfs-pinner.interface';
+import { computeCid } from '../ipfs-cid.util';
+
+/**
+ * Local stand-in for an IPFS gateway and pinning service, serving the
+ * documents put or pinned into it. Used by tests and by local setups
+ * without network access (IPFS_GATEWAY_URL=memory).
+ */
+export class InMemoryIpfsGateway implements IpfsGateway, IpfsPinner {
+  private readonly documents = new Map<string, unknown>();
+
+  put(path: string, document: unknown) {
+    this.documents.set(path, document);
+  }
+
+  clear() {
+    this.documents.clear();
+  }
+
+  fetchJson(path: string): Promise<unknown> {
+    if (!this.documents.has(path)) {
+      return Promise.reject(new Error(`IPFS content not found: ${path}`));
+    }
+
+    return Promise.resolve(this.documents.get(path));
+  }
+
+  pin(content: Uint8Array): Promise<string> {
+    const cid = computeCid(content);
+    this.documents.set(cid, JSON.parse(ethers.toUtf8String(content)));
+
+    return Promise.resolve(cid);
+  }
+}
@@ -0,0 +1,8 @@
+export const IPFS_GATEWAY = 'IPFS_GATEWAY';
+
+/**
+ * Read access to IPFS content addressed as "<cid>" or "<cid>/<path>"
+ */
+export interface IpfsGateway {
+  fetchJson(path: string): Promise<unknown>;
+}
@@ -0,0 +1,8 @@
+export const IPFS_PINNER = 'IPFS_PINNER';
+
+/**
+ * Write access to IPFS: stores and pins content, returning its CID
+ */
+export interface IpfsPinner {
+  pin(content: Uint8Array, name: string): Promise<string>;
+}
@@ -0,0 +1,41 @@
+import { ethers } from 'ethers';
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+// CIDv1 prefix: version 1, raw codec (0x55), sha2-256 multihash (0x12, 32 bytes)
+const CID_V1_RAW_SHA256_PREFIX = new Uint8Array([0x01, 0x55, 0x12, 0x20]);
+
+function toBase32(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * CIDv1 (raw codec, sha2-256, base32) of a single-block document, the CID
+ * IPFS assigns to content under 256KiB added with --cid-version=1
+ */
+export function computeCid(content: Uint8Array): string {
+  const digest = ethers.getBytes(ethers.sha256(content));
+  const cid = ethers.getBytes(
+    ethers.concat([CID_V1_RAW_SHA256_PREFIX, digest]),
+  );
+
+  return `b${toBase32(cid)}`;
+}
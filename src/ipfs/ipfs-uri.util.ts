@@ -0,0 +1,36 @@
+const CID_PATTERN = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{20,})(\/.*)?$/;
+
+/**
+ * IPFS path ("<cid>" or "<cid>/<path>") of an ipfs:// URI, a gateway URL
+ * or a bare CID; null for anything else
+ */
+export function toIpfsPath(uri: string): string | null {
+  const value = uri.trim();
+
+  if (value.startsWith('ipfs://')) {
+    return value.slice('ipfs://'.length).replace(/^ipfs\//, '') || null;
+  }
+
+  const gatewayMatch = value.match(/\/ipfs\/([^?#]+)/);
+  if (gatewayMatch) {
+    return gatewayMatch[1];
+  }
+
+  return CID_PATTERN.test(value) ? value : null;
+}
+
+/**
+ * Decode a data:application/json URI as returned by on-chain metadata
+ */
+export function decodeDataUri(uri: string): unknown {
+  const match = uri.match(/^data:application\/json(;base64)?,(.*)$/s);
+  if (!match) {
+    return null;
+  }
+
+  const body = match[1]
+    ? Buffer.from(match[2], 'base64').toString('utf8')
+    : decodeURIComponent(match[2]);
+
+  return JSON.parse(body);
+}
@@ -0,0 +1,72 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { IPFS_GATEWAY, IpfsGateway } from './interfaces/ipfs-gateway.interface';
+import { IPFS_PINNER } from './interfaces/ipfs-pinner.interface';
+import { HttpIpfsGateway } from './gateways/http-ipfs.gateway';
+import { InMemoryIpfsGateway } from './gateways/in-memory-ipfs.gateway';
+import { PinataIpfsPinner } from './pinners/pinata-ipfs.pinner';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: IPFS_GATEWAY,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        const gatewayUrl =
+          configService.get<string>('IPFS_GATEWAY_URL') ||
+          'https://ipfs.io/ipfs/';
+
+        if (gatewayUrl === 'memory') {
+          new Logger('IpfsModule').warn(
+            'IPFS_GATEWAY_URL=memory: IPFS content is served from memory only',
+          );
+          return new InMemoryIpfsGateway();
+        }
+
+        return new HttpIpfsGateway(
+          gatewayUrl,
+          Number(configService.get<number>('IPFS_GATEWAY_TIMEOUT_MS')) || 15000,
+        );
+      },
+    },
+    {
+      provide: IPFS_PINNER,
+      inject: [ConfigService, IPFS_GATEWAY],
+      useFactory: (configService: ConfigService, gateway: IpfsGateway) => {
+        const provider =
+          configService.get<string>('IPFS_PINNING_PROVIDER') || 'memory';
+
+        if (provider === 'pinata') {
+          const jwt = configService.get<string>('PINATA_JWT');
+          if (!jwt) {
+            throw new Error('PINATA_JWT is required for Pinata pinning');
+          }
+
+          return new PinataIpfsPinner(
+            configService.get<string>('PINATA_API_URL') ||
+              'https://api.pinata.cloud',
+            jwt,
+            Number(configService.get<number>('IPFS_GATEWAY_TIMEOUT_MS')) ||
+              15000,
+          );
+        }
+
+        if (provider !== 'memory') {
+          throw new Error(`Unknown IPFS_PINNING_PROVIDER: ${provider}`);
+        }
+
+        new Logger('IpfsModule').warn(
+          'IPFS_PINNING_PROVIDER=memory: generated metadata is not pinned to IPFS',
+        );
+
+        // Share the store so pinned documents resolve in memory mode
+        return gateway instanceof InMemoryIpfsGateway
+          ? gateway
+          : new InMemoryIpfsGateway();
+      },
+    },
+  ],
+  exports: [IPFS_GATEWAY, IPFS_PINNER],
+})
+export class IpfsModule {}
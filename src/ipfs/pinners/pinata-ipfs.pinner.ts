@@ -0,0 +1,60 @@
+import { ethers } from 'ethers';
+import { IpfsPinner } from '../interfaces/ipfs-pinner.interface';
+
+interface PinataPinResponse {
+  IpfsHash: string;
+}
+
+/**
+ * Pins content through the Pinata pinFileToIPFS API as CIDv1
+ */
+export class PinataIpfsPinner implements IpfsPinner {
+  constructor(
+    private readonly apiUrl: string,
+    private readonly jwt: string,
+    private readonly timeoutMs: number,
+  ) {}
+
+  async pin(content: Uint8Array, name: string): Promise<string> {
+    const boundary = `----stomatrade${ethers.hexlify(ethers.randomBytes(8)).slice(2)}`;
+    const part = (headers: string, body: Uint8Array | string) =>
+      ethers.concat([
+        ethers.toUtf8Bytes(`--${boundary}\r\n${headers}\r\n\r\n`),
+        typeof body === 'string' ? ethers.toUtf8Bytes(body) : body,
+        ethers.toUtf8Bytes('\r\n'),
+      ]);
+
+    const request = new ethers.FetchRequest(
+      `${this.apiUrl.replace(/\/$/, '')}/pinning/pinFileToIPFS`,
+    );
+    request.method = 'POST';
+    request.timeout = this.timeoutMs;
+    request.setHeader('Authorization', `Bearer ${this.jwt}`);
+    request.setHeader(
+      'Content-Type',
+      `multipart/form-data; boundary=${boundary}`,
+    );
+    request.body = ethers.getBytes(
+      ethers.concat([
+        part(
+          `Content-Disposition: form-data; name="file"; filename="${name}"\r\nContent-Type: application/json`,
+          content,
+        ),
+        part(
+          'Content-Disposition: form-data; name="pinataOptions"',
+          JSON.stringify({ cidVersion: 1 }),
+        ),
+        part(
+          'Content-Disposition: form-data; name="pinataMetadata"',
+          JSON.stringify({ name }),
+        ),
+        ethers.toUtf8Bytes(`--${boundary}--\r\n`),
+      ]),
+    );
+
+    const response = await request.send();
+    response.assertOk();
+
+    return (response.bodyJson as PinataPinResponse).IpfsHash;
+  }
+}
@@ -0,0 +1,217 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ROLES } from '@prisma/client';
+import { AppProjectsService } from './app-projects.service';
+import { CreateAppProjectDto } from './dto/create-app-project.dto';
+import { UpdateAppProjectDto } from './dto/update-app-project.dto';
+import { AppProjectResponseDto } from './dto/app-project-response.dto';
+import { AbiVersionResponseDto } from './dto/abi-version-response.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@ApiTags('App Projects')
+@ApiBearerAuth('JWT-auth')
+@Controller('app-projects')
+export class AppProjectsController {
+  constructor(private readonly appProjectsService: AppProjectsService) {}
+
+  @Roles(ROLES.ADMIN)
+  @Post()
+  @ApiOperation({
+    summary: 'Register a contract deployment (Admin only)',
+    description:
+      'Register a StomaTrade contract deployment on a chain. The RPC URL must be reachable and serve the given chain ID.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Deployment registered successfully',
+    type: AppProjectResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Invalid input, invalid ABI, unreachable RPC or deployment already registered',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  create(@Body() dto: CreateAppProjectDto): Promise<AppProjectResponseDto> {
+    return this.appProjectsService.create(dto);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Get()
+  @ApiOperation({
+    summary: 'Get all contract deployments (Admin only)',
+    description: 'List registered deployments; the ABI is omitted',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Deployments retrieved successfully',
+    type: [AppProjectResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  findAll(): Promise<AppProjectResponseDto[]> {
+    return this.appProjectsService.findAll();
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get contract deployment by ID (Admin only)',
+  })
+  @ApiParam({ name: 'id', description: 'AppProject ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Deployment retrieved successfully',
+    type: AppProjectResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Deployment not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  findOne(@Param('id') id: string): Promise<AppProjectResponseDto> {
+    return this.appProjectsService.findOne(id);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Get(':id/abis')
+  @ApiOperation({
+    summary: 'Get ABI versions of a contract deployment (Admin only)',
+    description:
+      'Every ABI the deployment has been served with, newest first, with the event names each version renames',
+  })
+  @ApiParam({ name: 'id', description: 'AppProject ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'ABI versions retrieved successfully',
+    type: [AbiVersionResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Deployment not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  findAbiVersions(@Param('id') id: string): Promise<AbiVersionResponseDto[]> {
+    return this.appProjectsService.findAbiVersions(id);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update contract deployment (Admin only)',
+    description:
+      'Update a deployment. A changed ABI or event name mapping is recorded as a new ABI version. ' +
+      'Changes to the default deployment are applied to the running blockchain services immediately.',
+  })
+  @ApiParam({ name: 'id', description: 'AppProject ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Deployment updated successfully',
+    type: AppProjectResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Invalid input, invalid ABI, unknown mapped event or unreachable RPC',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Deployment not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdateAppProjectDto,
+  ): Promise<AppProjectResponseDto> {
+    return this.appProjectsService.update(id, dto);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Post(':id/default')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Make a deployment the default (Admin only)',
+    description:
+      'New projects and farmers are minted on the default deployment; events of projects on previous deployments keep being synced. ' +
+      'Provider, wallet and contract are switched without a restart; the previous default is kept if the switch fails.',
+  })
+  @ApiParam({ name: 'id', description: 'AppProject ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Default deployment switched',
+    type: AppProjectResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Blockchain services could not connect to the deployment',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Deployment not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  setDefault(@Param('id') id: string): Promise<AppProjectResponseDto> {
+    return this.appProjectsService.setDefault(id);
+  }
+
+  @Roles(ROLES.ADMIN)
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete contract deployment (Admin only)',
+    description: 'Soft delete a deployment. The default cannot be deleted.',
+  })
+  @ApiParam({ name: 'id', description: 'AppProject ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Deployment deleted successfully',
+    type: AppProjectResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Deployment is the default',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Deployment not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  remove(@Param('id') id: string): Promise<AppProjectResponseDto> {
+    return this.appProjectsService.remove(id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AppProjectsService } from './app-projects.service';
+import { AppProjectsController } from './app-projects.controller';
+import { BlockchainModule } from '../../blockchain/blockchain.module';
+
+@Module({
+  imports: [BlockchainModule],
+  controllers: [AppProjectsController],
+  providers: [AppProjectsService],
+  exports: [AppProjectsService],
+})
+export class AppProjectsModule {}
@@ -0,0 +1,356 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { AppProjectsService } from './app-projects.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EthersProviderService } from '../../blockchain/services/ethers-provider.service';
+import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
+import { ContractAbiService } from '../../blockchain/services/contract-abi.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+describe('AppProjectsService', () => {
+  let service: AppProjectsService;
+  let prisma: typeof mockPrismaService;
+
+  const mockProviderService = {
+    verifyRpcUrl: jest.fn(),
+  };
+
+  const mockContractService = {
+    reload: jest.fn(),
+    forgetDeployment: jest.fn(),
+  };
+
+  const mantle = {
+    id: 'app-mantle',
+    name: 'StomaTrade',
+    chainId: 'eip155:5003',
+    contractAddress: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb',
+    rpcUrl: 'https://rpc.sepolia.mantle.xyz',
+    rpcUrls: [],
+    isDefault: true,
+  };
+
+  const lisk = {
+    id: 'app-lisk',
+    name: 'StomaTrade Lisk',
+    chainId: 'eip155:4202',
+    contractAddress: '0x1111111111111111111111111111111111111111',
+    rpcUrl: 'https://rpc.sepolia-api.lisk.com',
+    rpcUrls: ['https://lisk-sepolia.drpc.org'],
+    isDefault: false,
+  };
+
+  const createDto = {
+    name: 'StomaTrade Lisk',
+    description: 'Lisk Sepolia deployment',
+    chainId: 'eip155:4202',
+    contractAddress: '0x1111111111111111111111111111111111111111',
+    abi: '[{"type":"function","name":"createProject","inputs":[]}]',
+    rpcUrl: 'https://rpc.sepolia-api.lisk.com',
+    explorerUrl: 'https://sepolia-blockscout.lisk.com',
+  };
+
+  // data of every contractAbi.create() call, oldest first
+  const recordedAbis = () =>
+    (
+      prisma.contractAbi.create.mock.calls as [
+        { data: { version: number; eventNames: string } },
+      ][]
+    ).map(([{ data }]) => data);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AppProjectsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: EthersProviderService, useValue: mockProviderService },
+        { provide: StomaTradeContractService, useValue: mockContractService },
+        ContractAbiService,
+      ],
+    }).compile();
+
+    service = module.get<AppProjectsService>(AppProjectsService);
+    prisma = mockPrismaService;
+
+    mockProviderService.verifyRpcUrl.mockResolvedValue(undefined);
+    mockContractService.reload.mockResolvedValue(undefined);
+    prisma.contractAbi.findFirst.mockResolvedValue(null);
+    prisma.contractAbi.create.mockImplementation(({ data }: { data: object }) =>
+      Promise.resolve({ id: 'abi-1', createdAt: new Date(), ...data }),
+    );
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should register a deployment after checking its RPC', async () => {
+      prisma.appProject.findFirst.mockResolvedValue(null);
+      prisma.appProject.create.mockResolvedValue(lisk);
+
+      const result = await service.create(createDto);
+
+      expect(mockProviderService.verifyRpcUrl).toHaveBeenCalledWith(
+        'https://rpc.sepolia-api.lisk.com',
+        'eip155:4202',
+      );
+      expect(prisma.appProject.create).toHaveBeenCalledWith({
+        data: createDto,
+        select: expect.any(Object),
+      });
+      expect(result).toEqual(lisk);
+      expect(recordedAbis()).toMatchObject([
+        {
+          chainId: 'eip155:4202',
+          contractAddress: '0x1111111111111111111111111111111111111111',
+          version: 1,
+        },
+      ]);
+    });
+
+    it('should reject event names mapped to events missing from the ABI', async () => {
+      prisma.appProject.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.create({
+          ...createDto,
+          eventNames: { FarmerAdded: 'FarmerMinted' },
+        }),
+      ).rejects.toThrow(
+        'Invalid ABI: Event FarmerMinted mapped from FarmerAdded is not in the ABI',
+      );
+      expect(prisma.appProject.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a contract already registered on the chain', async () => {
+      prisma.appProject.findFirst.mockResolvedValue(lisk);
+
+      await expect(service.create(createDto)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prisma.appProject.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an ABI that is not a JSON array', async () => {
+      prisma.appProject.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.create({ ...createDto, abi: '{"not":"an abi"}' }),
+      ).rejects.toThrow('Invalid ABI');
+    });
+
+    it('should reject an RPC serving another chain', async () => {
+      prisma.appProject.findFirst.mockResolvedValue(null);
+      mockProviderService.verifyRpcUrl.mockRejectedValue(
+        new Error('RPC serves chain 5003, expected 4202'),
+      );
+
+      await expect(service.create(createDto)).rejects.toThrow(
+        'RPC URL check failed: RPC serves chain 5003, expected 4202',
+      );
+      expect(prisma.appProject.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should reload blockchain services when the default changes', async () => {
+      prisma.appProject.findFirst.mockResolvedValue(mantle);
+      prisma.appProject.update.mockResolvedValue({
+        ...mantle,
+        rpcUrl: 'https://rpc.mantle-backup.xyz',
+      });
+
+      await service.update('app-mantle', {
+        rpcUrl: 'https://rpc.mantle-backup.xyz',
+      });
+
+      expect(mockProviderService.verifyRpcUrl).toHaveBeenCalledWith(
+        'https://rpc.mantle-backup.xyz',
+        'eip155:5003',
+      );
+      expect(mockContractService.reload).toHaveBeenCalled();
+    });
+
+    it('should check every fallback RPC of the deployment', async () => {
+      prisma.appProject.findFirst.mockResolvedValue(lisk);
+      prisma.appProject.update.mockResolvedValue(lisk);
+
+      await service.update('app-lisk', {
+        rpcUrls: ['https://lisk-sepolia.drpc.org', 'https://rpc.lisk.backup'],
+      });
+
+      expect(mockProviderService.verifyRpcUrl).toHaveBeenCalledTimes(3);
+      expect(mockProviderService.verifyRpcUrl).toHaveBeenCalledWith(
+        'https://rpc.lisk.backup',
+        'eip155:4202',
+      );
+    });
+
+    it('should not reload for a non-default deployment', async () => {
+      prisma.appProject.findFirst.mockResolvedValue(lisk);
+      prisma.appProject.update.mockResolvedValue({ ...lisk, name: 'Lisk' });
+
+      await service.update('app-lisk', { name: 'Lisk' });
+
+      expect(mockProviderService.verifyRpcUrl).not.toHaveBeenCalled();
+      expect(mockContractService.reload).not.toHaveBeenCalled();
+      expect(mockContractService.forgetDeployment).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'app-lisk' }),
+      );
+      expect(prisma.contractAbi.create).not.toHaveBeenCalled();
+    });
+
+    it('should keep the previous ABI as version 1 when the ABI changes', async () => {
+      const upgradedAbi =
+        '[{"type":"event","name":"FarmerMinted","inputs":[{"name":"id","type":"uint256","indexed":true}]}]';
+      prisma.appProject.findFirst.mockResolvedValue({
+        ...lisk,
+        abi: createDto.abi,
+      });
+      prisma.appProject.update.mockResolvedValue(lisk);
+
+      await service.update('app-lisk', { abi: upgradedAbi });
+
+      expect(recordedAbis()).toMatchObject([
+        { version: 1, eventNames: '{}' },
+        {
+          version: 2,
+          eventNames: JSON.stringify({ FarmerAdded: 'FarmerMinted' }),
+        },
+      ]);
+      expect(prisma.appProject.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { abi: upgradedAbi } }),
+      );
+    });
+  });
+
+  describe('findAbiVersions', () => {
+    it('should serve a deployment without versions as version 1', async () => {
+      prisma.appProject.findFirst.mockResolvedValue({
+        ...lisk,
+        abi: createDto.abi,
+      });
+      prisma.contractAbi.findMany.mockResolvedValue([]);
+
+      const versions = await service.findAbiVersions('app-lisk');
+
+      expect(versions).toEqual([
+        {
+          version: 1,
+          current: true,
+          abi: JSON.parse(createDto.abi) as unknown[],
+          eventNames: {},
+          createdAt: null,
+        },
+      ]);
+    });
+  });
+
+  describe('setDefault', () => {
+    it('should switch the default and reload blockchain services', async () => {
+      prisma.appProject.findFirst
+        .mockResolvedValueOnce(lisk)
+        .mockResolvedValueOnce(mantle);
+
+      const result = await service.setDefault('app-lisk');
+
+      expect(prisma.appProject.updateMany).toHaveBeenCalledWith({
+        where: { isDefault: true, NOT: { id: 'app-lisk' } },
+        data: { isDefault: false },
+      });
+      expect(prisma.appProject.update).toHaveBeenCalledWith({
+        where: { id: 'app-lisk' },
+        data: { isDefault: true },
+      });
+      expect(mockContractService.reload).toHaveBeenCalledTimes(1);
+      expect(result.isDefault).toBe(true);
+    });
+
+    it('should restore the previous default when the switch fails', async () => {
+      prisma.appProject.findFirst
+        .mockResolvedValueOnce(lisk)
+        .mockResolvedValueOnce(mantle);
+      mockContractService.reload
+        .mockRejectedValueOnce(new Error('could not detect network'))
+        .mockResolvedValueOnce(undefined);
+
+      await expect(service.setDefault('app-lisk')).rejects.toThrow(
+        BadRequestException,
+      );
+
+      expect(prisma.appProject.update).toHaveBeenLastCalledWith({
+        where: { id: 'app-mantle' },
+        data: { isDefault: true },
+      });
+      expect(mockContractService.reload).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stamp projects minted before deployments were recorded with the previous default', async () => {
+      prisma.appProject.findFirst
+        .mockResolvedValueOnce(lisk)
+        .mockResolvedValueOnce(mantle);
+
+      await service.setDefault('app-lisk');
+
+      const unstamped = { OR: [{ chainId: null }, { contractAddress: null }] };
+      expect(prisma.project.updateMany).toHaveBeenCalledWith({
+        where: { tokenId: { not: null }, ...unstamped },
+        data: {
+          chainId: 'eip155:5003',
+          contractAddress: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb',
+        },
+      });
+      expect(prisma.nftMetadata.updateMany).toHaveBeenCalledWith({
+        where: unstamped,
+        data: {
+          chainId: 'eip155:5003',
+          contractAddress: '0x742d35cc6634c0532925a3b844bc9e7595f0beb',
+        },
+      });
+      expect(mockContractService.reload).toHaveBeenCalledTimes(1);
+    });
+
+    it('should do nothing when the deployment is already the default', async () => {
+      prisma.appProject.findFirst.mockResolvedValue(mantle);
+
+      await service.setDefault('app-mantle');
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(mockContractService.reload).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown deployment', async () => {
+      prisma.appProject.findFirst.mockResolvedValue(null);
+
+      await expect(service.setDefault('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should refuse to delete the default deployment', async () => {
+      prisma.appProject.findFirst.mockResolvedValue(mantle);
+
+      await expect(service.remove('app-mantle')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prisma.appProject.update).not.toHaveBeenCalled();
+    });
+
+    it('should soft delete other deployments', async () => {
+      prisma.appProject.findFirst.mockResolvedValue(lisk);
+
+      await service.remove('app-lisk');
+
+      expect(prisma.appProject.update).toHaveBeenCalledWith({
+        where: { id: 'app-lisk' },
+        data: { deleted: true },
+        select: expect.any(Object),
+      });
+    });
+  });
+});
@@ -0,0 +1,346 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { AppProject } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EthersProviderService } from '../../blockchain/services/ethers-provider.service';
+import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
+import {
+  ContractAbiService,
+  InvalidAbiError,
+  parseAbi,
+} from '../../blockchain/services/contract-abi.service';
+import { CreateAppProjectDto } from './dto/create-app-project.dto';
+import { UpdateAppProjectDto } from './dto/update-app-project.dto';
+import { AppProjectResponseDto } from './dto/app-project-response.dto';
+import { AbiVersionResponseDto } from './dto/abi-version-response.dto';
+
+// The ABI can be large; responses leave it out
+const appProjectSelect = {
+  id: true,
+  name: true,
+  description: true,
+  chainId: true,
+  contractAddress: true,
+  rpcUrl: true,
+  rpcUrls: true,
+  explorerUrl: true,
+  networkName: true,
+  settlementTokenAddress: true,
+  isDefault: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+/**
+ * Contract deployments (AppProject rows) the platform can talk to.
+ *
+ * Exactly one deployment is the default: new projects and farmers are minted
+ * on it. Existing projects keep using the deployment copied onto them at mint
+ * time, so a contract upgrade is registered as a new deployment and made the
+ * default while projects on the previous contract keep being served by it;
+ * events are synced from every deployment minted projects live on. ABI changes of a deployment are
+ * recorded as ABI versions of its contract address.
+ */
+@Injectable()
+export class AppProjectsService {
+  private readonly logger = new Logger(AppProjectsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly providerService: EthersProviderService,
+    private readonly contractService: StomaTradeContractService,
+    private readonly contractAbiService: ContractAbiService,
+  ) {}
+
+  async findAll(): Promise<AppProjectResponseDto[]> {
+    return this.prisma.appProject.findMany({
+      where: { deleted: false },
+      select: appProjectSelect,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findOne(id: string): Promise<AppProjectResponseDto> {
+    const appProject = await this.prisma.appProject.findFirst({
+      where: { id, deleted: false },
+      select: appProjectSelect,
+    });
+
+    if (!appProject) {
+      throw new NotFoundException(`AppProject with ID ${id} not found`);
+    }
+
+    return appProject;
+  }
+
+  async create(dto: CreateAppProjectDto): Promise<AppProjectResponseDto> {
+    const { eventNames, ...data } = dto;
+
+    await this.ensureUniqueDeployment(dto.chainId, dto.contractAddress);
+    this.validateAbi(dto.abi, eventNames);
+    await this.verifyRpcUrls([dto.rpcUrl, ...(dto.rpcUrls ?? [])], dto.chainId);
+
+    const appProject = await this.prisma.appProject.create({
+      data,
+      select: appProjectSelect,
+    });
+
+    await this.contractAbiService.recordVersion(
+      { ...appProject, abi: dto.abi },
+      dto.abi,
+      eventNames,
+    );
+
+    this.logger.log(
+      `Registered AppProject ${appProject.name} (${appProject.chainId} ${appProject.contractAddress})`,
+    );
+
+    return appProject;
+  }
+
+  async update(
+    id: string,
+    dto: UpdateAppProjectDto,
+  ): Promise<AppProjectResponseDto> {
+    const { eventNames, ...data } = dto;
+    const existing = await this.findDeployment(id);
+    const chainId = dto.chainId ?? existing.chainId;
+    const contractAddress = dto.contractAddress ?? existing.contractAddress;
+    const abi = dto.abi ?? existing.abi;
+
+    if (dto.chainId || dto.contractAddress) {
+      await this.ensureUniqueDeployment(chainId, contractAddress, id);
+    }
+
+    if (dto.abi || eventNames) {
+      this.validateAbi(abi, eventNames);
+    }
+
+    if (dto.rpcUrl || dto.rpcUrls || dto.chainId) {
+      await this.verifyRpcUrls(
+        [dto.rpcUrl ?? existing.rpcUrl, ...(dto.rpcUrls ?? existing.rpcUrls)],
+        chainId,
+      );
+    }
+
+    const appProject = await this.prisma.appProject.update({
+      where: { id },
+      data,
+      select: appProjectSelect,
+    });
+
+    if (dto.abi || eventNames) {
+      // Versions continue from the ABI the deployment was served with
+      await this.contractAbiService.recordVersion(
+        { chainId, contractAddress, abi: existing.abi },
+        abi,
+        eventNames,
+      );
+    }
+
+    // Live connections of the default deployment must pick up the change
+    if (appProject.isDefault) {
+      await this.reloadContractService();
+    } else {
+      this.contractService.forgetDeployment(existing);
+    }
+
+    return appProject;
+  }
+
+  /**
+   * ABI versions of the deployment's contract address, newest (current)
+   * first
+   */
+  async findAbiVersions(id: string): Promise<AbiVersionResponseDto[]> {
+    const deployment = await this.findDeployment(id);
+    const versions = await this.contractAbiService.listVersions(deployment);
+
+    return versions.map((version, index) => ({
+      version: version.version,
+      current: index === 0,
+      abi: version.abi,
+      eventNames: version.eventNames,
+      createdAt: version.createdAt,
+    }));
+  }
+
+  /**
+   * Make a deployment the default and switch the running blockchain services
+   * to it. The previous default is restored if the switch fails.
+   *
+   * Rows minted before deployments were copied onto them belong to the
+   * default deployment; they are stamped with the previous one first.
+   */
+  async setDefault(id: string): Promise<AppProjectResponseDto> {
+    const target = await this.findOne(id);
+
+    if (target.isDefault) {
+      return target;
+    }
+
+    const previous = await this.prisma.appProject.findFirst({
+      where: { isDefault: true, deleted: false },
+    });
+
+    await this.markDefault(id, previous);
+
+    try {
+      await this.contractService.reload();
+    } catch (error) {
+      this.logger.error(`Failed to switch default AppProject to ${id}`, error);
+
+      if (previous) {
+        await this.markDefault(previous.id);
+        await this.contractService
+          .reload()
+          .catch((restoreError) =>
+            this.logger.error(
+              'Failed to restore the previous default AppProject',
+              restoreError,
+            ),
+          );
+      }
+
+      throw new BadRequestException(
+        `Failed to switch default deployment: ${(error as Error).message}`,
+      );
+    }
+
+    this.logger.log(
+      `Default AppProject switched to ${target.name} (${target.chainId} ${target.contractAddress})`,
+    );
+
+    return { ...target, isDefault: true };
+  }
+
+  async remove(id: string): Promise<AppProjectResponseDto> {
+    const appProject = await this.findOne(id);
+
+    if (appProject.isDefault) {
+      throw new BadRequestException(
+        'The default AppProject cannot be deleted. Switch the default first.',
+      );
+    }
+
+    return this.prisma.appProject.update({
+      where: { id },
+      data: { deleted: true },
+      select: appProjectSelect,
+    });
+  }
+
+  /**
+   * Deployment with its ABI, which findOne() leaves out
+   */
+  private async findDeployment(id: string) {
+    const appProject = await this.prisma.appProject.findFirst({
+      where: { id, deleted: false },
+    });
+
+    if (!appProject) {
+      throw new NotFoundException(`AppProject with ID ${id} not found`);
+    }
+
+    return appProject;
+  }
+
+  private async markDefault(id: string, previous?: AppProject | null) {
+    const unstamped = { OR: [{ chainId: null }, { contractAddress: null }] };
+
+    await this.prisma.$transaction([
+      ...(previous
+        ? [
+            this.prisma.project.updateMany({
+              where: { tokenId: { not: null }, ...unstamped },
+              data: {
+                chainId: previous.chainId,
+                contractAddress: previous.contractAddress,
+              },
+            }),
+            this.prisma.nftMetadata.updateMany({
+              where: unstamped,
+              data: {
+                chainId: previous.chainId,
+                contractAddress: previous.contractAddress.toLowerCase(),
+              },
+            }),
+          ]
+        : []),
+      this.prisma.appProject.updateMany({
+        where: { isDefault: true, NOT: { id } },
+        data: { isDefault: false },
+      }),
+      this.prisma.appProject.update({
+        where: { id },
+        data: { isDefault: true },
+      }),
+    ]);
+  }
+
+  private async reloadContractService() {
+    try {
+      await this.contractService.reload();
+    } catch (error) {
+      throw new BadRequestException(
+        `AppProject saved but blockchain services failed to reload: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async ensureUniqueDeployment(
+    chainId: string,
+    contractAddress: string,
+    excludeId?: string,
+  ) {
+    const duplicate = await this.prisma.appProject.findFirst({
+      where: {
+        chainId,
+        contractAddress: { equals: contractAddress, mode: 'insensitive' },
+        deleted: false,
+        ...(excludeId && { NOT: { id: excludeId } }),
+      },
+    });
+
+    if (duplicate) {
+      throw new BadRequestException(
+        `Contract ${contractAddress} on ${chainId} is already registered as ${duplicate.name}`,
+      );
+    }
+  }
+
+  private validateAbi(abi: string, eventNames?: Record<string, string>) {
+    try {
+      const fragments = parseAbi(abi);
+
+      if (eventNames) {
+        if (
+          Object.values(eventNames).some((name) => typeof name !== 'string')
+        ) {
+          throw new InvalidAbiError(
+            'eventNames must map event names to strings',
+          );
+        }
+        this.contractAbiService.resolveEventNames(fragments, eventNames);
+      }
+    } catch (error) {
+      throw new BadRequestException(`Invalid ABI: ${(error as Error).message}`);
+    }
+  }
+
+  private async verifyRpcUrls(rpcUrls: string[], chainId: string) {
+    for (const rpcUrl of rpcUrls) {
+      try {
+        await this.providerService.verifyRpcUrl(rpcUrl, chainId);
+      } catch (error) {
+        throw new BadRequestException(
+          `RPC URL check failed: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AbiVersionResponseDto {
+  @ApiProperty({ example: 2 })
+  version: number;
+
+  @ApiProperty({
+    example: true,
+    description: 'The contract is called and its events read with this ABI',
+  })
+  current: boolean;
+
+  @ApiProperty({
+    example: [{ type: 'event', name: 'FarmerMinted', inputs: [] }],
+    description: 'Contract ABI as a JSON array',
+  })
+  abi: unknown[];
+
+  @ApiProperty({
+    example: { FarmerAdded: 'FarmerMinted' },
+    description: 'Synced event name -> event name in this ABI',
+  })
+  eventNames: Record<string, string>;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Null for the ABI registered before versioning',
+  })
+  createdAt: Date | null;
+}
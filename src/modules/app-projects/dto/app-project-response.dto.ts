@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AppProjectResponseDto {
+  @ApiProperty({ example: 'clx1a2b3c0000abcd1234efgh' })
+  id: string;
+
+  @ApiProperty({ example: 'StomaTrade Lisk' })
+  name: string;
+
+  @ApiProperty({ example: 'StomaTrade deployment on Lisk Sepolia' })
+  description: string;
+
+  @ApiProperty({ example: 'eip155:4202' })
+  chainId: string;
+
+  @ApiProperty({ example: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb' })
+  contractAddress: string;
+
+  @ApiProperty({ example: 'https://rpc.sepolia-api.lisk.com' })
+  rpcUrl: string;
+
+  @ApiProperty({ example: ['https://lisk-sepolia.drpc.org'] })
+  rpcUrls: string[];
+
+  @ApiProperty({ example: 'https://sepolia-blockscout.lisk.com' })
+  explorerUrl: string;
+
+  @ApiProperty({ example: 'lisk-sepolia', nullable: true })
+  networkName: string | null;
+
+  @ApiProperty({
+    example: '0x1f2e3d4c5b6a79880123456789abcdef01234567',
+    nullable: true,
+    description: 'ERC-20 investments are paid in',
+  })
+  settlementTokenAddress: string | null;
+
+  @ApiProperty({
+    example: true,
+    description: 'New projects are minted and events synced on this deployment',
+  })
+  isDefault: boolean;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
@@ -0,0 +1,89 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEthereumAddress,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+} from 'class-validator';
+
+export class CreateAppProjectDto {
+  @ApiProperty({ example: 'StomaTrade Lisk' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ example: 'StomaTrade deployment on Lisk Sepolia' })
+  @IsString()
+  @IsNotEmpty()
+  description: string;
+
+  @ApiProperty({
+    example: 'eip155:4202',
+    description: 'Chain ID in CAIP-2 format',
+  })
+  @Matches(/^eip155:\d+$/, {
+    message: 'chainId must be in CAIP-2 format (eip155:<chainId>)',
+  })
+  chainId: string;
+
+  @ApiProperty({ example: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb' })
+  @IsEthereumAddress()
+  contractAddress: string;
+
+  @ApiProperty({
+    example: '[{"type":"function","name":"createProject","inputs":[]}]',
+    description: 'Contract ABI as a JSON string',
+  })
+  @IsString()
+  @IsNotEmpty()
+  abi: string;
+
+  @ApiPropertyOptional({
+    example: { FarmerAdded: 'FarmerMinted' },
+    description:
+      'Events this ABI names differently from the ones the backend syncs, as synced name -> ABI name',
+  })
+  @IsOptional()
+  @IsObject()
+  eventNames?: Record<string, string>;
+
+  @ApiProperty({ example: 'https://rpc.sepolia-api.lisk.com' })
+  @IsUrl({ require_tld: false })
+  rpcUrl: string;
+
+  @ApiPropertyOptional({
+    example: ['https://lisk-sepolia.drpc.org'],
+    description: 'Fallback RPC endpoints used when rpcUrl is unhealthy',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsUrl({ require_tld: false }, { each: true })
+  rpcUrls?: string[];
+
+  @ApiProperty({ example: 'https://sepolia-blockscout.lisk.com' })
+  @IsUrl({ require_tld: false })
+  explorerUrl: string;
+
+  @ApiPropertyOptional({
+    example: 'lisk-sepolia',
+    description: 'Network label used in logs; defaults to the chain ID',
+  })
+  @IsOptional()
+  @IsString()
+  networkName?: string;
+
+  @ApiPropertyOptional({
+    example: '0x1f2e3d4c5b6a79880123456789abcdef01234567',
+    description:
+      'ERC-20 investments on this deployment are paid in, e.g. an IDR stablecoin',
+  })
+  @IsOptional()
+  @IsEthereumAddress()
+  settlementTokenAddress?: string;
+}
@@ -0,0 +1,90 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEthereumAddress,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+} from 'class-validator';
+
+export class UpdateAppProjectDto {
+  @ApiPropertyOptional({ example: 'StomaTrade Lisk' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @ApiPropertyOptional({ example: 'StomaTrade deployment on Lisk Sepolia' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  description?: string;
+
+  @ApiPropertyOptional({ example: 'eip155:4202' })
+  @IsOptional()
+  @Matches(/^eip155:\d+$/, {
+    message: 'chainId must be in CAIP-2 format (eip155:<chainId>)',
+  })
+  chainId?: string;
+
+  @ApiPropertyOptional({ example: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb' })
+  @IsOptional()
+  @IsEthereumAddress()
+  contractAddress?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Contract ABI as a JSON string; recorded as a new ABI version of the contract',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  abi?: string;
+
+  @ApiPropertyOptional({
+    example: { FarmerAdded: 'FarmerMinted' },
+    description:
+      'Event names of the new ABI version, as synced name -> ABI name',
+  })
+  @IsOptional()
+  @IsObject()
+  eventNames?: Record<string, string>;
+
+  @ApiPropertyOptional({ example: 'https://rpc.sepolia-api.lisk.com' })
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  rpcUrl?: string;
+
+  @ApiPropertyOptional({
+    example: ['https://lisk-sepolia.drpc.org'],
+    description: 'Fallback RPC endpoints; replaces the current list',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsUrl({ require_tld: false }, { each: true })
+  rpcUrls?: string[];
+
+  @ApiPropertyOptional({ example: 'https://sepolia-blockscout.lisk.com' })
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  explorerUrl?: string;
+
+  @ApiPropertyOptional({ example: 'lisk-sepolia' })
+  @IsOptional()
+  @IsString()
+  networkName?: string;
+
+  @ApiPropertyOptional({
+    example: '0x1f2e3d4c5b6a79880123456789abcdef01234567',
+    nullable: true,
+    description: 'ERC-20 settlement token; null removes it',
+  })
+  @IsOptional()
+  @IsEthereumAddress()
+  settlementTokenAddress?: string | null;
+}
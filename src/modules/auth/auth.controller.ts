@@ -6,17 +6,27 @@ import {
   UseGuards,
   Request,
   HttpStatus,
+  HttpCode,
+  Delete,
+  Param,
+  Headers,
+  Ip,
 } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiParam,
 } from '@nestjs/swagger';
-import { AuthService } from './auth.service';
+import { AuthService, JwtPayload } from './auth.service';
+import { SessionRevokedReason, SessionsService } from './sessions.service';
 import { RequestNonceDto } from './dto/request-nonce.dto';
 import { VerifySignatureDto } from './dto/verify-signature.dto';
 import { RegisterUserDto } from './dto/register-user.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { CurrentUser } from './decorators/current-user.decorator';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { RolesGuard } from './guards/roles.guard';
 import { Roles } from './decorators/roles.decorator';
@@ -26,21 +36,29 @@ import { ROLES } from '@prisma/client';
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+  ) {}
 
   @Public()
   @Post('nonce')
   @ApiOperation({
     summary: 'Request authentication nonce',
-    description: 'Get a nonce to sign with your wallet for authentication',
+    description:
+      'Get a Sign-In with Ethereum (EIP-4361) message for the wallet to sign. It is valid for 5 minutes and can be used once.',
   })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Nonce generated successfully',
     schema: {
       properties: {
-        nonce: { type: 'string', example: '123456' },
-        message: { type: 'string', example: 'Welcome to StoMaTrade!...' },
+        nonce: { type: 'string', example: '9f86d081884c7d659a2feaa0c55ad015' },
+        message: {
+          type: 'string',
+          example:
+            'app.stomatrade.xyz wants you to sign in with your Ethereum account:\n0x742d35Cc6634C0532925a3b844Bc454e4438f44e\n\n...',
+        },
       },
     },
   })
@@ -56,7 +74,9 @@ export class AuthController {
   @Post('verify')
   @ApiOperation({
     summary: 'Verify wallet signature and authenticate',
-    description: 'Submit signed message to authenticate and receive JWT token',
+    description:
+      'Submit the signed EIP-4361 message to authenticate and receive JWT token. ' +
+      'Domain, URI, chain ID, address, nonce and validity dates must match the issued message.',
   })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -64,6 +84,7 @@ export class AuthController {
     schema: {
       properties: {
         accessToken: { type: 'string' },
+        refreshToken: { type: 'string' },
         user: {
           type: 'object',
           properties: {
@@ -77,10 +98,15 @@ export class AuthController {
   })
   @ApiResponse({
     status: HttpStatus.UNAUTHORIZED,
-    description: 'Invalid signature or expired nonce',
+    description:
+      'Invalid signature, expired or used nonce, or message for another domain',
   })
-  verifySignature(@Body() dto: VerifySignatureDto) {
-    return this.authService.verifySignature(dto);
+  verifySignature(
+    @Body() dto: VerifySignatureDto,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.verifySignature(dto, { userAgent, ipAddress });
   }
 
   @Post('register')
@@ -126,12 +152,14 @@ export class AuthController {
     return this.authService.getProfile(req.user.sub);
   }
 
+  @Public()
   @Post('refresh')
-  @UseGuards(JwtAuthGuard)
-  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Refresh JWT token',
-    description: 'Get a new JWT token using existing valid token',
+    description:
+      'Exchange a refresh token for a new access token and the next refresh token. ' +
+      'Each refresh token works once; presenting a used one revokes the whole session.',
   })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -139,14 +167,94 @@ export class AuthController {
     schema: {
       properties: {
         accessToken: { type: 'string' },
+        refreshToken: { type: 'string' },
       },
     },
   })
   @ApiResponse({
     status: HttpStatus.UNAUTHORIZED,
-    description: 'Invalid or expired token',
+    description: 'Invalid, expired or reused refresh token, or revoked session',
+  })
+  refreshToken(
+    @Body() dto: RefreshTokenDto,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.refreshToken(dto, { userAgent, ipAddress });
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Log out',
+    description:
+      'Revoke the session of the access token; its access and refresh tokens stop working',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Session revoked',
+    type: SessionResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Not authenticated',
+  })
+  logout(@CurrentUser() user: JwtPayload): Promise<SessionResponseDto> {
+    return this.authService.logout(user);
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List active sessions',
+    description: 'Devices signed in to the current account, most recently used first',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sessions retrieved successfully',
+    type: [SessionResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Not authenticated',
+  })
+  getSessions(@CurrentUser() user: JwtPayload): Promise<SessionResponseDto[]> {
+    return this.sessionsService.findActive(user.sub, user.sid);
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Revoke a session',
+    description: 'Sign a device out of the current account',
+  })
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Session revoked',
+    type: SessionResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Session not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Not authenticated',
   })
-  refreshToken(@Request() req: any) {
-    return this.authService.refreshToken(req.user.sub);
+  revokeSession(
+    @CurrentUser() user: JwtPayload,
+    @Param('id') id: string,
+  ): Promise<SessionResponseDto> {
+    return this.sessionsService.revokeForUser(
+      user.sub,
+      id,
+      SessionRevokedReason.USER_REVOKED,
+      user.sid,
+    );
   }
 }
\ No newline at end of file
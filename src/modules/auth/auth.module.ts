@@ -4,9 +4,12 @@ import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
+import { SessionsService } from './sessions.service';
+import { OwnershipService } from './ownership.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { WalletAuthGuard } from './guards/wallet-auth.guard';
 import { RolesGuard } from './guards/roles.guard';
+import { OwnershipGuard } from './guards/ownership.guard';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { BlockchainModule } from '../../blockchain/blockchain.module';
 import type { StringValue } from 'ms';
@@ -22,15 +25,32 @@ import type { StringValue } from 'ms';
       useFactory: async (configService: ConfigService): Promise<JwtModuleOptions> => ({
         secret: configService.get<string>('JWT_SECRET') || 'stomatrade-secret-key',
         signOptions: {
-          expiresIn: (configService.get<string>('JWT_EXPIRES_IN') || '7d') as StringValue,
+          // Short lived: clients renew it with their refresh token
+          expiresIn: (configService.get<string>('JWT_EXPIRES_IN') || '15m') as StringValue,
         },
       }),
       inject: [ConfigService],
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, WalletAuthGuard, RolesGuard],
-  exports: [AuthService, JwtStrategy, WalletAuthGuard, RolesGuard],
+  providers: [
+    AuthService,
+    SessionsService,
+    OwnershipService,
+    JwtStrategy,
+    WalletAuthGuard,
+    RolesGuard,
+    OwnershipGuard,
+  ],
+  exports: [
+    AuthService,
+    SessionsService,
+    OwnershipService,
+    JwtStrategy,
+    WalletAuthGuard,
+    RolesGuard,
+    OwnershipGuard,
+  ],
 })
 export class AuthModule {}
 
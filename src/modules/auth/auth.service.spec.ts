@@ -13,6 +13,8 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { ROLES } from '@prisma/client';
+import { ethers } from 'ethers';
+import type { AuthService } from './auth.service';
 
 // Skip tests if @nestjs/jwt is not installed
 let JwtService: any;
@@ -54,12 +56,26 @@ describeOrSkip('AuthService', () => {
       const config = {
         JWT_SECRET: 'test-secret',
         JWT_EXPIRES_IN: '7d',
+        SIWE_DOMAIN: 'app.stomatrade.xyz',
+        SIWE_URI: 'https://app.stomatrade.xyz',
         BLOCKCHAIN_RPC_URL: 'https://rpc.sepolia-api.lisk.com',
       };
       return config[key];
     }),
   };
 
+  const mockSession = {
+    id: 'session-1',
+    userId: 'user-uuid-1',
+  };
+
+  const mockSessionsService = {
+    createSession: jest.fn(),
+    rotate: jest.fn(),
+    revoke: jest.fn(),
+    revokeForUser: jest.fn(),
+  };
+
   const mockEthersProviderService = {
     getProvider: jest.fn(() => ({
       getCode: jest.fn().mockResolvedValue('0x'),
@@ -93,6 +109,7 @@ describeOrSkip('AuthService', () => {
     const { EthersProviderService } = await import(
       '../../blockchain/services/ethers-provider.service'
     );
+    const { SessionsService } = await import('./sessions.service');
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -101,12 +118,22 @@ describeOrSkip('AuthService', () => {
         { provide: JwtService, useValue: mockJwtService },
         { provide: ConfigService, useValue: mockConfigService },
         { provide: EthersProviderService, useValue: mockEthersProviderService },
+        { provide: SessionsService, useValue: mockSessionsService },
       ],
     }).compile();
 
     service = module.get<any>(AuthService);
     prisma = mockPrismaService;
     jwtService = mockJwtService;
+
+    mockSessionsService.createSession.mockResolvedValue({
+      session: mockSession,
+      refreshToken: 'refresh-token-1',
+    });
+    mockSessionsService.rotate.mockResolvedValue({
+      session: mockSession,
+      refreshToken: 'refresh-token-2',
+    });
   });
 
   it('should be defined', () => {
@@ -124,6 +151,27 @@ describeOrSkip('AuthService', () => {
       expect(result.message).toContain('Welcome to StoMaTrade');
     });
 
+    it('should issue and store an EIP-4361 message for the configured domain', async () => {
+      const { nonce, message } = await (service as AuthService).requestNonce({
+        walletAddress: '0x742d35Cc6634C0532925a3b844Bc454e4438f44E',
+      });
+
+      expect(message).toContain(
+        'app.stomatrade.xyz wants you to sign in with your Ethereum account:\n0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+      );
+      expect(message).toContain('URI: https://app.stomatrade.xyz');
+      expect(message).toContain('Chain ID: 5003');
+      expect(nonce).toMatch(/^[a-f0-9]{32}$/);
+      expect(mockPrismaService.nonce.create).toHaveBeenCalledWith({
+        data: {
+          walletAddress: '0x742d35cc6634c0532925a3b844bc454e4438f44e',
+          nonce,
+          message,
+          expiresAt: expect.any(Date) as Date,
+        },
+      });
+    });
+
     it('should throw BadRequestException for invalid address', async () => {
       await expect(
         service.requestNonce({ walletAddress: 'invalid-address' }),
@@ -131,6 +179,153 @@ describeOrSkip('AuthService', () => {
     });
   });
 
+  describe('verifySignature', () => {
+    const auth = () => service as AuthService;
+    const wallet = ethers.Wallet.createRandom();
+    const walletAddress = wallet.address.toLowerCase();
+
+    // Issue a message and answer nonce lookups with the stored row
+    const issueMessage = async () => {
+      const { nonce, message } = await auth().requestNonce({
+        walletAddress: wallet.address,
+      });
+      mockPrismaService.nonce.findFirst.mockResolvedValue({
+        id: 'nonce-1',
+        walletAddress,
+        nonce,
+        message,
+        expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+      });
+      return message;
+    };
+
+    beforeEach(() => {
+      mockPrismaService.nonce.deleteMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        walletAddress,
+      });
+    });
+
+    it('should sign in with the issued SIWE message', async () => {
+      const message = await issueMessage();
+
+      const result = await auth().verifySignature({
+        walletAddress: wallet.address,
+        signature: await wallet.signMessage(message),
+        message,
+      });
+
+      expect(result.accessToken).toBe('mock-jwt-token');
+      expect(result.refreshToken).toBe('refresh-token-1');
+      expect(mockJwtService.sign).toHaveBeenCalledWith({
+        sub: 'user-uuid-1',
+        walletAddress,
+        role: ROLES.INVESTOR,
+        sid: 'session-1',
+      });
+      expect(mockPrismaService.nonce.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'nonce-1' },
+      });
+    });
+
+    it('should verify against the latest issued message when none is sent', async () => {
+      const message = await issueMessage();
+
+      const result = await auth().verifySignature({
+        walletAddress: wallet.address,
+        signature: await wallet.signMessage(message),
+      });
+
+      expect(result.user.walletAddress).toBe(walletAddress);
+    });
+
+    it('should reject a message requested by another domain', async () => {
+      const message = (await issueMessage()).replace(
+        'app.stomatrade.xyz wants',
+        'stomatrade-login.xyz wants',
+      );
+
+      await expect(
+        auth().verifySignature({
+          walletAddress: wallet.address,
+          signature: await wallet.signMessage(message),
+          message,
+        }),
+      ).rejects.toThrow(
+        'Message was requested by stomatrade-login.xyz, not app.stomatrade.xyz',
+      );
+    });
+
+    it('should reject a message that differs from the issued one', async () => {
+      const message = (await issueMessage()).replace(
+        /Issued At: .*/,
+        'Issued At: 2026-01-01T00:00:00.000Z',
+      );
+
+      await expect(
+        auth().verifySignature({
+          walletAddress: wallet.address,
+          signature: await wallet.signMessage(message),
+          message,
+        }),
+      ).rejects.toThrow('Message does not match the one issued with the nonce');
+    });
+
+    it('should reject an expired message', async () => {
+      const message = (await issueMessage()).replace(
+        /Expiration Time: .*/,
+        'Expiration Time: 2026-01-01T00:00:00.000Z',
+      );
+
+      await expect(
+        auth().verifySignature({
+          walletAddress: wallet.address,
+          signature: await wallet.signMessage(message),
+          message,
+        }),
+      ).rejects.toThrow('Message expired');
+    });
+
+    it('should reject a signature by another wallet', async () => {
+      const message = await issueMessage();
+
+      await expect(
+        auth().verifySignature({
+          walletAddress: wallet.address,
+          signature: await ethers.Wallet.createRandom().signMessage(message),
+          message,
+        }),
+      ).rejects.toThrow('Invalid signature');
+    });
+
+    it('should not accept a nonce twice', async () => {
+      const message = await issueMessage();
+      mockPrismaService.nonce.deleteMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        auth().verifySignature({
+          walletAddress: wallet.address,
+          signature: await wallet.signMessage(message),
+          message,
+        }),
+      ).rejects.toThrow('Nonce already used');
+      expect(mockJwtService.sign).not.toHaveBeenCalled();
+    });
+
+    it('should reject free-form login messages', async () => {
+      const message = 'Login StoMaTrade: 2026-03-05 09:00:00.000000';
+
+      await expect(
+        auth().verifySignature({
+          walletAddress: wallet.address,
+          signature: await wallet.signMessage(message),
+          message,
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
   describe('getProfile', () => {
     it('should return user profile', async () => {
       prisma.user.findUnique.mockResolvedValue(mockUser);
@@ -153,18 +348,73 @@ describeOrSkip('AuthService', () => {
     it('should refresh token for valid user', async () => {
       prisma.user.findUnique.mockResolvedValue(mockUser);
 
-      const result = await service.refreshToken('user-uuid-1');
+      const result = await service.refreshToken({
+        refreshToken: 'refresh-token-1',
+      });
 
       expect(result).toHaveProperty('accessToken');
     });
 
+    it('should rotate the refresh token of the session', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+
+      const result = await (service as AuthService).refreshToken(
+        { refreshToken: 'refresh-token-1' },
+        { userAgent: 'Mozilla/5.0' },
+      );
+
+      expect(result.refreshToken).toBe('refresh-token-2');
+      expect(mockSessionsService.rotate).toHaveBeenCalledWith(
+        'refresh-token-1',
+        { userAgent: 'Mozilla/5.0' },
+      );
+      expect(mockJwtService.sign).toHaveBeenCalledWith({
+        sub: 'user-uuid-1',
+        walletAddress: mockUser.walletAddress,
+        role: ROLES.INVESTOR,
+        sid: 'session-1',
+      });
+    });
+
     it('should throw UnauthorizedException if user not found', async () => {
       prisma.user.findUnique.mockResolvedValue(null);
 
-      await expect(service.refreshToken('non-existent')).rejects.toThrow(
-        UnauthorizedException,
+      await expect(
+        service.refreshToken({ refreshToken: 'refresh-token-1' }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockSessionsService.revoke).toHaveBeenCalledWith(
+        'session-1',
+        'USER_REVOKED',
+      );
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the session of the access token', async () => {
+      await (service as AuthService).logout({
+        sub: 'user-uuid-1',
+        walletAddress: mockUser.walletAddress,
+        role: ROLES.INVESTOR,
+        sid: 'session-1',
+      });
+
+      expect(mockSessionsService.revokeForUser).toHaveBeenCalledWith(
+        'user-uuid-1',
+        'session-1',
+        'LOGOUT',
+        'session-1',
       );
     });
+
+    it('should reject access tokens without a session', async () => {
+      await expect(
+        (service as AuthService).logout({
+          sub: 'user-uuid-1',
+          walletAddress: mockUser.walletAddress,
+          role: ROLES.INVESTOR,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
   });
 });
 
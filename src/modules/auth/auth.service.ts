@@ -10,20 +10,40 @@ import { ConfigService } from '@nestjs/config';
 import { ethers } from 'ethers';
 // Type-only import - actual PrivyClient is lazy-loaded to prevent serverless crash
 import type { PrivyClient } from '@privy-io/server-auth';
+import { User } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 import { EthersProviderService } from '../../blockchain/services/ethers-provider.service';
 import { RequestNonceDto } from './dto/request-nonce.dto';
 import { VerifySignatureDto } from './dto/verify-signature.dto';
 import { RegisterUserDto } from './dto/register-user.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+import {
+  SessionClient,
+  SessionRevokedReason,
+  SessionsService,
+} from './sessions.service';
+import {
+  formatSiweMessage,
+  InvalidSiweMessageError,
+  parseSiweMessage,
+  SiweMessage,
+} from '../../common/utils/siwe.util';
+
+const SIWE_STATEMENT =
+  'Welcome to StoMaTrade! Sign in to authenticate. This signature will not cost you any gas fees.';
 
 export interface JwtPayload {
   sub: string; 
   walletAddress: string;
   role: string;
+  /** Session the token was issued for, revoking it invalidates the token */
+  sid?: string;
 }
 
 export interface AuthResponse {
   accessToken: string;
+  refreshToken: string;
   user: {
     id: string;
     walletAddress: string;
@@ -38,13 +58,14 @@ export class AuthService {
   private privyInitialized = false;
   private privyInitError: Error | null = null;
 
-  private readonly SIGNATURE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
+  private readonly NONCE_TTL_MS = 5 * 60 * 1000;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
     private readonly providerService: EthersProviderService,
+    private readonly sessionsService: SessionsService,
   ) {
     // Don't initialize Privy in constructor to prevent serverless crash
     // Will lazy-load when needed
@@ -111,7 +132,20 @@ export class AuthService {
     }
 
     const nonce = this.generateNonce();
-    const expiresAt = new Date(Date.now() + 5 * 60 * 1000);
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + this.NONCE_TTL_MS);
+
+    const message = formatSiweMessage({
+      domain: this.getSiweDomain(),
+      address: ethers.getAddress(walletAddress),
+      statement: SIWE_STATEMENT,
+      uri: this.getSiweUri(),
+      version: '1',
+      chainId: this.providerService.getChainId(),
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: expiresAt.toISOString(),
+    });
 
     // Delete expired nonces for this wallet
     await this.prisma.nonce.deleteMany({
@@ -123,12 +157,11 @@ export class AuthService {
       data: {
         walletAddress,
         nonce,
+        message,
         expiresAt,
       },
     });
 
-    const message = this.createSignMessage(walletAddress, nonce);
-
     this.logger.log(`Nonce generated for wallet: ${walletAddress}`);
 
     return {
@@ -137,13 +170,16 @@ export class AuthService {
     };
   }
 
-  async verifySignature(dto: VerifySignatureDto): Promise<AuthResponse> {
+  /**
+   * Sign in with an EIP-4361 message issued by requestNonce(). Clients may
+   * send the signed message or only the signature of the latest one issued.
+   */
+  async verifySignature(
+    dto: VerifySignatureDto,
+    client: SessionClient = {},
+  ): Promise<AuthResponse> {
     const walletAddress = dto.walletAddress.toLowerCase();
 
-    if (dto.message) {
-      return this.loginByWallet(dto);
-    }
-
     // Clean up expired nonces first
     await this.prisma.nonce.deleteMany({
       where: {
@@ -153,30 +189,74 @@ export class AuthService {
       },
     });
 
-    // Get nonce from database
+    let text = dto.message;
+    if (!text) {
+      const latestNonce = await this.prisma.nonce.findFirst({
+        where: { walletAddress },
+        orderBy: { createdAt: 'desc' },
+      });
+      text = latestNonce?.message ?? undefined;
+    }
+
+    if (!text) {
+      throw new UnauthorizedException(
+        'Nonce not found. Please request a new nonce.',
+      );
+    }
+
+    let message: SiweMessage;
+    try {
+      message = parseSiweMessage(text);
+    } catch (error) {
+      if (error instanceof InvalidSiweMessageError) {
+        throw new UnauthorizedException(
+          `Invalid SIWE message: ${error.message}`,
+        );
+      }
+      throw error;
+    }
+
+    const invalidField = this.validateSiweMessage(message, walletAddress);
+    if (invalidField) {
+      throw new UnauthorizedException(invalidField);
+    }
+
     const storedNonce = await this.prisma.nonce.findFirst({
-      where: { walletAddress },
-      orderBy: { createdAt: 'desc' },
+      where: { walletAddress, nonce: message.nonce },
     });
 
     if (!storedNonce) {
-      throw new UnauthorizedException('Nonce not found. Please request a new nonce.');
+      throw new UnauthorizedException(
+        'Nonce not found. Please request a new nonce.',
+      );
     }
 
-    if (new Date() > storedNonce.expiresAt) {
-      await this.prisma.nonce.delete({ where: { id: storedNonce.id } });
-      throw new UnauthorizedException('Nonce expired. Please request a new nonce.');
+    // Every field, including issuedAt and chainId, must be as issued
+    if (storedNonce.message !== text) {
+      throw new UnauthorizedException(
+        'Message does not match the one issued with the nonce',
+      );
     }
 
-    const message = this.createSignMessage(walletAddress, storedNonce.nonce);
-    const isValid = this.verifyWalletSignature(message, dto.signature, walletAddress);
-
-    if (!isValid) {
-      throw new UnauthorizedException('Invalid signature');
+    const invalidReason = await this.verifyLoginSignature(
+      text,
+      dto.signature,
+      walletAddress,
+    );
+    if (invalidReason) {
+      throw new UnauthorizedException(invalidReason);
     }
 
-    // Delete used nonce
-    await this.prisma.nonce.delete({ where: { id: storedNonce.id } });
+    // Single use: of concurrent requests only the one deleting the nonce signs in
+    const { count } = await this.prisma.nonce.deleteMany({
+      where: { id: storedNonce.id },
+    });
+
+    if (count === 0) {
+      throw new UnauthorizedException(
+        'Nonce already used. Please request a new nonce.',
+      );
+    }
 
     let user = await this.prisma.user.findUnique({
       where: { walletAddress },
@@ -192,61 +272,64 @@ export class AuthService {
       });
     }
 
-    const payload: JwtPayload = {
-      sub: user.id,
-      walletAddress: user.walletAddress,
-      role: user.role,
-    };
+    return this.issueTokens(user, client);
+  }
 
-    const accessToken = this.jwtService.sign(payload);
+  /**
+   * Reason the message cannot sign the wallet in here and now, empty when it
+   * can. A message requested by another domain is rejected even when its
+   * signature is valid.
+   */
+  private validateSiweMessage(
+    message: SiweMessage,
+    walletAddress: string,
+  ): string {
+    const now = Date.now();
 
-    return {
-      accessToken,
-      user: {
-        id: user.id,
-        walletAddress: user.walletAddress,
-        role: user.role,
-      },
-    };
-  }
+    if (message.domain !== this.getSiweDomain() || message.scheme) {
+      return `Message was requested by ${message.domain}, not ${this.getSiweDomain()}`;
+    }
 
-  private async verifyLoginSignature(dto: VerifySignatureDto): Promise<string> {
-    let invalidReason = '';
-    const walletAddress = dto.walletAddress.toLowerCase();
-    const message = dto.message!;
+    if (message.uri !== this.getSiweUri()) {
+      return `Message URI ${message.uri} does not match ${this.getSiweUri()}`;
+    }
 
-    try {
-      const match = message.match(
-        /\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}\.\d{6}/
-      );
+    if (message.address.toLowerCase() !== walletAddress) {
+      return 'Message address does not match the wallet';
+    }
 
-      if (!match) {
-        invalidReason = 'Timestamp not found in message';
-      } else {
-        const iso = match[0].replace(' ', 'T') + '+07:00';
-        const timestamp = Date.parse(iso);
+    if (message.chainId !== this.providerService.getChainId()) {
+      return `Message is for chain ${message.chainId}, expected ${this.providerService.getChainId()}`;
+    }
 
-        if (isNaN(timestamp)) {
-          invalidReason = 'Invalid timestamp format in message';
-        } else if (Date.now() - timestamp > this.SIGNATURE_EXPIRY_MS) {
-          invalidReason = 'Signature expired';
-        }
-      }
+    if (Date.parse(message.issuedAt) > now) {
+      return 'Message issued in the future';
+    }
 
-    } catch {
-      invalidReason = 'Invalid message format';
+    if (!message.expirationTime || Date.parse(message.expirationTime) <= now) {
+      return 'Message expired. Please request a new nonce.';
     }
 
-    if (invalidReason) {
-      return invalidReason;
+    if (message.notBefore && Date.parse(message.notBefore) > now) {
+      return 'Message is not valid yet';
     }
 
+    return '';
+  }
+
+  private async verifyLoginSignature(
+    message: string,
+    signature: string,
+    walletAddress: string,
+  ): Promise<string> {
+    let invalidReason = '';
+
     const isSmartContract = await this.isContractAddress(walletAddress);
 
     if (isSmartContract) {
       const isValid = await this.verifySmartWalletSignature(
         message,
-        dto.signature,
+        signature,
         walletAddress,
       );
 
@@ -255,7 +338,7 @@ export class AuthService {
       }
     } else {
       try {
-        const recoveredAddress = ethers.verifyMessage(message, dto.signature);
+        const recoveredAddress = ethers.verifyMessage(message, signature);
 
         if (walletAddress !== recoveredAddress.toLowerCase()) {
           this.logger.warn(`Address mismatch - checking if Privy embedded wallet`);
@@ -263,12 +346,12 @@ export class AuthService {
           const isPrivyWallet = await this.verifyPrivyEmbeddedWallet(
             walletAddress,
             message,
-            dto.signature,
+            signature,
             recoveredAddress,
           );
 
           if (!isPrivyWallet) {
-            invalidReason = 'Invalid signer';
+            invalidReason = 'Invalid signature';
           } 
         }
       } catch (error) {
@@ -279,46 +362,6 @@ export class AuthService {
     return invalidReason;
   }
 
-  private async loginByWallet(dto: VerifySignatureDto): Promise<AuthResponse> {
-    const walletAddress = dto.walletAddress.toLowerCase();
-
-    const invalidReason = await this.verifyLoginSignature(dto);
-    if (invalidReason) {
-      throw new UnauthorizedException(invalidReason);
-    }
-
-    let user = await this.prisma.user.findUnique({
-      where: { walletAddress },
-    });
-
-    if (!user) {
-      
-      user = await this.prisma.user.create({
-        data: {
-          walletAddress,
-          role: 'INVESTOR',
-        },
-      });
-    }
-
-    const payload: JwtPayload = {
-      sub: user.id,
-      walletAddress: user.walletAddress,
-      role: user.role,
-    };
-
-    const accessToken = this.jwtService.sign(payload);
-
-    return {
-      accessToken,
-      user: {
-        id: user.id,
-        walletAddress: user.walletAddress,
-        role: user.role,
-      },
-    };
-  }
-
   private async isContractAddress(address: string): Promise<boolean> {
     try {
       const provider = this.providerService.getProvider();
@@ -432,22 +475,7 @@ export class AuthService {
       },
     });
 
-    const payload: JwtPayload = {
-      sub: user.id,
-      walletAddress: user.walletAddress,
-      role: user.role,
-    };
-
-    const accessToken = this.jwtService.sign(payload);
-
-    return {
-      accessToken,
-      user: {
-        id: user.id,
-        walletAddress: user.walletAddress,
-        role: user.role,
-      },
-    };
+    return this.issueTokens(user);
   }
 
   async getProfile(userId: string) {
@@ -470,46 +498,104 @@ export class AuthService {
     return user;
   }
 
-  async refreshToken(userId: string): Promise<{ accessToken: string }> {
+  /**
+   * Exchange a refresh token for a new access token and the next refresh
+   * token of the session
+   */
+  async refreshToken(
+    dto: RefreshTokenDto,
+    client: SessionClient = {},
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    const { session, refreshToken } = await this.sessionsService.rotate(
+      dto.refreshToken,
+      client,
+    );
+
     const user = await this.prisma.user.findUnique({
-      where: { id: userId, deleted: false },
+      where: { id: session.userId, deleted: false },
     });
 
     if (!user) {
+      await this.sessionsService.revoke(
+        session.id,
+        SessionRevokedReason.USER_REVOKED,
+      );
       throw new UnauthorizedException('User not found');
     }
 
+    return {
+      accessToken: this.signAccessToken(user, session.id),
+      refreshToken,
+    };
+  }
+
+  /**
+   * Revoke the session of the access token, which also ends its refresh
+   * tokens
+   */
+  async logout(user: JwtPayload): Promise<SessionResponseDto> {
+    if (!user.sid) {
+      throw new BadRequestException('Access token is not bound to a session');
+    }
+
+    return this.sessionsService.revokeForUser(
+      user.sub,
+      user.sid,
+      SessionRevokedReason.LOGOUT,
+      user.sid,
+    );
+  }
+
+  private async issueTokens(
+    user: User,
+    client: SessionClient = {},
+  ): Promise<AuthResponse> {
+    const { session, refreshToken } = await this.sessionsService.createSession(
+      user.id,
+      client,
+    );
+
+    return {
+      accessToken: this.signAccessToken(user, session.id),
+      refreshToken,
+      user: {
+        id: user.id,
+        walletAddress: user.walletAddress,
+        role: user.role,
+      },
+    };
+  }
+
+  private signAccessToken(user: User, sessionId: string): string {
     const payload: JwtPayload = {
       sub: user.id,
       walletAddress: user.walletAddress,
       role: user.role,
+      sid: sessionId,
     };
 
-    const accessToken = this.jwtService.sign(payload);
-
-    return { accessToken };
+    return this.jwtService.sign(payload);
   }
 
+  /**
+   * EIP-4361 nonces are at least 8 alphanumeric characters
+   */
   private generateNonce(): string {
-    return Math.floor(Math.random() * 1000000).toString().padStart(6, '0');
+    return ethers.hexlify(ethers.randomBytes(16)).slice(2);
   }
 
-  private createSignMessage(walletAddress: string, nonce: string): string {
-    return `Welcome to StoMaTrade!\n\nPlease sign this message to authenticate.\n\nWallet: ${walletAddress}\nNonce: ${nonce}\n\nThis signature will not cost you any gas fees.`;
+  /**
+   * Host of the frontend that asks wallets to sign in
+   */
+  private getSiweDomain(): string {
+    return this.configService.get<string>('SIWE_DOMAIN') ?? 'localhost:3000';
   }
 
-  private verifyWalletSignature(
-    message: string,
-    signature: string,
-    expectedAddress: string,
-  ): boolean {
-    try {
-      const recoveredAddress = ethers.verifyMessage(message, signature);
-      return recoveredAddress.toLowerCase() === expectedAddress.toLowerCase();
-    } catch (error) {
-      this.logger.error('Signature verification failed', error);
-      return false;
-    }
+  private getSiweUri(): string {
+    return (
+      this.configService.get<string>('SIWE_URI') ??
+      `http://${this.getSiweDomain()}`
+    );
   }
 
   async validateToken(token: string): Promise<JwtPayload | null> {
@@ -0,0 +1,19 @@
+import { SetMetadata } from '@nestjs/common';
+import { OwnedResource } from '../ownership.service';
+
+export const OWNERSHIP_KEY = 'ownership';
+
+export interface OwnershipRule {
+  resource: OwnedResource;
+  /** Part of the request holding the resource ID, `params` by default */
+  in?: 'params' | 'body' | 'query';
+  /** Name of the field holding the resource ID, `id` by default */
+  key?: string;
+}
+
+/**
+ * Require the current user to own every resource referenced by the request.
+ * Admin and staff are exempt; see OwnershipGuard.
+ */
+export const Owns = (...rules: OwnershipRule[]) =>
+  SetMetadata(OWNERSHIP_KEY, rules);
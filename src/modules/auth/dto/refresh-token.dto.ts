@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    example: 'q3Jm0bVtq6vJ3o1c0n8y0m6QbQmR0n5kq7w1Xx8Yb2E',
+    description: 'Latest refresh token of the session; each one is single use',
+  })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
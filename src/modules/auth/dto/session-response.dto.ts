@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SessionResponseDto {
+  @ApiProperty({ example: 'b3f1c2d4-5e6f-4a7b-8c9d-0e1f2a3b4c5d' })
+  id: string;
+
+  @ApiProperty({
+    example: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X)',
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  @ApiProperty({ example: '203.0.113.7', nullable: true })
+  ipAddress: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Last sign-in or token refresh' })
+  lastUsedAt: Date;
+
+  @ApiProperty({ description: 'Expires unless refreshed before then' })
+  expiresAt: Date;
+
+  @ApiProperty({ nullable: true })
+  revokedAt: Date | null;
+
+  @ApiProperty({
+    example: true,
+    description: 'Session of the access token making the request',
+  })
+  current: boolean;
+}
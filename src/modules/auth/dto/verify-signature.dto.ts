@@ -17,7 +17,10 @@ export class VerifySignatureDto {
   signature: string;
 
   @ApiProperty({
-    example: 'Login StoMaTrade: 2025-11-29T08:00:00.000Z',
+    example:
+      'app.stomatrade.xyz wants you to sign in with your Ethereum account:\n0x742d35Cc6634C0532925a3b844Bc454e4438f44e\n\n...',
+    description:
+      'EIP-4361 message returned by POST /auth/nonce, as signed. Defaults to the latest message issued to the wallet.',
     required: false,
   })
   @IsString()
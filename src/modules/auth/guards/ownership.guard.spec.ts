@@ -0,0 +1,158 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ROLES } from '@prisma/client';
+import { OwnershipGuard } from './ownership.guard';
+import { OwnershipService } from '../ownership.service';
+import { OWNERSHIP_KEY, OwnershipRule } from '../decorators/owns.decorator';
+import { JwtPayload } from '../auth.service';
+import { FilesController } from '../../files/files.controller';
+
+describe('OwnershipGuard', () => {
+  let guard: OwnershipGuard;
+
+  const reflector = { getAllAndOverride: jest.fn() };
+  const ownershipService = {
+    isPrivileged: jest.fn(),
+    canAccess: jest.fn(),
+  };
+
+  const investor: JwtPayload = {
+    sub: 'user-uuid-1',
+    walletAddress: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+    role: ROLES.INVESTOR,
+  };
+
+  const contextFor = (request: {
+    user?: JwtPayload;
+    params?: object;
+    body?: object;
+    query?: object;
+  }) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  const withRules = (...rules: OwnershipRule[]) =>
+    reflector.getAllAndOverride.mockReturnValue(rules);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    guard = new OwnershipGuard(
+      reflector as unknown as Reflector,
+      ownershipService as unknown as OwnershipService,
+    );
+
+    ownershipService.isPrivileged.mockReturnValue(false);
+    ownershipService.canAccess.mockResolvedValue(true);
+  });
+
+  it('should allow routes without ownership rules', async () => {
+    reflector.getAllAndOverride.mockReturnValue(undefined);
+
+    await expect(guard.canActivate(contextFor({}))).resolves.toBe(true);
+  });
+
+  it('should check every referenced resource', async () => {
+    withRules(
+      { resource: 'user', key: 'userId' },
+      { resource: 'farmer', in: 'body', key: 'farmerId' },
+    );
+
+    await expect(
+      guard.canActivate(
+        contextFor({
+          user: investor,
+          params: { userId: 'user-uuid-1' },
+          body: { farmerId: 'farmer-1' },
+        }),
+      ),
+    ).resolves.toBe(true);
+    expect(ownershipService.canAccess.mock.calls).toEqual([
+      [investor, 'user', 'user-uuid-1'],
+      [investor, 'farmer', 'farmer-1'],
+    ]);
+  });
+
+  it('should forbid resources of other users', async () => {
+    withRules({ resource: 'user', in: 'body', key: 'userId' });
+    ownershipService.canAccess.mockResolvedValue(false);
+
+    await expect(
+      guard.canActivate(
+        contextFor({ user: investor, body: { userId: 'user-uuid-2' } }),
+      ),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should forbid IDs that are not strings', async () => {
+    withRules({ resource: 'user', in: 'body', key: 'userId' });
+
+    await expect(
+      guard.canActivate(
+        contextFor({ user: investor, body: { userId: ['user-uuid-1'] } }),
+      ),
+    ).rejects.toThrow(ForbiddenException);
+    expect(ownershipService.canAccess).not.toHaveBeenCalled();
+  });
+
+  it('should leave missing IDs to validation', async () => {
+    withRules({ resource: 'user', in: 'body', key: 'userId' });
+
+    await expect(
+      guard.canActivate(contextFor({ user: investor, body: {} })),
+    ).resolves.toBe(true);
+    expect(ownershipService.canAccess).not.toHaveBeenCalled();
+  });
+
+  it('should let admin and staff through without lookups', async () => {
+    withRules({ resource: 'investment' });
+    ownershipService.isPrivileged.mockReturnValue(true);
+
+    await expect(
+      guard.canActivate(
+        contextFor({
+          user: { ...investor, role: ROLES.STAFF },
+          params: { id: 'investment-1' },
+        }),
+      ),
+    ).resolves.toBe(true);
+    expect(ownershipService.canAccess).not.toHaveBeenCalled();
+  });
+
+  it('should forbid attaching files to entities of other users', async () => {
+    withRules({ resource: 'fileReference', in: 'body', key: 'reffId' });
+    ownershipService.canAccess.mockResolvedValue(false);
+
+    await expect(
+      guard.canActivate(
+        contextFor({ user: investor, body: { reffId: 'farmer-1' } }),
+      ),
+    ).rejects.toThrow(ForbiddenException);
+    expect(ownershipService.canAccess).toHaveBeenCalledWith(
+      investor,
+      'fileReference',
+      'farmer-1',
+    );
+  });
+
+  it.each([
+    ['create', { resource: 'fileReference', in: 'body', key: 'reffId' }],
+    ['findByReffId', { resource: 'fileReference', key: 'reffId' }],
+    ['findOne', { resource: 'file' }],
+  ] as const)('should guard FilesController.%s', (handler, rule) => {
+    expect(
+      Reflect.getMetadata(OWNERSHIP_KEY, FilesController.prototype[handler]),
+    ).toEqual([rule]);
+  });
+
+  it('should reject unauthenticated requests', async () => {
+    withRules({ resource: 'user', key: 'userId' });
+
+    await expect(
+      guard.canActivate(contextFor({ params: { userId: 'user-uuid-1' } })),
+    ).rejects.toThrow('User not authenticated');
+  });
+});
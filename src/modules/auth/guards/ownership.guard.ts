@@ -0,0 +1,71 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { OWNERSHIP_KEY, OwnershipRule } from '../decorators/owns.decorator';
+import { OwnershipService } from '../ownership.service';
+import { JwtPayload } from '../auth.service';
+
+/**
+ * Enforces @Owns() rules after RolesGuard: investors and collectors may only
+ * reference resources they own, admin and staff may reference any.
+ *
+ * A resource that does not exist is refused like one owned by someone else,
+ * so IDs of other users' data cannot be probed.
+ */
+@Injectable()
+export class OwnershipGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private ownershipService: OwnershipService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const rules = this.reflector.getAllAndOverride<OwnershipRule[]>(
+      OWNERSHIP_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!rules?.length) {
+      return true;
+    }
+
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: JwtPayload }>();
+    const { user } = request;
+
+    if (!user) {
+      throw new ForbiddenException('User not authenticated');
+    }
+
+    if (this.ownershipService.isPrivileged(user)) {
+      return true;
+    }
+
+    for (const { resource, in: location = 'params', key = 'id' } of rules) {
+      const source = request[location] as Record<string, unknown> | undefined;
+      const id = source?.[key];
+
+      // Missing IDs are left to validation, optional filters to the handler
+      if (id === undefined || id === null || id === '') {
+        continue;
+      }
+
+      if (
+        typeof id !== 'string' ||
+        !(await this.ownershipService.canAccess(user, resource, id))
+      ) {
+        throw new ForbiddenException(
+          'Access denied. You can only access your own data',
+        );
+      }
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,147 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ROLES } from '@prisma/client';
+import { OwnershipService } from './ownership.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+describe('OwnershipService', () => {
+  let service: OwnershipService;
+  let prisma: typeof mockPrismaService;
+
+  const investor = {
+    sub: 'user-uuid-1',
+    walletAddress: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+    role: ROLES.INVESTOR,
+  };
+  const collector = { ...investor, sub: 'user-uuid-2', role: ROLES.COLLECTOR };
+  const ownedByCollector = { collector: { userId: 'user-uuid-2' } };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OwnershipService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<OwnershipService>(OwnershipService);
+    prisma = mockPrismaService;
+  });
+
+  describe('findOwnerId', () => {
+    it('should resolve the collector behind farmers, lands and projects', async () => {
+      prisma.farmer.findUnique.mockResolvedValue(ownedByCollector);
+      prisma.land.findUnique.mockResolvedValue({ farmer: ownedByCollector });
+      prisma.project.findUnique.mockResolvedValue(ownedByCollector);
+      prisma.projectSubmission.findUnique.mockResolvedValue({
+        project: ownedByCollector,
+      });
+
+      await expect(service.findOwnerId('farmer', 'farmer-1')).resolves.toBe(
+        'user-uuid-2',
+      );
+      await expect(service.findOwnerId('land', 'land-1')).resolves.toBe(
+        'user-uuid-2',
+      );
+      await expect(service.findOwnerId('project', 'project-1')).resolves.toBe(
+        'user-uuid-2',
+      );
+      await expect(
+        service.findOwnerId('projectSubmission', 'submission-1'),
+      ).resolves.toBe('user-uuid-2');
+      expect(prisma.land.findUnique).toHaveBeenCalledWith({
+        where: { id: 'land-1' },
+        select: {
+          farmer: { select: { collector: { select: { userId: true } } } },
+        },
+      });
+    });
+
+    it('should resolve the investor of an investment', async () => {
+      prisma.investment.findUnique.mockResolvedValue({ userId: 'user-uuid-1' });
+
+      await expect(
+        service.findOwnerId('investment', 'investment-1'),
+      ).resolves.toBe('user-uuid-1');
+    });
+
+    it('should resolve the owner of the entity a file is attached to', async () => {
+      prisma.collector.findUnique.mockResolvedValue(null);
+      prisma.farmer.findUnique.mockResolvedValue(null);
+      prisma.land.findUnique.mockResolvedValue({ farmer: ownedByCollector });
+      prisma.project.findUnique.mockResolvedValue(null);
+      prisma.investment.findUnique.mockResolvedValue(null);
+      prisma.farmerSubmission.findUnique.mockResolvedValue(null);
+      prisma.projectSubmission.findUnique.mockResolvedValue(null);
+      prisma.file.findUnique.mockResolvedValue({ reffId: 'land-1' });
+
+      await expect(
+        service.findOwnerId('fileReference', 'land-1'),
+      ).resolves.toBe('user-uuid-2');
+      await expect(service.findOwnerId('file', 'file-1')).resolves.toBe(
+        'user-uuid-2',
+      );
+      expect(prisma.file.findUnique).toHaveBeenCalledWith({
+        where: { id: 'file-1' },
+        select: { reffId: true },
+      });
+    });
+
+    it('should return null for files attached to nothing known', async () => {
+      prisma.collector.findUnique.mockResolvedValue(null);
+      prisma.farmer.findUnique.mockResolvedValue(null);
+      prisma.land.findUnique.mockResolvedValue(null);
+      prisma.project.findUnique.mockResolvedValue(null);
+      prisma.investment.findUnique.mockResolvedValue(null);
+      prisma.farmerSubmission.findUnique.mockResolvedValue(null);
+      prisma.projectSubmission.findUnique.mockResolvedValue(null);
+      prisma.file.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.findOwnerId('fileReference', 'unknown'),
+      ).resolves.toBeNull();
+      await expect(service.findOwnerId('file', 'file-1')).resolves.toBeNull();
+    });
+
+    it('should return null for resources that do not exist', async () => {
+      prisma.collector.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.findOwnerId('collector', 'collector-1'),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('canAccess', () => {
+    it('should let users access their own data only', async () => {
+      await expect(
+        service.canAccess(investor, 'user', 'user-uuid-1'),
+      ).resolves.toBe(true);
+      await expect(
+        service.canAccess(investor, 'user', 'user-uuid-2'),
+      ).resolves.toBe(false);
+    });
+
+    it('should refuse collectors the farmers of other collectors', async () => {
+      prisma.farmer.findUnique.mockResolvedValue({
+        collector: { userId: 'user-uuid-3' },
+      });
+
+      await expect(
+        service.canAccess(collector, 'farmer', 'farmer-1'),
+      ).resolves.toBe(false);
+    });
+
+    it.each([ROLES.ADMIN, ROLES.STAFF])(
+      'should let %s access any data',
+      async (role) => {
+        await expect(
+          service.canAccess({ ...investor, role }, 'investment', 'any'),
+        ).resolves.toBe(true);
+        expect(prisma.investment.findUnique).not.toHaveBeenCalled();
+      },
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { Injectable } from '@nestjs/common';
+import { ROLES } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { JwtPayload } from './auth.service';
+
+export type OwnedResource =
+  | 'user'
+  | 'collector'
+  | 'farmer'
+  | 'land'
+  | 'project'
+  | 'investment'
+  | 'tokenNotification'
+  | 'farmerSubmission'
+  | 'projectSubmission'
+  /** Entity a file is attached to through File.reffId */
+  | 'fileReference'
+  | 'file';
+
+/**
+ * Roles that see and act on all data
+ */
+export const PRIVILEGED_ROLES: string[] = [ROLES.ADMIN, ROLES.STAFF];
+
+/**
+ * Resources files can be attached to; File.reffId does not say which
+ */
+const FILE_REFERENCE_RESOURCES: OwnedResource[] = [
+  'collector',
+  'farmer',
+  'land',
+  'project',
+  'investment',
+  'farmerSubmission',
+  'projectSubmission',
+];
+
+/**
+ * Who owns what: investors own their user data and investments, collectors
+ * own their collector profile and the farmers, lands and projects under it.
+ */
+@Injectable()
+export class OwnershipService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  isPrivileged(user: Pick<JwtPayload, 'role'>): boolean {
+    return PRIVILEGED_ROLES.includes(user.role);
+  }
+
+  async canAccess(
+    user: JwtPayload,
+    resource: OwnedResource,
+    id: string,
+  ): Promise<boolean> {
+    if (this.isPrivileged(user)) {
+      return true;
+    }
+
+    return (await this.findOwnerId(resource, id)) === user.sub;
+  }
+
+  /**
+   * ID of the user owning the resource, or null if it does not exist
+   */
+  async findOwnerId(
+    resource: OwnedResource,
+    id: string,
+  ): Promise<string | null> {
+    switch (resource) {
+      case 'user':
+        return id;
+      case 'collector': {
+        const collector = await this.prisma.collector.findUnique({
+          where: { id },
+          select: { userId: true },
+        });
+        return collector?.userId ?? null;
+      }
+      case 'farmer': {
+        const farmer = await this.prisma.farmer.findUnique({
+          where: { id },
+          select: { collector: { select: { userId: true } } },
+        });
+        return farmer?.collector.userId ?? null;
+      }
+      case 'land': {
+        const land = await this.prisma.land.findUnique({
+          where: { id },
+          select: {
+            farmer: { select: { collector: { select: { userId: true } } } },
+          },
+        });
+        return land?.farmer.collector.userId ?? null;
+      }
+      case 'project': {
+        const project = await this.prisma.project.findUnique({
+          where: { id },
+          select: { collector: { select: { userId: true } } },
+        });
+        return project?.collector.userId ?? null;
+      }
+      case 'investment': {
+        const investment = await this.prisma.investment.findUnique({
+          where: { id },
+          select: { userId: true },
+        });
+        return investment?.userId ?? null;
+      }
+      case 'tokenNotification': {
+        const token = await this.prisma.tokenNotification.findUnique({
+          where: { id },
+          select: { userId: true },
+        });
+        return token?.userId ?? null;
+      }
+      case 'farmerSubmission': {
+        const submission = await this.prisma.farmerSubmission.findUnique({
+          where: { id },
+          select: {
+            farmer: { select: { collector: { select: { userId: true } } } },
+          },
+        });
+        return submission?.farmer.collector.userId ?? null;
+      }
+      case 'projectSubmission': {
+        const submission = await this.prisma.projectSubmission.findUnique({
+          where: { id },
+          select: {
+            project: { select: { collector: { select: { userId: true } } } },
+          },
+        });
+        return submission?.project.collector.userId ?? null;
+      }
+      case 'fileReference': {
+        // IDs are UUIDs, so at most one resource matches
+        const owners = await Promise.all(
+          FILE_REFERENCE_RESOURCES.map((referenced) =>
+            this.findOwnerId(referenced, id),
+          ),
+        );
+        return owners.find((ownerId) => ownerId !== null) ?? null;
+      }
+      case 'file': {
+        const file = await this.prisma.file.findUnique({
+          where: { id },
+          select: { reffId: true },
+        });
+        return file ? this.findOwnerId('fileReference', file.reffId) : null;
+      }
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { SessionRevokedReason, SessionsService } from './sessions.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  let prisma: typeof mockPrismaService;
+
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue(undefined),
+  };
+
+  const inOneDay = () => new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  const session = {
+    id: 'session-1',
+    userId: 'user-uuid-1',
+    userAgent: 'Mozilla/5.0',
+    ipAddress: '203.0.113.7',
+    createdAt: new Date('2026-03-08T09:00:00Z'),
+    lastUsedAt: new Date('2026-03-08T09:00:00Z'),
+    expiresAt: inOneDay(),
+    revokedAt: null,
+    revokedReason: null,
+  };
+
+  const storedToken = (overrides = {}) => ({
+    id: 'refresh-1',
+    sessionId: 'session-1',
+    tokenHash: createHash('sha256').update('refresh-token-1').digest('hex'),
+    expiresAt: inOneDay(),
+    rotatedAt: null,
+    createdAt: new Date(),
+    session,
+    ...overrides,
+  });
+
+  // Hashes stored by refreshToken.create(), oldest first
+  const storedHashes = () =>
+    (
+      prisma.refreshToken.create.mock.calls as [
+        { data: { tokenHash: string } },
+      ][]
+    ).map(([{ data }]) => data.tokenHash);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+    prisma = mockPrismaService;
+
+    prisma.authSession.create.mockResolvedValue(session);
+    prisma.authSession.update.mockResolvedValue(session);
+    prisma.authSession.updateMany.mockResolvedValue({ count: 1 });
+    prisma.refreshToken.create.mockResolvedValue({});
+    prisma.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('createSession', () => {
+    it('should store only the hash of the refresh token', async () => {
+      const { refreshToken } = await service.createSession('user-uuid-1', {
+        userAgent: 'Mozilla/5.0',
+        ipAddress: '203.0.113.7',
+      });
+
+      expect(refreshToken).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(storedHashes()).toEqual([
+        createHash('sha256').update(refreshToken).digest('hex'),
+      ]);
+      expect(prisma.authSession.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-uuid-1',
+          userAgent: 'Mozilla/5.0',
+          ipAddress: '203.0.113.7',
+          expiresAt: expect.any(Date) as Date,
+        },
+      });
+    });
+  });
+
+  describe('rotate', () => {
+    it('should exchange the token for the next one of the session', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(storedToken());
+
+      const { session: rotated, refreshToken } =
+        await service.rotate('refresh-token-1');
+
+      expect(rotated).toBe(session);
+      expect(refreshToken).not.toBe('refresh-token-1');
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'refresh-1', rotatedAt: null },
+        data: { rotatedAt: expect.any(Date) as Date },
+      });
+      expect(prisma.refreshToken.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should revoke the session when a rotated token is reused', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(
+        storedToken({ rotatedAt: new Date() }),
+      );
+
+      await expect(service.rotate('refresh-token-1')).rejects.toThrow(
+        'Refresh token reuse detected',
+      );
+      expect(prisma.authSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: {
+          revokedAt: expect.any(Date) as Date,
+          revokedReason: SessionRevokedReason.REFRESH_TOKEN_REUSE,
+        },
+      });
+      expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should treat a token claimed concurrently as reused', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(storedToken());
+      prisma.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.rotate('refresh-token-1')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(prisma.authSession.updateMany).toHaveBeenCalled();
+    });
+
+    it('should reject tokens of revoked sessions', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(
+        storedToken({ session: { ...session, revokedAt: new Date() } }),
+      );
+
+      await expect(service.rotate('refresh-token-1')).rejects.toThrow(
+        'Session has been revoked',
+      );
+      expect(prisma.refreshToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired and unknown tokens', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValueOnce(
+        storedToken({ expiresAt: new Date(Date.now() - 1000) }),
+      );
+      prisma.refreshToken.findUnique.mockResolvedValueOnce(null);
+
+      await expect(service.rotate('refresh-token-1')).rejects.toThrow(
+        'Refresh token expired',
+      );
+      await expect(service.rotate('unknown')).rejects.toThrow(
+        'Invalid refresh token',
+      );
+      expect(prisma.authSession.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findActive', () => {
+    it('should mark the session of the request as current', async () => {
+      prisma.authSession.findMany.mockResolvedValue([
+        session,
+        { ...session, id: 'session-2' },
+      ]);
+
+      const sessions = await service.findActive('user-uuid-1', 'session-2');
+
+      expect(sessions.map(({ id, current }) => ({ id, current }))).toEqual([
+        { id: 'session-1', current: false },
+        { id: 'session-2', current: true },
+      ]);
+    });
+  });
+
+  describe('revokeForUser', () => {
+    it('should revoke a session of the user', async () => {
+      prisma.authSession.findFirst.mockResolvedValue(session);
+      prisma.authSession.findUniqueOrThrow.mockResolvedValue({
+        ...session,
+        revokedAt: new Date(),
+        revokedReason: SessionRevokedReason.USER_REVOKED,
+      });
+
+      const revoked = await service.revokeForUser('user-uuid-1', 'session-1');
+
+      expect(revoked.revokedAt).toBeInstanceOf(Date);
+      expect(prisma.authSession.findFirst).toHaveBeenCalledWith({
+        where: { id: 'session-1', userId: 'user-uuid-1' },
+      });
+    });
+
+    it('should not reveal sessions of other users', async () => {
+      prisma.authSession.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.revokeForUser('user-uuid-2', 'session-1'),
+      ).rejects.toThrow(NotFoundException);
+      expect(prisma.authSession.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthSession } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { SessionResponseDto } from './dto/session-response.dto';
+
+export enum SessionRevokedReason {
+  LOGOUT = 'LOGOUT',
+  USER_REVOKED = 'USER_REVOKED',
+  REFRESH_TOKEN_REUSE = 'REFRESH_TOKEN_REUSE',
+}
+
+/**
+ * Device a session is opened from, as seen on the request
+ */
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedSession {
+  session: AuthSession;
+  /** Opaque token, only its hash is stored */
+  refreshToken: string;
+}
+
+/**
+ * Sign-in sessions and their rotating refresh tokens.
+ *
+ * Every refresh hands out a new token and marks the presented one as
+ * rotated. A rotated token presented again means it leaked, so the whole
+ * session is revoked and the holder of the latest token must sign in again.
+ */
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+  private readonly refreshTokenTtlMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    const ttlDays = Number(
+      this.configService.get<number>('REFRESH_TOKEN_TTL_DAYS') ?? 30,
+    );
+    this.refreshTokenTtlMs = ttlDays * 24 * 60 * 60 * 1000;
+  }
+
+  async createSession(
+    userId: string,
+    client: SessionClient = {},
+  ): Promise<IssuedSession> {
+    const session = await this.prisma.authSession.create({
+      data: {
+        userId,
+        userAgent: client.userAgent?.slice(0, 512),
+        ipAddress: client.ipAddress,
+        expiresAt: this.refreshTokenExpiry(),
+      },
+    });
+
+    const refreshToken = await this.issueRefreshToken(session.id);
+
+    this.logger.log(`Session ${session.id} opened for user ${userId}`);
+
+    return { session, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for the next one of its session
+   */
+  async rotate(
+    refreshToken: string,
+    client: SessionClient = {},
+  ): Promise<IssuedSession> {
+    const stored = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: { session: true },
+    });
+
+    if (!stored) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const { session } = stored;
+    if (session.revokedAt) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    if (stored.rotatedAt) {
+      return this.revokeReused(session.id);
+    }
+
+    if (stored.expiresAt <= new Date()) {
+      throw new UnauthorizedException(
+        'Refresh token expired. Please sign in again.',
+      );
+    }
+
+    // Claimed atomically so two concurrent refreshes cannot both succeed
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { id: stored.id, rotatedAt: null },
+      data: { rotatedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return this.revokeReused(session.id);
+    }
+
+    const updated = await this.prisma.authSession.update({
+      where: { id: session.id },
+      data: {
+        lastUsedAt: new Date(),
+        expiresAt: this.refreshTokenExpiry(),
+        ...(client.userAgent && { userAgent: client.userAgent.slice(0, 512) }),
+        ...(client.ipAddress && { ipAddress: client.ipAddress }),
+      },
+    });
+
+    return {
+      session: updated,
+      refreshToken: await this.issueRefreshToken(session.id),
+    };
+  }
+
+  /**
+   * Whether access tokens of the session are still honoured
+   */
+  async isActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await this.prisma.authSession.findFirst({
+      where: {
+        id: sessionId,
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: { id: true },
+    });
+
+    return session !== null;
+  }
+
+  async revoke(sessionId: string, reason: SessionRevokedReason) {
+    await this.prisma.authSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+  }
+
+  /**
+   * Active sessions of the user, most recently used first
+   */
+  async findActive(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionResponseDto[]> {
+    const sessions = await this.prisma.authSession.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map((session) =>
+      this.toResponse(session, currentSessionId),
+    );
+  }
+
+  /**
+   * Revoke one of the user's own sessions
+   */
+  async revokeForUser(
+    userId: string,
+    sessionId: string,
+    reason: SessionRevokedReason = SessionRevokedReason.USER_REVOKED,
+    currentSessionId?: string,
+  ): Promise<SessionResponseDto> {
+    const session = await this.prisma.authSession.findFirst({
+      where: { id: sessionId, userId },
+    });
+
+    if (!session) {
+      throw new NotFoundException(`Session with ID ${sessionId} not found`);
+    }
+
+    await this.revoke(session.id, reason);
+    this.logger.log(
+      `Session ${session.id} of user ${userId} revoked (${reason})`,
+    );
+
+    const revoked = await this.prisma.authSession.findUniqueOrThrow({
+      where: { id: session.id },
+    });
+
+    return this.toResponse(revoked, currentSessionId);
+  }
+
+  private async revokeReused(sessionId: string): Promise<never> {
+    await this.revoke(sessionId, SessionRevokedReason.REFRESH_TOKEN_REUSE);
+    this.logger.warn(
+      `Refresh token of session ${sessionId} was reused, session revoked`,
+    );
+
+    throw new UnauthorizedException(
+      'Refresh token reuse detected, session revoked. Please sign in again.',
+    );
+  }
+
+  private async issueRefreshToken(sessionId: string): Promise<string> {
+    const refreshToken = randomBytes(32).toString('base64url');
+
+    await this.prisma.refreshToken.create({
+      data: {
+        sessionId,
+        tokenHash: hashToken(refreshToken),
+        expiresAt: this.refreshTokenExpiry(),
+      },
+    });
+
+    return refreshToken;
+  }
+
+  private refreshTokenExpiry(): Date {
+    return new Date(Date.now() + this.refreshTokenTtlMs);
+  }
+
+  private toResponse(
+    session: AuthSession,
+    currentSessionId?: string,
+  ): SessionResponseDto {
+    return {
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      revokedAt: session.revokedAt,
+      current: session.id === currentSessionId,
+    };
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
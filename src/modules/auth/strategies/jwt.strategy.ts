@@ -4,12 +4,14 @@ import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { JwtPayload } from '../auth.service';
+import { SessionsService } from '../sessions.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private readonly configService: ConfigService,
     private readonly prisma: PrismaService,
+    private readonly sessionsService: SessionsService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -27,10 +29,19 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       throw new UnauthorizedException('User not found or deleted');
     }
 
+    // Logged out and revoked sessions end their access tokens too
+    if (
+      payload.sid &&
+      !(await this.sessionsService.isActive(payload.sid, user.id))
+    ) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
     return {
       sub: user.id,
       walletAddress: user.walletAddress,
       role: user.role,
+      sid: payload.sid,
     };
   }
 }
@@ -27,6 +27,7 @@ import {
 } from './dto/collector-response.dto';
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { Owns } from '../auth/decorators/owns.decorator';
 import { ROLES } from '@prisma/client';
 
 @ApiTags('Collectors')
@@ -36,6 +37,7 @@ export class CollectorsController {
   constructor(private readonly collectorsService: CollectorsService) {}
 
   @Roles(ROLES.ADMIN, ROLES.STAFF, ROLES.COLLECTOR)
+  @Owns({ resource: 'user', in: 'body', key: 'userId' })
   @Post()
   @ApiOperation({
     summary: 'Create a new collector (Admin/Staff/Collector only)',
@@ -89,9 +91,10 @@ export class CollectorsController {
     return this.collectorsService.findAll(pagination);
   }
 
+  @Owns({ resource: 'collector', key: 'id' })
   @Get(':id')
   @ApiOperation({
-    summary: 'Get collector by ID',
+    summary: 'Get collector by ID (owner, Staff or Admin)',
     description: 'Retrieve a single collector by UUID',
   })
   @ApiParam({
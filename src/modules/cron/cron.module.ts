@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { CronService } from './cron.service';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { BlockchainModule } from '../../blockchain/blockchain.module';
+import { NftsModule } from '../nfts/nfts.module';
 
 @Module({
-  imports: [PrismaModule, BlockchainModule],
+  imports: [PrismaModule, BlockchainModule, NftsModule],
   providers: [CronService],
   exports: [CronService],
 })
@@ -1,8 +1,17 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { CronService } from './cron.service';
 import { PrismaService } from '../../prisma/prisma.service';
 import { BlockchainEventService } from '../../blockchain/services/blockchain-event.service';
 import { EthersProviderService } from '../../blockchain/services/ethers-provider.service';
+import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
+import { SyncCheckpointService } from '../../blockchain/services/sync-checkpoint.service';
+import { ChainReorgService } from '../../blockchain/services/chain-reorg.service';
+import { TransactionWatcherService } from '../../blockchain/services/transaction-watcher.service';
+import { ReconciliationService } from '../../blockchain/services/reconciliation.service';
+import { SyncJobService } from '../../blockchain/services/sync-job.service';
+import { WalletMonitorService } from '../../blockchain/services/wallet-monitor.service';
+import { NftsService } from '../nfts/nfts.service';
 import { mockPrismaService } from '../../test/mocks/prisma.mock';
 
 describe('CronService', () => {
@@ -11,15 +20,85 @@ describe('CronService', () => {
 
   const mockBlockchainEventService = {
     queryPastEvents: jest.fn().mockResolvedValue([]),
+    processEvent: jest.fn().mockResolvedValue(true),
+  };
+
+  const mockSyncCheckpointService = {
+    getCheckpoint: jest.fn().mockResolvedValue(null),
+    setCheckpoint: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const mockChainReorgService = {
+    detectAndRollback: jest.fn().mockResolvedValue({ reorgDetected: false }),
+  };
+
+  const mockTransactionWatcherService = {
+    checkPendingTransactions: jest
+      .fn()
+      .mockResolvedValue({ checked: 0, confirmed: 0, failed: 0 }),
+  };
+
+  const mockReconciliationService = {
+    isReconciling: jest.fn().mockReturnValue(false),
+    reconcile: jest
+      .fn()
+      .mockResolvedValue({ driftCount: 0, repairedCount: 0 }),
+  };
+
+  const mockSyncJobService = {
+    resumeJobs: jest.fn().mockResolvedValue(0),
+  };
+
+  const mockWalletMonitorService = {
+    checkBalance: jest.fn().mockResolvedValue({
+      balance: '1.0',
+      level: 'OK',
+      mintsRemaining: 1428,
+    }),
+  };
+
+  const mockNftsService = {
+    isSyncInProgress: jest.fn().mockReturnValue(false),
+    syncAll: jest.fn().mockResolvedValue({ indexed: 0, failed: [] }),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(),
   };
 
   const mockEthersProviderService = {
     getBlockNumber: jest.fn().mockResolvedValue(12345678),
+    getProviderForChain: jest.fn(),
+  };
+
+  // Default switched to Mantle while projects still live on Lisk
+  const defaultDeployment = {
+    id: 'app-project-2',
+    name: 'StomaTrade Mantle',
+    chainId: 'eip155:5003',
+    contractAddress: '0xMantleContract',
+  };
+  const previousDeployment = {
+    id: 'app-project-1',
+    name: 'StomaTrade Lisk',
+    chainId: 'eip155:4202',
+    contractAddress: '0xLiskContract',
+  };
+
+  const mockStomaTradeContractService = {
+    getSyncedDeployments: jest.fn(),
   };
 
   beforeEach(async () => {
     jest.clearAllMocks();
 
+    mockEthersProviderService.getProviderForChain.mockResolvedValue({
+      getBlockNumber: mockEthersProviderService.getBlockNumber,
+    });
+    mockStomaTradeContractService.getSyncedDeployments.mockResolvedValue([
+      defaultDeployment,
+    ]);
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         CronService,
@@ -35,6 +114,42 @@ describe('CronService', () => {
           provide: EthersProviderService,
           useValue: mockEthersProviderService,
         },
+        {
+          provide: StomaTradeContractService,
+          useValue: mockStomaTradeContractService,
+        },
+        {
+          provide: SyncCheckpointService,
+          useValue: mockSyncCheckpointService,
+        },
+        {
+          provide: ChainReorgService,
+          useValue: mockChainReorgService,
+        },
+        {
+          provide: TransactionWatcherService,
+          useValue: mockTransactionWatcherService,
+        },
+        {
+          provide: ReconciliationService,
+          useValue: mockReconciliationService,
+        },
+        {
+          provide: SyncJobService,
+          useValue: mockSyncJobService,
+        },
+        {
+          provide: WalletMonitorService,
+          useValue: mockWalletMonitorService,
+        },
+        {
+          provide: NftsService,
+          useValue: mockNftsService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
       ],
     }).compile();
 
@@ -78,6 +193,104 @@ describe('CronService', () => {
     });
   });
 
+  describe('watchPendingTransactions', () => {
+    it('should check receipts of pending transactions', async () => {
+      await service.watchPendingTransactions();
+
+      expect(
+        mockTransactionWatcherService.checkPendingTransactions,
+      ).toHaveBeenCalled();
+    });
+
+    it('should not run if a check is already in progress', async () => {
+      (service as any).isWatching = true;
+
+      await service.watchPendingTransactions();
+
+      expect(
+        mockTransactionWatcherService.checkPendingTransactions,
+      ).not.toHaveBeenCalled();
+
+      (service as any).isWatching = false;
+    });
+  });
+
+  describe('reconcileWithChain', () => {
+    it('should run a report-only reconciliation by default', async () => {
+      await service.reconcileWithChain();
+
+      expect(mockReconciliationService.reconcile).toHaveBeenCalledWith({
+        autoRepair: false,
+      });
+    });
+
+    it('should auto-repair when enabled in config', async () => {
+      mockConfigService.get.mockReturnValueOnce('true');
+
+      await service.reconcileWithChain();
+
+      expect(mockReconciliationService.reconcile).toHaveBeenCalledWith({
+        autoRepair: true,
+      });
+    });
+
+    it('should not run if a reconciliation is already in progress', async () => {
+      mockReconciliationService.isReconciling.mockReturnValueOnce(true);
+
+      await service.reconcileWithChain();
+
+      expect(mockReconciliationService.reconcile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('monitorWalletBalance', () => {
+    it('should check the platform wallet balance', async () => {
+      await service.monitorWalletBalance();
+
+      expect(mockWalletMonitorService.checkBalance).toHaveBeenCalled();
+    });
+
+    it('should not throw if the check fails', async () => {
+      mockWalletMonitorService.checkBalance.mockRejectedValueOnce(
+        new Error('RPC unavailable'),
+      );
+
+      await expect(service.monitorWalletBalance()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('resumeSyncJobs', () => {
+    it('should run pending and abandoned sync jobs', async () => {
+      mockSyncJobService.resumeJobs.mockResolvedValueOnce(1);
+
+      await service.resumeSyncJobs();
+
+      expect(mockSyncJobService.resumeJobs).toHaveBeenCalled();
+    });
+
+    it('should not throw if resuming fails', async () => {
+      mockSyncJobService.resumeJobs.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(service.resumeSyncJobs()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('syncNftMetadata', () => {
+    it('should re-index NFT metadata', async () => {
+      await service.syncNftMetadata();
+
+      expect(mockNftsService.syncAll).toHaveBeenCalled();
+    });
+
+    it('should not run if a sync is already in progress', async () => {
+      mockNftsService.isSyncInProgress.mockReturnValueOnce(true);
+
+      await service.syncNftMetadata();
+
+      expect(mockNftsService.syncAll).not.toHaveBeenCalled();
+    });
+  });
+
   describe('cleanupExpiredData', () => {
     it('should cleanup stale pending transactions', async () => {
       prisma.blockchainTransaction.updateMany.mockResolvedValue({ count: 5 });
@@ -87,6 +300,7 @@ describe('CronService', () => {
       expect(prisma.blockchainTransaction.updateMany).toHaveBeenCalledWith({
         where: {
           status: 'PENDING',
+          rawTransaction: null,
           createdAt: { lt: expect.any(Date) },
         },
         data: {
@@ -95,6 +309,23 @@ describe('CronService', () => {
         },
       });
     });
+
+    it('should remove investments that were prepared but never submitted', async () => {
+      prisma.blockchainTransaction.updateMany.mockResolvedValue({ count: 0 });
+      prisma.investment.updateMany.mockResolvedValue({ count: 2 });
+
+      await service.cleanupExpiredData();
+
+      expect(prisma.investment.updateMany).toHaveBeenCalledWith({
+        where: {
+          transactionHash: null,
+          blockNumber: null,
+          deleted: false,
+          investedAt: { lt: expect.any(Date) },
+        },
+        data: { deleted: true },
+      });
+    });
   });
 
   describe('calculateDailyStats', () => {
@@ -129,6 +360,144 @@ describe('CronService', () => {
       expect(mockEthersProviderService.getBlockNumber).toHaveBeenCalled();
     });
 
+    it('should resume each event type from its persisted checkpoint', async () => {
+      mockEthersProviderService.getBlockNumber.mockResolvedValue(12345678);
+      mockSyncCheckpointService.getCheckpoint.mockResolvedValue(12345000);
+      mockBlockchainEventService.queryPastEvents.mockResolvedValue([]);
+
+      await service.syncBlockchainEvents();
+
+      expect(mockBlockchainEventService.queryPastEvents).toHaveBeenCalledWith(
+        'Invested',
+        12345001,
+        12345678,
+        defaultDeployment,
+      );
+      expect(mockSyncCheckpointService.setCheckpoint).toHaveBeenCalledWith(
+        'Invested',
+        12345678,
+        defaultDeployment,
+      );
+    });
+
+    it('should start 1000 blocks back when no checkpoint exists', async () => {
+      mockEthersProviderService.getBlockNumber.mockResolvedValue(12345678);
+      mockSyncCheckpointService.getCheckpoint.mockResolvedValue(null);
+
+      await service.syncBlockchainEvents();
+
+      expect(mockBlockchainEventService.queryPastEvents).toHaveBeenCalledWith(
+        'ProjectCreated',
+        12344679,
+        12345678,
+        defaultDeployment,
+      );
+    });
+
+    it('should not advance the checkpoint when processing fails', async () => {
+      mockEthersProviderService.getBlockNumber.mockResolvedValue(12345678);
+      mockSyncCheckpointService.getCheckpoint.mockResolvedValue(12345000);
+      mockBlockchainEventService.queryPastEvents.mockResolvedValue([
+        { eventName: 'Invested', transactionHash: '0xTxHash', logIndex: 0 },
+      ]);
+      mockBlockchainEventService.processEvent.mockRejectedValue(
+        new Error('DB unavailable'),
+      );
+
+      await service.syncBlockchainEvents();
+
+      expect(mockSyncCheckpointService.setCheckpoint).not.toHaveBeenCalled();
+
+      mockBlockchainEventService.queryPastEvents.mockResolvedValue([]);
+      mockBlockchainEventService.processEvent.mockResolvedValue(true);
+    });
+
+    it('should check for chain reorganizations before syncing', async () => {
+      mockEthersProviderService.getBlockNumber.mockResolvedValue(12345678);
+      mockSyncCheckpointService.getCheckpoint.mockResolvedValue(12345000);
+
+      await service.syncBlockchainEvents();
+
+      expect(mockChainReorgService.detectAndRollback).toHaveBeenCalledWith(
+        defaultDeployment,
+      );
+      expect(
+        mockChainReorgService.detectAndRollback.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        mockBlockchainEventService.queryPastEvents.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should keep projecting events of a previous default deployment', async () => {
+      const invested = {
+        eventName: 'Invested',
+        transactionHash: '0xLiskTxHash',
+        logIndex: 0,
+        chainId: 'eip155:4202',
+        contractAddress: '0xliskcontract',
+      };
+      mockStomaTradeContractService.getSyncedDeployments.mockResolvedValue([
+        defaultDeployment,
+        previousDeployment,
+      ]);
+      mockSyncCheckpointService.getCheckpoint.mockResolvedValue(12345000);
+      mockBlockchainEventService.queryPastEvents.mockImplementation(
+        (eventType: string, _from: number, _to: number, deployment: object) =>
+          Promise.resolve(
+            eventType === 'Invested' && deployment === previousDeployment
+              ? [invested]
+              : [],
+          ),
+      );
+
+      await service.syncBlockchainEvents();
+
+      expect(
+        mockEthersProviderService.getProviderForChain,
+      ).toHaveBeenCalledWith('eip155:4202');
+      expect(mockChainReorgService.detectAndRollback).toHaveBeenCalledWith(
+        previousDeployment,
+      );
+      expect(mockBlockchainEventService.processEvent).toHaveBeenCalledWith(
+        invested,
+      );
+      expect(mockSyncCheckpointService.setCheckpoint).toHaveBeenCalledWith(
+        'Invested',
+        12345678,
+        previousDeployment,
+      );
+
+      mockBlockchainEventService.queryPastEvents.mockReset();
+      mockBlockchainEventService.queryPastEvents.mockResolvedValue([]);
+    });
+
+    it('should sync the other deployments when one of them fails', async () => {
+      mockStomaTradeContractService.getSyncedDeployments.mockResolvedValue([
+        previousDeployment,
+        defaultDeployment,
+      ]);
+      mockChainReorgService.detectAndRollback.mockRejectedValueOnce(
+        new Error('RPC unavailable'),
+      );
+
+      await service.syncBlockchainEvents();
+
+      expect(mockBlockchainEventService.queryPastEvents).toHaveBeenCalledWith(
+        'Invested',
+        expect.any(Number),
+        12345678,
+        defaultDeployment,
+      );
+      expect(
+        mockBlockchainEventService.queryPastEvents,
+      ).not.toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        previousDeployment,
+      );
+    });
+
     it('should not run if already syncing', async () => {
       // Set isSyncing to true
       (service as any).isSyncing = true;
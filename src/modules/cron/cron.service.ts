@@ -1,30 +1,45 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
+import { AppProject } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
-import { BlockchainEventService } from '../../blockchain/services/blockchain-event.service';
+import {
+  BlockchainEventService,
+  SYNCED_EVENT_TYPES,
+} from '../../blockchain/services/blockchain-event.service';
 import { EthersProviderService } from '../../blockchain/services/ethers-provider.service';
+import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
+import { SyncCheckpointService } from '../../blockchain/services/sync-checkpoint.service';
+import { ChainReorgService } from '../../blockchain/services/chain-reorg.service';
+import { TransactionWatcherService } from '../../blockchain/services/transaction-watcher.service';
+import { ReconciliationService } from '../../blockchain/services/reconciliation.service';
+import { SyncJobService } from '../../blockchain/services/sync-job.service';
+import { WalletMonitorService } from '../../blockchain/services/wallet-monitor.service';
+import { NftsService } from '../nfts/nfts.service';
+import { Money } from '../../common/utils/money.util';
 
 @Injectable()
 export class CronService {
   private readonly logger = new Logger(CronService.name);
-  private lastSyncedBlock: number = 0;
+  private readonly SYNC_BATCH_SIZE = 1000;
   private isSyncing = false;
+  private isWatching = false;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly eventService: BlockchainEventService,
     private readonly providerService: EthersProviderService,
+    private readonly contractService: StomaTradeContractService,
+    private readonly syncCheckpointService: SyncCheckpointService,
+    private readonly chainReorgService: ChainReorgService,
+    private readonly transactionWatcherService: TransactionWatcherService,
+    private readonly reconciliationService: ReconciliationService,
+    private readonly syncJobService: SyncJobService,
+    private readonly walletMonitorService: WalletMonitorService,
+    private readonly nftsService: NftsService,
+    private readonly configService: ConfigService,
   ) {}
 
-  /**
-   * Helper to serialize event args containing BigInt values
-   */
-  private serializeEventArgs(args: any): string {
-    return JSON.stringify(args, (key, value) =>
-      typeof value === 'bigint' ? value.toString() : value
-    );
-  }
-
   @Cron(CronExpression.EVERY_HOUR)
   async recalculatePortfolios() {
     this.logger.log('Starting scheduled portfolio recalculation...');
@@ -60,16 +75,12 @@ export class CronService {
     this.logger.log('Starting scheduled blockchain event sync...');
 
     try {
-      const currentBlock = await this.providerService.getBlockNumber();
+      // Projects on a previous default deployment keep emitting events there
+      const deployments = await this.contractService.getSyncedDeployments();
 
-      if (this.lastSyncedBlock === 0) {
-        this.lastSyncedBlock = Math.max(0, currentBlock - 1000);
+      for (const deployment of deployments) {
+        await this.syncDeploymentEvents(deployment);
       }
-
-      await this.syncEventsFromBlock(this.lastSyncedBlock, currentBlock);
-      
-      this.lastSyncedBlock = currentBlock;
-      this.logger.log(`Event sync completed. Current block: ${currentBlock}`);
     } catch (error) {
       this.logger.error('Error syncing blockchain events', error);
     } finally {
@@ -77,6 +88,90 @@ export class CronService {
     }
   }
 
+  @Cron(CronExpression.EVERY_MINUTE)
+  async watchPendingTransactions() {
+    if (this.isWatching) {
+      this.logger.warn('Receipt check already in progress, skipping...');
+      return;
+    }
+
+    this.isWatching = true;
+
+    try {
+      await this.transactionWatcherService.checkPendingTransactions();
+    } catch (error) {
+      this.logger.error('Error checking pending transaction receipts', error);
+    } finally {
+      this.isWatching = false;
+    }
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async resumeSyncJobs() {
+    try {
+      // Picks up new jobs and jobs whose runner died mid-range
+      const resumed = await this.syncJobService.resumeJobs();
+
+      if (resumed > 0) {
+        this.logger.log(`Ran ${resumed} historical sync jobs`);
+      }
+    } catch (error) {
+      this.logger.error('Error resuming historical sync jobs', error);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async monitorWalletBalance() {
+    try {
+      const status = await this.walletMonitorService.checkBalance();
+
+      this.logger.debug(
+        `Platform wallet balance ${status.balance} ETH (${status.level}, ~${status.mintsRemaining} mints left)`,
+      );
+    } catch (error) {
+      this.logger.error('Error checking platform wallet balance', error);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_2AM)
+  async reconcileWithChain() {
+    if (this.reconciliationService.isReconciling()) {
+      this.logger.warn('Reconciliation already in progress, skipping...');
+      return;
+    }
+
+    // Report-only unless auto-repair is explicitly enabled
+    const autoRepair =
+      this.configService.get<string>('BLOCKCHAIN_RECONCILE_AUTO_REPAIR') ===
+      'true';
+
+    try {
+      const report = await this.reconciliationService.reconcile({ autoRepair });
+
+      if (report.driftCount > report.repairedCount) {
+        this.logger.warn(
+          `Reconciliation found ${report.driftCount - report.repairedCount} unrepaired drifts between database and chain`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Error reconciling database with chain', error);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_6_HOURS)
+  async syncNftMetadata() {
+    if (this.nftsService.isSyncInProgress()) {
+      this.logger.warn('NFT metadata sync already in progress, skipping...');
+      return;
+    }
+
+    try {
+      await this.nftsService.syncAll();
+    } catch (error) {
+      this.logger.error('Error syncing NFT metadata', error);
+    }
+  }
+
   @Cron(CronExpression.EVERY_10_MINUTES)
   async cleanupExpiredData() {
     this.logger.log('Starting scheduled cleanup...');
@@ -85,9 +180,12 @@ export class CronService {
       
       const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
       
+      // Queued transactions keep their signed payload and may still be in the
+      // mempool; they stay PENDING so admins can speed them up or cancel them
       const staleTransactions = await this.prisma.blockchainTransaction.updateMany({
         where: {
           status: 'PENDING',
+          rawTransaction: null,
           createdAt: {
             lt: oneDayAgo,
           },
@@ -101,6 +199,23 @@ export class CronService {
       if (staleTransactions.count > 0) {
         this.logger.log(`Marked ${staleTransactions.count} stale transactions as failed`);
       }
+
+      // Investments prepared for investor signing but never submitted
+      const abandonedInvestments = await this.prisma.investment.updateMany({
+        where: {
+          transactionHash: null,
+          blockNumber: null,
+          deleted: false,
+          investedAt: {
+            lt: oneDayAgo,
+          },
+        },
+        data: { deleted: true },
+      });
+
+      if (abandonedInvestments.count > 0) {
+        this.logger.log(`Removed ${abandonedInvestments.count} unsubmitted investments`);
+      }
     } catch (error) {
       this.logger.error('Error during cleanup', error);
     }
@@ -138,28 +253,22 @@ export class CronService {
       },
     });
 
-    const totalInvested = investments.reduce(
-      (sum, inv) => sum + BigInt(inv.amount),
-      BigInt(0),
+    const totalInvested = Money.sum(
+      investments.map((inv) => Money.parse(inv.amount)),
     );
 
-    const totalClaimed = investments.reduce((sum, inv) => {
-      const claimed = inv.profitClaims.reduce(
-        (claimSum, claim) => claimSum + BigInt(claim.amount),
-        BigInt(0),
-      );
-      return sum + claimed;
-    }, BigInt(0));
+    const totalClaimed = Money.sum(
+      investments.flatMap((inv) =>
+        inv.profitClaims.map((claim) => Money.parse(claim.amount)),
+      ),
+    );
 
     const totalProfit = totalClaimed;
     const activeInvestments = investments.filter(
       (inv) => inv.receiptTokenId !== null,
     ).length;
 
-    const avgROI =
-      totalInvested > BigInt(0)
-        ? (Number(totalProfit) / Number(totalInvested)) * 100
-        : 0;
+    const avgROI = totalProfit.percentageOf(totalInvested);
 
     await this.prisma.investmentPortfolio.upsert({
       where: { userId },
@@ -183,183 +292,88 @@ export class CronService {
     });
   }
 
-  private async syncEventsFromBlock(fromBlock: number, toBlock: number) {
-    const eventTypes = [
-      'ProjectCreated',
-      'FarmerAdded', // Changed from FarmerMinted in new contract
-      'Invested',
-      'ProfitDeposited',
-      'ProfitClaimed',
-      'Refunded',
-    ];
-
-    for (const eventType of eventTypes) {
-      try {
-        const events = await this.eventService.queryPastEvents(
-          eventType,
-          fromBlock,
-          toBlock,
+  /**
+   * Sync one deployment on its own chain. A deployment that fails is logged
+   * and does not hold up the others.
+   */
+  private async syncDeploymentEvents(deployment: AppProject) {
+    try {
+      // Roll back anything orphaned by a reorg before syncing forward again
+      const reorg = await this.chainReorgService.detectAndRollback(deployment);
+      if (reorg.reorgDetected) {
+        this.logger.warn(
+          `Chain reorganization on ${deployment.name} at block ${reorg.forkBlock}, rolled back ${reorg.eventsRolledBack} events`,
         );
+      }
 
-        for (const event of events) {
-          await this.processEvent(eventType, event);
-        }
+      const provider = await this.providerService.getProviderForChain(
+        deployment.chainId,
+      );
+      const currentBlock = await provider.getBlockNumber();
+
+      await this.syncEventsUpToBlock(currentBlock, deployment);
 
-        if (events.length > 0) {
-          this.logger.log(`Processed ${events.length} ${eventType} events`);
+      this.logger.log(
+        `Event sync of ${deployment.name} completed. Current block: ${currentBlock}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error syncing blockchain events of ${deployment.name}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Sync every event type of a deployment from its persisted checkpoint up
+   * to toBlock. Event types without a checkpoint start SYNC_BATCH_SIZE
+   * blocks back.
+   */
+  private async syncEventsUpToBlock(toBlock: number, deployment: AppProject) {
+    for (const eventType of SYNCED_EVENT_TYPES) {
+      try {
+        const checkpoint = await this.syncCheckpointService.getCheckpoint(
+          eventType,
+          deployment,
+        );
+        const lastSyncedBlock =
+          checkpoint ?? Math.max(0, toBlock - this.SYNC_BATCH_SIZE);
+
+        for (
+          let batchStart = lastSyncedBlock + 1;
+          batchStart <= toBlock;
+          batchStart += this.SYNC_BATCH_SIZE
+        ) {
+          const batchEnd = Math.min(
+            batchStart + this.SYNC_BATCH_SIZE - 1,
+            toBlock,
+          );
+
+          const events = await this.eventService.queryPastEvents(
+            eventType,
+            batchStart,
+            batchEnd,
+            deployment,
+          );
+
+          for (const event of events) {
+            await this.eventService.processEvent(event);
+          }
+
+          // Only advance once the whole batch is persisted
+          await this.syncCheckpointService.setCheckpoint(
+            eventType,
+            batchEnd,
+            deployment,
+          );
+
+          if (events.length > 0) {
+            this.logger.log(`Processed ${events.length} ${eventType} events`);
+          }
         }
       } catch (error) {
         this.logger.error(`Error syncing ${eventType} events`, error);
       }
     }
   }
-
-  private async processEvent(eventType: string, event: any) {
-    switch (eventType) {
-      case 'ProjectCreated':
-        await this.handleProjectCreatedEvent(event);
-        break;
-      case 'FarmerAdded':
-        await this.handleFarmerAddedEvent(event);
-        break;
-      case 'Invested':
-        await this.handleInvestedEvent(event);
-        break;
-      case 'ProfitDeposited':
-        await this.handleProfitDepositedEvent(event);
-        break;
-      case 'ProfitClaimed':
-        await this.handleProfitClaimedEvent(event);
-        break;
-      case 'Refunded':
-        await this.handleRefundedEvent(event);
-        break;
-    }
-  }
-
-  private async handleProjectCreatedEvent(event: any) {
-    const { args, transactionHash, blockNumber } = event;
-
-    const existing = await this.prisma.blockchainTransaction.findUnique({
-      where: { transactionHash },
-    });
-
-    if (existing) return;
-
-    await this.prisma.blockchainTransaction.create({
-      data: {
-        transactionHash,
-        transactionType: 'CREATE_PROJECT',
-        status: 'CONFIRMED',
-        fromAddress: args.owner || '',
-        blockNumber,
-        eventData: this.serializeEventArgs(args),
-      },
-    });
-  }
-
-  private async handleFarmerAddedEvent(event: any) {
-    const { args, transactionHash, blockNumber } = event;
-
-    const existing = await this.prisma.blockchainTransaction.findUnique({
-      where: { transactionHash },
-    });
-
-    if (existing) return;
-
-    await this.prisma.blockchainTransaction.create({
-      data: {
-        transactionHash,
-        transactionType: 'MINT_FARMER_NFT',
-        status: 'CONFIRMED',
-        fromAddress: args.farmer || '',
-        blockNumber,
-        eventData: this.serializeEventArgs(args),
-      },
-    });
-  }
-
-  private async handleInvestedEvent(event: any) {
-    const { args, transactionHash, blockNumber } = event;
-
-    const existing = await this.prisma.blockchainTransaction.findUnique({
-      where: { transactionHash },
-    });
-
-    if (existing) return;
-
-    await this.prisma.blockchainTransaction.create({
-      data: {
-        transactionHash,
-        transactionType: 'INVEST',
-        status: 'CONFIRMED',
-        fromAddress: args.investor || '',
-        blockNumber,
-        eventData: this.serializeEventArgs(args),
-      },
-    });
-  }
-
-  private async handleProfitDepositedEvent(event: any) {
-    const { args, transactionHash, blockNumber } = event;
-
-    const existing = await this.prisma.blockchainTransaction.findUnique({
-      where: { transactionHash },
-    });
-
-    if (existing) return;
-
-    await this.prisma.blockchainTransaction.create({
-      data: {
-        transactionHash,
-        transactionType: 'DEPOSIT_PROFIT',
-        status: 'CONFIRMED',
-        fromAddress: '',
-        blockNumber,
-        eventData: this.serializeEventArgs(args),
-      },
-    });
-  }
-
-  private async handleProfitClaimedEvent(event: any) {
-    const { args, transactionHash, blockNumber } = event;
-
-    const existing = await this.prisma.blockchainTransaction.findUnique({
-      where: { transactionHash },
-    });
-
-    if (existing) return;
-
-    await this.prisma.blockchainTransaction.create({
-      data: {
-        transactionHash,
-        transactionType: 'CLAIM_PROFIT',
-        status: 'CONFIRMED',
-        fromAddress: args.user || '',
-        blockNumber,
-        eventData: this.serializeEventArgs(args),
-      },
-    });
-  }
-
-  private async handleRefundedEvent(event: any) {
-    const { args, transactionHash, blockNumber } = event;
-
-    const existing = await this.prisma.blockchainTransaction.findUnique({
-      where: { transactionHash },
-    });
-
-    if (existing) return;
-
-    await this.prisma.blockchainTransaction.create({
-      data: {
-        transactionHash,
-        transactionType: 'REFUND',
-        status: 'CONFIRMED',
-        fromAddress: args.investor || '',
-        blockNumber,
-        eventData: this.serializeEventArgs(args),
-      },
-    });
-  }
-}
\ No newline at end of file
+}
\ No newline at end of file
@@ -11,6 +11,9 @@ export class FarmerSubmissionResponseDto {
   @ApiProperty({example: 'Coffee Arabica'})
   commodity: string;
 
+  @ApiProperty({example: 'bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku', nullable: true})
+  metadataCid: string | null;
+
   @ApiProperty({enum: SUBMISSION_STATUS, example: SUBMISSION_STATUS.SUBMITTED})
   status: SUBMISSION_STATUS;
 
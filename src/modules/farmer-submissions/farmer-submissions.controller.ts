@@ -16,6 +16,7 @@ import { RejectFarmerSubmissionDto } from './dto/reject-farmer-submission.dto';
 import { FarmerSubmissionResponseDto } from './dto/farmer-submission-response.dto';
 import { SUBMISSION_STATUS, ROLES } from '@prisma/client';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { Owns } from '../auth/decorators/owns.decorator';
 
 @ApiTags('Farmer Submissions')
 @ApiBearerAuth('JWT-auth')
@@ -26,6 +27,7 @@ export class FarmerSubmissionsController {
   ) {}
 
   @Roles(ROLES.COLLECTOR, ROLES.STAFF, ROLES.ADMIN)
+  @Owns({ resource: 'farmer', in: 'body', key: 'farmerId' })
   @Post()
   @ApiOperation({
     summary: 'Submit farmer for NFT minting approval (Collector/Staff/Admin only)',
@@ -77,9 +79,10 @@ export class FarmerSubmissionsController {
     return this.farmerSubmissionsService.findAll(status);
   }
 
+  @Owns({ resource: 'farmerSubmission', key: 'id' })
   @Get(':id')
   @ApiOperation({
-    summary: 'Get farmer submission by ID (authenticated users)',
+    summary: 'Get farmer submission by ID (owner, Staff or Admin)',
     description: 'Retrieve a single farmer submission',
   })
   @ApiResponse({
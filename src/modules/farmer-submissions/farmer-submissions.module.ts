@@ -3,9 +3,10 @@ import { FarmerSubmissionsController } from './farmer-submissions.controller';
 import { FarmerSubmissionsService } from './farmer-submissions.service';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { BlockchainModule } from '../../blockchain/blockchain.module';
+import { NftsModule } from '../nfts/nfts.module';
 
 @Module({
-  imports: [PrismaModule, BlockchainModule],
+  imports: [PrismaModule, BlockchainModule, NftsModule],
   controllers: [FarmerSubmissionsController],
   providers: [FarmerSubmissionsService],
   exports: [FarmerSubmissionsService],
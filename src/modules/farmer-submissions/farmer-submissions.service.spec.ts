@@ -3,8 +3,17 @@ import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { FarmerSubmissionsService } from './farmer-submissions.service';
 import { PrismaService } from '../../prisma/prisma.service';
 import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
+import {
+  ContractRevertError,
+  TransactionService,
+} from '../../blockchain/services/transaction.service';
 import { mockPrismaService } from '../../test/mocks/prisma.mock';
-import { mockStomaTradeContractService } from '../../test/mocks/blockchain.mock';
+import { NftMetadataGeneratorService } from '../nfts/nft-metadata-generator.service';
+import {
+  mockNftMetadataGeneratorService,
+  mockStomaTradeContractService,
+  mockTransactionService,
+} from '../../test/mocks/blockchain.mock';
 import { SUBMISSION_STATUS } from '@prisma/client';
 
 describe('FarmerSubmissionsService', () => {
@@ -53,6 +62,14 @@ describe('FarmerSubmissionsService', () => {
           provide: StomaTradeContractService,
           useValue: mockStomaTradeContractService,
         },
+        {
+          provide: TransactionService,
+          useValue: mockTransactionService,
+        },
+        {
+          provide: NftMetadataGeneratorService,
+          useValue: mockNftMetadataGeneratorService,
+        },
       ],
     }).compile();
 
@@ -182,7 +199,7 @@ describe('FarmerSubmissionsService', () => {
       prisma.farmerSubmission.update
         .mockResolvedValueOnce(approvedSubmission)
         .mockResolvedValueOnce(mintedSubmission);
-      prisma.blockchainTransaction.create.mockResolvedValue({
+      mockTransactionService.recordInitiatedTransaction.mockResolvedValue({
         id: 'tx-uuid-1',
         transactionHash: '0xTxHash',
       });
@@ -198,28 +215,71 @@ describe('FarmerSubmissionsService', () => {
         success: true,
         blockNumber: 12345678,
       });
-      contractService.getContract.mockReturnValue({
-        runner: { address: '0xPlatformAddress' },
-        interface: {
-          parseLog: jest.fn().mockReturnValue({
-            name: 'FarmerMinted',
-            args: { nftId: BigInt(1001) },
-          }),
-        },
-      });
-      contractService.getEventFromReceipt.mockReturnValue({
-        topics: ['0xtopic1'],
-        data: '0xdata',
+      contractService.parseEventFromReceipt.mockResolvedValue({
+        name: 'FarmerMinted',
+        args: { nftId: BigInt(1001) },
       });
 
       const result = await service.approve('submission-uuid-1', {
         approvedBy: '0xAdminWallet',
       });
 
-      expect(contractService.addFarmer).toHaveBeenCalled();
+      expect(mockNftMetadataGeneratorService.generateFarmerMetadata).toHaveBeenCalledWith(
+        'farmer-uuid-1',
+        'Coffee Arabica',
+      );
+      expect(contractService.addFarmer).toHaveBeenCalledWith(
+        'bafkreimetadatacid',
+        'collector-uuid-1',
+        'John Farmer',
+        BigInt(45),
+        'Farmer Address',
+      );
+      expect(prisma.farmerSubmission.update).toHaveBeenCalledWith({
+        where: { id: 'submission-uuid-1' },
+        data: {
+          status: SUBMISSION_STATUS.APPROVED,
+          approvedBy: '0xAdminWallet',
+          metadataCid: 'bafkreimetadatacid',
+        },
+      });
       expect(result.status).toBe(SUBMISSION_STATUS.MINTED);
     });
 
+    it('should not approve when the metadata cannot be pinned', async () => {
+      prisma.farmerSubmission.findUnique.mockResolvedValue(mockSubmission);
+      mockNftMetadataGeneratorService.generateFarmerMetadata.mockRejectedValueOnce(
+        new Error('pinning service unavailable'),
+      );
+
+      await expect(
+        service.approve('submission-uuid-1', { approvedBy: '0xAdminWallet' }),
+      ).rejects.toThrow(
+        'Failed to generate Farmer NFT metadata: pinning service unavailable',
+      );
+      expect(prisma.farmerSubmission.update).not.toHaveBeenCalled();
+      expect(contractService.addFarmer).not.toHaveBeenCalled();
+    });
+
+    it('should not approve when addFarmer() would revert', async () => {
+      prisma.farmerSubmission.findUnique.mockResolvedValue(mockSubmission);
+      contractService.simulateAddFarmer.mockRejectedValueOnce(
+        new ContractRevertError(
+          'addFarmer',
+          'AccessControlUnauthorizedAccount(0xPlatformWalletAddress, 0x00)',
+          'AccessControlUnauthorizedAccount',
+        ),
+      );
+
+      await expect(
+        service.approve('submission-uuid-1', { approvedBy: '0xAdminWallet' }),
+      ).rejects.toThrow(
+        'Failed to mint Farmer NFT: addFarmer would revert: AccessControlUnauthorizedAccount',
+      );
+      expect(prisma.farmerSubmission.update).not.toHaveBeenCalled();
+      expect(contractService.addFarmer).not.toHaveBeenCalled();
+    });
+
     it('should throw BadRequestException if already processed', async () => {
       const approvedSubmission = {
         ...mockSubmission,
@@ -7,6 +7,11 @@ import {
 import { PrismaService } from '../../prisma/prisma.service';
 import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
 import { SUBMISSION_STATUS } from '@prisma/client';
+import {
+  TransactionPendingError,
+  TransactionService,
+} from '../../blockchain/services/transaction.service';
+import { NftMetadataGeneratorService } from '../nfts/nft-metadata-generator.service';
 import { CreateFarmerSubmissionDto } from './dto/create-farmer-submission.dto';
 import { ApproveFarmerSubmissionDto } from './dto/approve-farmer-submission.dto';
 import { RejectFarmerSubmissionDto } from './dto/reject-farmer-submission.dto';
@@ -18,26 +23,10 @@ export class FarmerSubmissionsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly stomaTradeContract: StomaTradeContractService,
+    private readonly transactionService: TransactionService,
+    private readonly nftMetadataGenerator: NftMetadataGeneratorService,
   ) {}
 
-  /**
-   * Extract CID from various IPFS URL formats
-   */
-  private extractCID(url: string): string {
-    if (!url) return '';
-
-    if (url.startsWith('ipfs://')) {
-      return url.replace('ipfs://', '');
-    }
-
-    const match = url.match(/\/ipfs\/([a-zA-Z0-9]+)/);
-    if (match) {
-      return match[1];
-    }
-
-    return url;
-  }
-
   async create(dto: CreateFarmerSubmissionDto) {
     this.logger.log(`Creating farmer submission for farmer ${dto.farmerId}`);
 
@@ -131,11 +120,44 @@ export class FarmerSubmissionsService {
       );
     }
 
+    // Smart contract requires a CID resolving to the token metadata
+    let cid: string;
+    try {
+      ({ cid } = await this.nftMetadataGenerator.generateFarmerMetadata(
+        submission.farmerId,
+        submission.commodity,
+      ));
+    } catch (error) {
+      this.logger.error('Error generating Farmer NFT metadata', error);
+      throw new BadRequestException(
+        `Failed to generate Farmer NFT metadata: ${error.message}`,
+      );
+    }
+
+    const addFarmerArgs: [string, string, string, bigint, string] = [
+      cid,
+      submission.farmer.collectorId,
+      submission.farmer.name,
+      BigInt(submission.farmer.age),
+      submission.farmer.address,
+    ];
+
+    // A revert is reported before the submission leaves SUBMITTED
+    try {
+      await this.stomaTradeContract.simulateAddFarmer(...addFarmerArgs);
+    } catch (error) {
+      this.logger.error('Farmer NFT mint would fail', error);
+      throw new BadRequestException(
+        `Failed to mint Farmer NFT: ${(error as Error).message}`,
+      );
+    }
+
     await this.prisma.farmerSubmission.update({
       where: { id },
       data: {
         status: SUBMISSION_STATUS.APPROVED,
         approvedBy: dto.approvedBy,
+        metadataCid: cid,
       },
     });
 
@@ -144,65 +166,29 @@ export class FarmerSubmissionsService {
         `Minting Farmer NFT for: ${submission.farmer.name}`,
       );
 
-      // Get farmer files for CID
-      const farmerFiles = await this.prisma.file.findMany({
-        where: { reffId: submission.farmerId },
-      });
-
-      const primaryFile = farmerFiles.find(f => f.type.startsWith('image/')) || farmerFiles[0];
-      let cid = primaryFile?.url ? this.extractCID(primaryFile.url) : '';
-
-      // Validate CID - smart contract requires non-empty CID
-      if (!cid || cid.trim() === '') {
-        // Use placeholder CID for metadata
-        // This is a valid IPFS CID hash pointing to empty/placeholder content
-        cid = 'QmUNLLsPACCz1vLxQVkXqqLX5R1X345qqfHbsf67hvA3Nn';
-        this.logger.warn(
-          `No valid CID found for farmer ${submission.farmerId}, using placeholder CID`,
-        );
-      }
-
       this.logger.log(`Using CID: ${cid} for Farmer NFT`);
 
       const txResult = await this.stomaTradeContract.addFarmer(
-        cid,
-        submission.farmer.collectorId,
-        submission.farmer.name,
-        BigInt(submission.farmer.age),
-        submission.farmer.address,
+        ...addFarmerArgs,
       );
 
-      const blockchainTx = await this.prisma.blockchainTransaction.create({
-        data: {
-          transactionHash: txResult.hash,
+      const blockchainTx =
+        await this.transactionService.recordInitiatedTransaction(txResult, {
           transactionType: 'MINT_FARMER_NFT',
-          status: txResult.success ? 'CONFIRMED' : 'FAILED',
           fromAddress: await this.stomaTradeContract.getSignerAddress(),
-          blockNumber: txResult.blockNumber || null,
-          gasUsed: txResult.gasUsed?.toString(),
-          gasPrice: txResult.effectiveGasPrice?.toString(),
-        },
-      });
+        });
 
       let mintedTokenId: number | null = null;
       if (txResult.receipt) {
-        const farmerAddedEvent = this.stomaTradeContract.getEventFromReceipt(
+        const parsed = await this.stomaTradeContract.parseEventFromReceipt(
           txResult.receipt,
           'FarmerAdded',
         );
 
-        if (farmerAddedEvent) {
-          const parsed = this.stomaTradeContract
-            .getContract()
-            .interface.parseLog({
-              topics: farmerAddedEvent.topics,
-              data: farmerAddedEvent.data,
-            });
-
-          if (parsed) {
-            mintedTokenId = Number(parsed.args.idFarmer);
-            this.logger.log(`Farmer NFT added with token ID: ${mintedTokenId}`);
-          }
+        if (parsed) {
+          // FarmerMinted of the first contract version named it nftId
+          mintedTokenId = Number(parsed.args.idFarmer ?? parsed.args.nftId);
+          this.logger.log(`Farmer NFT added with token ID: ${mintedTokenId}`);
         }
       }
 
@@ -231,6 +217,10 @@ export class FarmerSubmissionsService {
       this.logger.log(`Farmer submission approved and minted: ${id}`);
       return updatedSubmission;
     } catch (error) {
+      if (error instanceof TransactionPendingError) {
+        return await this.linkPendingTransaction(id, error.transactionHash);
+      }
+
       this.logger.error('Error minting Farmer NFT', error);
 
       await this.prisma.farmerSubmission.update({
@@ -247,6 +237,31 @@ export class FarmerSubmissionsService {
     }
   }
 
+  /**
+   * Leave the submission APPROVED and linked to the tx still in the mempool;
+   * the transaction watcher marks it MINTED or reverts it to SUBMITTED
+   */
+  private async linkPendingTransaction(id: string, transactionHash: string) {
+    this.logger.warn(
+      `Farmer submission ${id} awaiting confirmation of ${transactionHash}`,
+    );
+
+    const blockchainTx = await this.prisma.blockchainTransaction.findUnique({
+      where: { transactionHash },
+    });
+
+    return await this.prisma.farmerSubmission.update({
+      where: { id },
+      data: {
+        blockchainTxId: blockchainTx?.id ?? null,
+      },
+      include: {
+        farmer: true,
+        transaction: true,
+      },
+    });
+  }
+
   async reject(id: string, dto: RejectFarmerSubmissionDto) {
     this.logger.log(`Rejecting farmer submission ${id}`);
 
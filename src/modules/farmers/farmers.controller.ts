@@ -28,6 +28,7 @@ import {
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { SearchQueryDto } from '../../common/dto/search-query.dto';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { Owns } from '../auth/decorators/owns.decorator';
 import { ROLES } from '@prisma/client';
 
 @ApiTags('Farmers')
@@ -37,6 +38,7 @@ export class FarmersController {
   constructor(private readonly farmersService: FarmersService) {}
 
   @Roles(ROLES.COLLECTOR, ROLES.STAFF, ROLES.ADMIN)
+  @Owns({ resource: 'collector', in: 'body', key: 'collectorId' })
   @Post()
   @ApiOperation({
     summary: 'Create a new farmer (Collector/Staff/Admin only)',
@@ -102,9 +104,10 @@ export class FarmersController {
     return this.farmersService.findAll(query);
   }
 
+  @Owns({ resource: 'collector', key: 'collectorId' })
   @Get('collector/:collectorId')
   @ApiOperation({
-    summary: 'Get farmers by collector',
+    summary: 'Get farmers by collector (owner, Staff or Admin)',
     description: 'Retrieve all farmers under a specific collector',
   })
   @ApiParam({
@@ -126,9 +129,10 @@ export class FarmersController {
     return this.farmersService.findByCollector(collectorId, pagination);
   }
 
+  @Owns({ resource: 'farmer', key: 'id' })
   @Get(':id')
   @ApiOperation({
-    summary: 'Get farmer by ID',
+    summary: 'Get farmer by ID (owner, Staff or Admin)',
     description: 'Retrieve a single farmer by UUID',
   })
   @ApiParam({
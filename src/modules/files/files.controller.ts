@@ -22,6 +22,7 @@ import { CreateFileDto } from './dto/create-file.dto';
 import { FileResponseDto, PaginatedFileResponseDto } from './dto/file-response.dto';
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { Owns } from '../auth/decorators/owns.decorator';
 import { ROLES } from '@prisma/client';
 
 @ApiTags('Files')
@@ -30,10 +31,11 @@ import { ROLES } from '@prisma/client';
 export class FilesController {
   constructor(private readonly filesService: FilesService) {}
 
+  @Owns({ resource: 'fileReference', in: 'body', key: 'reffId' })
   @Post()
   @ApiOperation({
     summary: 'Create file reference (authenticated users)',
-    description: 'Store a file reference linked to an entity',
+    description: 'Store a file reference linked to an entity the user owns',
   })
   @ApiResponse({
     status: HttpStatus.CREATED,
@@ -48,6 +50,10 @@ export class FilesController {
     status: HttpStatus.UNAUTHORIZED,
     description: 'Authentication required',
   })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Entity not owned by the user',
+  })
   create(@Body() createFileDto: CreateFileDto): Promise<FileResponseDto> {
     return this.filesService.create(createFileDto);
   }
@@ -73,10 +79,11 @@ export class FilesController {
     return this.filesService.findAll(pagination);
   }
 
+  @Owns({ resource: 'fileReference', key: 'reffId' })
   @Get('reference/:reffId')
   @ApiOperation({
     summary: 'Get files by reference',
-    description: 'Retrieve all files linked to a specific entity',
+    description: 'Retrieve all files linked to a specific entity the user owns',
   })
   @ApiParam({
     name: 'reffId',
@@ -90,6 +97,10 @@ export class FilesController {
     description: 'Files retrieved successfully',
     type: PaginatedFileResponseDto,
   })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Entity not owned by the user',
+  })
   findByReffId(
     @Param('reffId', ParseUUIDPipe) reffId: string,
     @Query() pagination: PaginationDto,
@@ -97,6 +108,7 @@ export class FilesController {
     return this.filesService.findByReffId(reffId, pagination);
   }
 
+  @Owns({ resource: 'file' })
   @Get(':id')
   @ApiOperation({
     summary: 'Get file by ID',
@@ -116,6 +128,10 @@ export class FilesController {
     status: HttpStatus.NOT_FOUND,
     description: 'File not found',
   })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'File attached to an entity not owned by the user',
+  })
   findOne(@Param('id', ParseUUIDPipe) id: string): Promise<FileResponseDto> {
     return this.filesService.findOne(id);
   }
@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsString, IsUUID } from 'class-validator';
+import { IsNotEmpty, IsUUID } from 'class-validator';
+import { IsMoneyAmount } from '../../../common/decorators/is-money-amount.decorator';
 
 export class CreateInvestmentDto {
   @ApiProperty({example: '550e8400-e29b-41d4-a716-446655440000',})
@@ -16,7 +17,7 @@ export class CreateInvestmentDto {
     example: '10000',
     description: 'Investment amount (clean value, will be auto-converted to wei for blockchain)',
   })
-  @IsString()
+  @IsMoneyAmount()
   @IsNotEmpty()
   amount: string;
 }
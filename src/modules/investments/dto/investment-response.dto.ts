@@ -1,4 +1,9 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { TRANSACTION_STATUS } from '@prisma/client';
+import {
+  SubmittedTransactionDto,
+  UnsignedTransactionDto,
+} from '../../../blockchain/dto/unsigned-transaction.dto';
 
 /**
  * Project information nested in investment response
@@ -47,9 +52,19 @@ export class InvestmentData {
 
   @ApiProperty({
     example: 4001,
-    description: 'Receipt NFT token ID',
+    nullable: true,
+    description:
+      'Receipt NFT token ID (null while the invest transaction is pending)',
   })
-  receiptTokenId: number;
+  receiptTokenId: number | null;
+
+  @ApiProperty({
+    example: '0x1f2e3d4c5b6a79880123456789abcdef01234567',
+    nullable: true,
+    description:
+      'ERC-20 settlement token the amount was paid in (null when the deployment takes no token)',
+  })
+  tokenAddress: string | null;
 
   @ApiProperty({
     example: 'Investment Successfully',
@@ -170,3 +185,242 @@ export class ProjectStatsResponseDto {
     averageInvestment: string;
   };
 }
+
+/**
+ * Pending investment with the invest() call for the investor to sign
+ */
+export class PreparedInvestmentResponseDto {
+  @ApiProperty({
+    example: 'inv-uuid-123',
+    description: 'Pending investment to submit the transaction hash for',
+  })
+  investmentId: string;
+
+  @ApiProperty({ type: UnsignedTransactionDto })
+  transaction: UnsignedTransactionDto;
+}
+
+/**
+ * Investment linked to the investor-signed invest() transaction
+ */
+export class SubmittedInvestmentResponseDto {
+  @ApiProperty({ example: 'inv-uuid-123' })
+  investmentId: string;
+
+  @ApiProperty({
+    example: 4001,
+    nullable: true,
+    description: 'Receipt NFT token ID (null while the transaction is pending)',
+  })
+  receiptTokenId: number | null;
+
+  @ApiProperty({ type: SubmittedTransactionDto })
+  transaction: SubmittedTransactionDto;
+}
+
+class InvestIntentDomainDto {
+  @ApiProperty({ example: 'StomaTrade' })
+  name: string;
+
+  @ApiProperty({ example: '1' })
+  version: string;
+
+  @ApiProperty({ example: 4202 })
+  chainId: number;
+
+  @ApiProperty({ example: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb' })
+  verifyingContract: string;
+}
+
+class InvestIntentMessageDto {
+  @ApiProperty({ example: '0x1234567890abcdef1234567890abcdef12345678' })
+  investor: string;
+
+  @ApiProperty({ example: '3001', description: 'Project tokenId on chain' })
+  projectId: string;
+
+  @ApiProperty({ example: '10000000000000000000000', description: 'Amount in wei' })
+  amount: string;
+
+  @ApiProperty({ example: '0' })
+  nonce: string;
+
+  @ApiProperty({ example: '1767225600', description: 'Unix timestamp in seconds' })
+  deadline: string;
+}
+
+/**
+ * EIP-712 InvestIntent for the investor to sign with eth_signTypedData_v4
+ */
+export class InvestIntentTypedDataResponseDto {
+  @ApiProperty({ type: InvestIntentDomainDto })
+  domain: InvestIntentDomainDto;
+
+  @ApiProperty({
+    example: {
+      InvestIntent: [
+        { name: 'investor', type: 'address' },
+        { name: 'projectId', type: 'uint256' },
+        { name: 'amount', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+      ],
+    },
+  })
+  types: Record<string, Array<{ name: string; type: string }>>;
+
+  @ApiProperty({ example: 'InvestIntent' })
+  primaryType: 'InvestIntent';
+
+  @ApiProperty({ type: InvestIntentMessageDto })
+  message: InvestIntentMessageDto;
+}
+
+export class SettlementTokenDto {
+  @ApiProperty({ example: '0x1f2e3d4c5b6a79880123456789abcdef01234567' })
+  address: string;
+
+  @ApiProperty({ example: 'Rupiah Token' })
+  name: string;
+
+  @ApiProperty({ example: 'IDRT' })
+  symbol: string;
+
+  @ApiProperty({ example: 18 })
+  decimals: number;
+
+  @ApiProperty({ example: 'eip155:4202' })
+  chainId: string;
+
+  @ApiProperty({
+    example: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb',
+    description: 'StomaTrade contract the allowance is granted to',
+  })
+  spender: string;
+}
+
+class PermitMessageDto {
+  @ApiProperty({ example: '0x1234567890abcdef1234567890abcdef12345678' })
+  owner: string;
+
+  @ApiProperty({ example: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb' })
+  spender: string;
+
+  @ApiProperty({
+    example: '10000000000000000000000',
+    description: 'Amount in token units',
+  })
+  value: string;
+
+  @ApiProperty({
+    example: '0',
+    description: 'Permit nonce of the owner on the token',
+  })
+  nonce: string;
+
+  @ApiProperty({
+    example: '1767225600',
+    description: 'Unix timestamp in seconds',
+  })
+  deadline: string;
+}
+
+/**
+ * EIP-2612 Permit for the investor to sign with eth_signTypedData_v4
+ */
+export class PermitTypedDataDto {
+  @ApiProperty({
+    type: InvestIntentDomainDto,
+    description: 'EIP-712 domain of the token contract',
+  })
+  domain: InvestIntentDomainDto;
+
+  @ApiProperty({
+    example: {
+      Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+      ],
+    },
+  })
+  types: Record<string, Array<{ name: string; type: string }>>;
+
+  @ApiProperty({ example: 'Permit' })
+  primaryType: 'Permit';
+
+  @ApiProperty({ type: PermitMessageDto })
+  message: PermitMessageDto;
+}
+
+/**
+ * Whether the investor wallet can pay for an investment, with the payloads
+ * to grant the missing allowance
+ */
+export class InvestmentFundingResponseDto {
+  @ApiProperty({ type: SettlementTokenDto })
+  token: SettlementTokenDto;
+
+  @ApiProperty({ example: '0x1234567890abcdef1234567890abcdef12345678' })
+  owner: string;
+
+  @ApiProperty({
+    example: '10000',
+    description: 'Investment amount (clean value)',
+  })
+  required: string;
+
+  @ApiProperty({
+    example: '25000',
+    description: 'Token balance (clean value)',
+  })
+  balance: string;
+
+  @ApiProperty({
+    example: '0',
+    description: 'Allowance granted to the StomaTrade contract (clean value)',
+  })
+  allowance: string;
+
+  @ApiProperty({ example: true })
+  hasBalance: boolean;
+
+  @ApiProperty({ example: false })
+  hasAllowance: boolean;
+
+  @ApiProperty({
+    type: UnsignedTransactionDto,
+    nullable: true,
+    description:
+      "approve() for the investor's wallet to sign; null when the allowance already covers the amount",
+  })
+  approveTransaction: UnsignedTransactionDto | null;
+
+  @ApiProperty({
+    type: PermitTypedDataDto,
+    nullable: true,
+    description:
+      'Gasless alternative to approveTransaction, relayed by POST /investments/permit; null when not needed or the token has no EIP-2612 permit',
+  })
+  permit: PermitTypedDataDto | null;
+}
+
+/**
+ * permit() sent by the platform wallet on behalf of the investor
+ */
+export class PermitRelayResponseDto {
+  @ApiProperty({ example: '0x8f3c1e6b...' })
+  transactionHash: string;
+
+  @ApiProperty({
+    enum: TRANSACTION_STATUS,
+    description:
+      'PENDING when no receipt arrived in time; the watcher settles it',
+  })
+  status: TRANSACTION_STATUS;
+
+  @ApiProperty({ example: 12345678, nullable: true })
+  blockNumber: number | null;
+}
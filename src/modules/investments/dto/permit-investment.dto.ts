@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsNotEmpty, Matches, Min } from 'class-validator';
+import { CreateInvestmentDto } from './create-investment.dto';
+
+/**
+ * EIP-2612 permit signature granting the StomaTrade contract an allowance
+ * for an investment
+ */
+export class PermitInvestmentDto extends CreateInvestmentDto {
+  @ApiProperty({
+    example: 1767225600,
+    description:
+      'Deadline of the permit returned by POST /investments/funding (Unix timestamp in seconds)',
+  })
+  @IsInt()
+  @Min(0)
+  deadline: number;
+
+  @ApiProperty({
+    example: '0x3f1c...1b',
+    description: 'EIP-712 signature of the Permit by the investor wallet',
+  })
+  @Matches(/^0x[0-9a-fA-F]{130}$/, {
+    message: 'signature must be a 65-byte hex string',
+  })
+  @IsNotEmpty()
+  signature: string;
+}
@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsNotEmpty, Matches, Min } from 'class-validator';
+import { CreateInvestmentDto } from './create-investment.dto';
+
+/**
+ * Investment authorized by an EIP-712 InvestIntent signature
+ */
+export class SignedInvestmentDto extends CreateInvestmentDto {
+  @ApiProperty({
+    example: 0,
+    description: 'Intent nonce returned by POST /investments/intent',
+  })
+  @IsInt()
+  @Min(0)
+  nonce: number;
+
+  @ApiProperty({
+    example: 1767225600,
+    description: 'Unix timestamp (seconds) after which the intent is rejected',
+  })
+  @IsInt()
+  @Min(0)
+  deadline: number;
+
+  @ApiProperty({
+    example: '0x3f1c...1b',
+    description: 'EIP-712 signature of the InvestIntent by the investor wallet',
+  })
+  @Matches(/^0x[0-9a-fA-F]{130}$/, {
+    message: 'signature must be a 65-byte hex string',
+  })
+  @IsNotEmpty()
+  signature: string;
+}
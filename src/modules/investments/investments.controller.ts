@@ -11,8 +11,19 @@ import {
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
 import { InvestmentsService } from './investments.service';
 import { CreateInvestmentDto } from './dto/create-investment.dto';
-import { InvestmentResponseDto } from './dto/investment-response.dto';
+import { SignedInvestmentDto } from './dto/signed-investment.dto';
+import { PermitInvestmentDto } from './dto/permit-investment.dto';
+import {
+  InvestmentResponseDto,
+  PreparedInvestmentResponseDto,
+  SubmittedInvestmentResponseDto,
+  InvestIntentTypedDataResponseDto,
+  InvestmentFundingResponseDto,
+  PermitRelayResponseDto,
+} from './dto/investment-response.dto';
+import { SubmitTransactionDto } from '../../blockchain/dto/submit-transaction.dto';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { Owns } from '../auth/decorators/owns.decorator';
 import { Public } from '../auth/decorators/public.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { ROLES } from '@prisma/client';
@@ -24,6 +35,7 @@ export class InvestmentsController {
   constructor(private readonly investmentsService: InvestmentsService) {}
 
   @Roles(ROLES.INVESTOR)
+  @Owns({ resource: 'user', in: 'body', key: 'userId' })
   @Post()
   @ApiOperation({
     summary: 'Create an investment in a project (Investor only)',
@@ -37,7 +49,8 @@ export class InvestmentsController {
   })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
-    description: 'Project not minted or blockchain transaction failed',
+    description:
+      'Project not minted, deployment settles in a token (use POST /investments/prepare), or blockchain transaction failed',
   })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
@@ -51,6 +64,211 @@ export class InvestmentsController {
     return this.investmentsService.create(dto);
   }
 
+  @Roles(ROLES.INVESTOR)
+  @Owns({ resource: 'user', in: 'body', key: 'userId' })
+  @Post('intent')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get an EIP-712 investment intent to sign (Investor only)',
+    description:
+      'Return the InvestIntent typed data (project tokenId, amount in wei, nonce, deadline) bound to the project contract. ' +
+      "The investor signs it with eth_signTypedData_v4 and sends the signature to POST /investments/signed; the platform wallet pays the gas.",
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Typed data built',
+    type: InvestIntentTypedDataResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Project not minted or not active on blockchain, or deployment settles in a token (use POST /investments/prepare)',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'User or Project not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Investor role required',
+  })
+  getInvestIntent(
+    @Body() dto: CreateInvestmentDto,
+  ): Promise<InvestIntentTypedDataResponseDto> {
+    return this.investmentsService.getInvestIntent(dto);
+  }
+
+  @Roles(ROLES.INVESTOR)
+  @Owns({ resource: 'user', in: 'body', key: 'userId' })
+  @Post('signed')
+  @ApiOperation({
+    summary: 'Create an investment from a signed intent (Investor only)',
+    description:
+      "Verify the EIP-712 InvestIntent signature against the investor's wallet and relay invest() through the platform wallet. " +
+      'The signed intent is stored with the investment as proof of authorization; each nonce can be used once.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Investment created and receipt NFT minted successfully',
+    type: InvestmentResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Intent expired, signature invalid or not from the investor wallet, nonce already used, ' +
+      'deployment settles in a token (use POST /investments/prepare), or blockchain transaction failed',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'User or Project not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Investor role required',
+  })
+  createFromIntent(
+    @Body() dto: SignedInvestmentDto,
+  ): Promise<InvestmentResponseDto> {
+    return this.investmentsService.createFromIntent(dto);
+  }
+
+  @Roles(ROLES.INVESTOR)
+  @Owns({ resource: 'user', in: 'body', key: 'userId' })
+  @Post('funding')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Check settlement token funding for an investment (Investor only)',
+    description:
+      "Return the investor wallet's balance and allowance of the project's ERC-20 settlement token against the amount. " +
+      'When the allowance falls short, also return the approve() transaction to sign and, for EIP-2612 tokens, ' +
+      'a Permit to sign with eth_signTypedData_v4 and send to POST /investments/permit instead.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Funding checked',
+    type: InvestmentFundingResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Project not minted or not active on blockchain, or its deployment has no settlement token',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'User or Project not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Investor role required',
+  })
+  getFunding(
+    @Body() dto: CreateInvestmentDto,
+  ): Promise<InvestmentFundingResponseDto> {
+    return this.investmentsService.getFunding(dto);
+  }
+
+  @Roles(ROLES.INVESTOR)
+  @Owns({ resource: 'user', in: 'body', key: 'userId' })
+  @Post('permit')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Relay a signed EIP-2612 permit (Investor only)',
+    description:
+      'Verify the Permit signature from POST /investments/funding against the investor wallet and submit permit() ' +
+      'on the settlement token with the platform wallet, approving the StomaTrade contract without the investor paying gas.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'permit() sent',
+    type: PermitRelayResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Permit expired, signature invalid or not from the investor wallet, token without permit, or blockchain transaction failed',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'User or Project not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Investor role required',
+  })
+  relayPermit(
+    @Body() dto: PermitInvestmentDto,
+  ): Promise<PermitRelayResponseDto> {
+    return this.investmentsService.relayPermit(dto);
+  }
+
+  @Roles(ROLES.INVESTOR)
+  @Owns({ resource: 'user', in: 'body', key: 'userId' })
+  @Post('prepare')
+  @ApiOperation({
+    summary: 'Prepare an investor-signed investment (Investor only)',
+    description:
+      'Create a pending investment and return the unsigned invest() transaction (to, data, value, chainId, gas estimate) ' +
+      "for the investor's wallet to sign and broadcast. Submit the resulting hash to POST /investments/{id}/submit.",
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Pending investment created and transaction payload built',
+    type: PreparedInvestmentResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Project not minted or not active on blockchain, or investor wallet lacks settlement token balance or allowance (see POST /investments/funding)',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'User or Project not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Investor role required',
+  })
+  prepare(
+    @Body() dto: CreateInvestmentDto,
+  ): Promise<PreparedInvestmentResponseDto> {
+    return this.investmentsService.prepare(dto);
+  }
+
+  @Roles(ROLES.INVESTOR)
+  @Owns({ resource: 'investment', key: 'id' })
+  @Post(':id/submit')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Submit the hash of an investor-signed investment (Investor only)',
+    description:
+      'Link the broadcast invest() transaction to the pending investment. The transaction must call invest() on the ' +
+      "project's contract from the investor's wallet with the investment amount. It is settled from its receipt.",
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Transaction linked; status is PENDING until mined',
+    type: SubmittedInvestmentResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Transaction does not match the investment or is linked elsewhere',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Investment or transaction not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Investor role required',
+  })
+  submitTransaction(
+    @Param('id') id: string,
+    @Body() dto: SubmitTransactionDto,
+  ): Promise<SubmittedInvestmentResponseDto> {
+    return this.investmentsService.submitTransaction(id, dto);
+  }
+
   @Roles(ROLES.ADMIN)
   @Get()
   @ApiOperation({
@@ -161,9 +379,33 @@ export class InvestmentsController {
     return this.investmentsService.getProjectStats(projectId);
   }
 
+  @Roles(ROLES.ADMIN)
+  @Get(':id/intent')
+  @ApiOperation({
+    summary: 'Get the signed intent of an investment (Admin only)',
+    description:
+      'Return the EIP-712 InvestIntent the investor signed for this investment, with its signature verified again',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Signed intent retrieved; verified is false if the signature no longer matches',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'No signed intent recorded for the investment',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  getIntent(@Param('id') id: string) {
+    return this.investmentsService.getIntent(id);
+  }
+
+  @Owns({ resource: 'investment', key: 'id' })
   @Get(':id')
   @ApiOperation({
-    summary: 'Get investment by ID (authenticated users)',
+    summary: 'Get investment by ID (owner, Staff or Admin)',
     description: 'Retrieve a single investment with details',
   })
   @ApiResponse({
@@ -1,10 +1,29 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
 import { InvestmentsService } from './investments.service';
 import { PrismaService } from '../../prisma/prisma.service';
 import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
 import { mockPrismaService } from '../../test/mocks/prisma.mock';
-import { mockStomaTradeContractService } from '../../test/mocks/blockchain.mock';
+import { TransactionWatcherService } from '../../blockchain/services/transaction-watcher.service';
+import { InvestIntentService } from '../../blockchain/services/invest-intent.service';
+import {
+  InvalidPermitError,
+  SettlementTokenService,
+} from '../../blockchain/services/settlement-token.service';
+import {
+  ContractRevertError,
+  TransactionPendingError,
+} from '../../blockchain/services/transaction.service';
+import {
+  mockInvestIntentService,
+  mockStomaTradeContractService,
+  mockTransactionWatcherService,
+  mockSettlementToken,
+  mockSettlementTokenService,
+  mockUnsignedTransaction,
+} from '../../test/mocks/blockchain.mock';
 
 describe('InvestmentsService', () => {
   let service: InvestmentsService;
@@ -59,6 +78,22 @@ describe('InvestmentsService', () => {
           provide: StomaTradeContractService,
           useValue: mockStomaTradeContractService,
         },
+        {
+          provide: TransactionWatcherService,
+          useValue: mockTransactionWatcherService,
+        },
+        {
+          provide: InvestIntentService,
+          useValue: mockInvestIntentService,
+        },
+        {
+          provide: SettlementTokenService,
+          useValue: mockSettlementTokenService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn() },
+        },
       ],
     }).compile();
 
@@ -72,6 +107,23 @@ describe('InvestmentsService', () => {
   });
 
   describe('create', () => {
+    it('should reject amounts finer than the project token decimals', async () => {
+      prisma.user.findUnique.mockResolvedValue(mockUser);
+      prisma.project.findUnique.mockResolvedValue({
+        ...mockProject,
+        volumeDecimal: 2,
+      });
+
+      await expect(
+        service.create({
+          userId: 'user-uuid-1',
+          projectId: 'project-uuid-1',
+          amount: '100.001',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(contractService.invest).not.toHaveBeenCalled();
+    });
+
     it('should create an investment and call blockchain', async () => {
       const createDto = {
         userId: 'user-uuid-1',
@@ -96,22 +148,20 @@ describe('InvestmentsService', () => {
         success: true,
         blockNumber: 12345678,
       });
-      contractService.getContract.mockReturnValue({
-        interface: {
-          parseLog: jest.fn().mockReturnValue({
-            name: 'Invested',
-            args: { receiptTokenId: BigInt(4001) },
-          }),
-        },
-      });
-      contractService.getEventFromReceipt.mockReturnValue({
-        topics: ['0xtopic1'],
-        data: '0xdata',
+      contractService.parseEventFromReceipt.mockResolvedValue({
+        name: 'Invested',
+        args: { receiptTokenId: BigInt(4001) },
       });
 
       const result = await service.create(createDto);
 
       expect(contractService.invest).toHaveBeenCalled();
+      // Decoded with the ABI of the deployment the project lives on
+      expect(contractService.parseEventFromReceipt).toHaveBeenCalledWith(
+        expect.anything(),
+        'Invested',
+        mockProject,
+      );
       expect(result.data).toBeDefined();
       expect(result.data.id).toBe('investment-uuid-1');
       expect(result.data.amount).toBe('100000000000000000000');
@@ -123,6 +173,39 @@ describe('InvestmentsService', () => {
       expect(result.data.project.targetAmount).toBe('1000');
     });
 
+    it('should not create the investment when invest() would revert', async () => {
+      prisma.user.findUnique.mockResolvedValue(mockUser);
+      prisma.project.findUnique.mockResolvedValue(mockProject);
+      contractService.simulateInvest.mockRejectedValueOnce(
+        new ContractRevertError(
+          'invest',
+          'ExceedsMaxInvested(3001)',
+          'ExceedsMaxInvested',
+          [BigInt(3001)],
+        ),
+      );
+
+      await expect(
+        service.create({
+          userId: 'user-uuid-1',
+          projectId: 'project-uuid-1',
+          amount: '100',
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'Failed to process investment on blockchain: invest would revert: ExceedsMaxInvested(3001)',
+        ),
+      );
+      expect(contractService.simulateInvest).toHaveBeenCalledWith(
+        '',
+        BigInt(3001),
+        BigInt('100000000000000000000'),
+        mockProject,
+      );
+      expect(prisma.investment.create).not.toHaveBeenCalled();
+      expect(contractService.invest).not.toHaveBeenCalled();
+    });
+
     it('should throw NotFoundException if user not found', async () => {
       prisma.user.findUnique.mockResolvedValue(null);
 
@@ -162,6 +245,497 @@ describe('InvestmentsService', () => {
     });
   });
 
+  describe('getInvestIntent', () => {
+    it('should build the intent with the next nonce of the investor', async () => {
+      prisma.user.findUnique.mockResolvedValue(mockUser);
+      prisma.project.findUnique.mockResolvedValue(mockProject);
+      contractService.getProject.mockResolvedValue({ status: 0 });
+      prisma.investmentIntent.findFirst.mockResolvedValue({ nonce: 4 });
+
+      await service.getInvestIntent({
+        userId: 'user-uuid-1',
+        projectId: 'project-uuid-1',
+        amount: '100',
+      });
+
+      expect(mockInvestIntentService.buildTypedData).toHaveBeenCalledWith(
+        {
+          investor: '0xInvestorWallet',
+          projectId: BigInt(3001),
+          amount: BigInt('100000000000000000000'),
+          nonce: 5,
+          deadline: expect.any(Number),
+        },
+        mockProject,
+      );
+    });
+  });
+
+  describe('createFromIntent', () => {
+    const signedDto = {
+      userId: 'user-uuid-1',
+      projectId: 'project-uuid-1',
+      amount: '100',
+      nonce: 0,
+      deadline: Math.floor(Date.now() / 1000) + 600,
+      signature: `0x${'11'.repeat(65)}`,
+    };
+
+    beforeEach(() => {
+      prisma.user.findUnique.mockResolvedValue(mockUser);
+      prisma.project.findUnique.mockResolvedValue(mockProject);
+      contractService.getProject.mockResolvedValue({ status: 0 });
+      mockInvestIntentService.recoverSigner.mockReturnValue('0xINVESTORWALLET');
+      prisma.investmentIntent.create.mockResolvedValue({ id: 'intent-uuid-1' });
+    });
+
+    it('should store the intent and relay the investment', async () => {
+      prisma.investment.create.mockResolvedValue({
+        ...mockInvestment,
+        receiptTokenId: null,
+      });
+      prisma.investment.update.mockResolvedValue(mockInvestment);
+      prisma.investment.findMany.mockResolvedValue([]);
+      prisma.file.findMany.mockResolvedValue([]);
+      contractService.invest.mockResolvedValue({
+        hash: '0xTxHash',
+        success: true,
+        blockNumber: 12345678,
+      });
+
+      const result = await service.createFromIntent(signedDto);
+
+      expect(mockInvestIntentService.recoverSigner).toHaveBeenCalledWith(
+        {
+          investor: '0xInvestorWallet',
+          projectId: BigInt(3001),
+          amount: BigInt('100000000000000000000'),
+          nonce: 0,
+          deadline: signedDto.deadline,
+        },
+        signedDto.signature,
+        mockProject,
+      );
+      expect(prisma.investmentIntent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-uuid-1',
+          nonce: 0,
+          chainId: 'eip155:4202',
+          signer: '0xINVESTORWALLET',
+          signature: signedDto.signature,
+        }),
+      });
+      expect(prisma.investmentIntent.update).toHaveBeenCalledWith({
+        where: { id: 'intent-uuid-1' },
+        data: { investmentId: 'investment-uuid-1' },
+      });
+      expect(contractService.invest).toHaveBeenCalled();
+      expect(result.data.id).toBe('investment-uuid-1');
+    });
+
+    it('should reject an expired intent', async () => {
+      await expect(
+        service.createFromIntent({ ...signedDto, deadline: 1000 }),
+      ).rejects.toThrow('Investment intent has expired');
+      expect(mockInvestIntentService.recoverSigner).not.toHaveBeenCalled();
+    });
+
+    it('should reject an intent signed by another wallet', async () => {
+      mockInvestIntentService.recoverSigner.mockReturnValue('0xSomeoneElse');
+
+      await expect(service.createFromIntent(signedDto)).rejects.toThrow(
+        'Investment intent was not signed by the investor wallet',
+      );
+      expect(prisma.investmentIntent.create).not.toHaveBeenCalled();
+      expect(contractService.invest).not.toHaveBeenCalled();
+    });
+
+    it('should reject a nonce that was already used', async () => {
+      prisma.investmentIntent.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(service.createFromIntent(signedDto)).rejects.toThrow(
+        'Intent nonce 0 has already been used',
+      );
+      expect(contractService.invest).not.toHaveBeenCalled();
+    });
+
+    it('should not spend the nonce when invest() would revert', async () => {
+      contractService.simulateInvest.mockRejectedValueOnce(
+        new ContractRevertError('invest', 'Project is not open'),
+      );
+
+      await expect(service.createFromIntent(signedDto)).rejects.toThrow(
+        'invest would revert: Project is not open',
+      );
+      expect(prisma.investmentIntent.create).not.toHaveBeenCalled();
+      expect(prisma.investment.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('prepare', () => {
+    const createDto = {
+      userId: 'user-uuid-1',
+      projectId: 'project-uuid-1',
+      amount: '100',
+    };
+
+    beforeEach(() => {
+      prisma.user.findUnique.mockResolvedValue(mockUser);
+      prisma.project.findUnique.mockResolvedValue(mockProject);
+      prisma.file.findMany.mockResolvedValue([]);
+      contractService.getProject.mockResolvedValue({ status: 0 });
+      prisma.investment.create.mockResolvedValue({
+        ...mockInvestment,
+        transactionHash: null,
+        blockNumber: null,
+        receiptTokenId: null,
+      });
+    });
+
+    it('should create a pending investment and build the invest transaction', async () => {
+      const result = await service.prepare(createDto);
+
+      expect(contractService.buildInvestTransaction).toHaveBeenCalledWith(
+        '',
+        BigInt(3001),
+        BigInt('100000000000000000000'),
+        '0xInvestorWallet',
+        mockProject,
+      );
+      expect(contractService.invest).not.toHaveBeenCalled();
+      expect(result.investmentId).toBe('investment-uuid-1');
+      expect(result.transaction.data).toBe('0xencodeddata');
+    });
+
+    it('should remove the investment if the transaction cannot be built', async () => {
+      contractService.buildInvestTransaction.mockRejectedValueOnce(
+        new Error('no ABI'),
+      );
+
+      await expect(service.prepare(createDto)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prisma.investment.delete).toHaveBeenCalledWith({
+        where: { id: 'investment-uuid-1' },
+      });
+    });
+  });
+
+  describe('settlement token', () => {
+    const createDto = {
+      userId: 'user-uuid-1',
+      projectId: 'project-uuid-1',
+      amount: '100',
+    };
+    const value = BigInt('100000000000000000000');
+
+    const funding = (balance: bigint, allowance: bigint) => ({
+      owner: '0xInvestorWallet',
+      required: value,
+      balance,
+      allowance,
+      hasBalance: balance >= value,
+      hasAllowance: allowance >= value,
+    });
+
+    beforeEach(() => {
+      prisma.user.findUnique.mockResolvedValue(mockUser);
+      prisma.project.findUnique.mockResolvedValue(mockProject);
+      prisma.file.findMany.mockResolvedValue([]);
+      contractService.getProject.mockResolvedValue({ status: 0 });
+      prisma.investment.create.mockResolvedValue({
+        ...mockInvestment,
+        transactionHash: null,
+        blockNumber: null,
+        receiptTokenId: null,
+      });
+      mockSettlementTokenService.getToken.mockResolvedValue(
+        mockSettlementToken,
+      );
+    });
+
+    afterEach(() => {
+      mockSettlementTokenService.getToken.mockResolvedValue(null);
+    });
+
+    it('should record the token of a funded investor-signed investment', async () => {
+      mockSettlementTokenService.checkFunding.mockResolvedValueOnce(
+        funding(value, value),
+      );
+
+      await service.prepare(createDto);
+
+      expect(mockSettlementTokenService.checkFunding).toHaveBeenCalledWith(
+        mockSettlementToken,
+        '0xInvestorWallet',
+        value,
+      );
+      expect(prisma.investment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ tokenAddress: '0xTokenAddress' }),
+      });
+    });
+
+    it('should refuse to prepare an investment the wallet has not approved', async () => {
+      mockSettlementTokenService.checkFunding.mockResolvedValueOnce(
+        funding(value, BigInt(0)),
+      );
+
+      await expect(service.prepare(createDto)).rejects.toThrow(
+        'Insufficient IDRT allowance: 0xInvestorWallet approved 0 of 100',
+      );
+      expect(prisma.investment.create).not.toHaveBeenCalled();
+    });
+
+    describe('relayed by the platform wallet', () => {
+      // An unfunded investor must not be able to spend the platform's tokens
+      beforeEach(() => {
+        mockSettlementTokenService.checkFunding.mockImplementation(
+          (_token: unknown, owner: string) =>
+            Promise.resolve(
+              owner === '0xPlatformWalletAddress'
+                ? funding(value, value)
+                : funding(BigInt(0), BigInt(0)),
+            ),
+        );
+        mockInvestIntentService.recoverSigner.mockReturnValue(
+          '0xINVESTORWALLET',
+        );
+      });
+
+      afterEach(() => {
+        mockSettlementTokenService.checkFunding.mockReset();
+      });
+
+      it('should refuse to relay invest()', async () => {
+        await expect(service.create(createDto)).rejects.toThrow(
+          'Investments in IDRT are paid from the investor wallet and cannot be relayed',
+        );
+        expect(contractService.simulateInvest).not.toHaveBeenCalled();
+        expect(contractService.invest).not.toHaveBeenCalled();
+        expect(prisma.investment.create).not.toHaveBeenCalled();
+      });
+
+      it('should refuse signed intents without spending their nonce', async () => {
+        await expect(service.getInvestIntent(createDto)).rejects.toThrow(
+          BadRequestException,
+        );
+        await expect(
+          service.createFromIntent({
+            ...createDto,
+            nonce: 0,
+            deadline: Math.floor(Date.now() / 1000) + 600,
+            signature: `0x${'11'.repeat(65)}`,
+          }),
+        ).rejects.toThrow(
+          'Investments in IDRT are paid from the investor wallet and cannot be relayed',
+        );
+        expect(prisma.investmentIntent.create).not.toHaveBeenCalled();
+        expect(contractService.invest).not.toHaveBeenCalled();
+      });
+
+      it('should check the investor wallet on the investor-signed path', async () => {
+        await expect(service.prepare(createDto)).rejects.toThrow(
+          'Insufficient IDRT balance: 0xInvestorWallet holds 0, 100 required',
+        );
+        expect(prisma.investment.create).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should reject a token whose decimals differ from the project', async () => {
+      mockSettlementTokenService.getToken.mockResolvedValueOnce({
+        ...mockSettlementToken,
+        decimals: 6,
+      });
+
+      await expect(service.prepare(createDto)).rejects.toThrow(
+        'Project amounts use 18 decimals but settlement token IDRT has 6',
+      );
+    });
+
+    it('should return approve and permit payloads when the allowance is short', async () => {
+      const permit = { primaryType: 'Permit' };
+      mockSettlementTokenService.checkFunding.mockResolvedValueOnce(
+        funding(BigInt('250000000000000000000'), BigInt(0)),
+      );
+      mockSettlementTokenService.buildPermitTypedData.mockResolvedValueOnce(
+        permit,
+      );
+
+      const result = await service.getFunding(createDto);
+
+      expect(result).toEqual({
+        token: mockSettlementToken,
+        owner: '0xInvestorWallet',
+        required: '100',
+        balance: '250',
+        allowance: '0',
+        hasBalance: true,
+        hasAllowance: false,
+        approveTransaction: mockUnsignedTransaction,
+        permit,
+      });
+      expect(
+        mockSettlementTokenService.buildApproveTransaction,
+      ).toHaveBeenCalledWith(mockSettlementToken, '0xInvestorWallet', value);
+    });
+
+    it('should not build approvals when the allowance is enough', async () => {
+      mockSettlementTokenService.checkFunding.mockResolvedValueOnce(
+        funding(value, value),
+      );
+
+      const result = await service.getFunding(createDto);
+
+      expect(result.approveTransaction).toBeNull();
+      expect(result.permit).toBeNull();
+      expect(
+        mockSettlementTokenService.buildApproveTransaction,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should reject funding checks without a settlement token', async () => {
+      mockSettlementTokenService.getToken.mockResolvedValueOnce(null);
+
+      await expect(service.getFunding(createDto)).rejects.toThrow(
+        'The project deployment has no settlement token configured',
+      );
+    });
+
+    describe('relayPermit', () => {
+      const permitDto = {
+        ...createDto,
+        deadline: Math.floor(Date.now() / 1000) + 600,
+        signature: `0x${'ab'.repeat(65)}`,
+      };
+
+      it('should relay the permit through the platform wallet', async () => {
+        const result = await service.relayPermit(permitDto);
+
+        expect(mockSettlementTokenService.relayPermit).toHaveBeenCalledWith(
+          mockSettlementToken,
+          '0xInvestorWallet',
+          value,
+          permitDto.deadline,
+          permitDto.signature,
+        );
+        expect(result.status).toBe('CONFIRMED');
+      });
+
+      it('should report a permit still in the mempool as pending', async () => {
+        mockSettlementTokenService.relayPermit.mockRejectedValueOnce(
+          new TransactionPendingError('0xPermitHash', 'no receipt yet'),
+        );
+
+        const result = await service.relayPermit(permitDto);
+
+        expect(result).toEqual({
+          transactionHash: '0xPermitHash',
+          status: 'PENDING',
+          blockNumber: null,
+        });
+      });
+
+      it('should reject a permit signed by another wallet', async () => {
+        mockSettlementTokenService.relayPermit.mockRejectedValueOnce(
+          new InvalidPermitError('Permit was not signed by the token owner'),
+        );
+
+        await expect(service.relayPermit(permitDto)).rejects.toThrow(
+          new BadRequestException('Permit was not signed by the token owner'),
+        );
+      });
+
+      it('should reject an expired permit', async () => {
+        await expect(
+          service.relayPermit({ ...permitDto, deadline: 1 }),
+        ).rejects.toThrow('Permit has expired');
+        expect(mockSettlementTokenService.relayPermit).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('submitTransaction', () => {
+    const txHash =
+      '0x8f3c1e6b2a4d5f7e9c0b1a2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f';
+    const pendingInvestment = {
+      ...mockInvestment,
+      amount: '100',
+      transactionHash: null,
+      blockNumber: null,
+      receiptTokenId: null,
+    };
+
+    it('should verify the transaction and link it to the investment', async () => {
+      prisma.investment.findFirst.mockResolvedValue(pendingInvestment);
+      prisma.investment.findUnique.mockResolvedValue(pendingInvestment);
+
+      const result = await service.submitTransaction('investment-uuid-1', {
+        transactionHash: txHash,
+      });
+
+      expect(contractService.registerSignedTransaction).toHaveBeenCalledWith(
+        txHash,
+        '0xInvestorWallet',
+        expect.objectContaining({
+          methodName: 'invest',
+          args: [undefined, BigInt(3001), BigInt('100000000000000000000')],
+          transactionType: 'INVEST',
+        }),
+        mockProject,
+      );
+      expect(prisma.investment.update).toHaveBeenCalledWith({
+        where: { id: 'investment-uuid-1' },
+        data: { transactionHash: txHash },
+      });
+      expect(mockTransactionWatcherService.checkTransaction).toHaveBeenCalled();
+      expect(result.transaction.status).toBe('PENDING');
+      expect(result.receiptTokenId).toBeNull();
+    });
+
+    it('should update the portfolio when the transaction is already mined', async () => {
+      prisma.investment.findFirst.mockResolvedValue(pendingInvestment);
+      prisma.investment.findUnique.mockResolvedValue(mockInvestment);
+      prisma.investment.findMany.mockResolvedValue([]);
+      mockTransactionWatcherService.checkTransaction.mockResolvedValueOnce({
+        id: 'blockchain-tx-1',
+        transactionHash: txHash,
+        status: 'CONFIRMED',
+        blockNumber: 12345678,
+      });
+
+      const result = await service.submitTransaction('investment-uuid-1', {
+        transactionHash: txHash,
+      });
+
+      expect(prisma.investmentPortfolio.upsert).toHaveBeenCalled();
+      expect(result.receiptTokenId).toBe(4001);
+    });
+
+    it('should reject an investment linked to another transaction', async () => {
+      prisma.investment.findFirst.mockResolvedValue(mockInvestment);
+
+      await expect(
+        service.submitTransaction('investment-uuid-1', {
+          transactionHash: txHash,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(contractService.registerSignedTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException if investment not found', async () => {
+      prisma.investment.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.submitTransaction('non-existent', { transactionHash: txHash }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
   describe('findAll', () => {
     it('should return all investments', async () => {
       prisma.investment.findMany.mockResolvedValue([mockInvestment]);
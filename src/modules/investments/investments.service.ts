@@ -4,25 +4,57 @@ import {
   BadRequestException,
   Logger,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InvestmentIntent, Prisma, Project } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
+import { TransactionPendingError } from '../../blockchain/services/transaction.service';
+import { TransactionWatcherService } from '../../blockchain/services/transaction-watcher.service';
+import { InvestIntentService } from '../../blockchain/services/invest-intent.service';
+import {
+  InvalidPermitError,
+  SettlementToken,
+  SettlementTokenService,
+  TokenFunding,
+} from '../../blockchain/services/settlement-token.service';
+import { SubmitTransactionDto } from '../../blockchain/dto/submit-transaction.dto';
 import { CreateInvestmentDto } from './dto/create-investment.dto';
+import { SignedInvestmentDto } from './dto/signed-investment.dto';
+import { PermitInvestmentDto } from './dto/permit-investment.dto';
 import {
   InvestmentResponseDto,
   InvestmentDetailResponseDto,
   InvestmentListResponseDto,
   ProjectStatsResponseDto,
+  PreparedInvestmentResponseDto,
+  SubmittedInvestmentResponseDto,
+  InvestIntentTypedDataResponseDto,
+  InvestmentFundingResponseDto,
+  PermitRelayResponseDto,
 } from './dto/investment-response.dto';
-import { toWei } from '../../common/utils/wei-converter.util';
+import {
+  Money,
+  parseAmount,
+  projectDecimals,
+} from '../../common/utils/money.util';
 
 @Injectable()
 export class InvestmentsService {
   private readonly logger = new Logger(InvestmentsService.name);
+  private readonly intentTtlSeconds: number;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly stomaTradeContract: StomaTradeContractService,
-  ) {}
+    private readonly transactionWatcherService: TransactionWatcherService,
+    private readonly investIntentService: InvestIntentService,
+    private readonly settlementTokenService: SettlementTokenService,
+    private readonly configService: ConfigService,
+  ) {
+    this.intentTtlSeconds =
+      Number(this.configService.get<number>('INVEST_INTENT_TTL_SECONDS')) ||
+      900;
+  }
 
   /**
    * Extract CID from various IPFS URL formats
@@ -47,57 +79,177 @@ export class InvestmentsService {
       `Creating investment for user ${dto.userId} in project ${dto.projectId}`,
     );
 
-    const user = await this.prisma.user.findUnique({
-      where: { id: dto.userId },
+    const { project, amount } = await this.findInvestableProject(dto);
+
+    await this.assertRelayable(project);
+    await this.simulateInvestment(project, amount);
+
+    return this.relayInvestment(dto, project, amount);
+  }
+
+  /**
+   * EIP-712 InvestIntent for the investor to sign. Relaying it through
+   * createFromIntent() proves the investor authorized this exact investment.
+   */
+  async getInvestIntent(
+    dto: CreateInvestmentDto,
+  ): Promise<InvestIntentTypedDataResponseDto> {
+    const { user, project, amount } = await this.findInvestableProject(dto);
+
+    await this.assertRelayable(project);
+
+    const lastIntent = await this.prisma.investmentIntent.findFirst({
+      where: { userId: user.id },
+      orderBy: { nonce: 'desc' },
     });
 
-    if (!user) {
-      throw new NotFoundException(`User with ID ${dto.userId} not found`);
+    return this.investIntentService.buildTypedData(
+      {
+        investor: user.walletAddress,
+        projectId: BigInt(project.tokenId!),
+        amount: amount.toUnits(),
+        nonce: lastIntent ? lastIntent.nonce + 1 : 0,
+        deadline: Math.floor(Date.now() / 1000) + this.intentTtlSeconds,
+      },
+      project,
+    );
+  }
+
+  /**
+   * Relay an investment the investor authorized with a signed InvestIntent.
+   * The signature must recover to the user's wallet; the intent is stored
+   * with the investment and its nonce cannot be used again.
+   */
+  async createFromIntent(
+    dto: SignedInvestmentDto,
+  ): Promise<InvestmentResponseDto> {
+    this.logger.log(
+      `Relaying signed investment intent ${dto.nonce} of user ${dto.userId} in project ${dto.projectId}`,
+    );
+
+    if (dto.deadline * 1000 <= Date.now()) {
+      throw new BadRequestException('Investment intent has expired');
     }
 
-    const project = await this.prisma.project.findUnique({
-      where: { id: dto.projectId },
-      include: {
-        projectSubmission: true,
-      },
-    });
+    const { user, project, amount } = await this.findInvestableProject(dto);
 
-    if (!project) {
-      throw new NotFoundException(`Project with ID ${dto.projectId} not found`);
+    let signer: string;
+    try {
+      signer = this.investIntentService.recoverSigner(
+        {
+          investor: user.walletAddress,
+          projectId: BigInt(project.tokenId!),
+          amount: amount.toUnits(),
+          nonce: dto.nonce,
+          deadline: dto.deadline,
+        },
+        dto.signature,
+        project,
+      );
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid intent signature: ${error.message}`,
+      );
     }
 
-    if (!project.tokenId) {
+    if (signer.toLowerCase() !== user.walletAddress.toLowerCase()) {
       throw new BadRequestException(
-        'Project has not been minted on blockchain yet',
+        'Investment intent was not signed by the investor wallet',
       );
     }
 
-    // Verify project exists and is valid on blockchain
-    try {
-      const projectTokenId = BigInt(project.tokenId);
-      const blockchainProject = await this.stomaTradeContract.getProject(projectTokenId);
-      
-      const status = Number(blockchainProject.status);
+    // Checked before the nonce is spent on an intent that cannot be relayed
+    await this.assertRelayable(project);
+    await this.simulateInvestment(project, amount);
 
-      if (status !== 0) {
+    let intent: InvestmentIntent;
+    try {
+      intent = await this.prisma.investmentIntent.create({
+        data: {
+          userId: dto.userId,
+          projectId: dto.projectId,
+          amount: amount.toString(),
+          nonce: dto.nonce,
+          deadline: new Date(dto.deadline * 1000),
+          chainId: this.investIntentService.getChainId(project),
+          signer,
+          signature: dto.signature,
+        },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
         throw new BadRequestException(
-          `Project is not active on blockchain (status: ${blockchainProject.status})`,
+          `Intent nonce ${dto.nonce} has already been used`,
         );
       }
+      throw error;
+    }
 
-      this.logger.log(`Project ${projectTokenId} verified on blockchain - Status: ACTIVE`);
+    return this.relayInvestment(dto, project, amount, intent.id);
+  }
+
+  /**
+   * Signed intent an investment was relayed for, with its signature checked
+   * again against the investor wallet
+   */
+  async getIntent(investmentId: string) {
+    const intent = await this.prisma.investmentIntent.findUnique({
+      where: { investmentId },
+      include: { user: true, project: true },
+    });
+
+    if (!intent) {
+      throw new NotFoundException(
+        `No signed intent recorded for investment ${investmentId}`,
+      );
+    }
+
+    const { user, project, ...record } = intent;
+
+    let verified = false;
+    try {
+      const signer = this.investIntentService.recoverSigner(
+        {
+          investor: user.walletAddress,
+          projectId: BigInt(project.tokenId!),
+          amount: Money.parse(
+            record.amount,
+            projectDecimals(project),
+          ).toUnits(),
+          nonce: record.nonce,
+          deadline: Math.floor(record.deadline.getTime() / 1000),
+        },
+        record.signature,
+        project,
+      );
+      verified = signer.toLowerCase() === user.walletAddress.toLowerCase();
     } catch (error) {
-      this.logger.error(`Failed to verify project on blockchain: ${error.message}`);
-      throw new BadRequestException(
-        `Invalid project on blockchain: ${error.message}`,
+      this.logger.warn(
+        `Stored intent ${record.id} no longer verifies: ${error.message}`,
       );
     }
 
+    return { ...record, verified };
+  }
+
+  /**
+   * Create the investment and send invest() with the platform wallet. Only
+   * for deployments that take no settlement token, see assertRelayable().
+   */
+  private async relayInvestment(
+    dto: CreateInvestmentDto,
+    project: Project,
+    amount: Money,
+    intentId?: string,
+  ): Promise<InvestmentResponseDto> {
     const investment = await this.prisma.investment.create({
       data: {
         userId: dto.userId,
         projectId: dto.projectId,
-        amount: dto.amount,
+        amount: amount.toString(),
       },
       include: {
         user: true,
@@ -105,50 +257,44 @@ export class InvestmentsService {
       },
     });
 
+    if (intentId) {
+      await this.prisma.investmentIntent.update({
+        where: { id: intentId },
+        data: { investmentId: investment.id },
+      });
+    }
+
     try {
       this.logger.log(
         `Calling blockchain invest() - ProjectId: ${project.tokenId}, Amount: ${dto.amount}`,
       );
 
-      // Get investment files for CID
-      const investmentFiles = await this.prisma.file.findMany({
-        where: { reffId: investment.id },
-      });
+      const cid = await this.getInvestmentCid(investment.id);
 
-      const primaryFile = investmentFiles.find(f => f.type.startsWith('image/')) || investmentFiles[0];
-      const cid = primaryFile?.url ? this.extractCID(primaryFile.url) : '';
-
-      const projectTokenId = BigInt(project.tokenId);
+      const projectTokenId = BigInt(project.tokenId!);
       // Convert amount bersih ke wei untuk blockchain
-      const amountInWei = toWei(dto.amount);
+      const amountInWei = amount.toUnits();
 
       const txResult = await this.stomaTradeContract.invest(
         cid,
         projectTokenId,
         amountInWei,
+        project,
       );
 
       let receiptTokenId: number | null = null;
       if (txResult.receipt) {
-        const investedEvent = this.stomaTradeContract.getEventFromReceipt(
+        const parsed = await this.stomaTradeContract.parseEventFromReceipt(
           txResult.receipt,
           'Invested',
+          project,
         );
 
-        if (investedEvent) {
-          const parsed = this.stomaTradeContract
-            .getContract()
-            .interface.parseLog({
-              topics: investedEvent.topics,
-              data: investedEvent.data,
-            });
-
-          if (parsed) {
-            receiptTokenId = Number(parsed.args.receiptTokenId);
-            this.logger.log(
-              `Investment receipt NFT minted with token ID: ${receiptTokenId}`,
-            );
-          }
+        if (parsed) {
+          receiptTokenId = Number(parsed.args.receiptTokenId);
+          this.logger.log(
+            `Investment receipt NFT minted with token ID: ${receiptTokenId}`,
+          );
         }
       }
 
@@ -179,6 +325,7 @@ export class InvestmentsService {
           id: updatedInvestment.id,
           amount: updatedInvestment.amount,
           receiptTokenId: updatedInvestment.receiptTokenId,
+          tokenAddress: updatedInvestment.tokenAddress,
           message: 'Investment Successfully',
           investedAt: updatedInvestment.investedAt,
           project: {
@@ -190,6 +337,13 @@ export class InvestmentsService {
         },
       } as InvestmentResponseDto;
     } catch (error) {
+      if (error instanceof TransactionPendingError) {
+        return await this.linkPendingTransaction(
+          investment.id,
+          error.transactionHash,
+        );
+      }
+
       this.logger.error('Error processing investment on blockchain', error);
 
       await this.prisma.investment.delete({
@@ -202,6 +356,471 @@ export class InvestmentsService {
     }
   }
 
+  /**
+   * Keep the investment when its invest() tx is still in the mempool;
+   * the transaction watcher fills the receipt token or removes it on revert
+   */
+  private async linkPendingTransaction(
+    investmentId: string,
+    transactionHash: string,
+  ): Promise<InvestmentResponseDto> {
+    this.logger.warn(
+      `Investment ${investmentId} awaiting confirmation of ${transactionHash}`,
+    );
+
+    const investment = await this.prisma.investment.update({
+      where: { id: investmentId },
+      data: { transactionHash },
+      include: {
+        project: {
+          include: {
+            farmer: true,
+          },
+        },
+      },
+    });
+
+    return {
+      data: {
+        id: investment.id,
+        amount: investment.amount,
+        receiptTokenId: null,
+        tokenAddress: investment.tokenAddress,
+        message: 'Investment submitted, awaiting blockchain confirmation',
+        investedAt: investment.investedAt,
+        project: {
+          id: investment.project.id,
+          commodity: investment.project.commodity,
+          farmerName: investment.project.farmer?.name || 'N/A',
+          targetAmount: investment.project.volume.toString(),
+        },
+      },
+    } as InvestmentResponseDto;
+  }
+
+  /**
+   * Create a pending investment and return the invest() call for the
+   * investor's own wallet to sign, instead of sending it with the platform
+   * signer. The investment is completed by submitTransaction().
+   */
+  async prepare(dto: CreateInvestmentDto): Promise<PreparedInvestmentResponseDto> {
+    this.logger.log(
+      `Preparing investor-signed investment for user ${dto.userId} in project ${dto.projectId}`,
+    );
+
+    const { user, project, amount } = await this.findInvestableProject(dto);
+
+    const token = await this.checkSettlementFunding(
+      user.walletAddress,
+      project,
+      amount,
+    );
+
+    const investment = await this.prisma.investment.create({
+      data: {
+        userId: dto.userId,
+        projectId: dto.projectId,
+        amount: amount.toString(),
+        tokenAddress: token?.address ?? null,
+      },
+    });
+
+    try {
+      const cid = await this.getInvestmentCid(investment.id);
+      const transaction = await this.stomaTradeContract.buildInvestTransaction(
+        cid,
+        BigInt(project.tokenId!),
+        amount.toUnits(),
+        user.walletAddress,
+        project,
+      );
+
+      return { investmentId: investment.id, transaction };
+    } catch (error) {
+      this.logger.error('Error building invest transaction', error);
+
+      await this.prisma.investment.delete({
+        where: { id: investment.id },
+      });
+
+      throw new BadRequestException(
+        `Failed to build invest transaction: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Settlement token balance and allowance of the investor wallet for an
+   * investment. When the allowance falls short, the approve() transaction
+   * and, for EIP-2612 tokens, a gasless permit are returned to grant it.
+   */
+  async getFunding(
+    dto: CreateInvestmentDto,
+  ): Promise<InvestmentFundingResponseDto> {
+    const { user, project, amount } = await this.findInvestableProject(dto);
+    const token = await this.getSettlementToken(project);
+    const value = amount.toUnits();
+
+    const funding = await this.settlementTokenService.checkFunding(
+      token,
+      user.walletAddress,
+      value,
+    );
+
+    let approveTransaction: InvestmentFundingResponseDto['approveTransaction'] =
+      null;
+    let permit: InvestmentFundingResponseDto['permit'] = null;
+
+    if (!funding.hasAllowance) {
+      [approveTransaction, permit] = await Promise.all([
+        this.settlementTokenService.buildApproveTransaction(
+          token,
+          user.walletAddress,
+          value,
+        ),
+        // Permits expire like investment intents
+        this.settlementTokenService.buildPermitTypedData(
+          token,
+          user.walletAddress,
+          value,
+          Math.floor(Date.now() / 1000) + this.intentTtlSeconds,
+        ),
+      ]);
+    }
+
+    return {
+      token,
+      owner: funding.owner,
+      required: amount.toString(),
+      balance: Money.fromUnits(funding.balance, token.decimals).toString(),
+      allowance: Money.fromUnits(funding.allowance, token.decimals).toString(),
+      hasBalance: funding.hasBalance,
+      hasAllowance: funding.hasAllowance,
+      approveTransaction,
+      permit,
+    };
+  }
+
+  /**
+   * Relay the investor's EIP-2612 permit with the platform wallet, granting
+   * the StomaTrade contract the allowance for an investment without the
+   * investor paying gas
+   */
+  async relayPermit(dto: PermitInvestmentDto): Promise<PermitRelayResponseDto> {
+    if (dto.deadline * 1000 <= Date.now()) {
+      throw new BadRequestException('Permit has expired');
+    }
+
+    const { user, project, amount } = await this.findInvestableProject(dto);
+    const token = await this.getSettlementToken(project);
+
+    try {
+      const result = await this.settlementTokenService.relayPermit(
+        token,
+        user.walletAddress,
+        amount.toUnits(),
+        dto.deadline,
+        dto.signature,
+      );
+
+      return {
+        transactionHash: result.hash,
+        status: result.success ? 'CONFIRMED' : 'FAILED',
+        blockNumber: result.blockNumber ?? null,
+      };
+    } catch (error) {
+      if (error instanceof TransactionPendingError) {
+        return {
+          transactionHash: error.transactionHash,
+          status: 'PENDING',
+          blockNumber: null,
+        };
+      }
+
+      if (error instanceof InvalidPermitError) {
+        throw new BadRequestException(error.message);
+      }
+
+      this.logger.error('Error relaying permit', error);
+      throw new BadRequestException(
+        `Failed to relay permit: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Link the invest() transaction the investor broadcast to their pending
+   * investment. The transaction is checked against the investment on chain
+   * and settled right away when already mined; otherwise the receipt watcher
+   * fills in the receipt token or removes the investment on revert.
+   */
+  async submitTransaction(
+    id: string,
+    dto: SubmitTransactionDto,
+  ): Promise<SubmittedInvestmentResponseDto> {
+    const investment = await this.prisma.investment.findFirst({
+      where: { id, deleted: false },
+      include: { user: true, project: true },
+    });
+
+    if (!investment) {
+      throw new NotFoundException(`Investment with ID ${id} not found`);
+    }
+
+    if (
+      investment.transactionHash &&
+      investment.transactionHash !== dto.transactionHash
+    ) {
+      throw new BadRequestException(
+        `Investment is already linked to transaction ${investment.transactionHash}`,
+      );
+    }
+
+    const { project, user } = investment;
+
+    if (!project.tokenId) {
+      throw new BadRequestException(
+        'Project has not been minted on blockchain yet',
+      );
+    }
+
+    const record = await this.stomaTradeContract.registerSignedTransaction(
+      dto.transactionHash,
+      user.walletAddress,
+      {
+        methodName: 'invest',
+        // The CID is not checked, only what the investment records
+        args: [
+          undefined,
+          BigInt(project.tokenId),
+          Money.parse(investment.amount, projectDecimals(project)).toUnits(),
+        ],
+        transactionType: 'INVEST',
+        eventData: JSON.stringify({ action: 'invest', investmentId: id }),
+      },
+      project,
+    );
+
+    await this.prisma.investment.update({
+      where: { id },
+      data: { transactionHash: dto.transactionHash },
+    });
+
+    const settled = await this.transactionWatcherService.checkTransaction(record);
+
+    if (settled.status === 'CONFIRMED') {
+      await this.updateUserPortfolio(investment.userId);
+    }
+
+    const updated = await this.prisma.investment.findUnique({
+      where: { id },
+    });
+
+    return {
+      investmentId: id,
+      receiptTokenId: updated?.receiptTokenId ?? null,
+      transaction: {
+        id: settled.id,
+        hash: settled.transactionHash,
+        status: settled.status,
+        blockNumber: settled.blockNumber,
+      },
+    };
+  }
+
+  /**
+   * Check the user exists and the project is minted and still ACTIVE on chain
+   */
+  private async findInvestableProject(dto: CreateInvestmentDto) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: dto.userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${dto.userId} not found`);
+    }
+
+    const project = await this.prisma.project.findUnique({
+      where: { id: dto.projectId },
+      include: {
+        projectSubmission: true,
+      },
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project with ID ${dto.projectId} not found`);
+    }
+
+    const amount = parseAmount(dto.amount, projectDecimals(project));
+
+    if (!project.tokenId) {
+      throw new BadRequestException(
+        'Project has not been minted on blockchain yet',
+      );
+    }
+
+    // Verify project exists and is valid on blockchain
+    try {
+      const projectTokenId = BigInt(project.tokenId);
+      const blockchainProject = await this.stomaTradeContract.getProject(
+        projectTokenId,
+        project,
+      );
+      
+      const status = Number(blockchainProject.status);
+
+      if (status !== 0) {
+        throw new BadRequestException(
+          `Project is not active on blockchain (status: ${blockchainProject.status})`,
+        );
+      }
+
+      this.logger.log(`Project ${projectTokenId} verified on blockchain - Status: ACTIVE`);
+    } catch (error) {
+      this.logger.error(`Failed to verify project on blockchain: ${error.message}`);
+      throw new BadRequestException(
+        `Invalid project on blockchain: ${error.message}`,
+      );
+    }
+
+    return { user, project, amount };
+  }
+
+  private async getSettlementToken(project: Project): Promise<SettlementToken> {
+    const token = await this.findSettlementToken(project);
+
+    if (!token) {
+      throw new BadRequestException(
+        'The project deployment has no settlement token configured',
+      );
+    }
+
+    return token;
+  }
+
+  /**
+   * Settlement token of the project's deployment, null when it takes none.
+   * Amounts are converted with the project decimals, so the token must use
+   * the same.
+   */
+  private async findSettlementToken(
+    project: Project,
+  ): Promise<SettlementToken | null> {
+    let token: SettlementToken | null;
+    try {
+      token = await this.settlementTokenService.getToken(project);
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to read settlement token: ${(error as Error).message}`,
+      );
+    }
+
+    if (token && token.decimals !== projectDecimals(project)) {
+      throw new BadRequestException(
+        `Project amounts use ${projectDecimals(project)} decimals but settlement token ${token.symbol} has ${token.decimals}`,
+      );
+    }
+
+    return token;
+  }
+
+  /**
+   * invest() pulls the settlement token from the wallet that sends it, so a
+   * relayed call would pay with the platform wallet's own tokens. On
+   * token-settled deployments investors sign invest() themselves.
+   */
+  private async assertRelayable(project: Project): Promise<void> {
+    const token = await this.findSettlementToken(project);
+
+    if (token) {
+      throw new BadRequestException(
+        `Investments in ${token.symbol} are paid from the investor wallet and cannot be relayed. ` +
+          'Grant the allowance (POST /investments/funding, POST /investments/permit), then sign invest() from POST /investments/prepare',
+      );
+    }
+  }
+
+  /**
+   * Check the wallet sending invest() holds the amount and approved the
+   * contract for it, so the call does not revert on the token transfer.
+   * Returns null when the deployment takes no token.
+   */
+  private async checkSettlementFunding(
+    payer: string,
+    project: Project,
+    amount: Money,
+  ): Promise<SettlementToken | null> {
+    const token = await this.findSettlementToken(project);
+
+    if (!token) {
+      return null;
+    }
+
+    let funding: TokenFunding;
+    try {
+      funding = await this.settlementTokenService.checkFunding(
+        token,
+        payer,
+        amount.toUnits(),
+      );
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to read ${token.symbol} balance: ${(error as Error).message}`,
+      );
+    }
+
+    if (!funding.hasBalance) {
+      throw new BadRequestException(
+        `Insufficient ${token.symbol} balance: ${payer} holds ${Money.fromUnits(funding.balance, token.decimals).toString()}, ${amount.toString()} required`,
+      );
+    }
+
+    if (!funding.hasAllowance) {
+      throw new BadRequestException(
+        `Insufficient ${token.symbol} allowance: ${payer} approved ${Money.fromUnits(funding.allowance, token.decimals).toString()} of ${amount.toString()} for ${token.spender}. ` +
+          'Approve it first, see POST /investments/funding',
+      );
+    }
+
+    return token;
+  }
+
+  /**
+   * Dry-run invest() from the platform wallet so a revert is reported before
+   * any investment row is written. A new investment has no uploaded files
+   * yet, so the CID is empty as in the call relayInvestment() will send.
+   */
+  private async simulateInvestment(
+    project: Project,
+    amount: Money,
+  ): Promise<void> {
+    try {
+      await this.stomaTradeContract.simulateInvest(
+        '',
+        BigInt(project.tokenId!),
+        amount.toUnits(),
+        project,
+      );
+    } catch (error) {
+      this.logger.error('invest() would fail', error);
+      throw new BadRequestException(
+        `Failed to process investment on blockchain: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * CID passed to invest(), taken from the investment's uploaded files
+   */
+  private async getInvestmentCid(investmentId: string): Promise<string> {
+    const investmentFiles = await this.prisma.file.findMany({
+      where: { reffId: investmentId },
+    });
+
+    const primaryFile = investmentFiles.find(f => f.type.startsWith('image/')) || investmentFiles[0];
+    return primaryFile?.url ? this.extractCID(primaryFile.url) : '';
+  }
+
   async findAll(userId?: string, projectId?: string) {
     const where: any = { deleted: false };
 
@@ -267,9 +886,8 @@ export class InvestmentsService {
     });
 
     // Calculate total dari amount bersih (sudah bersih di DB)
-    const totalInvested = investments.reduce(
-      (sum, inv) => sum + Number(inv.amount),
-      0,
+    const totalInvested = Money.sum(
+      investments.map((inv) => Money.parse(inv.amount)),
     );
 
     const investorCount = new Set(investments.map((inv) => inv.userId)).size;
@@ -300,18 +918,15 @@ export class InvestmentsService {
     });
 
     // Calculate totals dari amount bersih (sudah bersih di DB)
-    const totalInvested = investments.reduce(
-      (sum, inv) => sum + Number(inv.amount),
-      0,
+    const totalInvested = Money.sum(
+      investments.map((inv) => Money.parse(inv.amount)),
     );
 
-    const totalClaimed = investments.reduce((sum, inv) => {
-      const claimed = inv.profitClaims.reduce(
-        (claimSum, claim) => claimSum + Number(claim.amount),
-        0,
-      );
-      return sum + claimed;
-    }, 0);
+    const totalClaimed = Money.sum(
+      investments.flatMap((inv) =>
+        inv.profitClaims.map((claim) => Money.parse(claim.amount)),
+      ),
+    );
 
     const totalProfit = totalClaimed;
 
@@ -319,10 +934,7 @@ export class InvestmentsService {
       (inv) => inv.receiptTokenId !== null,
     ).length;
 
-    const avgROI =
-      totalInvested > 0
-        ? (totalProfit / totalInvested) * 100
-        : 0;
+    const avgROI = totalProfit.percentageOf(totalInvested);
 
     await this.prisma.investmentPortfolio.upsert({
       where: { userId },
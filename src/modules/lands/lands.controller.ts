@@ -24,6 +24,7 @@ import { UpdateLandDto } from './dto/update-land.dto';
 import { LandResponseDto, PaginatedLandResponseDto } from './dto/land-response.dto';
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { Owns } from '../auth/decorators/owns.decorator';
 import { ROLES } from '@prisma/client';
 
 @ApiTags('Lands')
@@ -33,6 +34,7 @@ export class LandsController {
   constructor(private readonly landsService: LandsService) {}
 
   @Roles(ROLES.COLLECTOR, ROLES.STAFF, ROLES.ADMIN)
+  @Owns({ resource: 'farmer', in: 'body', key: 'farmerId' })
   @Post()
   @ApiOperation({
     summary: 'Create a new land (Collector/Staff/Admin only)',
@@ -90,9 +92,10 @@ export class LandsController {
     return this.landsService.findAll(pagination);
   }
 
+  @Owns({ resource: 'farmer', key: 'farmerId' })
   @Get('farmer/:farmerId')
   @ApiOperation({
-    summary: 'Get lands by farmer',
+    summary: 'Get lands by farmer (owner, Staff or Admin)',
     description: 'Retrieve all lands owned by a specific farmer',
   })
   @ApiParam({
@@ -114,9 +117,10 @@ export class LandsController {
     return this.landsService.findByFarmer(farmerId, pagination);
   }
 
+  @Owns({ resource: 'land', key: 'id' })
   @Get(':id')
   @ApiOperation({
-    summary: 'Get land by ID',
+    summary: 'Get land by ID (owner, Staff or Admin)',
     description: 'Retrieve a single land plot by UUID',
   })
   @ApiParam({
@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { NFT_TOKEN_TYPES, NftTokenType } from './nft-query.dto';
+
+export class NftAttributeDto {
+  @ApiProperty({ example: 'Commodity' })
+  trait_type: string;
+
+  @ApiProperty({ example: 'Coffee' })
+  value: string | number;
+}
+
+export class NftMetadataResponseDto {
+  @ApiProperty({ example: 4001 })
+  tokenId: number;
+
+  @ApiProperty({ enum: NFT_TOKEN_TYPES, example: 'INVESTMENT' })
+  tokenType: NftTokenType;
+
+  @ApiProperty({
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    description: 'Current owner (lowercase)',
+  })
+  ownerAddress: string;
+
+  @ApiProperty({
+    example: 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG',
+    description:
+      'IPFS path of the metadata document, or the token URI if not on IPFS',
+  })
+  metadataCid: string;
+
+  @ApiProperty({ example: 'StomaTrade Investment #4001', nullable: true })
+  name: string | null;
+
+  @ApiProperty({ nullable: true })
+  description: string | null;
+
+  @ApiProperty({
+    example: 'ipfs://QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG/image.png',
+    nullable: true,
+  })
+  image: string | null;
+
+  @ApiProperty({ type: [NftAttributeDto] })
+  attributes: NftAttributeDto[];
+
+  @ApiProperty()
+  lastSyncedAt: Date;
+}
@@ -0,0 +1,17 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+
+export const NFT_TOKEN_TYPES = ['FARMER', 'PROJECT', 'INVESTMENT'] as const;
+
+export type NftTokenType = (typeof NFT_TOKEN_TYPES)[number];
+
+export class NftQueryDto extends PaginationDto {
+  @ApiPropertyOptional({
+    enum: NFT_TOKEN_TYPES,
+    description: 'Only return tokens of this type',
+  })
+  @IsOptional()
+  @IsIn(NFT_TOKEN_TYPES)
+  tokenType?: NftTokenType;
+}
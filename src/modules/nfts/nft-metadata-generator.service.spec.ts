@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { NftMetadataGeneratorService } from './nft-metadata-generator.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { IPFS_PINNER } from '../../ipfs/interfaces/ipfs-pinner.interface';
+import { InMemoryIpfsGateway } from '../../ipfs/gateways/in-memory-ipfs.gateway';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+
+describe('NftMetadataGeneratorService', () => {
+  let service: NftMetadataGeneratorService;
+  let prisma: typeof mockPrismaService;
+  const ipfs = new InMemoryIpfsGateway();
+
+  const imageCid = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+
+  const mockLand = {
+    id: 'land-uuid-1',
+    latitude: -6.914744,
+    longitude: 107.60981,
+    address: 'Bandung, West Java',
+  };
+
+  const mockFarmer = {
+    id: 'farmer-uuid-1',
+    name: 'John Farmer',
+    age: 45,
+    gender: 'MALE',
+    address: 'Farmer Address',
+    collector: { name: 'Collector 1' },
+    lands: [mockLand],
+  };
+
+  const mockProject = {
+    id: 'project-uuid-1',
+    name: 'Rice Harvest 2026',
+    commodity: 'Rice',
+    volume: 1000,
+    sendDate: new Date('2026-03-01T00:00:00Z'),
+    totalKilos: 1000,
+    profitShare: null,
+    farmer: { name: 'John Farmer' },
+    land: mockLand,
+  };
+
+  const mockFiles = [
+    {
+      id: 'file-uuid-1',
+      url: 'https://docs.example.com/contract.pdf',
+      type: 'application/pdf',
+    },
+    {
+      id: 'file-uuid-2',
+      url: `https://gateway.pinata.cloud/ipfs/${imageCid}`,
+      type: 'image/jpeg',
+    },
+  ];
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    ipfs.clear();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NftMetadataGeneratorService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: IPFS_PINNER, useValue: ipfs },
+      ],
+    }).compile();
+
+    service = module.get<NftMetadataGeneratorService>(
+      NftMetadataGeneratorService,
+    );
+    prisma = mockPrismaService;
+
+    prisma.file.findMany.mockResolvedValue(mockFiles);
+  });
+
+  describe('generateFarmerMetadata', () => {
+    it('should pin farmer metadata and return its CID', async () => {
+      prisma.farmer.findUnique.mockResolvedValue(mockFarmer);
+
+      const { cid, document } = await service.generateFarmerMetadata(
+        'farmer-uuid-1',
+        'Coffee Arabica',
+      );
+
+      expect(cid).toMatch(/^bafkrei[a-z2-7]+$/);
+      await expect(ipfs.fetchJson(cid)).resolves.toEqual(document);
+      expect(document.image).toBe(`ipfs://${imageCid}`);
+      expect(document.attributes).toEqual(
+        expect.arrayContaining([
+          { trait_type: 'Commodity', value: 'Coffee Arabica' },
+          { trait_type: 'Lands', value: 1, display_type: 'number' },
+        ]),
+      );
+      expect(document.properties.lands).toEqual([
+        {
+          latitude: -6.914744,
+          longitude: 107.60981,
+          address: 'Bandung, West Java',
+        },
+      ]);
+      expect(prisma.file.findMany).toHaveBeenCalledWith({
+        where: { reffId: 'farmer-uuid-1', deleted: false },
+        orderBy: { createdAt: 'asc' },
+      });
+    });
+
+    it('should throw NotFoundException if farmer not found', async () => {
+      prisma.farmer.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.generateFarmerMetadata('missing', 'Rice'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('generateProjectMetadata', () => {
+    it('should pin project metadata with commodity, volume and land coordinates', async () => {
+      prisma.project.findUnique.mockResolvedValue(mockProject);
+
+      const { cid, document } =
+        await service.generateProjectMetadata('project-uuid-1');
+
+      await expect(ipfs.fetchJson(cid)).resolves.toEqual(document);
+      expect(document.attributes).toEqual([
+        { trait_type: 'Commodity', value: 'Rice' },
+        { trait_type: 'Volume', value: 1000, display_type: 'number' },
+        { trait_type: 'Send Date', value: 1772323200, display_type: 'date' },
+        { trait_type: 'Farmer', value: 'John Farmer' },
+        { trait_type: 'Latitude', value: -6.914744 },
+        { trait_type: 'Longitude', value: 107.60981 },
+        { trait_type: 'Total Kilos', value: 1000, display_type: 'number' },
+      ]);
+    });
+
+    it('should give identical documents the same CID', async () => {
+      prisma.project.findUnique.mockResolvedValue(mockProject);
+
+      const first = await service.generateProjectMetadata('project-uuid-1');
+      const second = await service.generateProjectMetadata('project-uuid-1');
+
+      expect(second.cid).toBe(first.cid);
+    });
+
+    it('should omit the image when no image file is attached', async () => {
+      prisma.project.findUnique.mockResolvedValue(mockProject);
+      prisma.file.findMany.mockResolvedValue([mockFiles[0]]);
+
+      const { document } =
+        await service.generateProjectMetadata('project-uuid-1');
+
+      expect(document.image).toBeUndefined();
+      expect(document.properties.files).toEqual([
+        {
+          uri: 'https://docs.example.com/contract.pdf',
+          type: 'application/pdf',
+        },
+      ]);
+    });
+  });
+});
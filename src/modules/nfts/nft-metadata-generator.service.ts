@@ -0,0 +1,198 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { File } from '@prisma/client';
+import { ethers } from 'ethers';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  IPFS_PINNER,
+  IpfsPinner,
+} from '../../ipfs/interfaces/ipfs-pinner.interface';
+import { computeCid } from '../../ipfs/ipfs-cid.util';
+import { toIpfsPath } from '../../ipfs/ipfs-uri.util';
+
+export interface Erc721Attribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: 'number' | 'date';
+}
+
+/**
+ * ERC-721 metadata JSON schema, with OpenSea style attributes
+ */
+export interface Erc721Metadata {
+  name: string;
+  description: string;
+  image?: string;
+  attributes: Erc721Attribute[];
+  properties: Record<string, unknown>;
+}
+
+export interface GeneratedMetadata {
+  cid: string;
+  document: Erc721Metadata;
+}
+
+/**
+ * Builds the metadata documents of farmer and project NFTs from their DB rows
+ * and pins them to IPFS, so addFarmer()/createProject() get a CID that
+ * resolves to standards-compliant metadata.
+ */
+@Injectable()
+export class NftMetadataGeneratorService {
+  private readonly logger = new Logger(NftMetadataGeneratorService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(IPFS_PINNER) private readonly ipfsPinner: IpfsPinner,
+  ) {}
+
+  async generateFarmerMetadata(
+    farmerId: string,
+    commodity: string,
+  ): Promise<GeneratedMetadata> {
+    const farmer = await this.prisma.farmer.findUnique({
+      where: { id: farmerId },
+      include: { collector: true, lands: { where: { deleted: false } } },
+    });
+
+    if (!farmer) {
+      throw new NotFoundException(`Farmer with ID ${farmerId} not found`);
+    }
+
+    const files = await this.findFiles(farmerId);
+
+    const document: Erc721Metadata = {
+      name: `StomaTrade Farmer - ${farmer.name}`,
+      description: `${commodity} farmer from ${farmer.address}, registered by collector ${farmer.collector.name}.`,
+      ...this.imageOf(files),
+      attributes: [
+        { trait_type: 'Commodity', value: commodity },
+        { trait_type: 'Age', value: farmer.age, display_type: 'number' },
+        { trait_type: 'Gender', value: farmer.gender },
+        { trait_type: 'Domicile', value: farmer.address },
+        { trait_type: 'Collector', value: farmer.collector.name },
+        {
+          trait_type: 'Lands',
+          value: farmer.lands.length,
+          display_type: 'number',
+        },
+      ],
+      properties: {
+        lands: farmer.lands.map((land) => ({
+          latitude: land.latitude,
+          longitude: land.longitude,
+          address: land.address,
+        })),
+        files: this.filesOf(files),
+      },
+    };
+
+    return {
+      cid: await this.pinDocument(document, `farmer-${farmerId}.json`),
+      document,
+    };
+  }
+
+  async generateProjectMetadata(projectId: string): Promise<GeneratedMetadata> {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      include: { farmer: true, land: true },
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project with ID ${projectId} not found`);
+    }
+
+    const files = await this.findFiles(projectId);
+
+    const attributes: Erc721Attribute[] = [
+      { trait_type: 'Commodity', value: project.commodity },
+      { trait_type: 'Volume', value: project.volume, display_type: 'number' },
+      {
+        trait_type: 'Send Date',
+        value: Math.floor(project.sendDate.getTime() / 1000),
+        display_type: 'date',
+      },
+      { trait_type: 'Farmer', value: project.farmer.name },
+      { trait_type: 'Latitude', value: project.land.latitude },
+      { trait_type: 'Longitude', value: project.land.longitude },
+    ];
+
+    if (project.totalKilos !== null) {
+      attributes.push({
+        trait_type: 'Total Kilos',
+        value: project.totalKilos,
+        display_type: 'number',
+      });
+    }
+    if (project.profitShare !== null) {
+      attributes.push({
+        trait_type: 'Profit Share',
+        value: project.profitShare,
+        display_type: 'number',
+      });
+    }
+
+    const document: Erc721Metadata = {
+      name: `StomaTrade Project - ${project.name}`,
+      description: `${project.volume} of ${project.commodity} from ${project.farmer.name}, ${project.land.address}.`,
+      ...this.imageOf(files),
+      attributes,
+      properties: {
+        land: {
+          latitude: project.land.latitude,
+          longitude: project.land.longitude,
+          address: project.land.address,
+        },
+        files: this.filesOf(files),
+      },
+    };
+
+    return {
+      cid: await this.pinDocument(document, `project-${projectId}.json`),
+      document,
+    };
+  }
+
+  private async pinDocument(
+    document: Erc721Metadata,
+    name: string,
+  ): Promise<string> {
+    const content = ethers.toUtf8Bytes(JSON.stringify(document));
+    const expectedCid = computeCid(content);
+    const cid = await this.ipfsPinner.pin(content, name);
+
+    // The pinned CID is the one that resolves, keep it if they disagree
+    if (cid !== expectedCid) {
+      this.logger.warn(
+        `Pinned CID ${cid} of ${name} differs from computed CID ${expectedCid}`,
+      );
+    }
+
+    this.logger.log(`Pinned ${name} as ${cid}`);
+    return cid;
+  }
+
+  private findFiles(reffId: string): Promise<File[]> {
+    return this.prisma.file.findMany({
+      where: { reffId, deleted: false },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private imageOf(files: File[]): { image?: string } {
+    const image = files.find((file) => file.type.startsWith('image/'));
+    return image ? { image: this.toUri(image.url) } : {};
+  }
+
+  private filesOf(files: File[]) {
+    return files.map((file) => ({
+      uri: this.toUri(file.url),
+      type: file.type,
+    }));
+  }
+
+  private toUri(url: string): string {
+    const ipfsPath = toIpfsPath(url);
+    return ipfsPath ? `ipfs://${ipfsPath}` : url;
+  }
+}
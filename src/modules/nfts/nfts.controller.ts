@@ -0,0 +1,112 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  HttpStatus,
+  HttpCode,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ROLES } from '@prisma/client';
+import { NftsService } from './nfts.service';
+import { NftQueryDto } from './dto/nft-query.dto';
+import { NftMetadataResponseDto } from './dto/nft-metadata-response.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+
+@ApiTags('NFTs')
+@ApiBearerAuth('JWT-auth')
+@Controller('nfts')
+export class NftsController {
+  constructor(private readonly nftsService: NftsService) {}
+
+  @Roles(ROLES.ADMIN)
+  @Post('sync')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Re-index NFT metadata (Admin only)',
+    description:
+      'Read tokenURI() and ownerOf() of every farmer, project and investment receipt token and store the resolved metadata. ' +
+      'Runs on a schedule as well.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      'Tokens indexed; failed lists tokens whose metadata could not be resolved',
+    schema: {
+      type: 'object',
+      properties: {
+        indexed: { type: 'number' },
+        failed: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              tokenId: { type: 'number' },
+              tokenType: { type: 'string' },
+              error: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'A sync is already in progress',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Admin access required',
+  })
+  sync() {
+    return this.nftsService.syncAll();
+  }
+
+  @Public()
+  @Get('owner/:address')
+  @ApiOperation({
+    summary: 'List NFTs held by a wallet (Public)',
+    description:
+      'Indexed farmer, project and investment receipt tokens currently owned by the address',
+  })
+  @ApiParam({ name: 'address', description: 'Owner wallet address' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'NFTs retrieved successfully',
+  })
+  findByOwner(@Param('address') address: string, @Query() query: NftQueryDto) {
+    return this.nftsService.findByOwner(address, query);
+  }
+
+  @Public()
+  @Get(':tokenId')
+  @ApiOperation({
+    summary: 'Get NFT metadata by token ID (Public)',
+    description:
+      'Indexed metadata (name, description, image, attributes) and current owner of a token',
+  })
+  @ApiParam({ name: 'tokenId', description: 'Token ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'NFT metadata retrieved successfully',
+    type: NftMetadataResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Token not indexed',
+  })
+  findOne(
+    @Param('tokenId', ParseIntPipe) tokenId: number,
+  ): Promise<NftMetadataResponseDto> {
+    return this.nftsService.findOne(tokenId);
+  }
+}
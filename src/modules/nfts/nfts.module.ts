@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { NftsService } from './nfts.service';
+import { NftMetadataGeneratorService } from './nft-metadata-generator.service';
+import { NftsController } from './nfts.controller';
+import { BlockchainModule } from '../../blockchain/blockchain.module';
+import { IpfsModule } from '../../ipfs/ipfs.module';
+
+@Module({
+  imports: [BlockchainModule, IpfsModule],
+  controllers: [NftsController],
+  providers: [NftsService, NftMetadataGeneratorService],
+  exports: [NftsService, NftMetadataGeneratorService],
+})
+export class NftsModule {}
@@ -0,0 +1,212 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { NftsService } from './nfts.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
+import { IPFS_GATEWAY } from '../../ipfs/interfaces/ipfs-gateway.interface';
+import { InMemoryIpfsGateway } from '../../ipfs/gateways/in-memory-ipfs.gateway';
+import { mockPrismaService } from '../../test/mocks/prisma.mock';
+import { mockStomaTradeContractService } from '../../test/mocks/blockchain.mock';
+
+describe('NftsService', () => {
+  let service: NftsService;
+  let prisma: typeof mockPrismaService;
+  let contractService: typeof mockStomaTradeContractService;
+  const ipfsGateway = new InMemoryIpfsGateway();
+
+  const cid = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+  const ownerWallet = '0xInvestorWallet';
+
+  const document = {
+    name: 'StomaTrade Investment #4001',
+    description: 'Receipt for an investment in project 3001',
+    image: `ipfs://${cid}/image.png`,
+    attributes: [{ trait_type: 'Project', value: 3001 }],
+  };
+
+  const mockNft = {
+    id: 'nft-uuid-1',
+    tokenId: 4001,
+    tokenType: 'INVESTMENT',
+    ownerAddress: '0xinvestorwallet',
+    metadataCid: cid,
+    metadataJson: JSON.stringify(document),
+    name: document.name,
+    description: document.description,
+    image: document.image,
+    attributes: JSON.stringify(document.attributes),
+    lastSyncedAt: new Date(),
+    deleted: false,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    ipfsGateway.clear();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NftsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: StomaTradeContractService,
+          useValue: mockStomaTradeContractService,
+        },
+        { provide: IPFS_GATEWAY, useValue: ipfsGateway },
+      ],
+    }).compile();
+
+    service = module.get<NftsService>(NftsService);
+    prisma = mockPrismaService;
+    contractService = mockStomaTradeContractService;
+
+    contractService.getTokenURI.mockResolvedValue(`ipfs://${cid}`);
+    contractService.getTokenOwner.mockResolvedValue(ownerWallet);
+    prisma.nftMetadata.upsert.mockResolvedValue(mockNft);
+  });
+
+  describe('indexToken', () => {
+    it('should store the metadata document fetched from IPFS', async () => {
+      ipfsGateway.put(cid, document);
+
+      const result = await service.indexToken(4001, 'INVESTMENT');
+
+      expect(prisma.nftMetadata.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { tokenId: 4001 },
+          create: expect.objectContaining({
+            tokenId: 4001,
+            tokenType: 'INVESTMENT',
+            chainId: 'eip155:4202',
+            contractAddress: '0xcontractaddress',
+            ownerAddress: '0xinvestorwallet',
+            metadataCid: cid,
+            name: document.name,
+            attributes: JSON.stringify(document.attributes),
+          }),
+        }),
+      );
+      expect(result.attributes).toEqual(document.attributes);
+    });
+
+    it('should decode on-chain data URI metadata', async () => {
+      const encoded = Buffer.from(JSON.stringify({ name: 'Farmer #1' }));
+      contractService.getTokenURI.mockResolvedValue(
+        `data:application/json;base64,${encoded.toString('base64')}`,
+      );
+
+      await service.indexToken(1, 'FARMER');
+
+      expect(prisma.nftMetadata.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            name: 'Farmer #1',
+            description: null,
+            attributes: '[]',
+          }),
+        }),
+      );
+    });
+
+    it('should reject token URIs outside IPFS', async () => {
+      contractService.getTokenURI.mockResolvedValue(
+        'https://example.com/1.json',
+      );
+
+      await expect(service.indexToken(1, 'FARMER')).rejects.toThrow(
+        'Unsupported token URI: https://example.com/1.json',
+      );
+      expect(prisma.nftMetadata.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncAll', () => {
+    it('should index every token and report the ones that failed', async () => {
+      ipfsGateway.put(cid, document);
+      prisma.farmer.findMany.mockResolvedValue([{ tokenId: 1 }]);
+      prisma.project.findMany.mockResolvedValue([
+        { tokenId: 3001, chainId: 'eip155:4202', contractAddress: '0xAbc' },
+      ]);
+      prisma.investment.findMany.mockResolvedValue([
+        {
+          receiptTokenId: 4001,
+          project: { chainId: 'eip155:4202', contractAddress: '0xAbc' },
+        },
+      ]);
+      contractService.getTokenURI.mockImplementation((tokenId: bigint) =>
+        Promise.resolve(
+          tokenId === BigInt(1) ? 'ipfs://QmMissing' : `ipfs://${cid}`,
+        ),
+      );
+
+      const result = await service.syncAll();
+
+      expect(result).toEqual({
+        indexed: 2,
+        failed: [
+          {
+            tokenId: 1,
+            tokenType: 'FARMER',
+            error: 'IPFS content not found: QmMissing',
+          },
+        ],
+      });
+      expect(contractService.getTokenOwner).toHaveBeenCalledWith(BigInt(3001), {
+        chainId: 'eip155:4202',
+        contractAddress: '0xAbc',
+      });
+      expect(service.isSyncInProgress()).toBe(false);
+    });
+
+    it('should reject a sync while one is running', async () => {
+      prisma.farmer.findMany.mockReturnValue(new Promise(() => {}));
+      prisma.project.findMany.mockResolvedValue([]);
+      prisma.investment.findMany.mockResolvedValue([]);
+
+      void service.syncAll();
+
+      await expect(service.syncAll()).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('findOne', () => {
+    it('should return an indexed NFT', async () => {
+      prisma.nftMetadata.findFirst.mockResolvedValue(mockNft);
+
+      const result = await service.findOne(4001);
+
+      expect(result.tokenId).toBe(4001);
+      expect(result.attributes).toEqual(document.attributes);
+    });
+
+    it('should throw NotFoundException for an unindexed token', async () => {
+      prisma.nftMetadata.findFirst.mockResolvedValue(null);
+
+      await expect(service.findOne(9999)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('findByOwner', () => {
+    it('should list NFTs of a wallet regardless of address case', async () => {
+      prisma.nftMetadata.findMany.mockResolvedValue([mockNft]);
+      prisma.nftMetadata.count.mockResolvedValue(1);
+
+      const result = await service.findByOwner(ownerWallet, {
+        page: 1,
+        limit: 10,
+        tokenType: 'INVESTMENT',
+      });
+
+      expect(prisma.nftMetadata.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            ownerAddress: '0xinvestorwallet',
+            deleted: false,
+            tokenType: 'INVESTMENT',
+          },
+        }),
+      );
+      expect(result.items).toHaveLength(1);
+      expect(result.meta.total).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { NftMetadata } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  ContractTarget,
+  StomaTradeContractService,
+} from '../../blockchain/services/stomatrade-contract.service';
+import {
+  IPFS_GATEWAY,
+  IpfsGateway,
+} from '../../ipfs/interfaces/ipfs-gateway.interface';
+import { decodeDataUri, toIpfsPath } from '../../ipfs/ipfs-uri.util';
+import { PaginatedResponseDto } from '../../common/dto/pagination.dto';
+import { NftQueryDto, NftTokenType } from './dto/nft-query.dto';
+import {
+  NftAttributeDto,
+  NftMetadataResponseDto,
+} from './dto/nft-metadata-response.dto';
+
+interface TokenRef {
+  tokenId: number;
+  tokenType: NftTokenType;
+  target?: ContractTarget;
+}
+
+export interface NftSyncResult {
+  indexed: number;
+  failed: Array<{ tokenId: number; tokenType: NftTokenType; error: string }>;
+}
+
+interface MetadataDocument {
+  name?: unknown;
+  description?: unknown;
+  image?: unknown;
+  attributes?: unknown;
+}
+
+/**
+ * Indexes metadata of the platform's ERC-721 tokens into NftMetadata.
+ *
+ * Farmer, project and investment receipt tokens are found through the
+ * tokenId columns of their DB rows. For each, tokenURI() and ownerOf() are
+ * read from the contract and the metadata document is resolved through the
+ * configured IPFS gateway. Owners are kept current from Transfer events
+ * between syncs.
+ */
+@Injectable()
+export class NftsService {
+  private readonly logger = new Logger(NftsService.name);
+  private isSyncing = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly contractService: StomaTradeContractService,
+    @Inject(IPFS_GATEWAY) private readonly ipfsGateway: IpfsGateway,
+  ) {}
+
+  async findOne(tokenId: number): Promise<NftMetadataResponseDto> {
+    const nft = await this.prisma.nftMetadata.findFirst({
+      where: { tokenId, deleted: false },
+    });
+
+    if (!nft) {
+      throw new NotFoundException(`NFT with token ID ${tokenId} not found`);
+    }
+
+    return this.toResponse(nft);
+  }
+
+  async findByOwner(
+    ownerAddress: string,
+    query: NftQueryDto,
+  ): Promise<PaginatedResponseDto<NftMetadataResponseDto>> {
+    const { page = 1, limit = 10, tokenType } = query;
+    const skip = (page - 1) * limit;
+
+    const where = {
+      ownerAddress: ownerAddress.toLowerCase(),
+      deleted: false,
+      ...(tokenType && { tokenType }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.nftMetadata.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { tokenId: 'asc' },
+      }),
+      this.prisma.nftMetadata.count({ where }),
+    ]);
+
+    return new PaginatedResponseDto(
+      data.map((nft) => this.toResponse(nft)),
+      total,
+      page,
+      limit,
+    );
+  }
+
+  /**
+   * Read tokenURI() and ownerOf() of a token and store its metadata document
+   */
+  async indexToken(
+    tokenId: number,
+    tokenType: NftTokenType,
+    target?: ContractTarget,
+  ): Promise<NftMetadataResponseDto> {
+    const [tokenUri, owner, deployment] = await Promise.all([
+      this.contractService.getTokenURI(BigInt(tokenId), target),
+      this.contractService.getTokenOwner(BigInt(tokenId), target),
+      this.contractService.getDeployment(target),
+    ]);
+
+    const { metadataCid, document } = await this.resolveMetadata(tokenUri);
+    const attributes = Array.isArray(document.attributes)
+      ? document.attributes
+      : [];
+
+    const data = {
+      tokenType,
+      chainId: deployment.chainId,
+      contractAddress: deployment.contractAddress.toLowerCase(),
+      ownerAddress: owner.toLowerCase(),
+      metadataCid,
+      metadataJson: JSON.stringify(document),
+      name: typeof document.name === 'string' ? document.name : null,
+      description:
+        typeof document.description === 'string' ? document.description : null,
+      image: typeof document.image === 'string' ? document.image : null,
+      attributes: JSON.stringify(attributes),
+      lastSyncedAt: new Date(),
+      deleted: false,
+    };
+
+    const nft = await this.prisma.nftMetadata.upsert({
+      where: { tokenId },
+      create: { tokenId, ...data },
+      update: data,
+    });
+
+    return this.toResponse(nft);
+  }
+
+  /**
+   * Re-index every farmer, project and investment receipt token
+   */
+  async syncAll(): Promise<NftSyncResult> {
+    if (this.isSyncing) {
+      throw new BadRequestException('NFT metadata sync already in progress');
+    }
+
+    this.isSyncing = true;
+
+    try {
+      const tokens = await this.listTokens();
+      const result: NftSyncResult = { indexed: 0, failed: [] };
+
+      for (const { tokenId, tokenType, target } of tokens) {
+        try {
+          await this.indexToken(tokenId, tokenType, target);
+          result.indexed++;
+        } catch (error) {
+          this.logger.warn(
+            `Failed to index ${tokenType} token ${tokenId}: ${(error as Error).message}`,
+          );
+          result.failed.push({
+            tokenId,
+            tokenType,
+            error: (error as Error).message,
+          });
+        }
+      }
+
+      this.logger.log(
+        `Indexed ${result.indexed} of ${tokens.length} NFTs (${result.failed.length} failed)`,
+      );
+
+      return result;
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  isSyncInProgress(): boolean {
+    return this.isSyncing;
+  }
+
+  private async listTokens(): Promise<TokenRef[]> {
+    const [farmers, projects, investments] = await Promise.all([
+      this.prisma.farmer.findMany({
+        where: { tokenId: { not: null }, deleted: false },
+        select: { tokenId: true },
+      }),
+      this.prisma.project.findMany({
+        where: { tokenId: { not: null }, deleted: false },
+        select: { tokenId: true, chainId: true, contractAddress: true },
+      }),
+      this.prisma.investment.findMany({
+        where: { receiptTokenId: { not: null }, deleted: false },
+        select: {
+          receiptTokenId: true,
+          project: { select: { chainId: true, contractAddress: true } },
+        },
+      }),
+    ]);
+
+    return [
+      ...farmers.map((farmer) => ({
+        tokenId: farmer.tokenId!,
+        tokenType: 'FARMER' as const,
+      })),
+      ...projects.map(({ tokenId, ...target }) => ({
+        tokenId: tokenId!,
+        tokenType: 'PROJECT' as const,
+        target,
+      })),
+      ...investments.map((investment) => ({
+        tokenId: investment.receiptTokenId!,
+        tokenType: 'INVESTMENT' as const,
+        target: investment.project,
+      })),
+    ];
+  }
+
+  private async resolveMetadata(
+    tokenUri: string,
+  ): Promise<{ metadataCid: string; document: MetadataDocument }> {
+    const inline = decodeDataUri(tokenUri);
+    if (inline) {
+      return { metadataCid: tokenUri, document: this.asDocument(inline) };
+    }
+
+    const ipfsPath = toIpfsPath(tokenUri);
+    if (!ipfsPath) {
+      throw new Error(`Unsupported token URI: ${tokenUri}`);
+    }
+
+    const document = await this.ipfsGateway.fetchJson(ipfsPath);
+
+    return { metadataCid: ipfsPath, document: this.asDocument(document) };
+  }
+
+  private asDocument(value: unknown): MetadataDocument {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('Metadata is not a JSON object');
+    }
+
+    return value as MetadataDocument;
+  }
+
+  private toResponse(nft: NftMetadata): NftMetadataResponseDto {
+    return {
+      tokenId: nft.tokenId,
+      tokenType: nft.tokenType as NftTokenType,
+      ownerAddress: nft.ownerAddress,
+      metadataCid: nft.metadataCid,
+      name: nft.name,
+      description: nft.description,
+      image: nft.image,
+      attributes: nft.attributes
+        ? (JSON.parse(nft.attributes) as NftAttributeDto[])
+        : [],
+      lastSyncedAt: nft.lastSyncedAt,
+    };
+  }
+}
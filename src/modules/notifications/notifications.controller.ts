@@ -31,6 +31,7 @@ import {
 } from './dto/notification-response.dto';
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { Owns } from '../auth/decorators/owns.decorator';
 import { ROLES } from '@prisma/client';
 
 @ApiTags('Notifications')
@@ -241,9 +242,10 @@ export class NotificationsController {
     return this.notificationsService.removeNotification(id);
   }
 
+  @Owns({ resource: 'user', in: 'body', key: 'userId' })
   @Post('tokens')
   @ApiOperation({
-    summary: 'Register FCM token (authenticated users)',
+    summary: 'Register FCM token (owner, Staff or Admin)',
     description: 'Register a Firebase Cloud Messaging token for push notifications',
   })
   @ApiResponse({
@@ -269,9 +271,10 @@ export class NotificationsController {
     return this.notificationsService.createTokenNotification(createTokenDto);
   }
 
+  @Owns({ resource: 'user', key: 'userId' })
   @Get('tokens/user/:userId')
   @ApiOperation({
-    summary: 'Get user tokens (authenticated users)',
+    summary: 'Get user tokens (owner, Staff or Admin)',
     description: 'Retrieve FCM tokens for a specific user',
   })
   @ApiParam({
@@ -297,9 +300,10 @@ export class NotificationsController {
     return this.notificationsService.findTokenNotificationsByUser(userId, pagination);
   }
 
+  @Owns({ resource: 'tokenNotification', key: 'id' })
   @Delete('tokens/:id')
   @ApiOperation({
-    summary: 'Delete FCM token (authenticated users)',
+    summary: 'Delete FCM token (owner, Staff or Admin)',
     description: 'Soft delete an FCM token',
   })
   @ApiParam({ name: 'id', description: 'Token UUID' })
@@ -170,6 +170,40 @@ describe('NotificationsService', () => {
     });
   });
 
+  describe('publishToChannel', () => {
+    it('should create the channel on first use and replace its notification', async () => {
+      prisma.channelNotification.upsert.mockResolvedValue(mockChannel);
+      prisma.notification.upsert.mockResolvedValue(mockNotification);
+
+      const result = await service.publishToChannel(
+        'project_updates',
+        'Channel for project updates',
+        'New Project',
+        'A new project is available',
+      );
+
+      expect(prisma.channelNotification.upsert).toHaveBeenCalledWith({
+        where: { key: 'project_updates' },
+        create: { key: 'project_updates', desc: 'Channel for project updates' },
+        update: { deleted: false },
+      });
+      expect(prisma.notification.upsert).toHaveBeenCalledWith({
+        where: { channelId: 'channel-uuid-1' },
+        create: {
+          channelId: 'channel-uuid-1',
+          title: 'New Project',
+          body: 'A new project is available',
+        },
+        update: {
+          title: 'New Project',
+          body: 'A new project is available',
+          deleted: false,
+        },
+      });
+      expect(result).toEqual(mockNotification);
+    });
+  });
+
   describe('Token Notifications', () => {
     describe('createTokenNotification', () => {
       it('should create a token notification', async () => {
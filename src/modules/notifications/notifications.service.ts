@@ -98,6 +98,24 @@ export class NotificationsService {
     });
   }
 
+  /**
+   * Publish to the channel with the given key, creating the channel on first use.
+   * A channel holds a single notification, so the latest publish replaces it.
+   */
+  async publishToChannel(key: string, desc: string, title: string, body: string): Promise<NotificationResponseDto> {
+    const channel = await this.prisma.channelNotification.upsert({
+      where: { key },
+      create: { key, desc },
+      update: { deleted: false },
+    });
+
+    return this.prisma.notification.upsert({
+      where: { channelId: channel.id },
+      create: { channelId: channel.id, title, body },
+      update: { title, body, deleted: false },
+    });
+  }
+
   async createTokenNotification(createTokenDto: CreateTokenNotificationDto): Promise<TokenNotificationResponseDto> {
     return this.prisma.tokenNotification.create({
       data: createTokenDto,
@@ -12,6 +12,7 @@ import { PortfoliosService } from './portfolios.service';
 import { PortfolioDetailResponseDto } from './dto/portfolio-detail-response.dto';
 import { PortfolioResponseDto } from './dto/portfolio-response.dto';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { Owns } from '../auth/decorators/owns.decorator';
 import { Public } from '../auth/decorators/public.decorator';
 import { ROLES } from '@prisma/client';
 
@@ -73,9 +74,10 @@ export class PortfoliosController {
     return this.portfoliosService.getAllPortfolios();
   }
 
+  @Owns({ resource: 'user', key: 'userId' })
   @Get('user/:userId/:projectId/detail')
   @ApiOperation({
-    summary: 'Get detailed user portfolio for a specific project (authenticated users)',
+    summary: 'Get detailed user portfolio for a specific project (owner, Staff or Admin)',
     description:
       'Retrieve comprehensive portfolio details for a specific investment including project information, assets, returns, and cumulative values',
   })
@@ -109,9 +111,10 @@ export class PortfoliosController {
     return this.portfoliosService.getUserPortfolioDetail(userId, projectId);
   }
 
+  @Owns({ resource: 'user', key: 'userId' })
   @Get('user/:userId')
   @ApiOperation({
-    summary: 'Get user portfolio (authenticated users)',
+    summary: 'Get user portfolio (owner, Staff or Admin)',
     description: 'Retrieve investment portfolio for a specific user including returnAsset and cumulativeAsset for each investment',
   })
   @ApiResponse({
@@ -3,6 +3,7 @@ import { PrismaService } from '../../prisma/prisma.service';
 import { PortfolioDetailResponseDto } from './dto/portfolio-detail-response.dto';
 import { PortfolioResponseDto } from './dto/portfolio-response.dto';
 import { PortfolioInvestmentItemDto } from './dto/portfolio-investment-item.dto';
+import { Money, Rounding } from '../../common/utils/money.util';
 
 @Injectable()
 export class PortfoliosService {
@@ -76,30 +77,27 @@ export class PortfoliosService {
     return {
       ...portfolio,
       investments: investments.map((inv) => {
-        const profitClaimed = inv.profitClaims
-          .reduce((sum, claim) => sum + BigInt(claim.amount), BigInt(0))
-          .toString();
+        const investmentAmount = Money.parse(inv.amount);
+        const claimedProfit = Money.sum(
+          inv.profitClaims.map((claim) => Money.parse(claim.amount)),
+        );
 
         const fundingPrice =
           inv.project.totalKilos && inv.project.totalKilos > 0
-            ? (Number(inv.amount) / inv.project.totalKilos).toFixed(0)
+            ? investmentAmount
+                .dividedBy(Money.parse(inv.project.totalKilos, undefined, Rounding.HALF_UP))
+                .toFixed(0)
             : '0';
 
         const totalFunding = inv.project.volume ? inv.project.volume.toFixed(0) : '0';
 
-        const investmentAmount = BigInt(inv.amount);
-        const claimedProfit = BigInt(profitClaimed);
-        const margin =
-          investmentAmount > BigInt(0)
-            ? Number((claimedProfit * BigInt(10000)) / investmentAmount) / 100
-            : 0;
-
-        const returnAsset =
-          investmentAmount > BigInt(0)
-            ? ((investmentAmount * BigInt(Math.floor(margin * 100))) / BigInt(10000)).toString()
-            : '0';
-
-        const cumulativeAsset = (investmentAmount + BigInt(returnAsset)).toString();
+        // Margin is truncated to basis points, returnAsset applies it
+        const margin = claimedProfit.percentageOf(investmentAmount, Rounding.DOWN);
+        const returnAsset = investmentAmount.mulDiv(
+          Math.round(margin * 100),
+          10000,
+          Rounding.DOWN,
+        );
 
         return {
           id: inv.id,
@@ -111,13 +109,13 @@ export class PortfoliosService {
           amount: inv.amount,
           receiptTokenId: inv.receiptTokenId,
           investedAt: inv.investedAt,
-          profitClaimed,
+          profitClaimed: claimedProfit.toString(),
           profitClaimsCount: inv.profitClaims.length,
           fundingPrice,
           totalFunding,
           margin,
-          returnAsset,
-          cumulativeAsset,
+          returnAsset: returnAsset.toString(),
+          cumulativeAsset: investmentAmount.plus(returnAsset).toString(),
         };
       }),
     };
@@ -175,31 +173,25 @@ export class PortfoliosService {
       orderBy: { createdAt: 'desc' },
     });
 
-    const currentFunding = project.investments.reduce(
-      (sum, inv) => sum + BigInt(inv.amount),
-      BigInt(0),
+    const currentFunding = Money.sum(
+      project.investments.map((inv) => Money.parse(inv.amount)),
     );
 
     const uniqueInvestors = new Set(project.investments.map((inv) => inv.userId)).size;
 
-    const maxFunding = BigInt(project.projectSubmission?.maxCrowdFunding || '0');
-    const fundingPercentage =
-      maxFunding > BigInt(0) ? (Number(currentFunding) / Number(maxFunding)) * 100 : 0;
+    const maxFunding = Money.parse(project.projectSubmission?.maxCrowdFunding || '0');
+    const fundingPercentage = currentFunding.percentageOf(maxFunding);
 
     const assets = investment.amount;
 
-    const totalReturn = investment.profitClaims.reduce(
-      (sum, claim) => sum + BigInt(claim.amount),
-      BigInt(0),
+    const totalReturn = Money.sum(
+      investment.profitClaims.map((claim) => Money.parse(claim.amount)),
     );
 
-    const investmentAmount = BigInt(assets);
-    const returnRate =
-      investmentAmount > BigInt(0)
-        ? Number((totalReturn * BigInt(10000)) / investmentAmount) / 100
-        : 0;
+    const investmentAmount = Money.parse(assets);
+    const returnRate = totalReturn.percentageOf(investmentAmount, Rounding.DOWN);
 
-    const cumulativeAsset = (investmentAmount + totalReturn).toString();
+    const cumulativeAsset = investmentAmount.plus(totalReturn).toString();
 
     return {
       projectId: project.id,
@@ -216,12 +208,12 @@ export class PortfoliosService {
       farmerName: project.farmer.name,
       investors: uniqueInvestors,
       status: project.status,
-      fundingPercentage: Math.round(fundingPercentage * 100) / 100,
+      fundingPercentage,
       image: file?.url || null,
       landAddress: project.land.address,
       gradeQuality: null,
       assets: assets,
-      returnRate: Math.round(returnRate * 100) / 100,
+      returnRate,
       returnAsset: totalReturn.toString(),
       cumulativeAsset: cumulativeAsset,
     };
@@ -274,19 +266,16 @@ export class PortfoliosService {
       where: { deleted: false },
     });
 
-    const totalInvested = portfolios.reduce(
-      (sum, p) => sum + BigInt(p.totalInvested),
-      BigInt(0),
+    const totalInvested = Money.sum(
+      portfolios.map((p) => Money.parse(p.totalInvested)),
     );
 
-    const totalProfit = portfolios.reduce(
-      (sum, p) => sum + BigInt(p.totalProfit),
-      BigInt(0),
+    const totalProfit = Money.sum(
+      portfolios.map((p) => Money.parse(p.totalProfit)),
     );
 
-    const totalClaimed = portfolios.reduce(
-      (sum, p) => sum + BigInt(p.totalClaimed),
-      BigInt(0),
+    const totalClaimed = Money.sum(
+      portfolios.map((p) => Money.parse(p.totalClaimed)),
     );
 
     const totalActiveInvestments = portfolios.reduce(
@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsString, IsUUID } from 'class-validator';
+import { IsNotEmpty, IsUUID } from 'class-validator';
+import { IsMoneyAmount } from '../../../common/decorators/is-money-amount.decorator';
 
 export class DepositProfitDto {
   @ApiProperty({example: 'cc0e8400-e29b-41d4-a716-446655440007',})
@@ -7,8 +8,8 @@ export class DepositProfitDto {
   @IsNotEmpty()
   projectId: string;
 
-  @ApiProperty({example: '50000000000000000000',})
-  @IsString()
+  @ApiProperty({example: '50000', description: 'Profit amount (clean value)'})
+  @IsMoneyAmount()
   @IsNotEmpty()
   amount: string;
 }
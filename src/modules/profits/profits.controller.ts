@@ -5,12 +5,16 @@ import {
   Body,
   Param,
   HttpStatus,
+  HttpCode,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { ProfitsService } from './profits.service';
 import { DepositProfitDto } from './dto/deposit-profit.dto';
 import { ClaimProfitDto } from './dto/claim-profit.dto';
+import { SubmitClaimProfitDto } from './dto/submit-claim-profit.dto';
+import { PreparedTransactionResponseDto } from '../../blockchain/dto/unsigned-transaction.dto';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { Owns } from '../auth/decorators/owns.decorator';
 import { ROLES } from '@prisma/client';
 
 @ApiTags('Profits')
@@ -58,9 +62,10 @@ export class ProfitsController {
    * Note: This endpoint calls claimWithdraw() on the smart contract.
    * The naming is kept for backward compatibility and business logic clarity.
    */
+  @Owns({ resource: 'user', in: 'body', key: 'userId' })
   @Post('claim')
   @ApiOperation({
-    summary: 'Claim profit from a project (authenticated users)',
+    summary: 'Claim profit from a project (owner, Staff or Admin)',
     description:
       'Investor claims their proportional profit from blockchain. ' +
       'Note: This calls claimWithdraw() on the smart contract.',
@@ -86,6 +91,58 @@ export class ProfitsController {
     return this.profitsService.claimProfit(dto);
   }
 
+  @Owns({ resource: 'user', in: 'body', key: 'userId' })
+  @Post('claim/prepare')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Prepare an investor-signed profit claim (owner, Staff or Admin)',
+    description:
+      "Return the unsigned claimWithdraw() transaction for the investor's wallet to sign and broadcast. " +
+      'Submit the resulting hash to POST /profits/claim/submit.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Transaction payload built',
+    type: PreparedTransactionResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'User has not invested in project or project not minted',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'User or Project not found',
+  })
+  prepareClaim(@Body() dto: ClaimProfitDto) {
+    return this.profitsService.prepareClaim(dto);
+  }
+
+  @Owns({ resource: 'user', in: 'body', key: 'userId' })
+  @Post('claim/submit')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Submit the hash of an investor-signed profit claim (owner, Staff or Admin)',
+    description:
+      "Verify that the transaction calls claimWithdraw() for the project from the investor's wallet and track it. " +
+      'The profit claim is recorded from the ProfitClaimed event once the transaction is mined.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      'Transaction tracked; profitClaim is null while the transaction is pending',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Transaction does not match the claim or is linked elsewhere',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'User, Project or transaction not found',
+  })
+  submitClaim(@Body() dto: SubmitClaimProfitDto) {
+    return this.profitsService.submitClaim(dto);
+  }
+
   @Roles(ROLES.ADMIN)
   @Get('pools')
   @ApiOperation({
@@ -125,9 +182,10 @@ export class ProfitsController {
     return this.profitsService.getProjectProfitPool(projectId);
   }
 
+  @Owns({ resource: 'user', key: 'userId' })
   @Get('user/:userId')
   @ApiOperation({
-    summary: 'Get user profit claims (authenticated users)',
+    summary: 'Get user profit claims (owner, Staff or Admin)',
     description: 'Retrieve all profit claims made by a specific user',
   })
   @ApiResponse({
@@ -4,7 +4,13 @@ import { ProfitsService } from './profits.service';
 import { PrismaService } from '../../prisma/prisma.service';
 import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
 import { mockPrismaService } from '../../test/mocks/prisma.mock';
-import { mockStomaTradeContractService } from '../../test/mocks/blockchain.mock';
+import { TransactionWatcherService } from '../../blockchain/services/transaction-watcher.service';
+import { SettlementTokenService } from '../../blockchain/services/settlement-token.service';
+import {
+  mockStomaTradeContractService,
+  mockTransactionWatcherService,
+  mockSettlementTokenService,
+} from '../../test/mocks/blockchain.mock';
 
 describe('ProfitsService', () => {
   let service: ProfitsService;
@@ -69,6 +75,14 @@ describe('ProfitsService', () => {
           provide: StomaTradeContractService,
           useValue: mockStomaTradeContractService,
         },
+        {
+          provide: TransactionWatcherService,
+          useValue: mockTransactionWatcherService,
+        },
+        {
+          provide: SettlementTokenService,
+          useValue: mockSettlementTokenService,
+        },
       ],
     }).compile();
 
@@ -180,22 +194,25 @@ describe('ProfitsService', () => {
         success: true,
         blockNumber: 12345678,
       });
-      contractService.getContract.mockReturnValue({
-        interface: {
-          parseLog: jest.fn().mockReturnValue({
-            name: 'ProfitClaimed',
-            args: { amount: BigInt(10000000000000000000) },
-          }),
-        },
-      });
-      contractService.getEventFromReceipt.mockReturnValue({
-        topics: ['0xtopic1'],
-        data: '0xdata',
+      contractService.parseEventFromReceipt.mockResolvedValue({
+        name: 'ProfitClaimed',
+        args: { amount: BigInt(10000000000000000000) },
       });
+      mockSettlementTokenService.getTokenAddress.mockResolvedValueOnce(
+        '0xTokenAddress',
+      );
 
       const result = await service.claimProfit(claimDto);
 
       expect(contractService.claimWithdraw).toHaveBeenCalled();
+      expect(prisma.profitClaim.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            amount: '10',
+            tokenAddress: '0xTokenAddress',
+          }),
+        }),
+      );
       expect(result).toEqual(mockProfitClaim);
     });
 
@@ -224,6 +241,64 @@ describe('ProfitsService', () => {
     });
   });
 
+  describe('investor-signed claims', () => {
+    const claimDto = {
+      userId: 'user-uuid-1',
+      projectId: 'project-uuid-1',
+    };
+    const txHash =
+      '0x8f3c1e6b2a4d5f7e9c0b1a2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f';
+
+    beforeEach(() => {
+      prisma.user.findUnique.mockResolvedValue(mockUser);
+      prisma.project.findUnique.mockResolvedValue(mockProject);
+      prisma.investment.findFirst.mockResolvedValue(mockInvestment);
+    });
+
+    it('should build the claimWithdraw transaction for the investor wallet', async () => {
+      const result = await service.prepareClaim(claimDto);
+
+      expect(contractService.buildClaimWithdrawTransaction).toHaveBeenCalledWith(
+        BigInt(3001),
+        '0xInvestorWallet',
+        mockProject,
+      );
+      expect(contractService.claimWithdraw).not.toHaveBeenCalled();
+      expect(result.transaction.to).toBe('0xContractAddress');
+    });
+
+    it('should register the submitted hash and return the recorded claim', async () => {
+      prisma.profitClaim.findFirst.mockResolvedValue(mockProfitClaim);
+      mockTransactionWatcherService.checkTransaction.mockResolvedValueOnce({
+        id: 'blockchain-tx-1',
+        transactionHash: txHash,
+        status: 'CONFIRMED',
+        blockNumber: 12345678,
+      });
+
+      const result = await service.submitClaim({
+        ...claimDto,
+        transactionHash: txHash,
+      });
+
+      expect(contractService.registerSignedTransaction).toHaveBeenCalledWith(
+        txHash,
+        '0xInvestorWallet',
+        expect.objectContaining({
+          methodName: 'claimWithdraw',
+          args: [BigInt(3001)],
+          transactionType: 'CLAIM_PROFIT',
+        }),
+        mockProject,
+      );
+      expect(prisma.profitClaim.findFirst).toHaveBeenCalledWith({
+        where: { transactionHash: txHash },
+      });
+      expect(result.profitClaim).toEqual(mockProfitClaim);
+      expect(result.transaction.status).toBe('CONFIRMED');
+    });
+  });
+
   describe('getProjectProfitPool', () => {
     it('should return profit pool for project', async () => {
       prisma.project.findUnique.mockResolvedValue(mockProject);
@@ -8,7 +8,14 @@ import { PrismaService } from '../../prisma/prisma.service';
 import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
 import { DepositProfitDto } from './dto/deposit-profit.dto';
 import { ClaimProfitDto } from './dto/claim-profit.dto';
-import { toWei } from '../../common/utils/wei-converter.util';
+import { SubmitClaimProfitDto } from './dto/submit-claim-profit.dto';
+import { TransactionWatcherService } from '../../blockchain/services/transaction-watcher.service';
+import { SettlementTokenService } from '../../blockchain/services/settlement-token.service';
+import {
+  Money,
+  parseAmount,
+  projectDecimals,
+} from '../../common/utils/money.util';
 
 @Injectable()
 export class ProfitsService {
@@ -17,6 +24,8 @@ export class ProfitsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly stomaTradeContract: StomaTradeContractService,
+    private readonly transactionWatcherService: TransactionWatcherService,
+    private readonly settlementTokenService: SettlementTokenService,
   ) {}
 
   /**
@@ -51,11 +60,11 @@ export class ProfitsService {
       );
     }
 
+    const amount = parseAmount(dto.amount, projectDecimals(project));
+
     try {
 
       const projectTokenId = BigInt(project.tokenId);
-      // Convert amount bersih ke wei untuk blockchain
-      const amountInWei = toWei(dto.amount);
 
       this.logger.log(
         `⚠️ Calling blockchain withdrawProject() (not deposit!) - ProjectId: ${projectTokenId}`,
@@ -64,6 +73,7 @@ export class ProfitsService {
       // IMPORTANT: Despite method name, this calls withdrawProject()!
       const txResult = await this.stomaTradeContract.withdrawProject(
         projectTokenId,
+        project,
       );
 
       let profitPool = await this.prisma.profitPool.findUnique({
@@ -74,17 +84,19 @@ export class ProfitsService {
         profitPool = await this.prisma.profitPool.create({
           data: {
             projectId: dto.projectId,
-            totalDeposited: dto.amount,
+            totalDeposited: amount.toString(),
             totalClaimed: '0',
-            remainingProfit: dto.amount,
+            remainingProfit: amount.toString(),
           },
         });
       } else {
         // Calculate dari amount bersih (sudah bersih di DB)
-        const newTotalDeposited =
-          Number(profitPool.totalDeposited) + Number(dto.amount);
-        const newRemainingProfit =
-          Number(profitPool.remainingProfit) + Number(dto.amount);
+        const newTotalDeposited = Money.parse(profitPool.totalDeposited).plus(
+          amount,
+        );
+        const newRemainingProfit = Money.parse(
+          profitPool.remainingProfit,
+        ).plus(amount);
 
         profitPool = await this.prisma.profitPool.update({
           where: { projectId: dto.projectId },
@@ -124,72 +136,36 @@ export class ProfitsService {
       `User ${dto.userId} claiming profit from project ${dto.projectId}`,
     );
 
-    const user = await this.prisma.user.findUnique({
-      where: { id: dto.userId },
-    });
-
-    if (!user) {
-      throw new NotFoundException(`User with ID ${dto.userId} not found`);
-    }
-
-    const project = await this.prisma.project.findUnique({
-      where: { id: dto.projectId },
-    });
-
-    if (!project) {
-      throw new NotFoundException(`Project with ID ${dto.projectId} not found`);
-    }
-
-    if (!project.tokenId) {
-      throw new BadRequestException(
-        'Project has not been minted on blockchain yet',
-      );
-    }
-
-    const investment = await this.prisma.investment.findFirst({
-      where: {
-        userId: dto.userId,
-        projectId: dto.projectId,
-        deleted: false,
-      },
-    });
-
-    if (!investment) {
-      throw new BadRequestException(
-        'User has not invested in this project',
-      );
-    }
+    const { project, investment } = await this.findClaimContext(dto);
 
     try {
       
-      const projectTokenId = BigInt(project.tokenId);
+      const projectTokenId = BigInt(project.tokenId!);
 
       this.logger.log(
         `Calling blockchain claimWithdraw() - ProjectId: ${projectTokenId}`,
       );
 
-      const txResult = await this.stomaTradeContract.claimWithdraw(projectTokenId);
+      const txResult = await this.stomaTradeContract.claimWithdraw(
+        projectTokenId,
+        project,
+      );
 
-      let claimedAmount = '0';
+      let claimedAmount = Money.zero(projectDecimals(project));
       if (txResult.receipt) {
-        const profitClaimedEvent =
-          this.stomaTradeContract.getEventFromReceipt(
-            txResult.receipt,
-            'ProfitClaimed',
+        const parsed = await this.stomaTradeContract.parseEventFromReceipt(
+          txResult.receipt,
+          'ProfitClaimed',
+          project,
+        );
+
+        if (parsed) {
+          // The event amount is in wei, the pool in clean values
+          claimedAmount = Money.fromUnits(
+            parsed.args.amount as bigint,
+            projectDecimals(project),
           );
-
-        if (profitClaimedEvent) {
-          const parsed = this.stomaTradeContract
-            .getContract()
-            .interface.parseLog({
-              topics: profitClaimedEvent.topics,
-              data: profitClaimedEvent.data,
-            });
-
-          if (parsed) {
-            claimedAmount = parsed.args.amount.toString();
-            this.logger.log(`Profit claimed: ${claimedAmount}`);
-          }
+          this.logger.log(`Profit claimed: ${claimedAmount.toString()}`);
         }
       }
 
@@ -203,16 +179,18 @@ export class ProfitsService {
           data: {
             projectId: dto.projectId,
             totalDeposited: '0',
-            totalClaimed: claimedAmount,
+            totalClaimed: claimedAmount.toString(),
             remainingProfit: '0',
           },
         });
       } else {
         // Calculate dari amount bersih (sudah bersih di DB)
-        const newTotalClaimed =
-          Number(profitPool.totalClaimed) + Number(claimedAmount);
-        const newRemainingProfit =
-          Number(profitPool.remainingProfit) - Number(claimedAmount);
+        const newTotalClaimed = Money.parse(profitPool.totalClaimed).plus(
+          claimedAmount,
+        );
+        const newRemainingProfit = Money.parse(
+          profitPool.remainingProfit,
+        ).minus(claimedAmount);
 
         profitPool = await this.prisma.profitPool.update({
           where: { projectId: dto.projectId },
@@ -228,7 +206,9 @@ export class ProfitsService {
           userId: dto.userId,
           profitPoolId: profitPool.id,
           investmentId: investment.id,
-          amount: claimedAmount,
+          amount: claimedAmount.toString(),
+          tokenAddress:
+            await this.settlementTokenService.getTokenAddress(project),
           transactionHash: txResult.hash,
           blockNumber: txResult.blockNumber || null,
         },
@@ -254,6 +234,114 @@ export class ProfitsService {
     }
   }
 
+  /**
+   * Build the claimWithdraw() call for the investor's own wallet to sign
+   * instead of sending it with the platform signer
+   */
+  async prepareClaim(dto: ClaimProfitDto) {
+    const { user, project } = await this.findClaimContext(dto);
+
+    try {
+      const transaction =
+        await this.stomaTradeContract.buildClaimWithdrawTransaction(
+          BigInt(project.tokenId!),
+          user.walletAddress,
+          project,
+        );
+
+      return { transaction };
+    } catch (error) {
+      this.logger.error('Error building claim transaction', error);
+      throw new BadRequestException(
+        `Failed to build claim transaction: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Record the claimWithdraw() transaction the investor broadcast. Once mined,
+   * its ProfitClaimed event creates the ProfitClaim and updates the pool.
+   */
+  async submitClaim(dto: SubmitClaimProfitDto) {
+    const { user, project } = await this.findClaimContext(dto);
+
+    const record = await this.stomaTradeContract.registerSignedTransaction(
+      dto.transactionHash,
+      user.walletAddress,
+      {
+        methodName: 'claimWithdraw',
+        args: [BigInt(project.tokenId!)],
+        transactionType: 'CLAIM_PROFIT',
+        eventData: JSON.stringify({
+          action: 'claimProfit',
+          userId: dto.userId,
+          projectId: dto.projectId,
+        }),
+      },
+      project,
+    );
+
+    const settled =
+      await this.transactionWatcherService.checkTransaction(record);
+
+    const profitClaim = await this.prisma.profitClaim.findFirst({
+      where: { transactionHash: dto.transactionHash },
+    });
+
+    return {
+      profitClaim,
+      transaction: {
+        id: settled.id,
+        hash: settled.transactionHash,
+        status: settled.status,
+        blockNumber: settled.blockNumber,
+      },
+    };
+  }
+
+  /**
+   * User, minted project and the user's investment in it
+   */
+  private async findClaimContext(dto: ClaimProfitDto) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: dto.userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${dto.userId} not found`);
+    }
+
+    const project = await this.prisma.project.findUnique({
+      where: { id: dto.projectId },
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project with ID ${dto.projectId} not found`);
+    }
+
+    if (!project.tokenId) {
+      throw new BadRequestException(
+        'Project has not been minted on blockchain yet',
+      );
+    }
+
+    const investment = await this.prisma.investment.findFirst({
+      where: {
+        userId: dto.userId,
+        projectId: dto.projectId,
+        deleted: false,
+      },
+    });
+
+    if (!investment) {
+      throw new BadRequestException(
+        'User has not invested in this project',
+      );
+    }
+
+    return { user, project, investment };
+  }
+
   async getProjectProfitPool(projectId: string) {
     const project = await this.prisma.project.findUnique({
       where: { id: projectId },
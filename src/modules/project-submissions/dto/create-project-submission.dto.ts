@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { IsInt, IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
+import { IsMoneyAmount } from '../../../common/decorators/is-money-amount.decorator';
 
 export class CreateProjectSubmissionDto {
   @ApiProperty({example: 'cc0e8400-e29b-41d4-a716-446655440007',})
@@ -7,13 +8,13 @@ export class CreateProjectSubmissionDto {
   @IsNotEmpty()
   projectId: string;
 
-  @ApiProperty({example: '1000000000000000000000',})
-  @IsString()
+  @ApiProperty({example: '1000000', description: 'Project value (clean value)'})
+  @IsMoneyAmount()
   @IsNotEmpty()
   valueProject: string;
 
-  @ApiProperty({example: '500000000000000000000',})
-  @IsString()
+  @ApiProperty({example: '500000', description: 'Crowdfunding target (clean value)'})
+  @IsMoneyAmount()
   @IsNotEmpty()
   maxCrowdFunding: string;
 
@@ -22,7 +23,7 @@ export class CreateProjectSubmissionDto {
     description: 'Total kilograms of commodity',
     required: false,
   })
-  @IsString()
+  @IsMoneyAmount({ allowZero: true })
   @IsOptional()
   totalKilos?: string;
 
@@ -31,7 +32,7 @@ export class CreateProjectSubmissionDto {
     description: 'Profit per kilogram in wei',
     required: false,
   })
-  @IsString()
+  @IsMoneyAmount({ allowZero: true })
   @IsOptional()
   profitPerKillos?: string;
 
@@ -45,6 +46,7 @@ export class CreateProjectSubmissionDto {
   sharedProfit?: number;
 
   @ApiProperty({example: 'QmXxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx',
+    description: 'Only used for the calldata preview; metadata is generated and pinned on approval',
     required: false,})
   @IsString()
   @IsOptional()
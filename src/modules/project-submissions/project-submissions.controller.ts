@@ -16,6 +16,7 @@ import { RejectProjectSubmissionDto } from './dto/reject-project-submission.dto'
 import { ProjectSubmissionResponseDto } from './dto/project-submission-response.dto';
 import { SUBMISSION_STATUS, ROLES } from '@prisma/client';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { Owns } from '../auth/decorators/owns.decorator';
 
 @ApiTags('Project Submissions')
 @ApiBearerAuth('JWT-auth')
@@ -78,9 +79,10 @@ export class ProjectSubmissionsController {
     return this.projectSubmissionsService.findAll(status);
   }
 
+  @Owns({ resource: 'projectSubmission', key: 'id' })
   @Get(':id')
   @ApiOperation({
-    summary: 'Get project submission by ID (authenticated users)',
+    summary: 'Get project submission by ID (owner, Staff or Admin)',
     description: 'Retrieve a single project submission',
   })
   @ApiResponse({
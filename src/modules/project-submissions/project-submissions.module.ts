@@ -3,9 +3,10 @@ import { ProjectSubmissionsController } from './project-submissions.controller';
 import { ProjectSubmissionsService } from './project-submissions.service';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { BlockchainModule } from '../../blockchain/blockchain.module';
+import { NftsModule } from '../nfts/nfts.module';
 
 @Module({
-  imports: [PrismaModule, BlockchainModule],
+  imports: [PrismaModule, BlockchainModule, NftsModule],
   controllers: [ProjectSubmissionsController],
   providers: [ProjectSubmissionsService],
   exports: [ProjectSubmissionsService],
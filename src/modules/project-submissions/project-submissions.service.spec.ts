@@ -3,8 +3,17 @@ import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { ProjectSubmissionsService } from './project-submissions.service';
 import { PrismaService } from '../../prisma/prisma.service';
 import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
+import {
+  ContractRevertError,
+  TransactionService,
+} from '../../blockchain/services/transaction.service';
 import { mockPrismaService } from '../../test/mocks/prisma.mock';
-import { mockStomaTradeContractService } from '../../test/mocks/blockchain.mock';
+import { NftMetadataGeneratorService } from '../nfts/nft-metadata-generator.service';
+import {
+  mockNftMetadataGeneratorService,
+  mockStomaTradeContractService,
+  mockTransactionService,
+} from '../../test/mocks/blockchain.mock';
 import { SUBMISSION_STATUS } from '@prisma/client';
 
 describe('ProjectSubmissionsService', () => {
@@ -58,6 +67,14 @@ describe('ProjectSubmissionsService', () => {
           provide: StomaTradeContractService,
           useValue: mockStomaTradeContractService,
         },
+        {
+          provide: TransactionService,
+          useValue: mockTransactionService,
+        },
+        {
+          provide: NftMetadataGeneratorService,
+          useValue: mockNftMetadataGeneratorService,
+        },
       ],
     }).compile();
 
@@ -102,6 +119,23 @@ describe('ProjectSubmissionsService', () => {
         }),
       ).rejects.toThrow(NotFoundException);
     });
+
+    it('should reject invalid kilos before writing anything', async () => {
+      prisma.project.findUnique.mockResolvedValue(mockProject);
+      prisma.projectSubmission.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.create({
+          projectId: 'project-uuid-1',
+          valueProject: '1000',
+          maxCrowdFunding: '500',
+          totalKilos: '-5',
+          submittedBy: '0xSubmitterAddress',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.project.update).not.toHaveBeenCalled();
+      expect(prisma.projectSubmission.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('findAll', () => {
@@ -162,7 +196,7 @@ describe('ProjectSubmissionsService', () => {
       prisma.projectSubmission.update
         .mockResolvedValueOnce(approvedSubmission)
         .mockResolvedValueOnce(mintedSubmission);
-      prisma.blockchainTransaction.create.mockResolvedValue({
+      mockTransactionService.recordInitiatedTransaction.mockResolvedValue({
         id: 'tx-uuid-1',
         transactionHash: '0xTxHash',
       });
@@ -186,18 +220,9 @@ describe('ProjectSubmissionsService', () => {
         success: true,
         blockNumber: 12345678,
       });
-      contractService.getContract.mockReturnValue({
-        runner: { address: '0xPlatformAddress' },
-        interface: {
-          parseLog: jest.fn().mockReturnValue({
-            name: 'ProjectCreated',
-            args: { projectId: BigInt(3001) },
-          }),
-        },
-      });
-      contractService.getEventFromReceipt.mockReturnValue({
-        topics: ['0xtopic1'],
-        data: '0xdata',
+      contractService.parseEventFromReceipt.mockResolvedValue({
+        name: 'ProjectCreated',
+        args: { projectId: BigInt(3001) },
       });
       contractService.getSignerAddress.mockReturnValue('0xPlatformAddress');
 
@@ -205,10 +230,73 @@ describe('ProjectSubmissionsService', () => {
         approvedBy: '0xAdminWallet',
       });
 
-      expect(contractService.createProject).toHaveBeenCalled();
+      expect(mockNftMetadataGeneratorService.generateProjectMetadata).toHaveBeenCalledWith(
+        'project-uuid-1',
+      );
+      expect(contractService.createProject).toHaveBeenCalledWith(
+        'bafkreimetadatacid',
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+      );
+      expect(prisma.projectSubmission.update).toHaveBeenCalledWith({
+        where: { id: 'submission-uuid-1' },
+        data: {
+          status: SUBMISSION_STATUS.APPROVED,
+          approvedBy: '0xAdminWallet',
+          metadataCid: 'bafkreimetadatacid',
+        },
+      });
       expect(result.status).toBe(SUBMISSION_STATUS.MINTED);
     });
 
+    it('should not approve when the metadata cannot be pinned', async () => {
+      prisma.projectSubmission.findUnique.mockResolvedValue(mockSubmission);
+      mockNftMetadataGeneratorService.generateProjectMetadata.mockRejectedValueOnce(
+        new Error('pinning service unavailable'),
+      );
+
+      await expect(
+        service.approve('submission-uuid-1', { approvedBy: '0xAdminWallet' }),
+      ).rejects.toThrow(
+        'Failed to generate Project NFT metadata: pinning service unavailable',
+      );
+      expect(prisma.projectSubmission.update).not.toHaveBeenCalled();
+      expect(contractService.createProject).not.toHaveBeenCalled();
+    });
+
+    it('should not approve when createProject() would revert', async () => {
+      prisma.projectSubmission.findUnique.mockResolvedValue(mockSubmission);
+      contractService.simulateCreateProject.mockRejectedValueOnce(
+        new ContractRevertError(
+          'createProject',
+          'InvalidMaxInvested(500, 1000)',
+          'InvalidMaxInvested',
+          [BigInt(500), BigInt(1000)],
+        ),
+      );
+
+      await expect(
+        service.approve('submission-uuid-1', { approvedBy: '0xAdminWallet' }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'Failed to mint Project NFT: createProject would revert: InvalidMaxInvested(500, 1000)',
+        ),
+      );
+      expect(contractService.simulateCreateProject).toHaveBeenCalledWith(
+        'bafkreimetadatacid',
+        BigInt('1000000000000000000000'),
+        BigInt('500000000000000000000'),
+        BigInt(0),
+        BigInt(0),
+        BigInt(0),
+      );
+      expect(prisma.projectSubmission.update).not.toHaveBeenCalled();
+      expect(contractService.createProject).not.toHaveBeenCalled();
+    });
+
     it('should throw BadRequestException if AppProject not found', async () => {
       const approvedSubmission = {
         ...mockSubmission,
@@ -218,7 +306,7 @@ describe('ProjectSubmissionsService', () => {
 
       prisma.projectSubmission.findUnique.mockResolvedValue(mockSubmission);
       prisma.projectSubmission.update.mockResolvedValueOnce(approvedSubmission);
-      prisma.blockchainTransaction.create.mockResolvedValue({
+      mockTransactionService.recordInitiatedTransaction.mockResolvedValue({
         id: 'tx-uuid-1',
         transactionHash: '0xTxHash',
       });
@@ -231,18 +319,9 @@ describe('ProjectSubmissionsService', () => {
         success: true,
         blockNumber: 12345678,
       });
-      contractService.getContract.mockReturnValue({
-        runner: { address: '0xPlatformAddress' },
-        interface: {
-          parseLog: jest.fn().mockReturnValue({
-            name: 'ProjectCreated',
-            args: { projectId: BigInt(3001) },
-          }),
-        },
-      });
-      contractService.getEventFromReceipt.mockReturnValue({
-        topics: ['0xtopic1'],
-        data: '0xdata',
+      contractService.parseEventFromReceipt.mockResolvedValue({
+        name: 'ProjectCreated',
+        args: { projectId: BigInt(3001) },
       });
       contractService.getSignerAddress.mockReturnValue('0xPlatformAddress');
 
@@ -260,7 +339,7 @@ describe('ProjectSubmissionsService', () => {
 
       prisma.projectSubmission.findUnique.mockResolvedValue(mockSubmission);
       prisma.projectSubmission.update.mockResolvedValueOnce(approvedSubmission);
-      prisma.blockchainTransaction.create.mockResolvedValue({
+      mockTransactionService.recordInitiatedTransaction.mockResolvedValue({
         id: 'tx-uuid-1',
         transactionHash: '0xTxHash',
       });
@@ -280,18 +359,9 @@ describe('ProjectSubmissionsService', () => {
         success: true,
         blockNumber: 12345678,
       });
-      contractService.getContract.mockReturnValue({
-        runner: { address: '0xPlatformAddress' },
-        interface: {
-          parseLog: jest.fn().mockReturnValue({
-            name: 'ProjectCreated',
-            args: { projectId: BigInt(3001) },
-          }),
-        },
-      });
-      contractService.getEventFromReceipt.mockReturnValue({
-        topics: ['0xtopic1'],
-        data: '0xdata',
+      contractService.parseEventFromReceipt.mockResolvedValue({
+        name: 'ProjectCreated',
+        args: { projectId: BigInt(3001) },
       });
       contractService.getSignerAddress.mockReturnValue('0xPlatformAddress');
 
@@ -7,10 +7,20 @@ import {
 import { PrismaService } from '../../prisma/prisma.service';
 import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
 import { SUBMISSION_STATUS } from '@prisma/client';
+import {
+  TransactionPendingError,
+  TransactionService,
+} from '../../blockchain/services/transaction.service';
 import { CreateProjectSubmissionDto } from './dto/create-project-submission.dto';
 import { ApproveProjectSubmissionDto } from './dto/approve-project-submission.dto';
 import { RejectProjectSubmissionDto } from './dto/reject-project-submission.dto';
-import { toWei } from '../../common/utils/wei-converter.util';
+import {
+  Money,
+  Rounding,
+  parseAmount,
+  projectDecimals,
+} from '../../common/utils/money.util';
+import { NftMetadataGeneratorService } from '../nfts/nft-metadata-generator.service';
 
 @Injectable()
 export class ProjectSubmissionsService {
@@ -19,23 +29,10 @@ export class ProjectSubmissionsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly stomaTradeContract: StomaTradeContractService,
+    private readonly transactionService: TransactionService,
+    private readonly nftMetadataGenerator: NftMetadataGeneratorService,
   ) {}
 
-  private extractCID(url: string): string {
-    if (!url) return '';
-
-    if (url.startsWith('ipfs://')) {
-      return url.replace('ipfs://', '');
-    }
-
-    const match = url.match(/\/ipfs\/([a-zA-Z0-9]+)/);
-    if (match) {
-      return match[1];
-    }
-
-    return url;
-  }
-
   async create(dto: CreateProjectSubmissionDto) {
     this.logger.log(`Creating project submission for project ${dto.projectId}`);
 
@@ -61,6 +58,26 @@ export class ProjectSubmissionsService {
       );
     }
 
+    const decimals = projectDecimals(project);
+    const valueProject = parseAmount(dto.valueProject, decimals, 'valueProject');
+    const maxCrowdFunding = parseAmount(
+      dto.maxCrowdFunding,
+      decimals,
+      'maxCrowdFunding',
+    );
+    const totalKilos = parseAmount(
+      dto.totalKilos || '0',
+      decimals,
+      'totalKilos',
+      Rounding.HALF_UP,
+    );
+    const profitPerKillos = parseAmount(
+      dto.profitPerKillos || '0',
+      decimals,
+      'profitPerKillos',
+      Rounding.HALF_UP,
+    );
+
     const updateProjectData: any = {};
 
     if (dto.totalKilos !== undefined) {
@@ -86,8 +103,8 @@ export class ProjectSubmissionsService {
     const submission = await this.prisma.projectSubmission.create({
       data: {
         projectId: dto.projectId,
-        valueProject: dto.valueProject,
-        maxCrowdFunding: dto.maxCrowdFunding,
+        valueProject: valueProject.toString(),
+        maxCrowdFunding: maxCrowdFunding.toString(),
         metadataCid: dto.metadataCid,
         submittedBy: dto.submittedBy,
         status: SUBMISSION_STATUS.SUBMITTED,
@@ -104,10 +121,10 @@ export class ProjectSubmissionsService {
 
     const encodedCalldata = this.stomaTradeContract.getCreateProjectCalldata(
       dto.metadataCid || '',
-      dto.valueProject,
-      dto.maxCrowdFunding,
-      dto.totalKilos || '0',
-      dto.profitPerKillos || '0',
+      valueProject.toUnits(),
+      maxCrowdFunding.toUnits(),
+      totalKilos.toUnits(),
+      profitPerKillos.toUnits(),
       dto.sharedProfit || 0,
     );
 
@@ -172,76 +189,83 @@ export class ProjectSubmissionsService {
       );
     }
 
+    let cid: string;
+    try {
+      ({ cid } = await this.nftMetadataGenerator.generateProjectMetadata(
+        submission.projectId,
+      ));
+    } catch (error) {
+      this.logger.error('Error generating Project NFT metadata', error);
+      throw new BadRequestException(
+        `Failed to generate Project NFT metadata: ${error.message}`,
+      );
+    }
+
+    let createProjectArgs: [string, bigint, bigint, bigint, bigint, bigint];
+    try {
+      const decimals = projectDecimals(submission.project);
+      createProjectArgs = [
+        cid,
+        Money.parse(submission.valueProject, decimals).toUnits(),
+        Money.parse(submission.maxCrowdFunding, decimals).toUnits(),
+        // Float columns, rounded to the token decimals
+        Money.parse(
+          submission.project.totalKilos || 0,
+          decimals,
+          Rounding.HALF_UP,
+        ).toUnits(),
+        Money.parse(
+          submission.project.profitPerKillos || 0,
+          decimals,
+          Rounding.HALF_UP,
+        ).toUnits(),
+        BigInt(submission.project.profitShare || 0),
+      ];
+
+      // A revert is reported before the submission leaves SUBMITTED
+      await this.stomaTradeContract.simulateCreateProject(...createProjectArgs);
+    } catch (error) {
+      this.logger.error('Project NFT mint would fail', error);
+      throw new BadRequestException(
+        `Failed to mint Project NFT: ${(error as Error).message}`,
+      );
+    }
+
     await this.prisma.projectSubmission.update({
       where: { id },
       data: {
         status: SUBMISSION_STATUS.APPROVED,
         approvedBy: dto.approvedBy,
+        metadataCid: cid,
       },
     });
 
     try {
       this.logger.log(
-        `Minting Project NFT - Value: ${submission.valueProject}, MaxCrowdFunding: ${submission.maxCrowdFunding}, CID: ${submission.metadataCid || 'none'}`,
+        `Minting Project NFT - Value: ${submission.valueProject}, MaxCrowdFunding: ${submission.maxCrowdFunding}, CID: ${cid}`,
       );
 
-      const projectFiles = await this.prisma.file.findMany({
-        where: { reffId: submission.project.id },
-      });
-
-      const primaryFile = projectFiles.find(f => f.type.startsWith('image/')) || projectFiles[0];
-      const cid = primaryFile?.url ? this.extractCID(primaryFile.url) : (submission.metadataCid || '');
-
-      const valueProject = toWei(submission.valueProject);
-      const maxCrowdFunding = toWei(submission.maxCrowdFunding);
-      const totalKilos = toWei(submission.project.totalKilos || '0');
-      const profitPerKillos = toWei(submission.project.profitPerKillos || '0');
-      const sharedProfit = BigInt(submission.project.profitShare || 0);
-
       const txResult = await this.stomaTradeContract.createProject(
-        cid,
-        valueProject,
-        maxCrowdFunding,
-        totalKilos,
-        profitPerKillos,
-        sharedProfit,
+        ...createProjectArgs,
       );
 
-      const blockchainTx = await this.prisma.blockchainTransaction.create({
-        data: {
-          transactionHash: txResult.hash,
+      const blockchainTx =
+        await this.transactionService.recordInitiatedTransaction(txResult, {
           transactionType: 'CREATE_PROJECT',
-          status: txResult.success ? 'CONFIRMED' : 'FAILED',
           fromAddress: await this.stomaTradeContract.getSignerAddress(),
           toAddress: this.stomaTradeContract.getstomatradeAddress(),
-          blockNumber: txResult.blockNumber || null,
-          gasUsed: txResult.gasUsed?.toString(),
-          gasPrice: txResult.effectiveGasPrice?.toString(),
-        },
-      });
+        });
 
       let mintedTokenId: number | null = null;
       if (txResult.receipt) {
-        const projectCreatedEvent =
-          this.stomaTradeContract.getEventFromReceipt(
-            txResult.receipt,
-            'ProjectCreated',
-          );
+        const parsed = await this.stomaTradeContract.parseEventFromReceipt(
+          txResult.receipt,
+          'ProjectCreated',
+        );
 
-        if (projectCreatedEvent) {
-          const parsed = this.stomaTradeContract
-            .getContract()
-            .interface.parseLog({
-              topics: projectCreatedEvent.topics,
-              data: projectCreatedEvent.data,
-            });
-
-          if (parsed) {
-            mintedTokenId = Number(parsed.args.idProject);
-            this.logger.log(
-              `Project NFT minted with token ID: ${mintedTokenId}`,
-            );
-          }
+        if (parsed) {
+          mintedTokenId = Number(parsed.args.idProject);
+          this.logger.log(`Project NFT minted with token ID: ${mintedTokenId}`);
         }
       }
 
@@ -264,9 +288,10 @@ export class ProjectSubmissionsService {
       });
 
       if (mintedTokenId !== null) {
+        // createProject() is always sent to the default deployment
         const appProject = await this.prisma.appProject.findFirst({
           where: {
-            name: 'StomaTrade',
+            isDefault: true,
             deleted: false,
           },
         });
@@ -311,6 +336,10 @@ export class ProjectSubmissionsService {
       this.logger.log(`Project submission approved and minted: ${id}`);
       return updatedSubmission;
     } catch (error) {
+      if (error instanceof TransactionPendingError) {
+        return await this.linkPendingTransaction(id, error.transactionHash);
+      }
+
       this.logger.error('Error minting Project NFT', error);
 
       await this.prisma.projectSubmission.update({
@@ -327,6 +356,36 @@ export class ProjectSubmissionsService {
     }
   }
 
+  /**
+   * Leave the submission APPROVED and linked to the tx still in the mempool;
+   * the transaction watcher marks it MINTED or reverts it to SUBMITTED
+   */
+  private async linkPendingTransaction(id: string, transactionHash: string) {
+    this.logger.warn(
+      `Project submission ${id} awaiting confirmation of ${transactionHash}`,
+    );
+
+    const blockchainTx = await this.prisma.blockchainTransaction.findUnique({
+      where: { transactionHash },
+    });
+
+    return await this.prisma.projectSubmission.update({
+      where: { id },
+      data: {
+        blockchainTxId: blockchainTx?.id ?? null,
+      },
+      include: {
+        project: {
+          include: {
+            farmer: true,
+            land: true,
+          },
+        },
+        transaction: true,
+      },
+    });
+  }
+
   async reject(id: string, dto: RejectProjectSubmissionDto) {
     this.logger.log(`Rejecting project submission ${id}`);
 
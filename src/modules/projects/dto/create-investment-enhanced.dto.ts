@@ -1,12 +1,13 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { IsNotEmpty, IsString, IsInt, IsOptional, IsDateString } from 'class-validator';
+import { IsMoneyAmount } from '../../../common/decorators/is-money-amount.decorator';
 
 export class CreateInvestmentEnhancedDto {
   @ApiProperty({
-    description: 'Investment amount (in IDRX wei)',
-    example: '10000000000000000000000',
+    description: 'Investment amount (clean value)',
+    example: '10000',
   })
-  @IsString()
+  @IsMoneyAmount()
   @IsNotEmpty()
   amount: string;
 
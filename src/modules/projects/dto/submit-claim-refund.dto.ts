@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, Matches } from 'class-validator';
+import { ClaimRefundDto } from './claim-refund.dto';
+
+export class SubmitClaimRefundDto extends ClaimRefundDto {
+  @ApiProperty({
+    description: 'Hash of the claimRefund() transaction the investor sent',
+    example:
+      '0x8f3c1e6b2a4d5f7e9c0b1a2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f',
+  })
+  @Matches(/^0x[0-9a-fA-F]{64}$/, {
+    message: 'transactionHash must be a 32-byte hex string',
+  })
+  @IsNotEmpty({ message: 'transactionHash is required' })
+  transactionHash: string;
+}
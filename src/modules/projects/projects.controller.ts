@@ -8,6 +8,7 @@ import {
   Delete,
   Query,
   HttpStatus,
+  HttpCode,
   ParseUUIDPipe,
 } from '@nestjs/common';
 import {
@@ -29,10 +30,13 @@ import {
 import { ProjectListResponseDto } from './dto/project-list-response.dto';
 import { ProjectDetailResponseDto } from './dto/project-detail-response.dto';
 import { ClaimRefundDto } from './dto/claim-refund.dto';
+import { SubmitClaimRefundDto } from './dto/submit-claim-refund.dto';
 import { TransactionResponseDto } from './dto/transaction-response.dto';
+import { PreparedTransactionResponseDto } from '../../blockchain/dto/unsigned-transaction.dto';
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { SearchQueryDto } from '../../common/dto/search-query.dto';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { Owns } from '../auth/decorators/owns.decorator';
 import { Public } from '../auth/decorators/public.decorator';
 import { ROLES } from '@prisma/client';
 
@@ -43,6 +47,11 @@ export class ProjectsController {
   constructor(private readonly projectsService: ProjectsService) {}
 
   @Roles(ROLES.ADMIN, ROLES.STAFF, ROLES.COLLECTOR)
+  @Owns(
+    { resource: 'collector', in: 'body', key: 'collectorId' },
+    { resource: 'farmer', in: 'body', key: 'farmerId' },
+    { resource: 'land', in: 'body', key: 'landId' },
+  )
   @Post()
   @ApiOperation({
     summary: 'Create a new project (Admin/Staff/Collector only)',
@@ -407,6 +416,7 @@ export class ProjectsController {
     return this.projectsService.refundProject(id);
   }
 
+  @Owns({ resource: 'user', in: 'body', key: 'userId' })
   @Post(':id/claim-refund')
   @ApiOperation({
     summary: 'Claim refund from failed project',
@@ -443,4 +453,76 @@ export class ProjectsController {
   ): Promise<TransactionResponseDto> {
     return this.projectsService.claimRefund(projectId, dto.userId);
   }
-}
\ No newline at end of file
+
+  @Owns({ resource: 'user', in: 'body', key: 'userId' })
+  @Post(':id/claim-refund/prepare')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Prepare an investor-signed refund claim',
+    description:
+      "Return the unsigned claimRefund() transaction for the investor's wallet to sign and broadcast. " +
+      'Submit the resulting hash to POST /projects/:id/claim-refund/submit.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Project UUID',
+  })
+  @ApiBody({
+    type: ClaimRefundDto,
+    description: 'User ID claiming the refund',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Transaction payload built',
+    type: PreparedTransactionResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Project or user not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Project not in refunding state or user has no investment',
+  })
+  prepareClaimRefund(
+    @Param('id', ParseUUIDPipe) projectId: string,
+    @Body() dto: ClaimRefundDto,
+  ) {
+    return this.projectsService.prepareClaimRefund(projectId, dto.userId);
+  }
+
+  @Owns({ resource: 'user', in: 'body', key: 'userId' })
+  @Post(':id/claim-refund/submit')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Submit the hash of an investor-signed refund claim',
+    description:
+      "Verify that the transaction calls claimRefund() for the project from the investor's wallet and track it. " +
+      'The investment is marked refunded from the Refunded event once the transaction is mined.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Project UUID',
+  })
+  @ApiBody({
+    type: SubmitClaimRefundDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Transaction tracked',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Project, user or transaction not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Transaction does not match the refund claim or is linked elsewhere',
+  })
+  submitClaimRefund(
+    @Param('id', ParseUUIDPipe) projectId: string,
+    @Body() dto: SubmitClaimRefundDto,
+  ) {
+    return this.projectsService.submitClaimRefund(projectId, dto.userId, dto.transactionHash);
+  }
+}
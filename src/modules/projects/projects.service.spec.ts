@@ -3,7 +3,9 @@ import { NotFoundException, BadRequestException } from '@nestjs/common';
 import { ProjectsService } from './projects.service';
 import { PrismaService } from '../../prisma/prisma.service';
 import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
+import { TransactionWatcherService } from '../../blockchain/services/transaction-watcher.service';
 import { mockPrismaService } from '../../test/mocks/prisma.mock';
+import { mockTransactionWatcherService } from '../../test/mocks/blockchain.mock';
 import { PROJECT_STATUS } from '@prisma/client';
 
 describe('ProjectsService', () => {
@@ -50,6 +52,8 @@ describe('ProjectsService', () => {
     withdrawProject: jest.fn(),
     refundProject: jest.fn(),
     claimRefund: jest.fn(),
+    buildClaimRefundTransaction: jest.fn(),
+    registerSignedTransaction: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -66,6 +70,10 @@ describe('ProjectsService', () => {
           provide: StomaTradeContractService,
           useValue: mockStomaTradeContract,
         },
+        {
+          provide: TransactionWatcherService,
+          useValue: mockTransactionWatcherService,
+        },
       ],
     }).compile();
 
@@ -215,7 +223,10 @@ describe('ProjectsService', () => {
       expect(prisma.project.findFirst).toHaveBeenCalledWith({
         where: { id: 'project-uuid-1', deleted: false },
       });
-      expect(stomaTradeContract.closeProject).toHaveBeenCalledWith(BigInt(1001));
+      expect(stomaTradeContract.closeProject).toHaveBeenCalledWith(
+        BigInt(1001),
+        expect.objectContaining({ id: 'project-uuid-1' }),
+      );
       expect(prisma.project.update).toHaveBeenCalledWith({
         where: { id: 'project-uuid-1' },
         data: { status: PROJECT_STATUS.CLOSED },
@@ -275,7 +286,10 @@ describe('ProjectsService', () => {
 
       const result = await service.finishProject('project-uuid-1');
 
-      expect(stomaTradeContract.finishProject).toHaveBeenCalledWith(BigInt(1001));
+      expect(stomaTradeContract.finishProject).toHaveBeenCalledWith(
+        BigInt(1001),
+        expect.objectContaining({ id: 'project-uuid-1' }),
+      );
       expect(prisma.project.update).toHaveBeenCalledWith({
         where: { id: 'project-uuid-1' },
         data: { status: PROJECT_STATUS.SUCCESS },
@@ -307,7 +321,10 @@ describe('ProjectsService', () => {
 
       const result = await service.withdrawProjectFunds('project-uuid-1');
 
-      expect(stomaTradeContract.withdrawProject).toHaveBeenCalledWith(BigInt(1001));
+      expect(stomaTradeContract.withdrawProject).toHaveBeenCalledWith(
+        BigInt(1001),
+        expect.objectContaining({ id: 'project-uuid-1' }),
+      );
       expect(result.message).toBe('Project funds withdrawn successfully');
       expect(result.transactionHash).toBe('0x1234567890abcdef');
     });
@@ -345,7 +362,10 @@ describe('ProjectsService', () => {
 
       const result = await service.refundProject('project-uuid-1');
 
-      expect(stomaTradeContract.refundProject).toHaveBeenCalledWith(BigInt(1001));
+      expect(stomaTradeContract.refundProject).toHaveBeenCalledWith(
+        BigInt(1001),
+        expect.objectContaining({ id: 'project-uuid-1' }),
+      );
       expect(prisma.project.update).toHaveBeenCalledWith({
         where: { id: 'project-uuid-1' },
         data: { status: PROJECT_STATUS.REFUNDING },
@@ -393,7 +413,10 @@ describe('ProjectsService', () => {
           deleted: false,
         },
       });
-      expect(stomaTradeContract.claimRefund).toHaveBeenCalledWith(BigInt(1001));
+      expect(stomaTradeContract.claimRefund).toHaveBeenCalledWith(
+        BigInt(1001),
+        expect.objectContaining({ id: 'project-uuid-1' }),
+      );
       expect(result.message).toBe('Refund claimed successfully');
       expect(result.transactionHash).toBe('0x1234567890abcdef');
     });
@@ -419,5 +442,86 @@ describe('ProjectsService', () => {
       ).rejects.toThrow(BadRequestException);
     });
   });
+
+  describe('investor-signed refund claims', () => {
+    const refundingProject = {
+      ...mockMintedProject,
+      status: PROJECT_STATUS.REFUNDING,
+    };
+    const mockInvestor = {
+      id: 'user-uuid-1',
+      walletAddress: '0xInvestorWallet',
+    };
+    const txHash =
+      '0x8f3c1e6b2a4d5f7e9c0b1a2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f';
+
+    beforeEach(() => {
+      prisma.project.findFirst.mockResolvedValue(refundingProject);
+      prisma.user.findFirst.mockResolvedValue(mockInvestor);
+      prisma.investment.findFirst.mockResolvedValue({
+        id: 'investment-uuid-1',
+        userId: 'user-uuid-1',
+        projectId: 'project-uuid-1',
+      });
+    });
+
+    it('should build the claimRefund transaction for the investor wallet', async () => {
+      stomaTradeContract.buildClaimRefundTransaction.mockResolvedValue({
+        to: '0xContractAddress',
+        data: '0xencodeddata',
+      } as any);
+
+      const result = await service.prepareClaimRefund('project-uuid-1', 'user-uuid-1');
+
+      expect(stomaTradeContract.buildClaimRefundTransaction).toHaveBeenCalledWith(
+        BigInt(1001),
+        '0xInvestorWallet',
+        refundingProject,
+      );
+      expect(stomaTradeContract.claimRefund).not.toHaveBeenCalled();
+      expect(result.transaction.data).toBe('0xencodeddata');
+    });
+
+    it('should register the submitted hash and check its receipt', async () => {
+      const record = {
+        id: 'blockchain-tx-1',
+        transactionHash: txHash,
+        status: 'PENDING',
+        blockNumber: null,
+      };
+      stomaTradeContract.registerSignedTransaction.mockResolvedValue(record as any);
+
+      const result = await service.submitClaimRefund('project-uuid-1', 'user-uuid-1', txHash);
+
+      expect(stomaTradeContract.registerSignedTransaction).toHaveBeenCalledWith(
+        txHash,
+        '0xInvestorWallet',
+        expect.objectContaining({
+          methodName: 'claimRefund',
+          args: [BigInt(1001)],
+          transactionType: 'REFUND',
+        }),
+        refundingProject,
+      );
+      expect(mockTransactionWatcherService.checkTransaction).toHaveBeenCalledWith(record);
+      expect(result).toEqual({
+        investmentId: 'investment-uuid-1',
+        transaction: {
+          id: 'blockchain-tx-1',
+          hash: txHash,
+          status: 'PENDING',
+          blockNumber: null,
+        },
+      });
+    });
+
+    it('should throw NotFoundException if user not found', async () => {
+      prisma.user.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.prepareClaimRefund('project-uuid-1', 'non-existent'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
 });
 
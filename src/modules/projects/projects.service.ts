@@ -9,6 +9,8 @@ import { ProjectListResponseDto, ProjectListItemDto } from './dto/project-list-r
 import { ProjectDetailResponseDto } from './dto/project-detail-response.dto';
 import { PROJECT_STATUS, Prisma } from '@prisma/client';
 import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
+import { TransactionWatcherService } from '../../blockchain/services/transaction-watcher.service';
+import { Money } from '../../common/utils/money.util';
 
 @Injectable()
 export class ProjectsService {
@@ -17,6 +19,7 @@ export class ProjectsService {
   constructor(
     private prisma: PrismaService,
     private stomaTradeContract: StomaTradeContractService,
+    private transactionWatcherService: TransactionWatcherService,
   ) { }
 
   async create(createProjectDto: CreateProjectDto): Promise<ProjectResponseDto> {
@@ -228,17 +231,14 @@ export class ProjectsService {
           orderBy: { createdAt: 'desc' },
         });
 
-        const totalFunding = project.investments.reduce(
-          (sum, inv) => sum + BigInt(inv.amount),
-          BigInt(0),
+        const totalFunding = Money.sum(
+          project.investments.map((inv) => Money.parse(inv.amount)),
         );
 
         const uniqueInvestors = new Set(project.investments.map(inv => inv.userId)).size;
 
-        const maxFunding = BigInt(project.projectSubmission?.maxCrowdFunding || '0');
-        const fundingPercentage = maxFunding > BigInt(0)
-          ? (Number(totalFunding) / Number(maxFunding)) * 100
-          : 0;
+        const maxFunding = Money.parse(project.projectSubmission?.maxCrowdFunding || '0');
+        const fundingPercentage = totalFunding.percentageOf(maxFunding);
 
         const explorerNftUrl =
           project.explorerUrl && project.contractAddress && project.tokenId
@@ -255,7 +255,7 @@ export class ProjectsService {
           margin: project.profitShare,
           image: file?.url || null,
           status: project.status,
-          fundingPercentage: Math.round(fundingPercentage * 100) / 100,
+          fundingPercentage,
           tokenId: project.tokenId,
           chainId: project.chainId,
           contractAddress: project.contractAddress,
@@ -303,17 +303,14 @@ export class ProjectsService {
       orderBy: { createdAt: 'desc' },
     });
 
-    const currentFunding = project.investments.reduce(
-      (sum, inv) => sum + BigInt(inv.amount),
-      BigInt(0),
+    const currentFunding = Money.sum(
+      project.investments.map((inv) => Money.parse(inv.amount)),
     );
 
     const uniqueInvestors = new Set(project.investments.map(inv => inv.userId)).size;
 
-    const maxFunding = BigInt(project.projectSubmission?.maxCrowdFunding || '0');
-    const fundingPercentage = maxFunding > BigInt(0)
-      ? (Number(currentFunding) / Number(maxFunding)) * 100
-      : 0;
+    const maxFunding = Money.parse(project.projectSubmission?.maxCrowdFunding || '0');
+    const fundingPercentage = currentFunding.percentageOf(maxFunding);
 
     const explorerNftUrl =
       project.explorerUrl && project.contractAddress && project.tokenId
@@ -335,7 +332,7 @@ export class ProjectsService {
       farmerName: project.farmer.name,
       investors: uniqueInvestors,
       status: project.status,
-      fundingPercentage: Math.round(fundingPercentage * 100) / 100,
+      fundingPercentage,
       image: file?.url || null,
       landAddress: project.land.address,
       gradeQuality: null,
@@ -365,7 +362,10 @@ export class ProjectsService {
       throw new BadRequestException('Project is already closed');
     }
 
-    const txResult = await this.stomaTradeContract.closeProject(BigInt(project.tokenId));
+    const txResult = await this.stomaTradeContract.closeProject(
+      BigInt(project.tokenId),
+      project,
+    );
 
     if (!txResult.success) {
       throw new BadRequestException('Failed to close project on blockchain');
@@ -403,7 +403,10 @@ export class ProjectsService {
       throw new BadRequestException('Project is already finished');
     }
 
-    const txResult = await this.stomaTradeContract.finishProject(BigInt(project.tokenId));
+    const txResult = await this.stomaTradeContract.finishProject(
+      BigInt(project.tokenId),
+      project,
+    );
 
     if (!txResult.success) {
       throw new BadRequestException('Failed to finish project on blockchain');
@@ -441,7 +444,10 @@ export class ProjectsService {
       throw new BadRequestException('Project must be finished or closed before withdrawing funds');
     }
 
-    const txResult = await this.stomaTradeContract.withdrawProject(BigInt(project.tokenId));
+    const txResult = await this.stomaTradeContract.withdrawProject(
+      BigInt(project.tokenId),
+      project,
+    );
 
     if (!txResult.success) {
       throw new BadRequestException('Failed to withdraw project funds');
@@ -474,7 +480,10 @@ export class ProjectsService {
       throw new BadRequestException('Project is already in refunding state');
     }
 
-    const txResult = await this.stomaTradeContract.refundProject(BigInt(project.tokenId));
+    const txResult = await this.stomaTradeContract.refundProject(
+      BigInt(project.tokenId),
+      project,
+    );
 
     if (!txResult.success) {
       throw new BadRequestException('Failed to enable refunds on blockchain');
@@ -496,6 +505,88 @@ export class ProjectsService {
   async claimRefund(projectId: string, userId: string): Promise<{ message: string; transactionHash: string }> {
     this.logger.log(`User ${userId} claiming refund for project ${projectId}`);
 
+    const { project } = await this.findRefundContext(projectId, userId);
+
+    const txResult = await this.stomaTradeContract.claimRefund(
+      BigInt(project.tokenId!),
+      project,
+    );
+
+    if (!txResult.success) {
+      throw new BadRequestException('Failed to claim refund');
+    }
+
+    this.logger.log(`Refund claimed for project ${projectId} by user ${userId}. TxHash: ${txResult.hash}`);
+
+    return {
+      message: 'Refund claimed successfully',
+      transactionHash: txResult.hash,
+    };
+  }
+
+  /**
+   * Build the claimRefund() call for the investor's own wallet to sign
+   */
+  async prepareClaimRefund(projectId: string, userId: string) {
+    const { project } = await this.findRefundContext(projectId, userId);
+    const user = await this.findInvestor(userId);
+
+    try {
+      const transaction = await this.stomaTradeContract.buildClaimRefundTransaction(
+        BigInt(project.tokenId!),
+        user.walletAddress,
+        project,
+      );
+
+      return { transaction };
+    } catch (error) {
+      this.logger.error('Error building refund transaction', error);
+      throw new BadRequestException(`Failed to build refund transaction: ${error.message}`);
+    }
+  }
+
+  /**
+   * Record the claimRefund() transaction the investor broadcast. Once mined,
+   * its Refunded event marks the investment as refunded.
+   */
+  async submitClaimRefund(projectId: string, userId: string, transactionHash: string) {
+    const { project, investment } = await this.findRefundContext(projectId, userId);
+    const user = await this.findInvestor(userId);
+
+    const record = await this.stomaTradeContract.registerSignedTransaction(
+      transactionHash,
+      user.walletAddress,
+      {
+        methodName: 'claimRefund',
+        args: [BigInt(project.tokenId!)],
+        transactionType: 'REFUND',
+        eventData: JSON.stringify({
+          action: 'claimRefund',
+          userId,
+          projectId,
+          investmentId: investment.id,
+        }),
+      },
+      project,
+    );
+
+    const settled = await this.transactionWatcherService.checkTransaction(record);
+
+    return {
+      investmentId: investment.id,
+      transaction: {
+        id: settled.id,
+        hash: settled.transactionHash,
+        status: settled.status,
+        blockNumber: settled.blockNumber,
+      },
+    };
+  }
+
+  /**
+   * Refunding project and the investor's investment in it
+   */
+  private async findRefundContext(projectId: string, userId: string) {
     const project = await this.prisma.project.findFirst({
       where: { id: projectId, deleted: false },
     });
@@ -524,17 +615,18 @@ export class ProjectsService {
       throw new BadRequestException('User has no investment in this project');
     }
 
-    const txResult = await this.stomaTradeContract.claimRefund(BigInt(project.tokenId));
+    return { project, investment };
+  }
 
-    if (!txResult.success) {
-      throw new BadRequestException('Failed to claim refund');
-    }
+  private async findInvestor(userId: string) {
+    const user = await this.prisma.user.findFirst({
+      where: { id: userId, deleted: false },
+    });
 
-    this.logger.log(`Refund claimed for project ${projectId} by user ${userId}. TxHash: ${txResult.hash}`);
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
 
-    return {
-      message: 'Refund claimed successfully',
-      transactionHash: txResult.hash,
-    };
+    return user;
   }
-}
\ No newline at end of file
+}
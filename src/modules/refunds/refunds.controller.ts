@@ -11,6 +11,7 @@ import { RefundsService } from './refunds.service';
 import { MarkRefundableDto } from './dto/mark-refundable.dto';
 import { RefundClaimRequestDto } from './dto/claim-refund.dto';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { Owns } from '../auth/decorators/owns.decorator';
 import { ROLES } from '@prisma/client';
 
 @ApiTags('Refunds')
@@ -59,9 +60,10 @@ export class RefundsController {
    * Use POST /projects/:id/claim-refund instead for better REST semantics.
    * This endpoint is maintained for backward compatibility only.
    */
+  @Owns({ resource: 'user', in: 'body', key: 'userId' })
   @Post('claim')
   @ApiOperation({
-    summary: '[DEPRECATED] Claim refund from a project (authenticated users)',
+    summary: '[DEPRECATED] Claim refund from a project (owner, Staff or Admin)',
     description:
       '⚠️ DEPRECATED: This endpoint duplicates POST /projects/:id/claim-refund functionality. ' +
       'Use POST /projects/:id/claim-refund instead for better REST semantics and consistency. ' +
@@ -105,9 +107,10 @@ export class RefundsController {
     return this.refundsService.getRefundableProjects();
   }
 
+  @Owns({ resource: 'user', key: 'userId' })
   @Get('user/:userId')
   @ApiOperation({
-    summary: 'Get user refund claims (authenticated users)',
+    summary: 'Get user refund claims (owner, Staff or Admin)',
     description: 'Retrieve all refund claims made by a specific user',
   })
   @ApiResponse({
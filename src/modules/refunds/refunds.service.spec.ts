@@ -4,7 +4,13 @@ import { RefundsService } from './refunds.service';
 import { PrismaService } from '../../prisma/prisma.service';
 import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
 import { mockPrismaService } from '../../test/mocks/prisma.mock';
-import { mockStomaTradeContractService } from '../../test/mocks/blockchain.mock';
+import { SettlementTokenService } from '../../blockchain/services/settlement-token.service';
+import { TransactionService } from '../../blockchain/services/transaction.service';
+import {
+  mockStomaTradeContractService,
+  mockSettlementTokenService,
+  mockTransactionService,
+} from '../../test/mocks/blockchain.mock';
 
 describe('RefundsService', () => {
   let service: RefundsService;
@@ -47,6 +53,14 @@ describe('RefundsService', () => {
           provide: StomaTradeContractService,
           useValue: mockStomaTradeContractService,
         },
+        {
+          provide: TransactionService,
+          useValue: mockTransactionService,
+        },
+        {
+          provide: SettlementTokenService,
+          useValue: mockSettlementTokenService,
+        },
       ],
     }).compile();
 
@@ -67,7 +81,7 @@ describe('RefundsService', () => {
       };
 
       prisma.project.findUnique.mockResolvedValue(mockProject);
-      prisma.blockchainTransaction.create.mockResolvedValue({
+      mockTransactionService.recordInitiatedTransaction.mockResolvedValue({
         id: 'tx-uuid-1',
         transactionHash: '0xTxHash',
       });
@@ -124,7 +138,7 @@ describe('RefundsService', () => {
       prisma.user.findUnique.mockResolvedValue(mockUser);
       prisma.project.findUnique.mockResolvedValue(mockProject);
       prisma.investment.findFirst.mockResolvedValue(mockInvestment);
-      prisma.blockchainTransaction.create.mockResolvedValue({
+      mockTransactionService.recordInitiatedTransaction.mockResolvedValue({
         id: 'tx-uuid-1',
         transactionHash: '0xRefundTxHash',
       });
@@ -138,18 +152,9 @@ describe('RefundsService', () => {
         success: true,
         blockNumber: 12345678,
       });
-      contractService.getContract.mockReturnValue({
-        runner: { address: '0xPlatformAddress' },
-        interface: {
-          parseLog: jest.fn().mockReturnValue({
-            name: 'Refunded',
-            args: { amount: BigInt(100000000000000000000) },
-          }),
-        },
-      });
-      contractService.getEventFromReceipt.mockReturnValue({
-        topics: ['0xtopic1'],
-        data: '0xdata',
+      contractService.parseEventFromReceipt.mockResolvedValue({
+        name: 'Refunded',
+        args: { amount: BigInt(100000000000000000000) },
       });
       contractService.getSignerAddress.mockReturnValue('0xPlatformAddress');
 
@@ -160,6 +165,44 @@ describe('RefundsService', () => {
       expect(result).toHaveProperty('refundedAmount');
     });
 
+    it('should record the token the investment was paid in', async () => {
+      prisma.user.findUnique.mockResolvedValue(mockUser);
+      prisma.project.findUnique.mockResolvedValue(mockProject);
+      prisma.investment.findFirst.mockResolvedValue({
+        ...mockInvestment,
+        tokenAddress: '0xTokenAddress',
+      });
+      mockTransactionService.recordInitiatedTransaction.mockResolvedValue({
+        id: 'tx-uuid-1',
+        transactionHash: '0xRefundTxHash',
+      });
+      prisma.investment.update.mockResolvedValue({ ...mockInvestment, deleted: true });
+      prisma.investment.findMany.mockResolvedValue([]);
+      prisma.investmentPortfolio.upsert.mockResolvedValue({});
+      contractService.claimRefund.mockResolvedValue({
+        hash: '0xRefundTxHash',
+        receipt: null,
+        success: true,
+        blockNumber: 12345678,
+      });
+
+      const result = await service.claimRefund({
+        userId: 'user-uuid-1',
+        projectId: 'project-uuid-1',
+      });
+
+      expect(result.tokenAddress).toBe('0xTokenAddress');
+      expect(mockSettlementTokenService.getTokenAddress).not.toHaveBeenCalled();
+      expect(
+        mockTransactionService.recordInitiatedTransaction,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ hash: '0xRefundTxHash' }),
+        expect.objectContaining({
+          eventData: expect.stringContaining('"tokenAddress":"0xTokenAddress"'),
+        }),
+      );
+    });
+
     it('should throw NotFoundException if user not found', async () => {
       prisma.user.findUnique.mockResolvedValue(null);
 
@@ -6,8 +6,11 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { StomaTradeContractService } from '../../blockchain/services/stomatrade-contract.service';
+import { SettlementTokenService } from '../../blockchain/services/settlement-token.service';
+import { TransactionService } from '../../blockchain/services/transaction.service';
 import { MarkRefundableDto } from './dto/mark-refundable.dto';
 import { RefundClaimRequestDto } from './dto/claim-refund.dto';
+import { Money, projectDecimals } from '../../common/utils/money.util';
 
 @Injectable()
 export class RefundsService {
@@ -16,6 +19,8 @@ export class RefundsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly stomaTradeContract: StomaTradeContractService,
+    private readonly transactionService: TransactionService,
+    private readonly settlementTokenService: SettlementTokenService,
   ) {}
 
   async markRefundable(dto: MarkRefundableDto) {
@@ -45,25 +50,22 @@ export class RefundsService {
         `Calling blockchain refundProject() - ProjectId: ${projectTokenId}`,
       );
 
-      const txResult = await this.stomaTradeContract.refundProject(projectTokenId);
+      const txResult = await this.stomaTradeContract.refundProject(
+        projectTokenId,
+        project,
+      );
 
-      const blockchainTx = await this.prisma.blockchainTransaction.create({
-        data: {
-          transactionHash: txResult.hash,
+      const blockchainTx =
+        await this.transactionService.recordInitiatedTransaction(txResult, {
           transactionType: 'REFUND',
-          status: txResult.success ? 'CONFIRMED' : 'FAILED',
           fromAddress: await this.stomaTradeContract.getSignerAddress(),
           toAddress: this.stomaTradeContract.getstomatradeAddress(),
-          blockNumber: txResult.blockNumber || null,
-          gasUsed: txResult.gasUsed?.toString(),
-          gasPrice: txResult.effectiveGasPrice?.toString(),
           eventData: JSON.stringify({
             action: 'markRefundable',
             projectId: dto.projectId,
             reason: dto.reason,
           }),
-        },
-      });
+        });
 
       this.logger.log(`Project marked as refundable: ${dto.projectId}`);
 
@@ -134,48 +136,47 @@ export class RefundsService {
         `Calling blockchain claimRefund() - ProjectId: ${projectTokenId}`,
       );
 
-      const txResult = await this.stomaTradeContract.claimRefund(projectTokenId);
+      const txResult = await this.stomaTradeContract.claimRefund(
+        projectTokenId,
+        project,
+      );
 
       let refundedAmount = investment.amount;
       if (txResult.receipt) {
-        const refundedEvent = this.stomaTradeContract.getEventFromReceipt(
+        const parsed = await this.stomaTradeContract.parseEventFromReceipt(
           txResult.receipt,
           'Refunded',
+          project,
         );
 
-        if (refundedEvent) {
-          const parsed = this.stomaTradeContract
-            .getContract()
-            .interface.parseLog({
-              topics: refundedEvent.topics,
-              data: refundedEvent.data,
-            });
-
-          if (parsed) {
-            refundedAmount = parsed.args.amount.toString();
-            this.logger.log(`Refund claimed: ${refundedAmount}`);
-          }
+        if (parsed) {
+          // The event amount is in wei, investments in clean values
+          refundedAmount = Money.fromUnits(
+            parsed.args.amount as bigint,
+            projectDecimals(project),
+          ).toString();
+          this.logger.log(`Refund claimed: ${refundedAmount}`);
         }
       }
 
-      const blockchainTx = await this.prisma.blockchainTransaction.create({
-        data: {
-          transactionHash: txResult.hash,
+      // Paid back in the token the investment was made in
+      const tokenAddress =
+        investment.tokenAddress ??
+        (await this.settlementTokenService.getTokenAddress(project));
+
+      const blockchainTx =
+        await this.transactionService.recordInitiatedTransaction(txResult, {
           transactionType: 'REFUND',
-          status: txResult.success ? 'CONFIRMED' : 'FAILED',
           fromAddress: await this.stomaTradeContract.getSignerAddress(),
           toAddress: user.walletAddress,
-          blockNumber: txResult.blockNumber || null,
-          gasUsed: txResult.gasUsed?.toString(),
-          gasPrice: txResult.effectiveGasPrice?.toString(),
           eventData: JSON.stringify({
             action: 'claimRefund',
             userId: dto.userId,
             projectId: dto.projectId,
             amount: refundedAmount,
+            tokenAddress,
           }),
-        },
-      });
+        });
 
       await this.prisma.investment.update({
         where: { id: investment.id },
@@ -193,6 +194,7 @@ export class RefundsService {
         userId: dto.userId,
         projectId: dto.projectId,
         refundedAmount,
+        tokenAddress,
         transaction: {
           id: blockchainTx.id,
           hash: txResult.hash,
@@ -263,28 +265,22 @@ export class RefundsService {
       },
     });
 
-    const totalInvested = investments.reduce(
-      (sum, inv) => sum + Number(inv.amount),
-      0,
+    const totalInvested = Money.sum(
+      investments.map((inv) => Money.parse(inv.amount)),
     );
 
-    const totalClaimed = investments.reduce((sum, inv) => {
-      const claimed = inv.profitClaims.reduce(
-        (claimSum, claim) => claimSum + Number(claim.amount),
-        0,
-      );
-      return sum + claimed;
-    }, 0);
+    const totalClaimed = Money.sum(
+      investments.flatMap((inv) =>
+        inv.profitClaims.map((claim) => Money.parse(claim.amount)),
+      ),
+    );
 
     const totalProfit = totalClaimed;
     const activeInvestments = investments.filter(
       (inv) => inv.receiptTokenId !== null,
     ).length;
 
-    const avgROI =
-      totalInvested > 0
-        ? (totalProfit / totalInvested) * 100
-        : 0;
+    const avgROI = totalProfit.percentageOf(totalInvested);
 
     await this.prisma.investmentPortfolio.upsert({
       where: { userId },
@@ -4,7 +4,7 @@ import { UserDashboardService } from './user-dashboard.service';
 import { UserCashResponseDto } from './dto/user-cash-response.dto';
 import { UserAssetsResponseDto } from './dto/user-assets-response.dto';
 import { UserTotalDashboardResponseDto } from './dto/user-total-dashboard-response.dto';
-import { Public } from '../auth/decorators/public.decorator';
+import { Owns } from '../auth/decorators/owns.decorator';
 
 @ApiTags('User Dashboard')
 @ApiBearerAuth('JWT-auth')
@@ -12,10 +12,10 @@ import { Public } from '../auth/decorators/public.decorator';
 export class UserDashboardController {
   constructor(private readonly dashboardService: UserDashboardService) {}
 
-  @Public()
+  @Owns({ resource: 'user', key: 'userId' })
   @Get(':userId/cash')
   @ApiOperation({
-    summary: 'Get user total cash',
+    summary: 'Get user total cash (owner, Staff or Admin)',
     description: 'Retrieve total available cash balance for a user',
   })
   @ApiParam({
@@ -38,10 +38,10 @@ export class UserDashboardController {
     return this.dashboardService.getUserCash(userId);
   }
 
-  @Public()
+  @Owns({ resource: 'user', key: 'userId' })
   @Get(':userId/assets')
   @ApiOperation({
-    summary: 'Get user total assets',
+    summary: 'Get user total assets (owner, Staff or Admin)',
     description: 'Retrieve total assets including investments and returns for a user',
   })
   @ApiParam({
@@ -64,10 +64,10 @@ export class UserDashboardController {
     return this.dashboardService.getUserAssets(userId);
   }
 
-  @Public()
+  @Owns({ resource: 'user', key: 'userId' })
   @Get(':userId/total')
   @ApiOperation({
-    summary: 'Get user total dashboard',
+    summary: 'Get user total dashboard (owner, Staff or Admin)',
     description: 'Retrieve complete dashboard with cash, assets, and returns for a user',
   })
   @ApiParam({
@@ -3,6 +3,7 @@ import { PrismaService } from '../../prisma/prisma.service';
 import { UserCashResponseDto } from './dto/user-cash-response.dto';
 import { UserAssetsResponseDto } from './dto/user-assets-response.dto';
 import { UserTotalDashboardResponseDto } from './dto/user-total-dashboard-response.dto';
+import { Money } from '../../common/utils/money.util';
 
 @Injectable()
 export class UserDashboardService {
@@ -59,18 +60,14 @@ export class UserDashboardService {
       });
     }
 
-    const totalInvested = BigInt(portfolio.totalInvested);
-    const totalProfit = BigInt(portfolio.totalProfit);
-    const totalAssets = totalInvested + totalProfit;
-
-    const percentage = totalInvested > BigInt(0)
-      ? (Number(totalProfit) / Number(totalInvested)) * 100
-      : 0;
+    const totalInvested = Money.parse(portfolio.totalInvested);
+    const totalProfit = Money.parse(portfolio.totalProfit);
+    const totalAssets = totalInvested.plus(totalProfit);
 
     return {
       amount: totalAssets.toString(),
       returnAmount: totalProfit.toString(),
-      percentage: Math.round(percentage * 100) / 100, // Round to 2 decimals
+      percentage: totalProfit.percentageOf(totalInvested),
       userId: user.id,
       totalInvested: totalInvested.toString(),
       totalProfit: totalProfit.toString(),
@@ -107,20 +104,16 @@ export class UserDashboardService {
       });
     }
 
-    const totalInvested = BigInt(portfolio.totalInvested);
-    const totalProfit = BigInt(portfolio.totalProfit);
-    const totalAssets = totalInvested + totalProfit;
-    const cashBalance = BigInt(user.balance);
-
-    const percentageAmountAssets = totalInvested > BigInt(0)
-      ? (Number(totalProfit) / Number(totalInvested)) * 100
-      : 0;
+    const totalInvested = Money.parse(portfolio.totalInvested);
+    const totalProfit = Money.parse(portfolio.totalProfit);
+    const totalAssets = totalInvested.plus(totalProfit);
+    const cashBalance = Money.parse(user.balance);
 
     return {
       amountAssets: totalAssets.toString(),
       amountCash: cashBalance.toString(),
       returnAmountAssets: totalProfit.toString(),
-      percentageAmountAssets: Math.round(percentageAmountAssets * 100) / 100,
+      percentageAmountAssets: totalProfit.percentageOf(totalInvested),
       userId: user.id,
       walletAddress: user.walletAddress,
       totalInvested: totalInvested.toString(),
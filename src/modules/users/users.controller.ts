@@ -24,6 +24,7 @@ import { UpdateUserDto } from './dto/update-user.dto';
 import { UserResponseDto, PaginatedUserResponseDto } from './dto/user-response.dto';
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { Owns } from '../auth/decorators/owns.decorator';
 import { Public } from '../auth/decorators/public.decorator';
 import { ROLES } from '@prisma/client';
 
@@ -33,9 +34,10 @@ import { ROLES } from '@prisma/client';
 export class UsersController {
   constructor(private readonly usersService: UsersService) {}
 
+  @Roles(ROLES.ADMIN)
   @Post()
   @ApiOperation({
-    summary: 'Create a new user',
+    summary: 'Create a new user (Admin only)',
     description: 'Register a new user with wallet address and role (auto-created on login)',
   })
   @ApiResponse({
@@ -80,9 +82,10 @@ export class UsersController {
     return this.usersService.findAll(pagination);
   }
 
+  @Owns({ resource: 'user', key: 'id' })
   @Get(':id')
   @ApiOperation({
-    summary: 'Get user by ID',
+    summary: 'Get user by ID (owner, Staff or Admin)',
     description: 'Retrieve a single user by their UUID',
   })
   @ApiParam({
@@ -103,9 +106,10 @@ export class UsersController {
     return this.usersService.findOne(id);
   }
 
+  @Roles(ROLES.ADMIN)
   @Patch(':id')
   @ApiOperation({
-    summary: 'Update user',
+    summary: 'Update user role (Admin only)',
     description: 'Update user role (users can update their own data, admin can update anyone)',
   })
   @ApiParam({
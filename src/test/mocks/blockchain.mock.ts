@@ -16,6 +16,25 @@ export const mockTransactionResult = {
   effectiveGasPrice: BigInt(1000000000),
 };
 
+export const mockUnsignedTransaction = {
+  to: '0xContractAddress',
+  from: '0xInvestorAddress',
+  data: '0xencodeddata',
+  value: '0',
+  chainId: 4202,
+  caipChainId: 'eip155:4202',
+  gasLimit: '120000',
+  gasEstimateError: null,
+};
+
+export const mockSignedTransactionRecord = {
+  id: 'blockchain-tx-1',
+  transactionHash: '0x8f3c1e6b2a4d5f7e9c0b1a2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f',
+  status: 'PENDING',
+  blockNumber: null,
+  fromAddress: '0xInvestorAddress',
+};
+
 export const mockStomaTradeContractService = {
   onModuleInit: jest.fn(),
   getContract: jest.fn().mockReturnValue({
@@ -30,9 +49,30 @@ export const mockStomaTradeContractService = {
   }),
   getContractAddress: jest.fn().mockReturnValue('0xContractAddress'),
   getstomatradeAddress: jest.fn().mockReturnValue('0xContractAddress'),
+  getAppProject: jest.fn().mockReturnValue({
+    id: 'app-project-1',
+    name: 'StomaTrade',
+    chainId: 'eip155:4202',
+    contractAddress: '0xContractAddress',
+    explorerUrl: 'https://sepolia-blockscout.lisk.com',
+    isDefault: true,
+  }),
+  resolveContract: jest.fn(),
+  getDeployment: jest.fn().mockResolvedValue({
+    id: 'app-project-1',
+    name: 'StomaTrade',
+    chainId: 'eip155:4202',
+    contractAddress: '0xContractAddress',
+    explorerUrl: 'https://sepolia-blockscout.lisk.com',
+    isDefault: true,
+    settlementTokenAddress: null,
+  }),
   getSignerAddress: jest.fn().mockReturnValue('0xPlatformWalletAddress'),
   getCreateProjectCalldata: jest.fn().mockReturnValue('0xencodeddata'),
   getMintFarmerCalldata: jest.fn().mockReturnValue('0xencodeddata'),
+  simulateCreateProject: jest.fn().mockResolvedValue(undefined),
+  simulateAddFarmer: jest.fn().mockResolvedValue(undefined),
+  simulateInvest: jest.fn().mockResolvedValue(undefined),
   createProject: jest.fn().mockResolvedValue(mockTransactionResult),
   mintFarmerNFT: jest.fn().mockResolvedValue(mockTransactionResult),
   addFarmer: jest.fn().mockResolvedValue(mockTransactionResult),
@@ -85,11 +125,27 @@ export const mockStomaTradeContractService = {
   getProfitPool: jest.fn().mockResolvedValue(BigInt(10000)),
   getClaimedProfit: jest.fn().mockResolvedValue(BigInt(5000)),
   getTokenURI: jest.fn().mockResolvedValue('ipfs://QmTestCid'),
+  getTokenOwner: jest.fn().mockResolvedValue('0x1234567890123456789012345678901234567890'),
+  // Investor-signed transactions
+  buildInvestTransaction: jest.fn().mockResolvedValue(mockUnsignedTransaction),
+  buildClaimWithdrawTransaction: jest.fn().mockResolvedValue(mockUnsignedTransaction),
+  buildClaimRefundTransaction: jest.fn().mockResolvedValue(mockUnsignedTransaction),
+  registerSignedTransaction: jest.fn().mockResolvedValue(mockSignedTransactionRecord),
   parseEventLogs: jest.fn().mockReturnValue([]),
   getEventFromReceipt: jest.fn().mockReturnValue({
     topics: ['0xtopic1'],
     data: '0xdata',
   }),
+  parseEventFromReceipt: jest.fn().mockResolvedValue(null),
+  getAbiVersion: jest.fn().mockReturnValue({
+    chainId: 'eip155:4202',
+    contractAddress: '0xcontractaddress',
+    version: 1,
+    abi: [],
+    eventNames: {},
+    createdAt: null,
+  }),
+  getEventName: jest.fn((eventName: string) => eventName),
 };
 
 export const mockEthersProviderService = {
@@ -104,6 +160,15 @@ export const mockEthersProviderService = {
     }),
   }),
   getChainId: jest.fn().mockReturnValue(4202),
+  getCaipChainId: jest.fn().mockReturnValue('eip155:4202'),
+  getProviderForChain: jest.fn(),
+  getFeeData: jest.fn().mockResolvedValue({
+    gasPrice: BigInt(1000000000),
+    maxFeePerGas: BigInt(2000000000),
+    maxPriorityFeePerGas: BigInt(1000000000),
+  }),
+  reload: jest.fn(),
+  getRpcHealth: jest.fn().mockReturnValue([]),
   getBlockNumber: jest.fn().mockResolvedValue(12345678),
   getGasPrice: jest.fn().mockResolvedValue(BigInt(1000000000)),
   estimateGas: jest.fn().mockResolvedValue(BigInt(21000)),
@@ -127,6 +192,8 @@ export const mockPlatformWalletService = {
     },
   }),
   getAddress: jest.fn().mockReturnValue('0xPlatformWalletAddress'),
+  getWalletForChain: jest.fn(),
+  reload: jest.fn(),
   getBalance: jest.fn().mockResolvedValue(BigInt(1000000000000000000)),
   getNonce: jest.fn().mockResolvedValue(1),
   signMessage: jest.fn().mockResolvedValue('0xSignedMessage'),
@@ -137,7 +204,43 @@ export const mockPlatformWalletService = {
 export const mockTransactionService = {
   sendTransaction: jest.fn().mockResolvedValue(mockTransactionResult),
   executeContractMethod: jest.fn().mockResolvedValue(mockTransactionResult),
+  simulateContractMethod: jest.fn().mockResolvedValue(undefined),
   callContractMethod: jest.fn(),
+  recordInitiatedTransaction: jest.fn(),
+};
+
+export const mockTransactionWatcherService = {
+  checkPendingTransactions: jest.fn().mockResolvedValue({ checked: 0, confirmed: 0, failed: 0 }),
+  checkTransaction: jest.fn((tx) => Promise.resolve(tx)),
+};
+
+export const mockInvestIntentService = {
+  buildTypedData: jest.fn(),
+  recoverSigner: jest.fn(),
+  getChainId: jest.fn().mockReturnValue('eip155:4202'),
+};
+
+export const mockSettlementToken = {
+  address: '0xTokenAddress',
+  name: 'Rupiah Token',
+  symbol: 'IDRT',
+  decimals: 18,
+  chainId: 'eip155:4202',
+  spender: '0xContractAddress',
+};
+
+export const mockSettlementTokenService = {
+  getTokenAddress: jest.fn().mockResolvedValue(null),
+  getToken: jest.fn().mockResolvedValue(null),
+  checkFunding: jest.fn(),
+  buildApproveTransaction: jest.fn().mockResolvedValue(mockUnsignedTransaction),
+  buildPermitTypedData: jest.fn().mockResolvedValue(null),
+  relayPermit: jest.fn().mockResolvedValue(mockTransactionResult),
+};
+
+export const mockNftMetadataGeneratorService = {
+  generateFarmerMetadata: jest.fn().mockResolvedValue({ cid: 'bafkreimetadatacid', document: {} }),
+  generateProjectMetadata: jest.fn().mockResolvedValue({ cid: 'bafkreimetadatacid', document: {} }),
 };
 
 export const mockBlockchainEventService = {
@@ -145,7 +248,9 @@ export const mockBlockchainEventService = {
   startListening: jest.fn(),
   stopListening: jest.fn(),
   queryPastEvents: jest.fn().mockResolvedValue([]),
+  querySyncedEvents: jest.fn().mockResolvedValue([]),
   syncEventsFromBlock: jest.fn(),
+  processEvent: jest.fn().mockResolvedValue(true),
 };
 
 export const createMockBlockchainServices = () => ({
@@ -71,6 +71,7 @@ export const mockPrismaService = {
     findUnique: jest.fn(),
     findFirst: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
     delete: jest.fn(),
     count: jest.fn(),
   },
@@ -80,6 +81,7 @@ export const mockPrismaService = {
     findUnique: jest.fn(),
     findFirst: jest.fn(),
     update: jest.fn(),
+    upsert: jest.fn(),
     delete: jest.fn(),
     count: jest.fn(),
   },
@@ -89,6 +91,7 @@ export const mockPrismaService = {
     findUnique: jest.fn(),
     findFirst: jest.fn(),
     update: jest.fn(),
+    upsert: jest.fn(),
     delete: jest.fn(),
     count: jest.fn(),
   },
@@ -107,6 +110,7 @@ export const mockPrismaService = {
     findUnique: jest.fn(),
     findFirst: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
     delete: jest.fn(),
     count: jest.fn(),
   },
@@ -116,6 +120,7 @@ export const mockPrismaService = {
     findUnique: jest.fn(),
     findFirst: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
     delete: jest.fn(),
     count: jest.fn(),
   },
@@ -125,9 +130,16 @@ export const mockPrismaService = {
     findUnique: jest.fn(),
     findFirst: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
     delete: jest.fn(),
     count: jest.fn(),
   },
+  investmentIntent: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    update: jest.fn(),
+  },
   investmentPortfolio: {
     create: jest.fn(),
     findMany: jest.fn(),
@@ -153,6 +165,7 @@ export const mockPrismaService = {
     findUnique: jest.fn(),
     findFirst: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
     delete: jest.fn(),
     count: jest.fn(),
   },
@@ -163,9 +176,53 @@ export const mockPrismaService = {
     findFirst: jest.fn(),
     update: jest.fn(),
     updateMany: jest.fn(),
+    upsert: jest.fn(),
+    delete: jest.fn(),
+    count: jest.fn(),
+  },
+  blockchainEvent: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    delete: jest.fn(),
+    deleteMany: jest.fn(),
+    count: jest.fn(),
+  },
+  nftMetadata: {
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    upsert: jest.fn(),
+    updateMany: jest.fn(),
+    count: jest.fn(),
+  },
+  syncCheckpoint: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    update: jest.fn(),
+    upsert: jest.fn(),
+    updateMany: jest.fn(),
     delete: jest.fn(),
     count: jest.fn(),
   },
+  syncJob: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    count: jest.fn(),
+  },
+  walletBalanceSnapshot: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    count: jest.fn(),
+  },
   nonce: {
     create: jest.fn(),
     findMany: jest.fn(),
@@ -182,9 +239,28 @@ export const mockPrismaService = {
     findUnique: jest.fn(),
     findFirst: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
     delete: jest.fn(),
     count: jest.fn(),
   },
+  contractAbi: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+  },
+  authSession: {
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  refreshToken: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
   domain: {
     create: jest.fn(),
     findMany: jest.fn(),
@@ -196,6 +272,13 @@ export const mockPrismaService = {
   },
   $connect: jest.fn(),
   $disconnect: jest.fn(),
+  // Batches resolve together; interactive transactions run on this mock
+  $transaction: jest.fn(
+    (
+      arg: Promise<unknown>[] | ((tx: unknown) => Promise<unknown>),
+    ): Promise<unknown> =>
+      typeof arg === 'function' ? arg(mockPrismaService) : Promise.all(arg),
+  ),
 };
 
 export const createMockPrismaService = () => {